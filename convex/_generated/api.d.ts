@@ -8,6 +8,7 @@
  * @module
  */
 
+import type * as agentLogs from "../agentLogs.js";
 import type * as apps from "../apps.js";
 import type * as chat from "../chat.js";
 import type * as desktops from "../desktops.js";
@@ -18,6 +19,8 @@ import type * as media from "../media.js";
 import type * as messages from "../messages.js";
 import type * as metrics from "../metrics.js";
 import type * as r2 from "../r2.js";
+import type * as semver from "../semver.js";
+import type * as usage from "../usage.js";
 
 import type {
   ApiFromModules,
@@ -34,6 +37,7 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  agentLogs: typeof agentLogs;
   apps: typeof apps;
   chat: typeof chat;
   desktops: typeof desktops;
@@ -44,6 +48,8 @@ declare const fullApi: ApiFromModules<{
   messages: typeof messages;
   metrics: typeof metrics;
   r2: typeof r2;
+  semver: typeof semver;
+  usage: typeof usage;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
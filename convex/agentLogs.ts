@@ -0,0 +1,119 @@
+import { query, mutation } from "./_generated/server";
+import type { UserIdentity } from "convex/server";
+import { v } from "convex/values";
+
+const logType = v.union(
+  v.literal("message"),
+  v.literal("tool_call"),
+  v.literal("token_usage"),
+  v.literal("error"),
+);
+
+const MAX_LIST_LIMIT = 5000;
+const DELETE_BATCH_SIZE = 500;
+
+function getOwnerId(identity: UserIdentity): string {
+  return identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+}
+
+export const append = mutation({
+  args: {
+    sessionId: v.string(),
+    type: logType,
+    toolName: v.optional(v.string()),
+    data: v.any(),
+    createdAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = getOwnerId(identity);
+    return await ctx.db.insert("agent_logs", {
+      ownerId,
+      sessionId: args.sessionId,
+      type: args.type,
+      toolName: args.toolName,
+      data: args.data,
+      createdAt: args.createdAt,
+    });
+  },
+});
+
+// Newest first; session and time range use the index, type/tool are filtered on read
+export const list = query({
+  args: {
+    sessionId: v.optional(v.string()),
+    type: v.optional(logType),
+    toolName: v.optional(v.string()),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = getOwnerId(identity);
+    const limit = Math.min(Math.max(1, args.limit ?? 100), MAX_LIST_LIMIT);
+    const from = args.from;
+    const to = args.to;
+
+    const base = args.sessionId
+      ? ctx.db
+          .query("agent_logs")
+          .withIndex("by_owner_session_createdAt", (q) => {
+            const eq = q.eq("ownerId", ownerId).eq("sessionId", args.sessionId as string);
+            if (from !== undefined && to !== undefined) return eq.gte("createdAt", from).lte("createdAt", to);
+            if (from !== undefined) return eq.gte("createdAt", from);
+            if (to !== undefined) return eq.lte("createdAt", to);
+            return eq;
+          })
+      : ctx.db
+          .query("agent_logs")
+          .withIndex("by_owner_createdAt", (q) => {
+            const eq = q.eq("ownerId", ownerId);
+            if (from !== undefined && to !== undefined) return eq.gte("createdAt", from).lte("createdAt", to);
+            if (from !== undefined) return eq.gte("createdAt", from);
+            if (to !== undefined) return eq.lte("createdAt", to);
+            return eq;
+          });
+
+    let filtered = base.order("desc");
+    if (args.type) {
+      const type = args.type;
+      filtered = filtered.filter((q) => q.eq(q.field("type"), type));
+    }
+    if (args.toolName) {
+      const toolName = args.toolName;
+      filtered = filtered.filter((q) => q.eq(q.field("toolName"), toolName));
+    }
+    return await filtered.take(limit);
+  },
+});
+
+// Deletes in batches to stay within mutation limits; callers loop while hasMore
+export const remove = mutation({
+  args: { sessionId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = getOwnerId(identity);
+
+    const rows = args.sessionId
+      ? await ctx.db
+          .query("agent_logs")
+          .withIndex("by_owner_session_createdAt", (q) =>
+            q.eq("ownerId", ownerId).eq("sessionId", args.sessionId as string),
+          )
+          .take(DELETE_BATCH_SIZE + 1)
+      : await ctx.db
+          .query("agent_logs")
+          .withIndex("by_owner_createdAt", (q) => q.eq("ownerId", ownerId))
+          .take(DELETE_BATCH_SIZE + 1);
+
+    const batch = rows.slice(0, DELETE_BATCH_SIZE);
+    for (const row of batch) {
+      await ctx.db.delete(row._id);
+    }
+    return { deleted: batch.length, hasMore: rows.length > DELETE_BATCH_SIZE };
+  },
+});
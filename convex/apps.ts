@@ -1,7 +1,143 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
 import r2 from "./r2";
 import { internal } from "./_generated/api";
+import { compareSemver, isValidSemver } from "./semver";
+import { safetyReportValidator } from "./schema";
+
+const MAX_CHANGELOG_CHARS = 4000;
+const MAX_TAGS = 8;
+const MAX_REVIEW_CHARS = 2000;
+
+const sortValidator = v.union(v.literal("recent"), v.literal("installs"), v.literal("rating"), v.literal("name"));
+
+// Lowercase, trimmed, de-duplicated tags ("Games " and "games" are one facet)
+function normalizeTags(tags: string[] | undefined): string[] {
+  const out: string[] = [];
+  for (const raw of tags ?? []) {
+    const tag = raw.trim().toLowerCase().replace(/\s+/g, "-").slice(0, 32);
+    if (tag && !out.includes(tag)) out.push(tag);
+    if (out.length >= MAX_TAGS) break;
+  }
+  return out;
+}
+
+const visibilityValidator = v.union(v.literal("public"), v.literal("unlisted"), v.literal("private"));
+
+function isListed(app: Doc<"apps_public">): boolean {
+  return (app.visibility ?? "public") === "public";
+}
+
+async function getCallerId(ctx: QueryCtx): Promise<string | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+  return identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+}
+
+// Unlisted apps are readable by anyone with the id; private apps only by their owner
+async function getReadableApp(ctx: QueryCtx, id: Id<"apps_public">) {
+  const app = await ctx.db.get(id);
+  if (!app) return null;
+  if (app.visibility === "private" && (await getCallerId(ctx)) !== app.ownerId) return null;
+  return app;
+}
+
+async function requireOwnedApp(ctx: MutationCtx, id: Id<"apps_public">) {
+  const callerId = await getCallerId(ctx);
+  if (!callerId) throw new Error("Unauthorized");
+  const app = await ctx.db.get(id);
+  if (!app) throw new Error("Not found");
+  if (app.ownerId !== callerId) throw new Error("Forbidden");
+  return app;
+}
+
+/**
+ * Recomputes the derived listing fields of an app (search text, sort-key
+ * defaults) and its app_tags / tag_counts rows. Call after any change to the
+ * app's name, description, tags, visibility, install count or rating.
+ */
+async function syncAppListing(ctx: MutationCtx, appRef: Id<"apps_public">) {
+  const app = await ctx.db.get(appRef);
+  const existingTags = await ctx.db
+    .query("app_tags")
+    .withIndex("by_app", (q) => q.eq("appRef", appRef))
+    .collect();
+
+  const adjustCount = async (tag: string, by: number) => {
+    const row = await ctx.db.query("tag_counts").withIndex("by_tag", (q) => q.eq("tag", tag)).first();
+    const count = (row?.count ?? 0) + by;
+    if (row && count <= 0) await ctx.db.delete(row._id);
+    else if (row) await ctx.db.patch(row._id, { count });
+    else if (count > 0) await ctx.db.insert("tag_counts", { tag, count });
+  };
+
+  if (!app) {
+    for (const row of existingTags) {
+      await ctx.db.delete(row._id);
+      await adjustCount(row.tag, -1);
+    }
+    return;
+  }
+
+  const searchText = [app.name, app.description ?? "", ...(app.tags ?? [])].join(" ");
+  const patch: Partial<Doc<"apps_public">> = {};
+  if (app.searchText !== searchText) patch.searchText = searchText;
+  if (app.visibility === undefined) patch.visibility = "public";
+  if (app.installCount === undefined) patch.installCount = 0;
+  if (app.ratingAvg === undefined) patch.ratingAvg = 0;
+  if (Object.keys(patch).length > 0) await ctx.db.patch(appRef, patch);
+
+  // Only public apps are browsable by tag
+  const wanted = isListed(app) ? normalizeTags(app.tags) : [];
+  const fields = { name: app.name, updatedAt: app.updatedAt, installCount: app.installCount ?? 0, ratingAvg: app.ratingAvg ?? 0, searchText };
+  for (const row of existingTags) {
+    if (!wanted.includes(row.tag)) {
+      await ctx.db.delete(row._id);
+      await adjustCount(row.tag, -1);
+    } else if (row.name !== fields.name || row.updatedAt !== fields.updatedAt || row.installCount !== fields.installCount || row.ratingAvg !== fields.ratingAvg || row.searchText !== fields.searchText) {
+      await ctx.db.patch(row._id, fields);
+    }
+  }
+  for (const tag of wanted) {
+    if (existingTags.some((row) => row.tag === tag)) continue;
+    await ctx.db.insert("app_tags", { appRef, tag, ...fields });
+    await adjustCount(tag, 1);
+  }
+}
+
+async function findOwnedApp(ctx: QueryCtx, ownerId: string, appId: string) {
+  return await ctx.db
+    .query("apps_public")
+    .withIndex("by_appId", (q) => q.eq("appId", appId))
+    .filter((q) => q.eq(q.field("ownerId"), ownerId))
+    .first();
+}
+
+// Highest version published so far; apps published before version history only have apps_public.version
+async function latestPublishedVersion(ctx: QueryCtx, app: Doc<"apps_public">): Promise<string | null> {
+  const rows = await ctx.db
+    .query("app_versions")
+    .withIndex("by_app", (q) => q.eq("appRef", app._id))
+    .collect();
+  const versions = [app.version, ...rows.map((row) => row.version)].filter(isValidSemver);
+  if (versions.length === 0) return null;
+  return versions.reduce((max, version) => (compareSemver(version, max) > 0 ? version : max));
+}
+
+async function assertNewerVersion(ctx: QueryCtx, ownerId: string, appId: string, version: string) {
+  if (!isValidSemver(version)) {
+    throw new Error(`Invalid version "${version}": expected semantic version like 1.2.3`);
+  }
+  const existing = await findOwnedApp(ctx, ownerId, appId);
+  if (!existing) return null;
+  const latest = await latestPublishedVersion(ctx, existing);
+  if (latest && compareSemver(version, latest) <= 0) {
+    throw new Error(`Version ${version} must be greater than the latest published version ${latest}`);
+  }
+  return existing;
+}
 
 // Start publish: returns signed PUT URL and proposed r2 key
 export const publishAppStart = mutation({
@@ -16,18 +152,22 @@ export const publishAppStart = mutation({
     if (!identity) throw new Error("Unauthorized");
     const ownerId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
 
+    // Fail before the upload rather than after it
+    await assertNewerVersion(ctx, ownerId, args.appId, args.version);
+
     const r2KeyTar = `apps/${ownerId}/${args.appId}/${args.version}/app.tar.gz`;
     const { url } = await r2.generateUploadUrl(r2KeyTar);
     return { url, r2KeyTar };
   },
 });
 
-// Finalize publish: upsert record
+// Finalize publish: record the version and point the listing at it
 export const publishAppFinalize = mutation({
   args: {
     appId: v.string(),
     name: v.string(),
     version: v.string(),
+    changelog: v.optional(v.string()),
     description: v.optional(v.string()),
     icon: v.optional(v.string()),
     tags: v.optional(v.array(v.string())),
@@ -35,107 +175,441 @@ export const publishAppFinalize = mutation({
     r2KeyTar: v.string(),
     manifestHash: v.optional(v.string()),
     depsHash: v.optional(v.string()),
-    visibility: v.optional(v.union(v.literal("public"), v.literal("unlisted"), v.literal("private"))),
+    visibility: v.optional(visibilityValidator),
+    // Server-side scan of the uploaded bundle, vouched for by the publish route's shared secret
+    safety: safetyReportValidator,
+    publishSecret: v.string(),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Unauthorized");
     const ownerId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+    // Only the publish route knows the secret, so a client can neither skip the scan nor forge its report
+    const publishSecret = process.env.APP_PUBLISH_SECRET;
+    if (!publishSecret || args.publishSecret !== publishSecret) throw new Error("Unauthorized");
+    if (args.safety.status === "block") throw new Error("Publish blocked by the safety scan");
     const now = Date.now();
+    const changelog = args.changelog?.trim().slice(0, MAX_CHANGELOG_CHARS) || undefined;
+    const tags = args.tags ? normalizeTags(args.tags) : undefined;
 
-    const existing = await ctx.db
-      .query("apps_public")
-      .withIndex("by_appId", (q) => q.eq("appId", args.appId))
-      .filter((q) => q.eq(q.field("ownerId"), ownerId))
-      .first();
+    const existing = await assertNewerVersion(ctx, ownerId, args.appId, args.version);
 
+    let appRef: Id<"apps_public">;
     if (existing) {
+      // Preserve the pre-history release so it stays installable by version
+      const previous = await ctx.db
+        .query("app_versions")
+        .withIndex("by_app_version", (q) => q.eq("appRef", existing._id).eq("version", existing.version))
+        .first();
+      if (!previous) {
+        await ctx.db.insert("app_versions", {
+          appRef: existing._id,
+          ownerId,
+          appId: existing.appId,
+          version: existing.version,
+          changelog: existing.changelog,
+          size: existing.size,
+          r2KeyTar: existing.r2KeyTar,
+          manifestHash: existing.manifestHash,
+          depsHash: existing.depsHash,
+          safety: existing.safety,
+          createdAt: existing.updatedAt,
+        });
+      }
       await ctx.db.patch(existing._id, {
         name: args.name,
         version: args.version,
+        changelog,
         description: args.description,
         icon: args.icon,
-        tags: args.tags,
+        tags,
         size: args.size,
         r2KeyTar: args.r2KeyTar,
         manifestHash: args.manifestHash,
         depsHash: args.depsHash,
+        safety: args.safety,
         visibility: args.visibility ?? existing.visibility,
         updatedAt: now,
       });
-      return existing._id;
+      appRef = existing._id;
+    } else {
+      appRef = await ctx.db.insert("apps_public", {
+        ownerId,
+        appId: args.appId,
+        name: args.name,
+        version: args.version,
+        changelog,
+        description: args.description,
+        icon: args.icon,
+        tags,
+        size: args.size,
+        r2KeyTar: args.r2KeyTar,
+        manifestHash: args.manifestHash,
+        depsHash: args.depsHash,
+        safety: args.safety,
+        visibility: args.visibility ?? "public",
+        installCount: 0,
+        ratingCount: 0,
+        ratingSum: 0,
+        ratingAvg: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
     }
 
-    const id = await ctx.db.insert("apps_public", {
+    await ctx.db.insert("app_versions", {
+      appRef,
       ownerId,
       appId: args.appId,
-      name: args.name,
       version: args.version,
-      description: args.description,
-      icon: args.icon,
-      tags: args.tags,
+      changelog,
       size: args.size,
       r2KeyTar: args.r2KeyTar,
       manifestHash: args.manifestHash,
       depsHash: args.depsHash,
-      visibility: args.visibility ?? "public",
+      safety: args.safety,
       createdAt: now,
-      updatedAt: now,
     });
+    await syncAppListing(ctx, appRef);
     // metrics
     try {
       await ctx.runMutation(internal.metrics.increment, { name: 'publish_apps', by: 1 });
     } catch {}
-    return id;
+    return appRef;
   },
 });
 
+// Latest version the signed-in user has published for appId (null if never published)
+export const getMyLatestAppVersion = query({
+  args: { appId: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+    const existing = await findOwnedApp(ctx, ownerId, args.appId);
+    return existing ? await latestPublishedVersion(ctx, existing) : null;
+  },
+});
+
+// Paginated store listing. `search` uses the full-text index (relevance order,
+// `sort` ignored); `tag` browses app_tags; otherwise public apps by `sort`.
 export const listApps = query({
   args: {
-    limit: v.optional(v.number()),
     search: v.optional(v.string()),
+    tag: v.optional(v.string()),
+    sort: v.optional(sortValidator),
     ownerId: v.optional(v.string()),
-    visibility: v.optional(v.string()),
+    cursor: v.optional(v.string()),
+    pageSize: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    let q = ctx.db.query("apps_public").withIndex("by_updatedAt");
+    const pageSize = Math.min(Math.max(args.pageSize ?? 24, 1), 100);
+    const paginationOpts = { cursor: args.cursor ?? null, numItems: pageSize };
+    const sort = args.sort ?? "recent";
+    const tag = args.tag ? normalizeTags([args.tag])[0] : undefined;
+    const search = args.search?.trim();
+
     if (args.ownerId) {
-      q = ctx.db.query("apps_public").withIndex("by_owner", (qq) =>
-        qq.eq("ownerId", args.ownerId as string)
-      );
-    }
-    const results = await q.collect();
-    const filtered = results.filter((doc) => {
-      if (args.visibility && doc.visibility !== args.visibility) return false;
-      if (args.search) {
-        const s = args.search.toLowerCase();
-        return (
-          doc.name.toLowerCase().includes(s) ||
-          (doc.description ?? "").toLowerCase().includes(s) ||
-          (doc.tags ?? []).some((t: string) => t.toLowerCase().includes(s))
-        );
-      }
-      return true;
-    });
-    return args.limit ? filtered.slice(0, args.limit) : filtered;
+      // Owners see their own unlisted/private apps too; everyone else only public ones
+      const ownerId = args.ownerId;
+      const isOwner = (await getCallerId(ctx)) === ownerId;
+      const owned = ctx.db.query("apps_public");
+      const result = await (isOwner
+        ? owned.withIndex("by_owner", (q) => q.eq("ownerId", ownerId))
+        : owned.withIndex("by_owner_visibility", (q) => q.eq("ownerId", ownerId).eq("visibility", "public"))
+      ).order("desc").paginate(paginationOpts);
+      return { page: result.page, isDone: result.isDone, continueCursor: result.continueCursor };
+    }
+
+    if (search && tag) {
+      // app_tags only holds public apps, so the tag filter runs inside the search index
+      const result = await ctx.db
+        .query("app_tags")
+        .withSearchIndex("search_text", (q) => q.search("searchText", search).eq("tag", tag))
+        .paginate(paginationOpts);
+      const apps = await Promise.all(result.page.map((row) => ctx.db.get(row.appRef)));
+      const page = apps.filter((app): app is Doc<"apps_public"> => !!app && isListed(app));
+      return { page, isDone: result.isDone, continueCursor: result.continueCursor };
+    }
+
+    if (search) {
+      const result = await ctx.db
+        .query("apps_public")
+        .withSearchIndex("search_text", (q) => q.search("searchText", search).eq("visibility", "public"))
+        .paginate(paginationOpts);
+      return { page: result.page, isDone: result.isDone, continueCursor: result.continueCursor };
+    }
+
+    if (tag) {
+      const tags = ctx.db.query("app_tags");
+      const ordered =
+        sort === "installs" ? tags.withIndex("by_tag_installCount", (q) => q.eq("tag", tag)).order("desc")
+        : sort === "rating" ? tags.withIndex("by_tag_ratingAvg", (q) => q.eq("tag", tag)).order("desc")
+        : sort === "name" ? tags.withIndex("by_tag_name", (q) => q.eq("tag", tag)).order("asc")
+        : tags.withIndex("by_tag_updatedAt", (q) => q.eq("tag", tag)).order("desc");
+      const result = await ordered.paginate(paginationOpts);
+      const apps = await Promise.all(result.page.map((row) => ctx.db.get(row.appRef)));
+      const page = apps.filter((app): app is Doc<"apps_public"> => !!app && isListed(app));
+      return { page, isDone: result.isDone, continueCursor: result.continueCursor };
+    }
+
+    const apps = ctx.db.query("apps_public");
+    const ordered =
+      sort === "installs" ? apps.withIndex("by_visibility_installCount", (q) => q.eq("visibility", "public")).order("desc")
+      : sort === "rating" ? apps.withIndex("by_visibility_ratingAvg", (q) => q.eq("visibility", "public")).order("desc")
+      : sort === "name" ? apps.withIndex("by_visibility_name", (q) => q.eq("visibility", "public")).order("asc")
+      : apps.withIndex("by_visibility_updatedAt", (q) => q.eq("visibility", "public")).order("desc");
+    const result = await ordered.paginate(paginationOpts);
+    return { page: result.page, isDone: result.isDone, continueCursor: result.continueCursor };
+  },
+});
+
+// Listings for specific store ids (update checks for installed apps)
+export const getAppsByIds = query({
+  args: { ids: v.array(v.id("apps_public")) },
+  handler: async (ctx, args) => {
+    const apps = await Promise.all(args.ids.slice(0, 100).map((id) => getReadableApp(ctx, id)));
+    return apps.filter((app): app is Doc<"apps_public"> => !!app);
+  },
+});
+
+export const listTagFacets = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const limit = Math.min(Math.max(args.limit ?? 20, 1), 100);
+    const rows = await ctx.db.query("tag_counts").withIndex("by_count").order("desc").take(limit);
+    return rows.map((row) => ({ tag: row.tag, count: row.count }));
+  },
+});
+
+// One install per user per app; re-installs only update the recorded version
+export const recordAppInstall = mutation({
+  args: { id: v.id("apps_public"), version: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const userId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+    const app = await getReadableApp(ctx, args.id);
+    if (!app) throw new Error("Not found");
+
+    const existing = await ctx.db
+      .query("installs")
+      .withIndex("by_user_target", (q) => q.eq("userId", userId).eq("targetType", "app").eq("targetId", args.id))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { version: args.version, installedAt: Date.now() });
+      return { installCount: app.installCount ?? 0, firstInstall: false };
+    }
+
+    await ctx.db.insert("installs", { userId, targetType: "app", targetId: args.id, version: args.version, installedAt: Date.now() });
+    const installCount = (app.installCount ?? 0) + 1;
+    await ctx.db.patch(app._id, { installCount });
+    await syncAppListing(ctx, app._id);
+    try {
+      await ctx.runMutation(internal.metrics.increment, { name: 'installs', by: 1 });
+    } catch {}
+    return { installCount, firstInstall: true };
+  },
+});
+
+// Creates or replaces the caller's rating for an app
+export const rateApp = mutation({
+  args: { id: v.id("apps_public"), rating: v.number(), review: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const userId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+    if (!Number.isInteger(args.rating) || args.rating < 1 || args.rating > 5) {
+      throw new Error("Rating must be a whole number from 1 to 5");
+    }
+    const app = await getReadableApp(ctx, args.id);
+    if (!app) throw new Error("Not found");
+    if (app.ownerId === userId) throw new Error("You cannot rate your own app");
+
+    const now = Date.now();
+    const review = args.review?.trim().slice(0, MAX_REVIEW_CHARS) || undefined;
+    const existing = await ctx.db
+      .query("ratings")
+      .withIndex("by_app_user", (q) => q.eq("appRef", app._id).eq("userId", userId))
+      .first();
+
+    let ratingSum = app.ratingSum ?? 0;
+    let ratingCount = app.ratingCount ?? 0;
+    if (existing) {
+      ratingSum += args.rating - existing.rating;
+      await ctx.db.patch(existing._id, { rating: args.rating, review, updatedAt: now });
+    } else {
+      ratingSum += args.rating;
+      ratingCount += 1;
+      await ctx.db.insert("ratings", { appRef: app._id, userId, rating: args.rating, review, createdAt: now, updatedAt: now });
+    }
+    const ratingAvg = ratingCount > 0 ? Math.round((ratingSum / ratingCount) * 100) / 100 : 0;
+    await ctx.db.patch(app._id, { ratingSum, ratingCount, ratingAvg });
+    await syncAppListing(ctx, app._id);
+    return { ratingAvg, ratingCount };
+  },
+});
+
+// Newest reviews first, with the reviewer's nickname when they have a profile
+export const listRatings = query({
+  args: { id: v.id("apps_public"), cursor: v.optional(v.string()), pageSize: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const app = await getReadableApp(ctx, args.id);
+    if (!app) throw new Error("Not found");
+    const pageSize = Math.min(Math.max(args.pageSize ?? 20, 1), 100);
+    const result = await ctx.db
+      .query("ratings")
+      .withIndex("by_app_updatedAt", (q) => q.eq("appRef", args.id))
+      .order("desc")
+      .paginate({ cursor: args.cursor ?? null, numItems: pageSize });
+
+    const callerId = await getCallerId(ctx);
+    const page = await Promise.all(result.page.map(async (row) => {
+      const profile = await ctx.db.query("profiles").withIndex("by_owner", (q) => q.eq("ownerId", row.userId)).first();
+      return {
+        rating: row.rating,
+        review: row.review,
+        author: profile?.nickname ?? "Anonymous",
+        mine: row.userId === callerId,
+        updatedAt: row.updatedAt,
+      };
+    }));
+    return { page, isDone: result.isDone, continueCursor: result.continueCursor };
+  },
+});
+
+export const getMyRating = query({
+  args: { id: v.id("apps_public") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return null;
+    const userId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+    const row = await ctx.db
+      .query("ratings")
+      .withIndex("by_app_user", (q) => q.eq("appRef", args.id).eq("userId", userId))
+      .first();
+    return row ? { rating: row.rating, review: row.review } : null;
+  },
+});
+
+// One-off: fills listing fields and tag rows for apps published before they existed.
+// Run from the Convex dashboard; it reschedules itself until every app is processed.
+export const backfillAppListings = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db.query("apps_public").paginate({ cursor: args.cursor ?? null, numItems: 100 });
+    for (const app of result.page) {
+      const tags = app.tags ? normalizeTags(app.tags) : undefined;
+      if (tags && tags.join(",") !== app.tags!.join(",")) await ctx.db.patch(app._id, { tags });
+      await syncAppListing(ctx, app._id);
+    }
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.apps.backfillAppListings, { cursor: result.continueCursor });
+    }
+    return { processed: result.page.length, isDone: result.isDone };
   },
 });
 
 export const getApp = query({
   args: { id: v.id("apps_public") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    return await getReadableApp(ctx, args.id);
+  },
+});
+
+// Owner only. Unlisting or making private removes the app from browse, search and tag facets.
+export const setAppVisibility = mutation({
+  args: { id: v.id("apps_public"), visibility: visibilityValidator },
+  handler: async (ctx, args) => {
+    const app = await requireOwnedApp(ctx, args.id);
+    if (app.visibility !== args.visibility) {
+      await ctx.db.patch(app._id, { visibility: args.visibility, updatedAt: Date.now() });
+      await syncAppListing(ctx, app._id);
+    }
+    return { visibility: args.visibility };
+  },
+});
+
+// Owner only. Deletes the listing, its version history and ratings, and every stored bundle.
+export const unpublishApp = mutation({
+  args: { id: v.id("apps_public") },
+  handler: async (ctx, args) => {
+    const app = await requireOwnedApp(ctx, args.id);
+    const versions = await ctx.db
+      .query("app_versions")
+      .withIndex("by_app", (q) => q.eq("appRef", app._id))
+      .collect();
+    const ratings = await ctx.db
+      .query("ratings")
+      .withIndex("by_app_updatedAt", (q) => q.eq("appRef", app._id))
+      .collect();
+    const r2Keys = new Set([app.r2KeyTar, ...versions.map((row) => row.r2KeyTar)]);
+
+    for (const row of versions) await ctx.db.delete(row._id);
+    for (const row of ratings) await ctx.db.delete(row._id);
+    await ctx.db.delete(app._id);
+    // Drops the app's tag rows and facet counts now that the listing is gone
+    await syncAppListing(ctx, app._id);
+
+    for (const key of r2Keys) {
+      try {
+        await r2.deleteObject(ctx, key);
+      } catch {}
+    }
+    return { deletedVersions: versions.length, deletedObjects: r2Keys.size };
+  },
+});
+
+// Newest first; the listing row stands in for apps published before version history existed
+export const listAppVersions = query({
+  args: { id: v.id("apps_public") },
+  handler: async (ctx, args) => {
+    const app = await getReadableApp(ctx, args.id);
+    if (!app) throw new Error("Not found");
+    const rows = await ctx.db
+      .query("app_versions")
+      .withIndex("by_app", (q) => q.eq("appRef", app._id))
+      .collect();
+    const versions = rows.map((row) => ({
+      version: row.version,
+      changelog: row.changelog,
+      size: row.size,
+      safetyStatus: row.safety?.status,
+      createdAt: row.createdAt,
+    }));
+    if (!rows.some((row) => row.version === app.version)) {
+      versions.push({ version: app.version, changelog: app.changelog, size: app.size, safetyStatus: app.safety?.status, createdAt: app.updatedAt });
+    }
+    return versions.sort((a, b) =>
+      isValidSemver(a.version) && isValidSemver(b.version)
+        ? compareSemver(b.version, a.version)
+        : b.createdAt - a.createdAt
+    );
   },
 });
 
 export const getAppBundleUrl = query({
-  args: { id: v.id("apps_public"), expiresIn: v.optional(v.number()) },
+  args: { id: v.id("apps_public"), version: v.optional(v.string()), expiresIn: v.optional(v.number()) },
   handler: async (ctx, args) => {
-    const app = await ctx.db.get(args.id);
+    // Private apps report "Not found" to everyone but the owner
+    const app = await getReadableApp(ctx, args.id);
     if (!app) throw new Error("Not found");
+    let r2KeyTar = app.r2KeyTar;
+    let version = app.version;
+    let manifestHash = app.manifestHash;
+    if (args.version && args.version !== app.version) {
+      const pinned = await ctx.db
+        .query("app_versions")
+        .withIndex("by_app_version", (q) => q.eq("appRef", app._id).eq("version", args.version as string))
+        .first();
+      if (!pinned) throw new Error(`Version ${args.version} not found`);
+      r2KeyTar = pinned.r2KeyTar;
+      version = pinned.version;
+      manifestHash = pinned.manifestHash;
+    }
     // Default TTL 15 min if not provided
     const ttl = args.expiresIn ?? 900;
-    return await r2.getUrl(app.r2KeyTar, { expiresIn: ttl });
+    const url = await r2.getUrl(r2KeyTar, { expiresIn: ttl });
+    return { url, version, manifestHash: manifestHash ?? null, visibility: app.visibility ?? "public" };
   },
 });
-
@@ -26,8 +26,10 @@ function getOwnerId(identity: UserIdentity): string {
   return identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
 }
 
+const modelProfile = v.union(v.literal("fast"), v.literal("smart"), v.literal("cheap"));
+
 export const createThread = mutation({
-  args: { title: v.optional(v.string()) },
+  args: { title: v.optional(v.string()), modelProfile: v.optional(modelProfile) },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Unauthorized");
@@ -39,6 +41,7 @@ export const createThread = mutation({
       createdAt: now,
       updatedAt: now,
       lastMessageAt: now,
+      modelProfile: args.modelProfile,
     });
     return id;
   },
@@ -147,6 +150,52 @@ export const renameThread = mutation({
   },
 });
 
+export const getThread = query({
+  args: { threadId: v.id("chat_threads") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = getOwnerId(identity);
+    const thread = await ctx.db.get(args.threadId);
+    if (!thread || thread.ownerId !== ownerId) throw new Error("Not found");
+    return thread;
+  },
+});
+
+export const setThreadModelProfile = mutation({
+  args: { threadId: v.id("chat_threads"), modelProfile },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = getOwnerId(identity);
+    const thread = await ctx.db.get(args.threadId);
+    if (!thread || thread.ownerId !== ownerId) throw new Error("Not found");
+    await ctx.db.patch(args.threadId, { modelProfile: args.modelProfile });
+    return true;
+  },
+});
+
+export const setThreadSummary = mutation({
+  args: {
+    threadId: v.id("chat_threads"),
+    summary: v.string(),
+    summaryThroughHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = getOwnerId(identity);
+    const thread = await ctx.db.get(args.threadId);
+    if (!thread || thread.ownerId !== ownerId) throw new Error("Not found");
+    await ctx.db.patch(args.threadId, {
+      summary: args.summary,
+      summaryThroughHash: args.summaryThroughHash,
+      summaryUpdatedAt: Date.now(),
+    });
+    return true;
+  },
+});
+
 export const deleteThread = mutation({
   args: { threadId: v.id("chat_threads") },
   handler: async (ctx, args) => {
@@ -1,8 +1,35 @@
 import { query, mutation } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
 import r2 from "./r2";
 import { internal } from "./_generated/api";
 
+const visibilityValidator = v.union(v.literal("public"), v.literal("unlisted"), v.literal("private"));
+
+async function getCallerId(ctx: QueryCtx): Promise<string | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+  return identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+}
+
+// Unlisted desktops are readable by anyone with the id; private desktops only by their owner
+async function getReadableDesktop(ctx: QueryCtx, id: Id<"desktops_public">) {
+  const desktop = await ctx.db.get(id);
+  if (!desktop) return null;
+  if (desktop.visibility === "private" && (await getCallerId(ctx)) !== desktop.ownerId) return null;
+  return desktop;
+}
+
+async function requireOwnedDesktop(ctx: MutationCtx, id: Id<"desktops_public">) {
+  const callerId = await getCallerId(ctx);
+  if (!callerId) throw new Error("Unauthorized");
+  const desktop = await ctx.db.get(id);
+  if (!desktop) throw new Error("Not found");
+  if (desktop.ownerId !== callerId) throw new Error("Forbidden");
+  return desktop;
+}
+
 // Start publish: returns signed PUT URL and proposed r2 key
 export const publishDesktopStart = mutation({
   args: {
@@ -34,7 +61,7 @@ export const publishDesktopFinalize = mutation({
     r2KeySnapshot: v.string(),
     manifestHash: v.optional(v.string()),
     lockfileHash: v.optional(v.string()),
-    visibility: v.optional(v.union(v.literal("public"), v.literal("unlisted"), v.literal("private"))),
+    visibility: v.optional(visibilityValidator),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -99,7 +126,10 @@ export const listDesktops = query({
       );
     }
     const results = await q.collect();
+    const callerId = await getCallerId(ctx);
     const filtered = results.filter((doc) => {
+      // Only public desktops are listed, except to their owner
+      if ((doc.visibility ?? "public") !== "public" && doc.ownerId !== callerId) return false;
       if (args.visibility && doc.visibility !== args.visibility) return false;
       if (args.search) {
         const s = args.search.toLowerCase();
@@ -117,17 +147,45 @@ export const listDesktops = query({
 export const getDesktop = query({
   args: { id: v.id("desktops_public") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    return await getReadableDesktop(ctx, args.id);
   },
 });
 
 export const getDesktopSnapshotUrl = query({
   args: { id: v.id("desktops_public"), expiresIn: v.optional(v.number()) },
   handler: async (ctx, args) => {
-    const desktop = await ctx.db.get(args.id);
+    // Private desktops report "Not found" to everyone but the owner
+    const desktop = await getReadableDesktop(ctx, args.id);
     if (!desktop) throw new Error("Not found");
     const ttl = args.expiresIn ?? 900;
-    return await r2.getUrl(desktop.r2KeySnapshot, { expiresIn: ttl });
+    const url = await r2.getUrl(desktop.r2KeySnapshot, { expiresIn: ttl });
+    return { url, visibility: desktop.visibility ?? "public" };
+  },
+});
+
+// Owner only
+export const setDesktopVisibility = mutation({
+  args: { id: v.id("desktops_public"), visibility: visibilityValidator },
+  handler: async (ctx, args) => {
+    const desktop = await requireOwnedDesktop(ctx, args.id);
+    if (desktop.visibility !== args.visibility) {
+      await ctx.db.patch(desktop._id, { visibility: args.visibility, updatedAt: Date.now() });
+    }
+    return { visibility: args.visibility };
+  },
+});
+
+// Owner only. Deletes the record and its current snapshot; snapshots of earlier
+// versions were already replaced in the record and are not tracked.
+export const unpublishDesktop = mutation({
+  args: { id: v.id("desktops_public") },
+  handler: async (ctx, args) => {
+    const desktop = await requireOwnedDesktop(ctx, args.id);
+    await ctx.db.delete(desktop._id);
+    try {
+      await r2.deleteObject(ctx, desktop.r2KeySnapshot);
+    } catch {}
+    return { deletedObjects: 1 };
   },
 });
 
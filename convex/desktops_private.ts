@@ -1,6 +1,7 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation } from "./_generated/server";
 import { v } from "convex/values";
 import r2 from "./r2";
+import { internal } from "./_generated/api";
 
 // Start save: returns signed PUT URL and proposed r2 key for private desktop snapshot
 export const saveDesktopStart = mutation({
@@ -135,3 +136,276 @@ export const listMyDesktops = query({
     return args.limit ? sorted.slice(0, args.limit) : sorted;
   },
 });
+
+// ---------------------------------------------------------------------------
+// File-level sync. File contents live in R2 addressed by sha256 under the
+// owner's prefix; desktop_sync_files tracks the latest hash per path. Devices
+// pull rows newer than their last synced revision and push their own changes
+// against it. A path another device changed after that revision is reported
+// back as stale instead of being overwritten.
+
+const MAX_SYNC_CHANGES = 200;
+const MAX_SYNC_HASHES = 100;
+const HASH_RE = /^[0-9a-f]{64}$/;
+// Unreferenced blobs are deleted after this grace period, so a device that
+// skipped uploading a hash the cloud still had can commit it in the meantime
+const SYNC_BLOB_GC_DELAY_MS = 10 * 60_000;
+
+function syncBlobKey(ownerId: string, desktopId: string, hash: string) {
+  return `desktops/private/${ownerId}/${desktopId}/files/${hash}`;
+}
+
+function isSafeSyncPath(path: string) {
+  return (
+    path.length > 0 &&
+    path.length <= 512 &&
+    !path.startsWith("/") &&
+    !path.includes("\\") &&
+    !path.includes("\0") &&
+    path.split("/").every((segment) => segment !== "" && segment !== "." && segment !== "..")
+  );
+}
+
+function assertHashes(hashes: string[]) {
+  if (hashes.length > MAX_SYNC_HASHES) throw new Error(`At most ${MAX_SYNC_HASHES} hashes per request`);
+  for (const hash of hashes) {
+    if (!HASH_RE.test(hash)) throw new Error("Invalid content hash");
+  }
+}
+
+export const getSyncInfo = query({
+  args: { desktopId: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+
+    const state = await ctx.db
+      .query("desktop_sync")
+      .withIndex("by_owner_desktop", (q) => q.eq("ownerId", ownerId).eq("desktopId", args.desktopId))
+      .first();
+    // Whole-snapshot saves from before file-level sync, used to seed it
+    const legacy = await ctx.db
+      .query("desktops_private")
+      .withIndex("by_desktopId", (q) => q.eq("desktopId", args.desktopId))
+      .filter((q) => q.eq(q.field("ownerId"), ownerId))
+      .first();
+    const devices = await ctx.db
+      .query("desktop_sync_devices")
+      .withIndex("by_owner_desktop_device", (q) => q.eq("ownerId", ownerId).eq("desktopId", args.desktopId))
+      .collect();
+
+    return {
+      revision: state?.revision ?? 0,
+      updatedAt: state?.updatedAt ?? null,
+      legacySnapshotId: legacy?._id ?? null,
+      devices: devices
+        .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+        .map((d) => ({ deviceId: d.deviceId, label: d.label, lastSyncedRevision: d.lastSyncedRevision, lastSeenAt: d.lastSeenAt })),
+    };
+  },
+});
+
+// Paginated file rows changed after `sinceRevision`, oldest first
+export const listSyncChanges = query({
+  args: {
+    desktopId: v.string(),
+    sinceRevision: v.number(),
+    cursor: v.optional(v.string()),
+    pageSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+
+    const pageSize = Math.min(Math.max(args.pageSize ?? 500, 1), 1000);
+    const result = await ctx.db
+      .query("desktop_sync_files")
+      .withIndex("by_owner_desktop_revision", (q) =>
+        q.eq("ownerId", ownerId).eq("desktopId", args.desktopId).gt("revision", args.sinceRevision),
+      )
+      .paginate({ cursor: args.cursor ?? null, numItems: pageSize });
+    return {
+      changes: result.page.map((row) => ({ path: row.path, hash: row.hash ?? null, size: row.size ?? null, revision: row.revision })),
+      isDone: result.isDone,
+      continueCursor: result.continueCursor,
+    };
+  },
+});
+
+// Signed PUT URLs for file contents the cloud does not have yet
+export const requestSyncUploads = mutation({
+  args: { desktopId: v.string(), hashes: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+    assertHashes(args.hashes);
+
+    const uploads: Array<{ hash: string; url: string }> = [];
+    for (const hash of Array.from(new Set(args.hashes))) {
+      const known = await ctx.db
+        .query("desktop_sync_files")
+        .withIndex("by_owner_desktop_hash", (q) => q.eq("ownerId", ownerId).eq("desktopId", args.desktopId).eq("hash", hash))
+        .first();
+      if (known) continue;
+      const { url } = await r2.generateUploadUrl(syncBlobKey(ownerId, args.desktopId, hash));
+      uploads.push({ hash, url });
+    }
+    return uploads;
+  },
+});
+
+export const getSyncDownloadUrls = query({
+  args: { desktopId: v.string(), hashes: v.array(v.string()), expiresIn: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+    assertHashes(args.hashes);
+
+    const ttl = args.expiresIn ?? 900;
+    return await Promise.all(
+      Array.from(new Set(args.hashes)).map(async (hash) => ({
+        hash,
+        url: await r2.getUrl(syncBlobKey(ownerId, args.desktopId, hash), { expiresIn: ttl }),
+      })),
+    );
+  },
+});
+
+/**
+ * Applies a device's file changes made on top of `baseRevision`. Paths that
+ * another device changed after that revision are skipped and returned as
+ * `stale`; the device should pull, merge and retry them. When
+ * `previousRevision` differs from `baseRevision`, other changes landed in
+ * between and the device must not advance its base past them.
+ */
+export const commitSyncChanges = mutation({
+  args: {
+    desktopId: v.string(),
+    deviceId: v.string(),
+    deviceLabel: v.optional(v.string()),
+    baseRevision: v.number(),
+    changes: v.array(v.object({
+      path: v.string(),
+      // Omitted for deletions
+      hash: v.optional(v.string()),
+      size: v.optional(v.number()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+    if (args.changes.length > MAX_SYNC_CHANGES) throw new Error(`At most ${MAX_SYNC_CHANGES} changes per commit`);
+    for (const change of args.changes) {
+      if (!isSafeSyncPath(change.path)) throw new Error(`Invalid path: ${change.path}`);
+      if (change.hash !== undefined && !HASH_RE.test(change.hash)) throw new Error("Invalid content hash");
+    }
+
+    const now = Date.now();
+    const state = await ctx.db
+      .query("desktop_sync")
+      .withIndex("by_owner_desktop", (q) => q.eq("ownerId", ownerId).eq("desktopId", args.desktopId))
+      .first();
+    const previousRevision = state?.revision ?? 0;
+    const revision = previousRevision + 1;
+
+    const applied: string[] = [];
+    const stale: string[] = [];
+    // Hashes replaced or deleted by this commit; their blobs may now be unreferenced
+    const released = new Set<string>();
+    let wrote = false;
+    for (const change of args.changes) {
+      const row = await ctx.db
+        .query("desktop_sync_files")
+        .withIndex("by_owner_desktop_path", (q) => q.eq("ownerId", ownerId).eq("desktopId", args.desktopId).eq("path", change.path))
+        .first();
+      if (row && row.hash === change.hash) {
+        applied.push(change.path);
+        continue;
+      }
+      if (row && row.revision > args.baseRevision && row.deviceId !== args.deviceId) {
+        stale.push(change.path);
+        continue;
+      }
+      if (!row && change.hash === undefined) {
+        applied.push(change.path);
+        continue;
+      }
+      if (row?.hash) released.add(row.hash);
+      const fields = { hash: change.hash, size: change.hash === undefined ? undefined : change.size, revision, deviceId: args.deviceId, updatedAt: now };
+      if (row) {
+        await ctx.db.patch(row._id, fields);
+      } else {
+        await ctx.db.insert("desktop_sync_files", { ownerId, desktopId: args.desktopId, path: change.path, ...fields });
+      }
+      applied.push(change.path);
+      wrote = true;
+    }
+
+    for (const change of args.changes) {
+      if (change.hash) released.delete(change.hash);
+    }
+    if (released.size > 0) {
+      await ctx.scheduler.runAfter(SYNC_BLOB_GC_DELAY_MS, internal.desktops_private.collectSyncBlobs, {
+        ownerId,
+        desktopId: args.desktopId,
+        hashes: Array.from(released),
+      });
+    }
+
+    const currentRevision = wrote ? revision : previousRevision;
+    if (wrote) {
+      if (state) {
+        await ctx.db.patch(state._id, { revision, updatedAt: now });
+      } else {
+        await ctx.db.insert("desktop_sync", { ownerId, desktopId: args.desktopId, revision, updatedAt: now });
+      }
+    }
+
+    const device = await ctx.db
+      .query("desktop_sync_devices")
+      .withIndex("by_owner_desktop_device", (q) =>
+        q.eq("ownerId", ownerId).eq("desktopId", args.desktopId).eq("deviceId", args.deviceId),
+      )
+      .first();
+    const lastSyncedRevision = args.baseRevision >= previousRevision ? currentRevision : args.baseRevision;
+    if (device) {
+      await ctx.db.patch(device._id, { label: args.deviceLabel ?? device.label, lastSyncedRevision, lastSeenAt: now });
+    } else {
+      await ctx.db.insert("desktop_sync_devices", {
+        ownerId,
+        desktopId: args.desktopId,
+        deviceId: args.deviceId,
+        label: args.deviceLabel,
+        lastSyncedRevision,
+        lastSeenAt: now,
+      });
+    }
+
+    return { revision: currentRevision, previousRevision, applied, stale };
+  },
+});
+
+// Deletes sync blobs no file row references any more (scheduled by commitSyncChanges)
+export const collectSyncBlobs = internalMutation({
+  args: { ownerId: v.string(), desktopId: v.string(), hashes: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    let deleted = 0;
+    for (const hash of args.hashes) {
+      const referenced = await ctx.db
+        .query("desktop_sync_files")
+        .withIndex("by_owner_desktop_hash", (q) => q.eq("ownerId", args.ownerId).eq("desktopId", args.desktopId).eq("hash", hash))
+        .first();
+      if (referenced) continue;
+      try {
+        await r2.deleteObject(ctx, syncBlobKey(args.ownerId, args.desktopId, hash));
+        deleted += 1;
+      } catch {}
+    }
+    return { deleted };
+  },
+});
@@ -1,6 +1,21 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Publish-time static analysis result (src/utils/app-safety.ts), kept per version
+export const safetyReportValidator = v.object({
+  status: v.union(v.literal("pass"), v.literal("warn"), v.literal("block")),
+  findings: v.array(v.object({
+    rule: v.string(),
+    severity: v.union(v.literal("info"), v.literal("warning"), v.literal("blocking")),
+    file: v.string(),
+    line: v.optional(v.number()),
+    message: v.string(),
+    snippet: v.optional(v.string()),
+  })),
+  scannerVersion: v.number(),
+  scannedAt: v.number(),
+});
+
 export default defineSchema({
   messages: defineTable({
     body: v.string(),
@@ -20,14 +35,84 @@ export default defineSchema({
     r2KeyTar: v.string(),
     manifestHash: v.optional(v.string()),
     depsHash: v.optional(v.string()),
+    changelog: v.optional(v.string()),
+    // Safety report of the current version
+    safety: v.optional(safetyReportValidator),
     visibility: v.optional(v.union(v.literal("public"), v.literal("unlisted"), v.literal("private"))),
+    // Listing fields maintained by syncAppListing in convex/apps.ts
+    searchText: v.optional(v.string()),
+    installCount: v.optional(v.number()),
+    ratingCount: v.optional(v.number()),
+    ratingSum: v.optional(v.number()),
+    ratingAvg: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_owner", ["ownerId"]) 
+    .index("by_owner_visibility", ["ownerId", "visibility"]) 
     .index("by_name", ["name"]) 
     .index("by_appId", ["appId"]) 
-    .index("by_updatedAt", ["updatedAt"]),
+    .index("by_updatedAt", ["updatedAt"])
+    .index("by_visibility_updatedAt", ["visibility", "updatedAt"]) 
+    .index("by_visibility_installCount", ["visibility", "installCount"]) 
+    .index("by_visibility_ratingAvg", ["visibility", "ratingAvg"]) 
+    .index("by_visibility_name", ["visibility", "name"]) 
+    .searchIndex("search_text", { searchField: "searchText", filterFields: ["visibility"] }),
+
+  // One row per (public app, tag) mirroring the sort fields, so tag browsing can use indexes
+  app_tags: defineTable({
+    appRef: v.id("apps_public"),
+    tag: v.string(),
+    name: v.string(),
+    updatedAt: v.number(),
+    installCount: v.number(),
+    ratingAvg: v.number(),
+    // Mirrors apps_public.searchText so search within a tag uses an index
+    searchText: v.optional(v.string()),
+  })
+    .index("by_app", ["appRef"]) 
+    .index("by_tag_updatedAt", ["tag", "updatedAt"]) 
+    .index("by_tag_installCount", ["tag", "installCount"]) 
+    .index("by_tag_ratingAvg", ["tag", "ratingAvg"]) 
+    .index("by_tag_name", ["tag", "name"])
+    .searchIndex("search_text", { searchField: "searchText", filterFields: ["tag"] }),
+
+  // Number of public apps per tag (facet counts)
+  tag_counts: defineTable({
+    tag: v.string(),
+    count: v.number(),
+  })
+    .index("by_tag", ["tag"]) 
+    .index("by_count", ["count"]),
+
+  // One rating (and optional review) per user per app
+  ratings: defineTable({
+    appRef: v.id("apps_public"),
+    userId: v.string(),
+    rating: v.number(), // 1-5
+    review: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_app_updatedAt", ["appRef", "updatedAt"]) 
+    .index("by_app_user", ["appRef", "userId"]),
+
+  // Immutable history of every published app version; apps_public mirrors the latest one
+  app_versions: defineTable({
+    appRef: v.id("apps_public"),
+    ownerId: v.string(),
+    appId: v.string(),
+    version: v.string(),
+    changelog: v.optional(v.string()),
+    size: v.optional(v.number()),
+    r2KeyTar: v.string(),
+    manifestHash: v.optional(v.string()),
+    depsHash: v.optional(v.string()),
+    safety: v.optional(safetyReportValidator),
+    createdAt: v.number(),
+  })
+    .index("by_app", ["appRef"]) 
+    .index("by_app_version", ["appRef", "version"]),
 
   desktops_public: defineTable({
     ownerId: v.string(),
@@ -58,6 +143,7 @@ export default defineSchema({
   })
     .index("by_user", ["userId"]) 
     .index("by_target", ["targetType", "targetId"]) 
+    .index("by_user_target", ["userId", "targetType", "targetId"]) 
     .index("by_installedAt", ["installedAt"]),
 
   metrics_daily: defineTable({
@@ -110,6 +196,42 @@ export default defineSchema({
     .index("by_desktopId", ["desktopId"]) 
     .index("by_updatedAt", ["updatedAt"]),
 
+  // File-level cloud sync of a private desktop. Each commit bumps `revision`;
+  // file rows carry the revision that last touched them so devices can pull
+  // only what changed since their last sync.
+  desktop_sync: defineTable({
+    ownerId: v.string(),
+    desktopId: v.string(),
+    revision: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_owner_desktop", ["ownerId", "desktopId"]),
+
+  // Latest state per path; a missing hash is a deletion (tombstone)
+  desktop_sync_files: defineTable({
+    ownerId: v.string(),
+    desktopId: v.string(),
+    path: v.string(),
+    hash: v.optional(v.string()),
+    size: v.optional(v.number()),
+    revision: v.number(),
+    deviceId: v.string(),
+    updatedAt: v.number(),
+  })
+    .index("by_owner_desktop_path", ["ownerId", "desktopId", "path"])
+    .index("by_owner_desktop_revision", ["ownerId", "desktopId", "revision"])
+    .index("by_owner_desktop_hash", ["ownerId", "desktopId", "hash"]),
+
+  desktop_sync_devices: defineTable({
+    ownerId: v.string(),
+    desktopId: v.string(),
+    deviceId: v.string(),
+    label: v.optional(v.string()),
+    lastSyncedRevision: v.number(),
+    lastSeenAt: v.number(),
+  })
+    .index("by_owner_desktop_device", ["ownerId", "desktopId", "deviceId"]),
+
   // Chat threads per user
   chat_threads: defineTable({
     ownerId: v.string(),
@@ -117,6 +239,12 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
     lastMessageAt: v.number(),
+    // Preferred agent model profile (see src/lib/agent/agentModels.ts)
+    modelProfile: v.optional(v.union(v.literal("fast"), v.literal("smart"), v.literal("cheap"))),
+    // Rolling summary of older turns; summaryThroughHash anchors the last message it covers (id or content hash)
+    summary: v.optional(v.string()),
+    summaryThroughHash: v.optional(v.string()),
+    summaryUpdatedAt: v.optional(v.number()),
   })
     .index("by_owner", ["ownerId"]) 
     .index("by_updatedAt", ["updatedAt"]),
@@ -200,4 +328,48 @@ export default defineSchema({
   })
     .index("by_chat", ["chatId"]) 
     .index("by_chat_createdAt", ["chatId", "createdAt"]),
+
+  // Agent activity logs (messages, tool calls, token usage, errors) per owner
+  agent_logs: defineTable({
+    ownerId: v.string(),
+    sessionId: v.string(),
+    type: v.union(
+      v.literal("message"),
+      v.literal("tool_call"),
+      v.literal("token_usage"),
+      v.literal("error"),
+    ),
+    toolName: v.optional(v.string()),
+    data: v.any(),
+    createdAt: v.number(),
+  })
+    .index("by_owner_createdAt", ["ownerId", "createdAt"]) 
+    .index("by_owner_session_createdAt", ["ownerId", "sessionId", "createdAt"]),
+
+  // Agent spend ledger: one row per completed /api/agent request (ownerId = Clerk user id)
+  usage_ledger: defineTable({
+    ownerId: v.string(),
+    sessionId: v.string(),
+    threadId: v.optional(v.string()),
+    model: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    cachedInputTokens: v.optional(v.number()),
+    totalTokens: v.number(),
+    costUsd: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_owner_createdAt", ["ownerId", "createdAt"]),
+
+  // Rolled-up spend per owner per UTC day ("2026-01-31") and month ("2026-01") for budget checks
+  usage_totals: defineTable({
+    ownerId: v.string(),
+    period: v.union(v.literal("day"), v.literal("month")),
+    periodKey: v.string(),
+    costUsd: v.number(),
+    totalTokens: v.number(),
+    requests: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_owner_period_key", ["ownerId", "period", "periodKey"]),
 });
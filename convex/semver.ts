@@ -0,0 +1,179 @@
+// Minimal semantic versioning helpers (https://semver.org) for published apps.
+// Kept dependency-free so both Convex functions and Next routes can import it.
+
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+};
+
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+[0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*)?$/;
+
+export function parseSemver(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+export function isValidSemver(version: string): boolean {
+  return parseSemver(version) !== null;
+}
+
+// Throws for invalid input; build metadata is ignored as the spec requires
+export function compareSemver(a: string, b: string): number {
+  const left = parseSemver(a);
+  const right = parseSemver(b);
+  if (!left) throw new Error(`Invalid version "${a}"`);
+  if (!right) throw new Error(`Invalid version "${b}"`);
+
+  for (const key of ["major", "minor", "patch"] as const) {
+    if (left[key] !== right[key]) return left[key] < right[key] ? -1 : 1;
+  }
+  // A release ranks above any of its prereleases (1.0.0-beta < 1.0.0)
+  if (left.prerelease.length === 0 && right.prerelease.length === 0) return 0;
+  if (left.prerelease.length === 0) return 1;
+  if (right.prerelease.length === 0) return -1;
+  const length = Math.max(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const l = left.prerelease[i];
+    const r = right.prerelease[i];
+    if (l === undefined) return -1;
+    if (r === undefined) return 1;
+    if (l === r) continue;
+    const lNum = /^\d+$/.test(l);
+    const rNum = /^\d+$/.test(r);
+    if (lNum && rNum) return Number(l) < Number(r) ? -1 : 1;
+    if (lNum !== rNum) return lNum ? -1 : 1;
+    return l < r ? -1 : 1;
+  }
+  return 0;
+}
+
+export function bumpSemver(version: string, release: "major" | "minor" | "patch" = "patch"): string {
+  const parsed = parseSemver(version);
+  if (!parsed) throw new Error(`Invalid version "${version}"`);
+  const { major, minor, patch, prerelease } = parsed;
+  if (release === "major") return `${major + 1}.0.0`;
+  if (release === "minor") return `${major}.${minor + 1}.0`;
+  // 1.2.3-beta.1 -> 1.2.3 (the prerelease was leading up to it)
+  return prerelease.length > 0 ? `${major}.${minor}.${patch}` : `${major}.${minor}.${patch + 1}`;
+}
+
+type Comparator = { op: "<" | "<=" | ">" | ">=" | "="; version: string };
+
+// "1" / "1.2" / "1.x" / "1.2.*" -> the parts that were given (x and * count as missing)
+function partialVersion(text: string): number[] | null {
+  const cleaned = text.trim().replace(/^v/, "").replace(/[-+].*$/, "");
+  if (!cleaned || cleaned === "*" || /^x$/i.test(cleaned)) return [];
+  const parts = cleaned.split(".");
+  if (parts.length > 3) return null;
+  const numbers: number[] = [];
+  for (const part of parts) {
+    if (/^(x|\*)$/i.test(part)) break;
+    if (!/^\d+$/.test(part)) return null;
+    numbers.push(Number(part));
+  }
+  return numbers;
+}
+
+function fullVersion(text: string, parts: number[]): string {
+  // Keep an explicit prerelease only when the version was fully specified
+  return parts.length === 3 && isValidSemver(text.trim().replace(/^v/, ""))
+    ? text.trim().replace(/^v/, "")
+    : `${parts[0] ?? 0}.${parts[1] ?? 0}.${parts[2] ?? 0}`;
+}
+
+// Expands one range token (e.g. ^1.2.3, ~1.2, >=2, 1.x) into comparators
+function expandComparator(token: string): Comparator[] | null {
+  const match = /^(\^|~|>=|<=|>|<|=)?\s*(.+)$/.exec(token.trim());
+  if (!match) return null;
+  const op = match[1] ?? "";
+  const parts = partialVersion(match[2]);
+  if (!parts) return null;
+  if (parts.length === 0) return op === "<" || op === ">" ? [{ op: "<", version: "0.0.0" }] : [];
+  const [major, minor = 0, patch = 0] = parts;
+  const base = fullVersion(match[2], parts);
+
+  switch (op) {
+    case "^": {
+      const upper = major > 0 || parts.length === 1 ? `${major + 1}.0.0`
+        : minor > 0 || parts.length === 2 ? `0.${minor + 1}.0`
+        : `0.0.${patch + 1}`;
+      return [{ op: ">=", version: base }, { op: "<", version: upper }];
+    }
+    case "~":
+      return [{ op: ">=", version: base }, { op: "<", version: parts.length === 1 ? `${major + 1}.0.0` : `${major}.${minor + 1}.0` }];
+    case ">":
+      // >1.2 means >=1.3.0
+      return parts.length === 3 ? [{ op: ">", version: base }]
+        : [{ op: ">=", version: parts.length === 1 ? `${major + 1}.0.0` : `${major}.${minor + 1}.0` }];
+    case "<=":
+      return parts.length === 3 ? [{ op: "<=", version: base }]
+        : [{ op: "<", version: parts.length === 1 ? `${major + 1}.0.0` : `${major}.${minor + 1}.0` }];
+    case ">=":
+    case "<":
+      return [{ op, version: base }];
+    default:
+      // Exact or partial ("1.2" = >=1.2.0 <1.3.0)
+      if (parts.length === 3) return [{ op: "=", version: base }];
+      return [{ op: ">=", version: base }, { op: "<", version: parts.length === 1 ? `${major + 1}.0.0` : `${major}.${minor + 1}.0` }];
+  }
+}
+
+function parseRangeSet(range: string): Comparator[] | null {
+  const hyphen = /^\s*(\S+)\s+-\s+(\S+)\s*$/.exec(range);
+  if (hyphen) {
+    const from = expandComparator(`>=${hyphen[1]}`);
+    const to = expandComparator(`<=${hyphen[2]}`);
+    return from && to ? [...from, ...to] : null;
+  }
+  const comparators: Comparator[] = [];
+  // Allow "> = 1.2" style spacing between operator and version
+  for (const token of range.trim().replace(/(\^|~|>=|<=|>|<|=)\s+/g, "$1").split(/\s+/).filter(Boolean)) {
+    const expanded = expandComparator(token);
+    if (!expanded) return null;
+    comparators.push(...expanded);
+  }
+  return comparators;
+}
+
+/**
+ * npm-style range check (^, ~, x-ranges, comparators, hyphen ranges, ||).
+ * Returns null when the range is not a version range (tags, URLs, workspace:).
+ */
+export function satisfiesRange(version: string, range: string): boolean | null {
+  if (!isValidSemver(version)) return null;
+  const trimmed = range.trim();
+  if (trimmed === "" || trimmed === "*" || trimmed === "latest") return true;
+
+  let anyParsed = false;
+  for (const alternative of trimmed.split("||")) {
+    const comparators = parseRangeSet(alternative);
+    if (!comparators) continue;
+    anyParsed = true;
+    const ok = comparators.every(({ op, version: bound }) => {
+      const cmp = compareSemver(version, bound);
+      if (op === "<") return cmp < 0;
+      if (op === "<=") return cmp <= 0;
+      if (op === ">") return cmp > 0;
+      if (op === ">=") return cmp >= 0;
+      return cmp === 0;
+    });
+    if (ok) return true;
+  }
+  return anyParsed ? false : null;
+}
+
+// True for npm version ranges; false for dist-tags ("latest"), URLs, file: or workspace: specifiers
+export function isSemverRange(range: string): boolean {
+  const trimmed = range.trim();
+  if (trimmed === "" || trimmed === "*") return true;
+  return trimmed.split("||").every((alternative) => parseRangeSet(alternative) !== null);
+}
@@ -0,0 +1,138 @@
+import { query, mutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { UserIdentity } from "convex/server";
+import { v } from "convex/values";
+
+function getOwnerId(identity: UserIdentity): string {
+  return identity.subject ?? identity.tokenIdentifier ?? identity.email ?? "unknown";
+}
+
+function fmtDay(ts: number): string {
+  const d = new Date(ts);
+  const y = d.getUTCFullYear();
+  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(d.getUTCDate()).padStart(2, "0");
+  return `${y}-${m}-${dd}`;
+}
+
+function fmtMonth(ts: number): string {
+  return fmtDay(ts).slice(0, 7);
+}
+
+async function bumpTotal(
+  ctx: MutationCtx,
+  ownerId: string,
+  period: "day" | "month",
+  periodKey: string,
+  costUsd: number,
+  totalTokens: number,
+  now: number,
+) {
+  const existing = await ctx.db
+    .query("usage_totals")
+    .withIndex("by_owner_period_key", (q) => q.eq("ownerId", ownerId).eq("period", period).eq("periodKey", periodKey))
+    .first();
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      costUsd: existing.costUsd + costUsd,
+      totalTokens: existing.totalTokens + totalTokens,
+      requests: existing.requests + 1,
+      updatedAt: now,
+    });
+    return;
+  }
+  await ctx.db.insert("usage_totals", {
+    ownerId,
+    period,
+    periodKey,
+    costUsd,
+    totalTokens,
+    requests: 1,
+    updatedAt: now,
+  });
+}
+
+export const recordUsage = mutation({
+  args: {
+    sessionId: v.string(),
+    threadId: v.optional(v.string()),
+    model: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    cachedInputTokens: v.optional(v.number()),
+    totalTokens: v.number(),
+    costUsd: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = getOwnerId(identity);
+    const now = Date.now();
+    const costUsd = Math.max(0, args.costUsd);
+    const totalTokens = Math.max(0, args.totalTokens);
+
+    const id = await ctx.db.insert("usage_ledger", {
+      ownerId,
+      sessionId: args.sessionId,
+      threadId: args.threadId,
+      model: args.model,
+      inputTokens: args.inputTokens,
+      outputTokens: args.outputTokens,
+      cachedInputTokens: args.cachedInputTokens,
+      totalTokens,
+      costUsd,
+      createdAt: now,
+    });
+    await bumpTotal(ctx, ownerId, "day", fmtDay(now), costUsd, totalTokens, now);
+    await bumpTotal(ctx, ownerId, "month", fmtMonth(now), costUsd, totalTokens, now);
+    return id;
+  },
+});
+
+// Current UTC day/month spend for the signed-in user
+export const getMySpend = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = getOwnerId(identity);
+    const now = Date.now();
+    const dayKey = fmtDay(now);
+    const monthKey = fmtMonth(now);
+    const [day, month] = await Promise.all([
+      ctx.db
+        .query("usage_totals")
+        .withIndex("by_owner_period_key", (q) => q.eq("ownerId", ownerId).eq("period", "day").eq("periodKey", dayKey))
+        .first(),
+      ctx.db
+        .query("usage_totals")
+        .withIndex("by_owner_period_key", (q) => q.eq("ownerId", ownerId).eq("period", "month").eq("periodKey", monthKey))
+        .first(),
+    ]);
+    return {
+      ownerId,
+      dayKey,
+      monthKey,
+      dailyCostUsd: day?.costUsd ?? 0,
+      dailyTokens: day?.totalTokens ?? 0,
+      monthlyCostUsd: month?.costUsd ?? 0,
+      monthlyTokens: month?.totalTokens ?? 0,
+    };
+  },
+});
+
+// Most recent ledger rows for the signed-in user
+export const listMyLedger = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const ownerId = getOwnerId(identity);
+    const limit = Math.min(Math.max(1, args.limit ?? 50), 500);
+    return await ctx.db
+      .query("usage_ledger")
+      .withIndex("by_owner_createdAt", (q) => q.eq("ownerId", ownerId))
+      .order("desc")
+      .take(limit);
+  },
+});
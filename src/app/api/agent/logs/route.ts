@@ -1,32 +1,92 @@
 import { NextResponse } from 'next/server';
-import { agentLogger, type AgentLogEntry } from '@/lib/agentLogger';
+import { agentLogger, summarizeLogs, type AgentLogEntry, type AgentLogQuery, type AgentLogType } from '@/lib/agentLogger';
+import { currentLogOwner, ensureServerAgentLogStore } from '@/lib/agent/server/agentLogStores';
 
+ensureServerAgentLogStore();
+
+const LOG_TYPES: readonly AgentLogType[] = ['message', 'tool_call', 'token_usage', 'error'];
+
+function parseFilters(url: URL): Omit<AgentLogQuery, 'limit'> {
+  const param = (key: string) => url.searchParams.get(key) || undefined;
+  const type = param('type');
+  return {
+    sessionId: param('sessionId'),
+    toolName: param('tool'),
+    type: type && (LOG_TYPES as readonly string[]).includes(type) ? (type as AgentLogType) : undefined,
+    from: param('from'),
+    to: param('to'),
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(logs: AgentLogEntry[]): string {
+  const header = ['timestamp', 'sessionId', 'type', 'role', 'content', 'toolName', 'toolDuration', 'totalTokens', 'estimatedCost', 'model', 'error'];
+  const rows = logs.map((log) => [
+    log.timestamp,
+    log.sessionId,
+    log.type,
+    log.data.role,
+    log.data.content,
+    log.data.toolName,
+    log.data.toolDuration,
+    log.data.totalTokens,
+    log.data.estimatedCost,
+    log.data.model,
+    log.data.error,
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+}
+
+// Every read and delete is scoped to the signed-in user's entries
 export async function GET(request: Request) {
   try {
+    const ownerId = await currentLogOwner();
+    if (!ownerId) return unauthorized();
     const url = new URL(request.url);
-    const sessionId = url.searchParams.get('sessionId');
+    const filters = parseFilters(url);
+    const format = url.searchParams.get('format');
+    const limit = Number(url.searchParams.get('limit') ?? '') || undefined;
 
-    if (sessionId) {
-      // Get session summary - will return empty data since we don't persist logs
-      const summary = await agentLogger.getSessionSummary(sessionId);
+    // Per-session summary when explicitly requested (?sessionId=...&summary=1)
+    if (filters.sessionId && url.searchParams.get('summary') === '1') {
+      const summary = await agentLogger.getSessionSummary(filters.sessionId, ownerId);
       return NextResponse.json(summary);
     }
 
-    // Return empty logs since we don't persist them to files
-    const logs: AgentLogEntry[] = [];
+    const logs = await agentLogger.getRecentLogs(limit, { ...filters, ownerId });
 
+    if (format === 'csv') {
+      return new NextResponse(toCsv(logs), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="agent-logs-${Date.now()}.csv"`,
+        },
+      });
+    }
+
+    const totals = summarizeLogs(logs);
     return NextResponse.json({
       logs,
-      count: 0,
+      count: logs.length,
+      filters,
+      store: agentLogger.getStore().name,
       summary: {
-        totalSessions: 0,
-        totalMessages: 0,
-        totalToolCalls: 0,
-        totalTokens: 0,
-        totalCost: 0,
-        toolUsage: {}
+        totalSessions: new Set(logs.map((l) => l.sessionId)).size,
+        totalMessages: totals.totalMessages,
+        totalToolCalls: totals.totalToolCalls,
+        totalTokens: totals.totalTokens,
+        totalCost: totals.totalCost,
+        toolUsage: totals.toolCallBreakdown,
       },
-      message: 'Logging is now console-only. No persistent logs are stored.'
     });
   } catch (error) {
     console.error('[Agent Logs API] Error:', error);
@@ -39,20 +99,16 @@ export async function GET(request: Request) {
 
 export async function DELETE(request: Request) {
   try {
+    const ownerId = await currentLogOwner();
+    if (!ownerId) return unauthorized();
     const url = new URL(request.url);
-    const sessionId = url.searchParams.get('sessionId');
+    const sessionId = url.searchParams.get('sessionId') || undefined;
 
-    if (sessionId) {
-      // No persistent logs to delete
-      return NextResponse.json({
-        message: 'No persistent logs to delete - logging is console-only',
-        sessionId
-      });
-    }
-
-    // No persistent logs to clear
+    const deleted = await agentLogger.deleteLogs({ ownerId, sessionId });
     return NextResponse.json({
-      message: 'No persistent logs to clear - logging is console-only'
+      message: sessionId ? `Deleted ${deleted} log entries for session` : `Deleted ${deleted} log entries`,
+      deleted,
+      ...(sessionId ? { sessionId } : {}),
     });
   } catch (error) {
     console.error('[Agent Logs API] Delete error:', error);
@@ -62,5 +118,3 @@ export async function DELETE(request: Request) {
     );
   }
 }
-
-
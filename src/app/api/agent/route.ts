@@ -1,34 +1,50 @@
-import { convertToModelMessages, streamText, UIMessage, stepCountIs } from 'ai';
+import { NextResponse } from 'next/server';
+import { convertToModelMessages, generateText, streamText, UIMessage, stepCountIs } from 'ai';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
 // z is used in tool schemas but not directly here
 import {
   TOOL_NAMES,
   WebFsFindInput,
+  WebFsGrepInput,
   WebFsReadInput,
   WebFsWriteInput,
+  WebFsPatchInput,
   WebFsRmInput,
   WebExecInput,
+  ProcessListInput,
+  ProcessTailInput,
+  ProcessKillInput,
   AppManageInput,
   ValidateProjectInput,
+  RunTestsInput,
   AiGenerateInput,
   MediaListInput,
   CodeEditAstInput,
 } from '@/lib/agentTools';
 import { agentLogger } from '@/lib/agentLogger';
 import { SYSTEM_PROMPT } from '@/lib/prompts';
-import type { Id } from '../../../../convex/_generated/dataModel';
+import type { Doc, Id } from '../../../../convex/_generated/dataModel';
 import { api as convexApi } from '../../../../convex/_generated/api';
 import { getInstalledAppNames, sanitizeToolInput, getConvexClientOptional } from '@/lib/agent/server/agentServerHelpers';
 import { buildServerTools } from '@/lib/agent/server/agentServerTools';
+import { ensureServerAgentLogStore } from '@/lib/agent/server/agentLogStores';
+import { checkAgentBudget, recordAgentUsage } from '@/lib/agent/server/agentBudget';
+import { estimateCostUsd } from '@/lib/agent/agentPricing';
+import { DEFAULT_MODEL_PROFILE, isModelProfileId, MODEL_PROFILES, type ModelCandidate, type ModelProfileId } from '@/lib/agent/agentModels';
+import { createFallbackModel } from '@/lib/agent/server/agentModelFallback';
+import { buildSummaryPrompt, compactConversation, SUMMARY_SYSTEM_PROMPT, type Summarizer } from '@/lib/agent/server/agentContext';
 
 // Some tool actions (like package installs) may take longer than 30s
 export const maxDuration = 300;
 
+ensureServerAgentLogStore();
+
 type AttachmentHint = { contentType?: string | null; url: string };
 type AgentPostPayload = {
   messages: UIMessage[];
   threadId?: string;
   attachmentHints?: AttachmentHint[];
+  modelProfile?: string;
 };
 type SanitizedMessage = Omit<UIMessage, 'id'>;
 type MessageEnvelope = (UIMessage | SanitizedMessage) & { content?: string; toolCalls?: unknown[] };
@@ -176,22 +192,55 @@ export async function POST(req: Request) {
     }
   }
 
+  // Enforce per-user spend budgets before doing any work. Anonymous requests have no ledger.
+  const convexClient = await getConvexClientOptional();
+  if (convexClient) {
+    const overBudget = await checkAgentBudget(convexClient);
+    if (overBudget) {
+      console.log('💸 [AGENT] Budget exceeded:', overBudget.budget);
+      return NextResponse.json(overBudget, { status: 402 });
+    }
+  }
+
+  // Thread settings (model preference, rolling summary)
+  let threadDoc: Doc<'chat_threads'> | null = null;
+  if (threadIdRaw && convexClient) {
+    try {
+      threadDoc = await convexClient.query(convexApi.chat.getThread, { threadId: threadIdRaw as Id<'chat_threads'> });
+    } catch (error) {
+      console.warn('⚠️ [AGENT] Failed to read thread settings', error);
+    }
+  }
+
+  // Pick the model profile: explicit request > thread preference > default
+  let modelProfile: ModelProfileId = DEFAULT_MODEL_PROFILE;
+  if (isModelProfileId(payload.modelProfile)) {
+    modelProfile = payload.modelProfile;
+  } else if (isModelProfileId(threadDoc?.modelProfile)) {
+    modelProfile = threadDoc.modelProfile;
+  }
+  console.log('🧠 [AGENT] Model profile:', modelProfile, MODEL_PROFILES[modelProfile].chain.map((c) => c.model));
+
   // Generate session ID for this conversation
   const sessionId = `session_${Date.now()}_${Math.random().toString(36).slice(2)}`;
 
   // Sanitize/dedupe messages to avoid downstream gateway duplicate-id issues
   const seenHashes = new Set<string>();
   const sanitizedMessages: SanitizedMessage[] = [];
+  // Same messages with their ids, which anchor the thread summary cutoff
+  const anchoredMessages: Array<SanitizedMessage & { id?: string }> = [];
   for (const message of messagesWithHints) {
     const text = extractTextFromMessage(message);
     const key = `${message.role}|${text}`;
     if (seenHashes.has(key)) continue;
     seenHashes.add(key);
     if ('id' in message) {
-      const { id: _omit, ...rest } = message;
+      const { id, ...rest } = message;
       sanitizedMessages.push(rest);
+      anchoredMessages.push(typeof id === 'string' && id ? { ...rest, id } : rest);
     } else {
       sanitizedMessages.push(message);
+      anchoredMessages.push(message);
     }
   }
 
@@ -255,6 +304,10 @@ export async function POST(req: Request) {
       description: 'List files/folders with glob/prefix and pagination; keep pages small.',
       inputSchema: WebFsFindInput,
     },
+    [TOOL_NAMES.web_fs_grep]: {
+      description: 'Search file contents by regex or literal text with glob filter and context lines; paginated like web_fs_find. Use it to locate symbols before reading files.',
+      inputSchema: WebFsGrepInput,
+    },
     [TOOL_NAMES.web_fs_read]: {
       description: 'Read a single file by exact path; default to concise output.',
       inputSchema: WebFsReadInput,
@@ -263,15 +316,31 @@ export async function POST(req: Request) {
       description: 'Write/create files; auto‑mkdir when needed. Prefer precise edits (consider code_edit_ast).',
       inputSchema: WebFsWriteInput,
     },
+    [TOOL_NAMES.web_fs_patch]: {
+      description: 'Apply a unified diff across one or more files with fuzzy hunk matching. All-or-nothing: any failed hunk or syntax error leaves every file unchanged.',
+      inputSchema: WebFsPatchInput,
+    },
     [TOOL_NAMES.web_fs_rm]: {
       description: 'Remove a file or directory (recursive by default). Destructive—use with care.',
       inputSchema: WebFsRmInput,
     },
     // Process execution
     [TOOL_NAMES.web_exec]: {
-      description: 'Run package manager commands (e.g., pnpm add). Do NOT run dev/build/start.',
+      description: 'Run package manager commands (e.g., pnpm add). Do NOT run dev/build/start. Waits up to waitSeconds; a command still running after that returns its processId and keeps running until timeoutSeconds.',
       inputSchema: WebExecInput,
     },
+    [TOOL_NAMES.process_list]: {
+      description: 'List commands started by web_exec with their status (running, exited, killed, timed_out) and exit codes.',
+      inputSchema: ProcessListInput,
+    },
+    [TOOL_NAMES.process_tail]: {
+      description: 'Read the last lines of output from a web_exec process, optionally waiting for it to finish first.',
+      inputSchema: ProcessTailInput,
+    },
+    [TOOL_NAMES.process_kill]: {
+      description: 'Stop a running web_exec process (e.g., a hung install).',
+      inputSchema: ProcessKillInput,
+    },
     // App management
     [TOOL_NAMES.app_manage]: {
       description: 'Manage apps via action=create|rename|remove; handles scaffolding and registry updates.',
@@ -279,9 +348,13 @@ export async function POST(req: Request) {
     },
     // Validation
     [TOOL_NAMES.validate_project]: {
-      description: 'Validate the project: typecheck + lint (changed files); full also runs production build.',
+      description: 'Validate the project: typecheck + lint (changed files); full also runs production build. Returns structured diagnostics (file, line, column, code, message, severity) grouped per app; fix reported errors before finishing.',
       inputSchema: ValidateProjectInput,
     },
+    [TOOL_NAMES.run_tests]: {
+      description: 'Run Vitest for src/apps/<appId> (or all app tests) and return per-test pass/fail with failure messages. Test files are *.test.ts(x) next to the app code.',
+      inputSchema: RunTestsInput,
+    },
     // Web search (server-side implementation)
     ...buildServerTools(sessionId),
     // AI Media Tools (unified)
@@ -295,7 +368,7 @@ export async function POST(req: Request) {
     },
     // Code editing
     [TOOL_NAMES.code_edit_ast]: {
-      description: 'Edit TypeScript/JavaScript via AST transformations (imports, function bodies, JSX, code insertion). Prefer this over full rewrites for precise changes.',
+      description: 'Edit TypeScript/JavaScript via AST transformations (imports, function bodies, variable initializers, file-scoped renames, JSX replace/wrap/insert, useState hooks, code insertion). Prefer this over full rewrites for precise changes.',
       inputSchema: CodeEditAstInput,
     },
   };
@@ -306,21 +379,94 @@ export async function POST(req: Request) {
   // Track tool call timings to avoid duplicate logging
   const toolCallTimings = new Map<string, number>();
 
+  // Model serving the current step (updated by the fallback chain) and spend per step
+  const modelChain = MODEL_PROFILES[modelProfile].chain;
+  let activeModelId = modelChain[0].model;
+  const modelsUsed = new Set<string>();
+  let accumulatedCost = 0;
+  let costedSteps = 0;
+
   // Initialize OpenRouter provider
   const openrouter = createOpenRouter({
     apiKey: process.env.OPENROUTER_API_KEY,
   });
+  const buildChainModel = (chain: ModelCandidate[], onSelected: (id: string) => void) => createFallbackModel(
+    chain.map((candidate) => ({
+      id: candidate.model,
+      model: openrouter(candidate.model, candidate.providerOrder ? { provider: { order: candidate.providerOrder } } : undefined),
+    })),
+    { onSelected },
+  );
+
+  // Summaries use the cheap profile regardless of the chat's profile
+  const summarize: Summarizer = async (args) => {
+    let summaryModelId = MODEL_PROFILES.cheap.chain[0].model;
+    const summaryModel = buildChainModel(MODEL_PROFILES.cheap.chain, (id) => { summaryModelId = id; });
+    const summaryResult = await generateText({
+      model: summaryModel,
+      maxRetries: 0,
+      maxOutputTokens: 1200,
+      system: SUMMARY_SYSTEM_PROMPT,
+      prompt: buildSummaryPrompt(args),
+    });
+    const usage = summaryResult.usage;
+    const cost = estimateCostUsd(summaryModelId, usage);
+    await agentLogger.logTokenUsage(sessionId, usage.inputTokens || 0, usage.outputTokens || 0, usage.totalTokens || 0, summaryModelId, cost);
+    if (convexClient) {
+      await recordAgentUsage(convexClient, {
+        sessionId,
+        threadId: threadIdRaw,
+        model: summaryModelId,
+        inputTokens: usage.inputTokens || 0,
+        outputTokens: usage.outputTokens || 0,
+        cachedInputTokens: usage.cachedInputTokens,
+        totalTokens: usage.totalTokens || 0,
+        costUsd: cost,
+      });
+    }
+    return summaryResult.text;
+  };
+
+  // Keep long threads inside the context window: elide old tool payloads, then summarize old turns
+  const compacted = await compactConversation(
+    anchoredMessages,
+    { summary: threadDoc?.summary, summaryThroughHash: threadDoc?.summaryThroughHash },
+    summarize,
+  );
+  if (compacted.elidedParts > 0 || compacted.messages.length !== sanitizedMessages.length) {
+    console.log('🗜️ [CONTEXT] Compacted history:', {
+      before: sanitizedMessages.length,
+      after: compacted.messages.length,
+      elidedParts: compacted.elidedParts,
+      estimatedTokens: compacted.estimatedTokens,
+      summarized: compacted.summaryChanged,
+    });
+  }
+  if (compacted.summaryChanged && compacted.summary && compacted.summaryThroughHash && threadIdRaw && convexClient) {
+    try {
+      await convexClient.mutation(convexApi.chat.setThreadSummary, {
+        threadId: threadIdRaw as Id<'chat_threads'>,
+        summary: compacted.summary,
+        summaryThroughHash: compacted.summaryThroughHash,
+      });
+    } catch (error) {
+      console.warn('⚠️ [CONTEXT] Failed to persist thread summary', error);
+    }
+  }
+  if (compacted.summary) {
+    systemPrompt += '\n\n## Conversation so far (summary of earlier turns)\n' + compacted.summary;
+  }
+
+  const model = buildChainModel(modelChain, (id) => {
+    activeModelId = id;
+    modelsUsed.add(id);
+  });
 
   const result = streamText({
-    model: openrouter('z-ai/glm-4.6'),
-    providerOptions: {
-      openrouter: {
-        provider: {
-          order: ['cerebras', 'fireworks'],
-        },
-      },
-    },
-    messages: convertToModelMessages(sanitizedMessages),
+    model,
+    // The fallback chain already moves on from rate-limited/failed providers
+    maxRetries: 0,
+    messages: convertToModelMessages(compacted.messages.map(({ id: _omit, ...rest }) => rest)),
     // Note: Most tools are executed CLIENT-SIDE via onToolCall in useAgentChat.ts
     // They are declared here so the model knows about them, but execution happens on client
     // Only server-side tools (web_search) have execute functions
@@ -328,7 +474,12 @@ export async function POST(req: Request) {
     tools,
     stopWhen: stepCountIs(15),
     onStepFinish: async ({ text, toolCalls, toolResults, finishReason, usage }: StepEventSummary) => {
+      if (usage) {
+        accumulatedCost += estimateCostUsd(activeModelId, usage);
+        costedSteps += 1;
+      }
       console.log('📊 [USAGE-STEP] Step finished:', {
+        model: activeModelId,
         finishReason,
         textLength: text?.length || 0,
         toolCallsCount: toolCalls?.length || 0,
@@ -416,25 +567,35 @@ export async function POST(req: Request) {
           cachedInputTokens: event.usage.cachedInputTokens || 0,
         });
 
-        // Calculate cost estimates based on model pricing (via OpenRouter)
-        // Claude Sonnet 4.5: pricing varies, check OpenRouter for current rates
-        const inputCostPerMillion = 3.00; // Approximate - check OpenRouter for exact pricing
-        const outputCostPerMillion = 15.00; // Approximate - check OpenRouter for exact pricing
-        const estimatedCost = 
-          ((event.usage.inputTokens || 0) / 1000000) * inputCostPerMillion +
-          ((event.usage.outputTokens || 0) / 1000000) * outputCostPerMillion;
+        // Cost is priced per step against the model that served it (fallbacks may switch models)
+        const estimatedCost = costedSteps > 0 ? accumulatedCost : estimateCostUsd(activeModelId, event.usage);
         
-        console.log('💰 [USAGE-COST] Estimated cost (via OpenRouter): $' + estimatedCost.toFixed(6));
+        console.log(`💰 [USAGE-COST] Estimated cost (${Array.from(modelsUsed).join(', ') || activeModelId}): $` + estimatedCost.toFixed(6));
         
-        // Log token usage and cost to file
+        // Log token usage and cost
         await agentLogger.logTokenUsage(
           sessionId,
           event.usage.inputTokens || 0,
           event.usage.outputTokens || 0,
           event.usage.totalTokens || 0,
-          'anthropic/claude-sonnet-4.5',
+          activeModelId,
           estimatedCost
         );
+
+        // Charge the per-user spend ledger (fresh client: the Convex token may have expired mid-stream)
+        const ledgerClient = await getConvexClientOptional();
+        if (ledgerClient) {
+          await recordAgentUsage(ledgerClient, {
+            sessionId,
+            threadId: threadIdRaw,
+            model: activeModelId,
+            inputTokens: event.usage.inputTokens || 0,
+            outputTokens: event.usage.outputTokens || 0,
+            cachedInputTokens: event.usage.cachedInputTokens,
+            totalTokens: event.usage.totalTokens || 0,
+            costUsd: estimatedCost,
+          });
+        }
       }
 
       // Log step-by-step breakdown if multiple steps
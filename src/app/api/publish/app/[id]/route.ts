@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+import { auth } from "@clerk/nextjs/server";
+import { api } from "../../../../../../convex/_generated/api";
+import type { Id } from "../../../../../../convex/_generated/dataModel";
+
+const VISIBILITIES = ["public", "unlisted", "private"] as const;
+type Visibility = (typeof VISIBILITIES)[number];
+
+async function getClient() {
+  const url = process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!url) throw new Error("Missing NEXT_PUBLIC_CONVEX_URL");
+  const client = new ConvexHttpClient(url);
+
+  // Get the auth token from Clerk
+  const { getToken } = await auth();
+  const token = await getToken({ template: "convex" });
+  if (token) {
+    client.setAuth(token);
+  }
+
+  return client;
+}
+
+function errorStatus(message: string) {
+  if (message.includes("Unauthorized")) return 401;
+  if (message.includes("Forbidden")) return 403;
+  if (message.includes("Not found")) return 404;
+  return 500;
+}
+
+// Owner only: { visibility: "public" | "unlisted" | "private" }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const typedId = id as Id<'apps_public'>; // Validated by Convex schema
+    const body = (await req.json()) as { visibility?: unknown };
+    if (!VISIBILITIES.includes(body.visibility as Visibility)) {
+      return NextResponse.json({ error: "visibility must be public, unlisted or private" }, { status: 400 });
+    }
+    const client = await getClient();
+    const result = await client.mutation(api.apps.setAppVisibility, { id: typedId, visibility: body.visibility as Visibility });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to update visibility";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+// Owner only: removes the app from the store and deletes its stored files
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const typedId = id as Id<'apps_public'>; // Validated by Convex schema
+    const client = await getClient();
+    const result = await client.mutation(api.apps.unpublishApp, { id: typedId });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to unpublish";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
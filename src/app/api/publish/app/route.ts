@@ -2,11 +2,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { ConvexHttpClient } from "convex/browser";
 import { auth } from "@clerk/nextjs/server";
 import { api } from "../../../../../convex/_generated/api";
+import { bumpSemver, isValidSemver } from "../../../../../convex/semver";
+import { readAppBundle } from "@/utils/app-bundle";
+import { scanAppBundle } from "@/utils/app-safety";
 
 interface PublishAppRequestBody {
   appId?: string;
   name?: string;
+  // Semantic version; omitted means a patch bump over the latest published version
   version?: string;
+  changelog?: string;
   description?: string;
   icon?: string;
   tags?: string[];
@@ -14,6 +19,13 @@ interface PublishAppRequestBody {
   depsHash?: string;
   size?: number;
   blobBase64?: string;
+  // Omitted keeps the current visibility (public for a first publish)
+  visibility?: 'public' | 'unlisted' | 'private';
+}
+
+// Hosts store apps may fetch() directly, e.g. "api.example.com,cdn.example.org"
+function fetchAllowlist(): string[] {
+  return (process.env.APP_STORE_FETCH_ALLOWLIST ?? "").split(",").map((host) => host.trim()).filter(Boolean);
 }
 
 async function getClient() {
@@ -34,10 +46,13 @@ async function getClient() {
 export async function POST(req: NextRequest) {
   try {
     const body = (await req.json()) as PublishAppRequestBody;
-    const { appId, name, version, description, icon, tags, manifestHash, depsHash, size, blobBase64 } = body;
-    if (!appId || !name || !version || !blobBase64) {
+    const { appId, name, description, icon, tags, manifestHash, depsHash, size, blobBase64 } = body;
+    if (!appId || !name || !blobBase64) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
     }
+    if (typeof body.version === 'string' && !isValidSemver(body.version)) {
+      return NextResponse.json({ error: `Invalid version "${body.version}": expected semantic version like 1.2.3` }, { status: 400 });
+    }
 
     const descriptionValue = typeof description === 'string' ? description : undefined;
     const iconValue = typeof icon === 'string' ? icon : undefined;
@@ -45,9 +60,36 @@ export async function POST(req: NextRequest) {
     const depsHashValue = typeof depsHash === 'string' ? depsHash : undefined;
     const sizeValue = typeof size === 'number' ? size : undefined;
     const normalizedTags = Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : undefined;
+    const changelogValue = typeof body.changelog === 'string' ? body.changelog : undefined;
+    const visibilityValue = body.visibility === 'public' || body.visibility === 'unlisted' || body.visibility === 'private'
+      ? body.visibility
+      : undefined;
+
+    // Static safety scan; blocking findings stop the publish before anything is uploaded
+    const binary = Buffer.from(blobBase64, 'base64');
+    let safety;
+    try {
+      const bundle = await readAppBundle(new Uint8Array(binary));
+      safety = scanAppBundle(bundle, { appId, fetchAllowlist: fetchAllowlist() });
+    } catch (e) {
+      return NextResponse.json({ error: e instanceof Error ? e.message : "Invalid bundle" }, { status: 400 });
+    }
+    if (safety.status === 'block') {
+      return NextResponse.json({ error: "Publish blocked by the safety scan", safety }, { status: 422 });
+    }
+
+    // Shared with the Convex deployment; publishAppFinalize only trusts scans that come with it
+    const publishSecret = process.env.APP_PUBLISH_SECRET;
+    if (!publishSecret) throw new Error("Missing APP_PUBLISH_SECRET");
 
-    // Step 1: request signed URL
     const client = await getClient();
+    let version = typeof body.version === 'string' ? body.version : undefined;
+    if (!version) {
+      const latest = await client.query(api.apps.getMyLatestAppVersion, { appId });
+      version = latest ? bumpSemver(latest, 'patch') : '1.0.0';
+    }
+
+    // Step 1: request signed URL (rejects versions that are not newer than the latest)
     const { url, r2KeyTar } = await client.mutation(api.apps.publishAppStart, {
       appId,
       name,
@@ -56,7 +98,6 @@ export async function POST(req: NextRequest) {
     });
 
     // Step 2: upload to signed URL
-    const binary = Buffer.from(blobBase64, 'base64');
     const uploadRes = await fetch(url, { method: 'PUT', body: binary, headers: { 'Content-Type': 'application/gzip' } });
     if (!uploadRes.ok) {
       return NextResponse.json({ error: `Upload failed: ${uploadRes.status}` }, { status: 502 });
@@ -67,6 +108,7 @@ export async function POST(req: NextRequest) {
       appId,
       name,
       version,
+      changelog: changelogValue,
       description: descriptionValue,
       icon: iconValue,
       tags: normalizedTags,
@@ -74,10 +116,12 @@ export async function POST(req: NextRequest) {
       r2KeyTar,
       manifestHash: manifestHashValue,
       depsHash: depsHashValue,
-      visibility: 'public',
+      visibility: visibilityValue,
+      safety,
+      publishSecret,
     });
 
-    return NextResponse.json({ ok: true, id });
+    return NextResponse.json({ ok: true, id, version, safety });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Failed to publish app";
     return NextResponse.json(
@@ -11,6 +11,8 @@ interface PublishDesktopRequestBody {
   icon?: string;
   size?: number;
   blobBase64?: string;
+  // Omitted keeps the current visibility (public for a first publish)
+  visibility?: 'public' | 'unlisted' | 'private';
   manifestHash?: string;
   lockfileHash?: string;
 }
@@ -43,6 +45,9 @@ export async function POST(req: NextRequest) {
     const sizeValue = typeof size === 'number' ? size : undefined;
     const manifestHashValue = typeof manifestHash === 'string' ? manifestHash : undefined;
     const lockfileHashValue = typeof lockfileHash === 'string' ? lockfileHash : undefined;
+    const visibilityValue = body.visibility === 'public' || body.visibility === 'unlisted' || body.visibility === 'private'
+      ? body.visibility
+      : undefined;
 
     const client = await getClient();
     const { url, r2KeySnapshot } = await client.mutation(api.desktops.publishDesktopStart, {
@@ -68,7 +73,7 @@ export async function POST(req: NextRequest) {
       r2KeySnapshot,
       manifestHash: manifestHashValue,
       lockfileHash: lockfileHashValue,
-      visibility: 'public',
+      visibility: visibilityValue,
     });
 
     return NextResponse.json({ ok: true, id, visitUrl: `/d/${id}` });
@@ -24,25 +24,40 @@ async function getClient() {
 }
 
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const client = await getClient();
     const { id } = await params;
     const typedId = id as Id<'apps_public'>; // Validated by Convex schema
-    const signedUrl = await client.query(api.apps.getAppBundleUrl, { id: typedId });
-    const resp = await fetch(signedUrl, { cache: 'no-store' });
+    // ?version=1.2.0 pins an exact published version; omitted means latest
+    const version = new URL(req.url).searchParams.get("version") ?? undefined;
+    const bundle = await client.query(api.apps.getAppBundleUrl, { id: typedId, version });
+    const resp = await fetch(bundle.url, { cache: 'no-store' });
     if (!resp.ok || !resp.body) {
       return NextResponse.json({ error: "Upstream fetch failed" }, { status: 502 });
     }
     const etag = resp.headers.get('etag') || undefined;
-    const cc = 'public, max-age=300, s-maxage=300, stale-while-revalidate=60';
+    // Pinned versions never change but can still be unpublished or made private,
+    // so nothing is immutable; "latest" changes whenever the owner publishes.
+    // Only public bundles may land in shared caches.
+    const cc = bundle.visibility === 'private'
+      ? 'private, no-store'
+      : bundle.visibility !== 'public'
+        ? 'private, max-age=300'
+        : version
+          ? 'public, max-age=3600, s-maxage=3600'
+          : 'public, max-age=300, s-maxage=300, stale-while-revalidate=60';
     const headers: Record<string, string> = {
       "Content-Type": resp.headers.get("Content-Type") || "application/gzip",
       "Cache-Control": cc,
+      // Lets installers record which version they received
+      "X-App-Version": bundle.version,
     };
     if (etag) headers['ETag'] = etag;
+    // sha256 of app.manifest.json; installers verify the bundle against it
+    if (bundle.manifestHash) headers['X-Manifest-Hash'] = bundle.manifestHash;
     return new Response(resp.body, { headers });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Failed to proxy bundle";
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+import { auth } from "@clerk/nextjs/server";
+import { api } from "../../../../../../../convex/_generated/api";
+import type { Id } from "../../../../../../../convex/_generated/dataModel";
+
+async function getClient() {
+  const url = process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!url) throw new Error("Missing NEXT_PUBLIC_CONVEX_URL");
+  const client = new ConvexHttpClient(url);
+
+  const { getToken } = await auth();
+  const token = await getToken({ template: "convex" });
+  if (!token) throw new Error("Unauthorized");
+  client.setAuth(token);
+
+  return client;
+}
+
+// Counts an install toward the listing's install total (once per user)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const client = await getClient();
+    const { id } = await params;
+    const typedId = id as Id<'apps_public'>; // Validated by Convex schema
+    const body = await req.json().catch(() => ({})) as { version?: unknown };
+    const version = typeof body.version === "string" ? body.version : undefined;
+    const result = await client.mutation(api.apps.recordAppInstall, { id: typedId, version });
+    return NextResponse.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to record install";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Unauthorized" ? 401 : 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+import { auth } from "@clerk/nextjs/server";
+import { api } from "../../../../../../../convex/_generated/api";
+import type { Id } from "../../../../../../../convex/_generated/dataModel";
+
+async function getClient() {
+  const url = process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!url) throw new Error("Missing NEXT_PUBLIC_CONVEX_URL");
+  const client = new ConvexHttpClient(url);
+
+  // Get the auth token from Clerk (required to rate, optional to read)
+  try {
+    const { getToken } = await auth();
+    const token = await getToken({ template: "convex" });
+    if (token) {
+      client.setAuth(token);
+    }
+  } catch {
+    // Anonymous readers can still list reviews
+  }
+
+  return client;
+}
+
+function errorStatus(message: string) {
+  if (message.includes("Unauthorized")) return 401;
+  if (message.includes("Not found")) return 404;
+  if (message.includes("Invalid") || message.includes("Rating must be") || message.includes("cannot rate your own app")) return 400;
+  // Malformed ids fail Convex argument validation
+  if (message.includes("ArgumentValidationError")) return 400;
+  return 500;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const client = await getClient();
+    const { id } = await params;
+    const typedId = id as Id<'apps_public'>; // Validated by Convex schema
+    const { searchParams } = new URL(req.url);
+    const [result, mine] = await Promise.all([
+      client.query(api.apps.listRatings, { id: typedId, cursor: searchParams.get("cursor") || undefined }),
+      client.query(api.apps.getMyRating, { id: typedId }),
+    ]);
+    return NextResponse.json({
+      ratings: result.page,
+      cursor: result.isDone ? null : result.continueCursor,
+      mine,
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to list ratings";
+    return NextResponse.json(
+      { error: message },
+      { status: errorStatus(message) }
+    );
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const client = await getClient();
+    const { id } = await params;
+    const typedId = id as Id<'apps_public'>; // Validated by Convex schema
+    let body: { rating?: unknown; review?: unknown };
+    try {
+      body = await req.json() as { rating?: unknown; review?: unknown };
+    } catch {
+      throw new Error("Invalid JSON body");
+    }
+    const rating = Number(body.rating);
+    const review = typeof body.review === "string" ? body.review : undefined;
+    const result = await client.mutation(api.apps.rateApp, { id: typedId, rating, review });
+    return NextResponse.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to rate app";
+    return NextResponse.json(
+      { error: message },
+      { status: errorStatus(message) }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+import { auth } from "@clerk/nextjs/server";
+import { api } from "../../../../../../../convex/_generated/api";
+import type { Id } from "../../../../../../../convex/_generated/dataModel";
+
+async function getClient() {
+  const url = process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!url) throw new Error("Missing NEXT_PUBLIC_CONVEX_URL");
+  const client = new ConvexHttpClient(url);
+
+  // Get the auth token from Clerk (optional for public queries)
+  try {
+    const { getToken } = await auth();
+    const token = await getToken({ template: "convex" });
+    if (token) {
+      client.setAuth(token);
+    }
+  } catch {
+    // Auth is optional for public version listings
+  }
+
+  return client;
+}
+
+function errorStatus(message: string) {
+  if (message.includes("Unauthorized")) return 401;
+  if (message.includes("Not found")) return 404;
+  if (message.includes("Invalid")) return 400;
+  // Malformed ids fail Convex argument validation
+  if (message.includes("ArgumentValidationError")) return 400;
+  return 500;
+}
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const client = await getClient();
+    const { id } = await params;
+    const typedId = id as Id<'apps_public'>; // Validated by Convex schema
+    const versions = await client.query(api.apps.listAppVersions, { id: typedId });
+    return NextResponse.json({ versions });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to list versions";
+    return NextResponse.json(
+      { error: message },
+      { status: errorStatus(message) }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { ConvexHttpClient } from "convex/browser";
 import { auth } from "@clerk/nextjs/server";
 import { api } from "../../../../../convex/_generated/api";
+import type { Id } from "../../../../../convex/_generated/dataModel";
 
 async function getClient() {
   const url = process.env.NEXT_PUBLIC_CONVEX_URL;
@@ -22,23 +23,41 @@ async function getClient() {
   return client;
 }
 
+const SORTS = ["recent", "installs", "rating", "name"] as const;
+type Sort = (typeof SORTS)[number];
+
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
+    const client = await getClient();
+
+    // ?ids=a,b,c looks up specific listings (update checks for installed apps)
+    const ids = searchParams.get("ids");
+    if (ids) {
+      const apps = await client.query(api.apps.getAppsByIds, {
+        ids: ids.split(",").filter(Boolean) as Id<'apps_public'>[], // Validated by Convex schema
+      });
+      return NextResponse.json({ apps, cursor: null, isDone: true });
+    }
+
     const limitParam = searchParams.get("limit");
-    const search = searchParams.get("search") ?? undefined;
-    const ownerId = searchParams.get("ownerId") ?? undefined;
-    const visibility = searchParams.get("visibility") ?? undefined;
     const limit = limitParam ? Number(limitParam) : undefined;
+    const sortParam = searchParams.get("sort");
+    const sort = SORTS.includes(sortParam as Sort) ? (sortParam as Sort) : undefined;
 
-    const client = await getClient();
-    const apps = await client.query(api.apps.listApps, {
-      limit: Number.isFinite(limit) ? limit : undefined,
-      search,
-      ownerId,
-      visibility,
+    const result = await client.query(api.apps.listApps, {
+      search: searchParams.get("search") || undefined,
+      tag: searchParams.get("tag") || undefined,
+      ownerId: searchParams.get("ownerId") || undefined,
+      cursor: searchParams.get("cursor") || undefined,
+      pageSize: Number.isFinite(limit) ? limit : undefined,
+      sort,
+    });
+    return NextResponse.json({
+      apps: result.page,
+      cursor: result.isDone ? null : result.continueCursor,
+      isDone: result.isDone,
     });
-    return NextResponse.json({ apps });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Failed to list apps";
     return NextResponse.json(
@@ -47,4 +66,3 @@ export async function GET(req: NextRequest) {
     );
   }
 }
-
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "../../../../../convex/_generated/api";
+
+function getClient() {
+  const url = process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!url) throw new Error("Missing NEXT_PUBLIC_CONVEX_URL");
+  return new ConvexHttpClient(url);
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? Number(limitParam) : undefined;
+    const tags = await getClient().query(api.apps.listTagFacets, {
+      limit: Number.isFinite(limit) ? limit : undefined,
+    });
+    return NextResponse.json({ tags });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to list tags";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -31,13 +31,16 @@ export async function GET(
     const client = await getClient();
     const { id } = await params;
     const typedId = id as Id<'desktops_public'>; // Validated by Convex schema
-    const signedUrl = await client.query(api.desktops.getDesktopSnapshotUrl, { id: typedId });
-    const resp = await fetch(signedUrl, { cache: 'no-store' });
+    const snapshot = await client.query(api.desktops.getDesktopSnapshotUrl, { id: typedId });
+    const resp = await fetch(snapshot.url, { cache: 'no-store' });
     if (!resp.ok || !resp.body) {
       return NextResponse.json({ error: "Upstream fetch failed" }, { status: 502 });
     }
     const etag = resp.headers.get('etag') || undefined;
-    const cc = 'public, max-age=300, s-maxage=300, stale-while-revalidate=60';
+    // Private snapshots are per-user responses and must not land in shared caches
+    const cc = snapshot.visibility === 'private'
+      ? 'private, no-store'
+      : 'public, max-age=300, s-maxage=300, stale-while-revalidate=60';
     const headers: Record<string, string> = {
       "Content-Type": resp.headers.get("Content-Type") || "application/octet-stream",
       "Cache-Control": cc,
@@ -22,22 +22,56 @@ export default function LogsPage() {
   const [error, setError] = useState<string | null>(null);
   const [limit, setLimit] = useState(100);
   const [selectedSession, setSelectedSession] = useState<string | null>(null);
+  const [selectedType, setSelectedType] = useState<string>('');
+  const [toolFilter, setToolFilter] = useState('');
+  const [fromTime, setFromTime] = useState('');
+  const [toTime, setToTime] = useState('');
+  const [knownSessions, setKnownSessions] = useState<string[]>([]);
+
+  const buildQuery = useCallback(() => {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (selectedSession) params.set('sessionId', selectedSession);
+    if (selectedType) params.set('type', selectedType);
+    if (toolFilter.trim()) params.set('tool', toolFilter.trim());
+    if (fromTime) params.set('from', new Date(fromTime).toISOString());
+    if (toTime) params.set('to', new Date(toTime).toISOString());
+    return params;
+  }, [limit, selectedSession, selectedType, toolFilter, fromTime, toTime]);
 
   const fetchLogs = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/agent/logs?limit=${limit}`);
+      const response = await fetch(`/api/agent/logs?${buildQuery().toString()}`);
+      if (response.status === 401) throw new Error('Sign in to view your agent logs');
       if (!response.ok) throw new Error('Failed to fetch logs');
       
       const data = (await response.json()) as { logs?: AgentLogEntry[]; summary?: LogSummary };
-      setLogs(data.logs ?? []);
+      const nextLogs = data.logs ?? [];
+      setLogs(nextLogs);
       setSummary(data.summary ?? null);
+      setKnownSessions((prev) => Array.from(new Set([...prev, ...nextLogs.map((l) => l.sessionId)])));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch logs');
     } finally {
       setLoading(false);
     }
-  }, [limit]);
+  }, [buildQuery]);
+
+  const clearLogs = async () => {
+    const scope = selectedSession ? 'this session' : 'all sessions';
+    if (!window.confirm(`Delete stored logs for ${scope}?`)) return;
+    try {
+      const params = new URLSearchParams();
+      if (selectedSession) params.set('sessionId', selectedSession);
+      const response = await fetch(`/api/agent/logs?${params.toString()}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete logs');
+      if (!selectedSession) setKnownSessions([]);
+      setSelectedSession(null);
+      await fetchLogs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete logs');
+    }
+  };
 
   useEffect(() => {
     void fetchLogs();
@@ -62,16 +96,12 @@ export default function LogsPage() {
   };
 
   const downloadCSV = () => {
-    window.open(`/api/agent/logs?format=csv&limit=${limit}`, '_blank');
+    const params = buildQuery();
+    params.set('format', 'csv');
+    window.open(`/api/agent/logs?${params.toString()}`, '_blank');
   };
 
-  const uniqueSessions = Array.from(new Set(logs.map(l => l.sessionId)));
-
-  const filteredLogs = selectedSession 
-    ? logs.filter(l => l.sessionId === selectedSession)
-    : logs;
-
-  if (loading) {
+  if (loading && !summary) {
     return (
       <div className="container mx-auto p-6">
         <div className="text-center">Loading logs...</div>
@@ -94,6 +124,7 @@ export default function LogsPage() {
         <div className="flex gap-2">
           <Button onClick={fetchLogs} variant="outline">Refresh</Button>
           <Button onClick={downloadCSV} variant="outline">Download CSV</Button>
+          <Button onClick={clearLogs} variant="destructive">Clear</Button>
         </div>
       </div>
 
@@ -142,7 +173,7 @@ export default function LogsPage() {
         </Card>
       )}
 
-      <div className="flex gap-4 items-center">
+      <div className="flex flex-wrap gap-4 items-center">
         <div>
           <label className="text-sm font-medium">Limit: </label>
           <select 
@@ -165,17 +196,62 @@ export default function LogsPage() {
             className="border rounded px-2 py-1"
           >
             <option value="">All Sessions</option>
-            {uniqueSessions.map(sessionId => (
+            {knownSessions.map(sessionId => (
               <option key={sessionId} value={sessionId}>
                 {sessionId.slice(0, 20)}...
               </option>
             ))}
           </select>
         </div>
+
+        <div>
+          <label className="text-sm font-medium">Type: </label>
+          <select
+            value={selectedType}
+            onChange={(e) => setSelectedType(e.target.value)}
+            className="border rounded px-2 py-1"
+          >
+            <option value="">All Types</option>
+            <option value="message">message</option>
+            <option value="tool_call">tool_call</option>
+            <option value="token_usage">token_usage</option>
+            <option value="error">error</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="text-sm font-medium">Tool: </label>
+          <input
+            value={toolFilter}
+            onChange={(e) => setToolFilter(e.target.value)}
+            placeholder="e.g. web_fs_write"
+            className="border rounded px-2 py-1"
+          />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium">From: </label>
+          <input
+            type="datetime-local"
+            value={fromTime}
+            onChange={(e) => setFromTime(e.target.value)}
+            className="border rounded px-2 py-1"
+          />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium">To: </label>
+          <input
+            type="datetime-local"
+            value={toTime}
+            onChange={(e) => setToTime(e.target.value)}
+            className="border rounded px-2 py-1"
+          />
+        </div>
       </div>
 
       <div className="space-y-2">
-        {filteredLogs.map((log, index) => (
+        {logs.map((log, index) => (
           <Card key={index} className="p-4">
             <div className="flex justify-between items-start mb-2">
               <div className="flex gap-2 items-center">
@@ -232,7 +308,7 @@ export default function LogsPage() {
         ))}
       </div>
 
-      {filteredLogs.length === 0 && (
+      {logs.length === 0 && (
         <div className="text-center text-gray-500">No logs found.</div>
       )}
     </div>
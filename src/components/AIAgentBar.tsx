@@ -1,13 +1,15 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { ArrowLeft, Monitor, Store, Image as ImageIcon, MessageCircle, UserPlus, Users, Undo2 } from 'lucide-react';
+import { ArrowLeft, Monitor, Store, Image as ImageIcon, MessageCircle, UserPlus, Users, Undo2, SquareTerminal, ShieldCheck } from 'lucide-react';
 import { useWebContainer } from './WebContainerProvider';
 import { useScreens } from './ScreensProvider';
+import { useTerminalPanel } from './TerminalProvider';
 import { formatBytes } from '@/lib/agent/agentUtils';
+import { MODEL_PROFILE_IDS, MODEL_PROFILES, isModelProfileId } from '@/lib/agent/agentModels';
 import { useScrollSizing } from '@/components/agent/AIAgentBar/hooks/useScrollSizing';
 import { useSocialPanelState } from '@/components/agent/AIAgentBar/hooks/useSocialPanelState';
-import { useDesktopUndo } from '@/components/agent/AIAgentBar/hooks/useDesktopUndo';
+import { useRestorePoints } from '@/components/agent/AIAgentBar/hooks/useRestorePoints';
 import { useAgentController } from '@/components/agent/AIAgentBar/hooks/useAgentController';
 import { useMediaController } from '@/components/agent/AIAgentBar/hooks/useMediaController';
 import AgentBarShell from '@/components/agent/AIAgentBar/ui/AgentBarShell';
@@ -18,11 +20,18 @@ import MediaPane from '@/components/agent/AIAgentBar/ui/MediaPane';
 import AddFriendForm from '@/components/agent/AIAgentBar/ui/AddFriendForm';
 import FriendMessagesPane from '@/components/agent/AIAgentBar/ui/FriendMessagesPane';
 import GroupMessagesPane from '@/components/agent/AIAgentBar/ui/GroupMessagesPane';
-import { buildDesktopSnapshot, restoreDesktopSnapshot } from '@/utils/desktop-snapshot';
+import RestoreTimeline from '@/components/agent/AIAgentBar/ui/RestoreTimeline';
 import { getMutableWindow } from '@/components/agent/AIAgentBar/utils/window';
+import { grantPolicyApproval } from '@/utils/policy-approvals';
+import { loadApprovalSettings, saveApprovalSettings } from '@/utils/tool-approvals';
+import { loadReviewMode, saveReviewMode } from '@/utils/write-reviews';
+import { APPROVAL_CATEGORIES, APPROVAL_CATEGORY_IDS, DEFAULT_APPROVAL_SETTINGS, type ApprovalCategory, type ApprovalSettings } from '@/lib/agent/agentApprovals';
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import type { PolicyViolation } from '@/lib/agent/agentPolicy';
 import { Authenticated, Unauthenticated } from 'convex/react';
 import { SignInButton, UserButton } from '@clerk/nextjs';
 import type { Doc } from '../../convex/_generated/dataModel';
+import type { WebContainerProcess } from '@webcontainer/api';
 
 type AgentWebContainerFns = {
   mkdir: (path: string, recursive?: boolean) => Promise<void>;
@@ -31,6 +40,7 @@ type AgentWebContainerFns = {
   readdirRecursive: (path?: string, maxDepth?: number) => Promise<{ path: string; type: 'file' | 'dir' }[]>;
   remove: (path: string, opts?: { recursive?: boolean }) => Promise<void>;
   spawn: (command: string, args?: string[], opts?: { cwd?: string }) => Promise<{ exitCode: number; output: string }>;
+  spawnProcess: (command: string, args?: string[], opts?: { cwd?: string }) => Promise<WebContainerProcess>;
 };
 
 export default function AIAgentBar() {
@@ -39,7 +49,8 @@ export default function AIAgentBar() {
   const [chatSurface, setChatSurface] = useState<'agent' | 'history' | 'friend'>('agent');
   
   const { goTo, activeIndex } = useScreens();
-  const { instance, mkdir, writeFile, readFile, readdirRecursive, remove, spawn } = useWebContainer();
+  const { open: terminalOpen, toggle: toggleTerminal } = useTerminalPanel();
+  const { instance, mkdir, writeFile, readFile, readdirRecursive, remove, spawn, spawnProcess } = useWebContainer();
   
   // Visit desktops state
   const [desktopsListing, setDesktopsListing] = useState<Array<{ _id: string; title: string; description?: string; icon?: string }>>([]);
@@ -113,10 +124,10 @@ export default function AIAgentBar() {
 
   // Keep latest instance and fs helpers in refs so tool callbacks don't capture stale closures
   const instanceRef = useRef(instance);
-  const baseFnsRef = useRef<AgentWebContainerFns>({ mkdir, writeFile, readFile, readdirRecursive, remove, spawn });
-  const fnsRef = useRef<AgentWebContainerFns>({ mkdir, writeFile, readFile, readdirRecursive, remove, spawn });
+  const baseFnsRef = useRef<AgentWebContainerFns>({ mkdir, writeFile, readFile, readdirRecursive, remove, spawn, spawnProcess });
+  const fnsRef = useRef<AgentWebContainerFns>({ mkdir, writeFile, readFile, readdirRecursive, remove, spawn, spawnProcess });
   useEffect(() => { instanceRef.current = instance; }, [instance]);
-  useEffect(() => { baseFnsRef.current = { mkdir, writeFile, readFile, readdirRecursive, remove, spawn }; }, [mkdir, writeFile, readFile, readdirRecursive, remove, spawn]);
+  useEffect(() => { baseFnsRef.current = { mkdir, writeFile, readFile, readdirRecursive, remove, spawn, spawnProcess }; }, [mkdir, writeFile, readFile, readdirRecursive, remove, spawn, spawnProcess]);
 
   const agent = useAgentController({
     input,
@@ -144,6 +155,8 @@ export default function AIAgentBar() {
     showThreadHistory,
     setShowThreadHistory,
     activeThreadIdImmediateRef,
+    activeModelProfile,
+    setModelProfile,
   } = agent.threads;
 
   const {
@@ -151,27 +164,44 @@ export default function AIAgentBar() {
     optimisticMessages: agentOptimisticMessages,
     status: agentStatus,
     stop: stopAgent,
+    sendMessage: sendAgentMessage,
     agentActive,
     didAnimateWelcome,
     setDidAnimateWelcome,
     bubbleAnimatingIds,
     lastSentAttachments,
+    budgetError,
+    clearBudgetError,
   } = agent.chat;
 
   const {
-    undoDepth,
+    points: restorePoints,
+    currentPointId,
     markFsChanged,
-    restorePreviousSnapshot,
-  } = useDesktopUndo({
+    refresh: refreshRestorePoints,
+    restorePoint,
+    previewRestorePoint,
+    removeRestorePoint,
+  } = useRestorePoints({
     instance,
     instanceRef,
     status: agent.chat.status,
-    buildSnapshot: buildDesktopSnapshot,
-    restoreSnapshot: restoreDesktopSnapshot,
+    messages: agentMessages,
   });
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [restoreBusy, setRestoreBusy] = useState(false);
 
   useEffect(() => {
     const base = baseFnsRef.current;
+    const markIfInstall = (command: string, args: string[]) => {
+      const cmdLower = (command || '').toLowerCase();
+      const firstArg = (args[0] || '').toLowerCase();
+      const isPkgMgr = /^(pnpm|npm|yarn|bun)$/.test(cmdLower);
+      const isInstallLike = /^(add|install|update|remove|uninstall|i)$/i.test(firstArg);
+      if (isPkgMgr && isInstallLike) {
+        markFsChanged();
+      }
+    };
     const tracked = {
       mkdir: base.mkdir,
       writeFile: async (path: string, content: string) => {
@@ -185,23 +215,47 @@ export default function AIAgentBar() {
         return base.remove(path, opts);
       },
       spawn: async (command: string, args: string[] = [], opts?: { cwd?: string }) => {
-        const cmdLower = (command || '').toLowerCase();
-        const firstArg = (args[0] || '').toLowerCase();
-        const isPkgMgr = /^(pnpm|npm|yarn|bun)$/.test(cmdLower);
-        const isInstallLike = /^(add|install|update|remove|uninstall|i)$/i.test(firstArg);
-        if (isPkgMgr && isInstallLike) {
-          markFsChanged();
-        }
+        markIfInstall(command, args);
         return base.spawn(command, args, opts);
       },
+      spawnProcess: async (command: string, args: string[] = [], opts?: { cwd?: string }) => {
+        markIfInstall(command, args);
+        return base.spawnProcess(command, args, opts);
+      },
     } as typeof fnsRef.current;
     fnsRef.current = tracked;
-  }, [markFsChanged, mkdir, writeFile, readFile, readdirRecursive, remove, spawn]);
+  }, [markFsChanged, mkdir, writeFile, readFile, readdirRecursive, remove, spawn, spawnProcess]);
 
 
-  const handleUndo = useCallback(async () => {
+  // Which destructive tool actions wait for approval; stored per device
+  const [approvalSettings, setApprovalSettings] = useState<ApprovalSettings>(DEFAULT_APPROVAL_SETTINGS);
+  useEffect(() => { setApprovalSettings(loadApprovalSettings()); }, []);
+  const toggleApprovalCategory = useCallback((category: ApprovalCategory, enabled: boolean) => {
+    setApprovalSettings((prev) => {
+      const next = { ...prev, [category]: enabled };
+      saveApprovalSettings(next);
+      return next;
+    });
+  }, []);
+  const approvalCount = APPROVAL_CATEGORY_IDS.filter((id) => approvalSettings[id]).length;
+  // Review mode stages writes for per-hunk accept/reject
+  const [reviewMode, setReviewMode] = useState(false);
+  useEffect(() => { setReviewMode(loadReviewMode()); }, []);
+  const toggleReviewMode = useCallback((enabled: boolean) => {
+    setReviewMode(enabled);
+    saveReviewMode(enabled);
+  }, []);
+
+  const handleAllowPolicyViolation = useCallback((violation: PolicyViolation) => {
+    if (!violation.approvalKey) return;
+    grantPolicyApproval(violation.approvalKey);
+    void sendAgentMessage({ text: `I allowed this once: ${violation.tool} \`${violation.target}\`. Go ahead and retry it.` }).catch(() => {});
+  }, [sendAgentMessage]);
+
+  const handleRestore = useCallback(async (id: string) => {
+    setRestoreBusy(true);
     try {
-      const restored = await restorePreviousSnapshot({
+      const restored = await restorePoint(id, {
         onBeforeRestore: () => {
           const globalWin = getMutableWindow();
           if (globalWin) {
@@ -218,13 +272,14 @@ export default function AIAgentBar() {
         },
       });
       if (!restored) {
-        const stackMessage = 'Nothing to undo — snapshot stack too shallow or WebContainer missing.';
-        console.debug?.('[UNDO] noop:', stackMessage);
+        console.debug?.('[RESTORE] noop: restore point missing or WebContainer not ready');
       }
     } catch (error) {
-      console.error('[UNDO] Restore failed', error);
+      console.error('[RESTORE] Restore failed', error);
+    } finally {
+      setRestoreBusy(false);
     }
-  }, [restorePreviousSnapshot]);
+  }, [restorePoint]);
 
   // UI state
   const isOpen = mode !== 'compact';
@@ -382,6 +437,13 @@ export default function AIAgentBar() {
       onClick: () => setMode('media'),
       icon: ImageIcon,
     },
+    {
+      key: 'terminal',
+      label: 'Terminal',
+      active: terminalOpen,
+      onClick: toggleTerminal,
+      icon: SquareTerminal,
+    },
   ] as const;
   const historyView = (
     <div className="flex h-full min-h-0 flex-col px-4 py-3 text-white">
@@ -462,17 +524,87 @@ export default function AIAgentBar() {
           <ArrowLeft className="h-4 w-4" />
         </button>
         <span className="text-base font-semibold text-white">Assistant</span>
+        <select
+          value={activeModelProfile}
+          onChange={(e) => {
+            const next = e.target.value;
+            if (isModelProfileId(next)) void setModelProfile(next);
+          }}
+          disabled={agentStatus === 'submitted' || agentStatus === 'streaming'}
+          title={MODEL_PROFILES[activeModelProfile].description}
+          aria-label="Model profile"
+          className="rounded-full border border-white/15 bg-black/40 px-2 py-1 text-xs text-white/80 outline-none hover:bg-white/10 disabled:opacity-50"
+        >
+          {MODEL_PROFILE_IDS.map((id) => (
+            <option key={id} value={id} className="bg-neutral-900 text-white">
+              {MODEL_PROFILES[id].label}
+            </option>
+          ))}
+        </select>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              className="flex items-center gap-1 rounded-full border border-white/15 bg-black/40 px-2 py-1 text-xs text-white/80 hover:bg-white/10"
+              title="Choose which agent actions wait for your approval"
+            >
+              <ShieldCheck className="h-3.5 w-3.5" />
+              <span>{approvalCount > 0 ? `Ask before (${approvalCount})` : 'Ask before: off'}{reviewMode ? ' · review' : ''}</span>
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-64 border-white/10 bg-neutral-950 text-white">
+            <DropdownMenuLabel className="text-xs text-white/60">Ask before the agent…</DropdownMenuLabel>
+            {APPROVAL_CATEGORY_IDS.map((id) => (
+              <DropdownMenuCheckboxItem
+                key={id}
+                checked={approvalSettings[id]}
+                onCheckedChange={(checked) => toggleApprovalCategory(id, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+                className="text-xs focus:bg-white/10 focus:text-white"
+              >
+                <div>
+                  <div>{APPROVAL_CATEGORIES[id].label}</div>
+                  <div className="text-[11px] text-white/50">{APPROVAL_CATEGORIES[id].description}</div>
+                </div>
+              </DropdownMenuCheckboxItem>
+            ))}
+            <DropdownMenuSeparator className="bg-white/10" />
+            <DropdownMenuCheckboxItem
+              checked={reviewMode}
+              onCheckedChange={(checked) => toggleReviewMode(checked === true)}
+              onSelect={(e) => e.preventDefault()}
+              className="text-xs focus:bg-white/10 focus:text-white"
+            >
+              <div>
+                <div>Review writes before they land</div>
+                <div className="text-[11px] text-white/50">Accept or reject each hunk of web_fs_write and code_edit_ast changes</div>
+              </div>
+            </DropdownMenuCheckboxItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
-      {agentStatus === 'ready' && undoDepth > 1 && (
+      {agentStatus === 'ready' && restorePoints.length > 1 && (
         <button
-          onClick={handleUndo}
+          onClick={() => { setTimelineOpen(true); void refreshRestorePoints(); }}
           className="absolute right-4 top-3 flex items-center gap-1.5 rounded-full border border-white/10 bg-black/40 px-3 py-1.5 text-xs text-white/70 transition-colors hover:text-white"
-          title="Undo changes"
+          title="Browse restore points"
         >
           <Undo2 className="h-3.5 w-3.5" />
-          <span>Undo</span>
+          <span>Restore points</span>
         </button>
       )}
+      <RestoreTimeline
+        open={timelineOpen}
+        onOpenChange={setTimelineOpen}
+        points={restorePoints}
+        currentPointId={currentPointId}
+        busy={restoreBusy || agentStatus === 'submitted' || agentStatus === 'streaming'}
+        onPreview={previewRestorePoint}
+        onRestore={handleRestore}
+        onDelete={async (id) => {
+          try { await removeRestorePoint(id); } catch (error) { console.error('[RESTORE] Delete failed', error); }
+        }}
+      />
       <div className="flex-1 min-h-0 overflow-hidden p-3">
         <div className="flex h-full min-h-0 flex-col gap-3">
           <ChatTabs
@@ -506,6 +638,23 @@ export default function AIAgentBar() {
               setActiveThreadId(id);
             }}
           />
+          {budgetError && (
+            <div className="flex items-start justify-between gap-3 rounded-lg border border-rose-400/30 bg-rose-500/15 px-3 py-2 text-xs text-rose-100" role="alert">
+              <div className="flex flex-col gap-0.5">
+                <span className="font-medium">{budgetError.error}</span>
+                <span className="text-rose-100/70">
+                  Spent ${budgetError.budget.spentUsd.toFixed(2)} of ${budgetError.budget.limitUsd.toFixed(2)} {budgetError.budget.period} budget. Resets {new Date(budgetError.budget.resetsAt).toLocaleString()}.
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={clearBudgetError}
+                className="shrink-0 rounded-full border border-white/15 px-2 py-0.5 text-[11px] text-white/70 hover:bg-white/10"
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
           <div className="flex-1 min-h-0">
             <MessagesPane
               messages={agentMessages}
@@ -522,6 +671,7 @@ export default function AIAgentBar() {
               onSuggestionSelect={(text) => {
                 setInput(text);
               }}
+              onAllowPolicyViolation={handleAllowPolicyViolation}
             />
           </div>
         </div>
@@ -1,12 +1,20 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Search, Download, Star, TrendingUp, Sparkles, Upload } from 'lucide-react';
+import { useAuth } from '@clerk/nextjs';
 import { useWebContainer } from './WebContainerProvider';
+import type { RegistryEntry } from '@/utils/app-install';
+import type { SafetyFinding, SafetyReport } from '@/utils/app-safety';
+import { compareSemver } from '../../convex/semver';
 
 type AppRecord = {
   _id: string;
@@ -15,6 +23,31 @@ type AppRecord = {
   icon?: string;
   description?: string;
   tags?: string[];
+  version?: string;
+  installCount?: number;
+  ratingAvg?: number;
+  ratingCount?: number;
+  visibility?: Visibility;
+  safety?: SafetyReport;
+};
+
+type AppPage = { apps: AppRecord[]; cursor: string | null; isDone: boolean };
+type SortKey = 'recent' | 'installs' | 'rating' | 'name';
+type Visibility = 'public' | 'unlisted' | 'private';
+type TagFacet = { tag: string; count: number };
+type RatingRecord = { rating: number; review?: string; author: string; mine: boolean; updatedAt: number };
+
+const VISIBILITY_LABELS: Record<Visibility, string> = {
+  public: 'Public',
+  unlisted: 'Unlisted (link only)',
+  private: 'Private (only you)',
+};
+
+const SORT_LABELS: Record<SortKey, string> = {
+  recent: 'Recently updated',
+  installs: 'Most installed',
+  rating: 'Top rated',
+  name: 'Name',
 };
 
 async function fetchJSON<T>(url: string): Promise<T> {
@@ -23,23 +56,78 @@ async function fetchJSON<T>(url: string): Promise<T> {
   return res.json();
 }
 
+function appsUrl(params: { search?: string; tag?: string | null; sort?: SortKey; ownerId?: string | null; cursor?: string | null; limit?: number }) {
+  const qs = new URLSearchParams();
+  if (params.ownerId) qs.set('ownerId', params.ownerId);
+  if (params.search) qs.set('search', params.search);
+  if (params.tag) qs.set('tag', params.tag);
+  if (params.sort) qs.set('sort', params.sort);
+  if (params.cursor) qs.set('cursor', params.cursor);
+  if (params.limit) qs.set('limit', String(params.limit));
+  const query = qs.toString();
+  return query ? `/api/store/apps?${query}` : '/api/store/apps';
+}
+
+function describeFinding(finding: SafetyFinding) {
+  return `${finding.file}${finding.line ? `:${finding.line}` : ''} ${finding.message}`;
+}
+
+function StarRating({ value, count, className = '' }: { value?: number; count?: number; className?: string }) {
+  const rounded = Math.round(value ?? 0);
+  return (
+    <div className={`flex items-center gap-1 ${className}`}>
+      {[...Array(5)].map((_, i) => (
+        <Star key={i} className={`w-4 h-4 ${i < rounded ? 'fill-yellow-400 text-yellow-400' : 'text-slate-300'}`} />
+      ))}
+      <span className="text-sm text-slate-600 ml-1">
+        {count ? `${(value ?? 0).toFixed(1)} (${count})` : 'No ratings'}
+      </span>
+    </div>
+  );
+}
+
 export function AppStoreScreen() {
-  const [apps, setApps] = useState<AppRecord[]>([]);
+  const [recentApps, setRecentApps] = useState<AppRecord[]>([]);
+  const [trendingApps, setTrendingApps] = useState<AppRecord[]>([]);
+  const [tagFacets, setTagFacets] = useState<TagFacet[]>([]);
+  // Apps tab: search/tag/sort browse with cursor pagination
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [sort, setSort] = useState<SortKey>('recent');
+  const [browse, setBrowse] = useState<AppPage>({ apps: [], cursor: null, isDone: true });
+  const [browseLoading, setBrowseLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState('discover');
+  // Store listings for installed apps, used for update detection
+  const [installedListings, setInstalledListings] = useState<AppRecord[]>([]);
+  const [selectedApp, setSelectedApp] = useState<AppRecord | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [installingIds, setInstallingIds] = useState<Set<string>>(new Set());
-  const [localApps, setLocalApps] = useState<Array<{id: string; name: string; icon?: string; path: string}>>([]);
+  const [localApps, setLocalApps] = useState<RegistryEntry[]>([]);
   const [publishingIds, setPublishingIds] = useState<Set<string>>(new Set());
+  // Outcome of the last install/publish (dependency changes, unresolved imports)
+  const [notice, setNotice] = useState<{ tone: 'info' | 'error'; text: string; details?: string[] } | null>(null);
+  // Apps the signed-in user has published, including unlisted and private ones
+  const [myApps, setMyApps] = useState<AppRecord[]>([]);
+  const [managingIds, setManagingIds] = useState<Set<string>>(new Set());
   const { instance } = useWebContainer();
+  const { userId } = useAuth();
 
   useEffect(() => {
     let mounted = true;
     
     const loadApps = async () => {
       try {
-        const data = await fetchJSON<{ apps: AppRecord[] }>('/api/store/apps');
+        const [recent, trending, tags] = await Promise.all([
+          fetchJSON<AppPage>(appsUrl({ sort: 'recent', limit: 8 })),
+          fetchJSON<AppPage>(appsUrl({ sort: 'installs', limit: 10 })),
+          fetchJSON<{ tags: TagFacet[] }>('/api/store/tags').catch(() => ({ tags: [] })),
+        ]);
         if (!mounted) return;
-        setApps(data.apps || []);
+        setRecentApps(recent.apps || []);
+        setTrendingApps(trending.apps || []);
+        setTagFacets(tags.tags || []);
       } catch (error) {
         if (!mounted) return;
         const message = error instanceof Error ? error.message : 'Failed to load apps';
@@ -54,28 +142,111 @@ export function AppStoreScreen() {
   }, []);
 
   // Load local apps from the WebContainer registry
+  const loadLocalApps = useCallback(async (): Promise<RegistryEntry[]> => {
+    if (!instance) return [];
+    try {
+      const registryContent = await instance.fs.readFile('/public/apps/registry.json', 'utf8');
+      const registry = JSON.parse(registryContent as string);
+      return Array.isArray(registry) ? registry : [];
+    } catch (e) {
+      console.warn('Failed to load local apps registry:', e);
+      return [];
+    }
+  }, [instance]);
+
   useEffect(() => {
-    if (!instance) return;
-    
     let mounted = true;
-    const loadLocalApps = async () => {
+    loadLocalApps().then((registry) => {
+      if (mounted) setLocalApps(registry);
+    });
+    return () => { mounted = false; };
+  }, [loadLocalApps]);
+
+  const loadMyApps = useCallback(async () => {
+    if (!userId) {
+      setMyApps([]);
+      return;
+    }
+    try {
+      const data = await fetchJSON<AppPage>(appsUrl({ ownerId: userId, limit: 100 }));
+      setMyApps(data.apps || []);
+    } catch {}
+  }, [userId]);
+
+  useEffect(() => {
+    loadMyApps();
+  }, [loadMyApps]);
+
+  // Debounce typing into the search box
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // First page of the Apps tab; cursors are only valid for the query that produced them
+  useEffect(() => {
+    let mounted = true;
+    setBrowseLoading(true);
+    fetchJSON<AppPage>(appsUrl({ search, tag, sort, limit: 24 }))
+      .then((page) => { if (mounted) setBrowse(page); })
+      .catch((e) => { if (mounted) setNotice({ tone: 'error', text: `Search failed: ${e instanceof Error ? e.message : 'Unknown error'}` }); })
+      .finally(() => { if (mounted) setBrowseLoading(false); });
+    return () => { mounted = false; };
+  }, [search, tag, sort]);
+
+  const loadMore = async () => {
+    if (browseLoading || browse.isDone || !browse.cursor) return;
+    setBrowseLoading(true);
+    try {
+      const page = await fetchJSON<AppPage>(appsUrl({ search, tag, sort, cursor: browse.cursor, limit: 24 }));
+      setBrowse((prev) => ({ apps: [...prev.apps, ...page.apps], cursor: page.cursor, isDone: page.isDone }));
+    } catch (e) {
+      setNotice({ tone: 'error', text: `Failed to load more apps: ${e instanceof Error ? e.message : 'Unknown error'}` });
+    } finally {
+      setBrowseLoading(false);
+    }
+  };
+
+  const browseTag = (next: string | null) => {
+    setTag(next);
+    setActiveTab('apps');
+  };
+
+  useEffect(() => {
+    const ids = Array.from(new Set(localApps.map((local) => local.source?.storeId).filter((id): id is string => !!id)));
+    if (ids.length === 0) {
+      setInstalledListings([]);
+      return;
+    }
+    let mounted = true;
+    fetchJSON<AppPage>(`/api/store/apps?ids=${ids.map(encodeURIComponent).join(',')}`)
+      .then((data) => { if (mounted) setInstalledListings(data.apps || []); })
+      .catch(() => {});
+    return () => { mounted = false; };
+  }, [localApps]);
+
+  // Store apps with a newer version than the installed copy, keyed by store id
+  const updatesByStoreId = useMemo(() => {
+    const updates = new Map<string, { installed: RegistryEntry; latest: string }>();
+    for (const local of localApps) {
+      const source = local.source;
+      if (!source) continue;
+      const listing = installedListings.find((app) => app._id === source.storeId);
+      if (!listing?.version) continue;
       try {
-        const registryContent = await instance.fs.readFile('/public/apps/registry.json', 'utf8');
-        const registry = JSON.parse(registryContent as string);
-        if (mounted) {
-          setLocalApps(Array.isArray(registry) ? registry : []);
-        }
-      } catch (e) {
-        console.warn('Failed to load local apps registry:', e);
-        if (mounted) {
-          setLocalApps([]);
+        if (compareSemver(listing.version, source.version) > 0) {
+          updates.set(listing._id, { installed: local, latest: listing.version });
         }
-      }
-    };
+      } catch {}
+    }
+    return updates;
+  }, [installedListings, localApps]);
+  const updatableApps = installedListings.filter((app) => updatesByStoreId.has(app._id));
 
-    loadLocalApps();
-    return () => { mounted = false; };
-  }, [instance]);
+  const actionLabel = (app: AppRecord) => {
+    if (installingIds.has(app._id)) return updatesByStoreId.has(app._id) ? 'Updating...' : 'Installing...';
+    return updatesByStoreId.has(app._id) ? 'Update' : 'Get';
+  };
 
   const handleInstall = async (appId: string) => {
     if (installingIds.has(appId) || !instance) return;
@@ -83,14 +254,25 @@ export function AppStoreScreen() {
     setInstallingIds(prev => new Set(prev).add(appId));
     
     try {
-      const res = await fetch(`/api/store/apps/${appId}/bundle`);
-      if (!res.ok) throw new Error('Bundle fetch failed');
-      
-      const buf = new Uint8Array(await res.arrayBuffer());
-      const { installAppFromBundle } = await import('@/utils/app-install');
-      await installAppFromBundle(instance, buf);
+      // Installs new apps; apps already installed from this listing are upgraded in place
+      const { installOrUpgradeFromStore, describeDependencyReport } = await import('@/utils/app-install');
+      const outcome = await installOrUpgradeFromStore(instance, appId);
+      setLocalApps(await loadLocalApps());
+      const name = [...installedListings, ...browse.apps, ...recentApps].find((app) => app._id === appId)?.name ?? outcome.id;
+      const text = `${name} ${outcome.kind === 'upgraded' ? 'updated' : 'installed'}: ${describeDependencyReport(outcome.dependencies)}.`;
+      if (outcome.kind === 'upgraded' && outcome.result.conflicts.length > 0) {
+        const note = outcome.result.merged ? 'Your local changes were kept for these files:' : 'The previous version was unavailable, so these locally changed files were left as they were:';
+        setNotice({
+          tone: outcome.dependencies.ok ? 'info' : 'error',
+          text: `${text} Updated to ${outcome.result.toVersion} with conflicts. ${note}`,
+          details: outcome.result.conflicts.map((c) => `${c.path} (${c.reason}${c.hunks ? `, ${c.hunks} region${c.hunks === 1 ? '' : 's'}` : ''})`),
+        });
+      } else {
+        setNotice({ tone: outcome.dependencies.ok ? 'info' : 'error', text });
+      }
     } catch (e) {
       console.error('Install failed:', e);
+      setNotice({ tone: 'error', text: `Install failed: ${e instanceof Error ? e.message : 'Unknown error'}` });
     } finally {
       setInstallingIds(prev => {
         const next = new Set(prev);
@@ -100,8 +282,56 @@ export function AppStoreScreen() {
     }
   };
 
+  const withManaging = async (id: string, action: () => Promise<void>) => {
+    if (managingIds.has(id)) return;
+    setManagingIds(prev => new Set(prev).add(id));
+    try {
+      await action();
+    } catch (e) {
+      setNotice({ tone: 'error', text: e instanceof Error ? e.message : 'Request failed' });
+    } finally {
+      setManagingIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  const handleVisibilityChange = (app: AppRecord, visibility: Visibility) => withManaging(app._id, async () => {
+    const res = await fetch(`/api/publish/app/${app._id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ visibility }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(`Failed to change visibility of ${app.name}: ${data?.error || res.status}`);
+    setMyApps((prev) => prev.map((item) => (item._id === app._id ? { ...item, visibility } : item)));
+    // Unlisted/private apps leave the public lists
+    setRecentApps((prev) => visibility === 'public' ? prev : prev.filter((item) => item._id !== app._id));
+    setTrendingApps((prev) => visibility === 'public' ? prev : prev.filter((item) => item._id !== app._id));
+  });
+
+  const handleUnpublish = (app: AppRecord) => {
+    if (!window.confirm(`Unpublish ${app.name}? This removes it from the App Store and deletes every published version, rating and review.`)) return;
+    return withManaging(app._id, async () => {
+      const res = await fetch(`/api/publish/app/${app._id}`, { method: 'DELETE' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(`Failed to unpublish ${app.name}: ${data?.error || res.status}`);
+      const drop = (prev: AppRecord[]) => prev.filter((item) => item._id !== app._id);
+      setMyApps(drop);
+      setRecentApps(drop);
+      setTrendingApps(drop);
+      setBrowse((prev) => ({ ...prev, apps: drop(prev.apps) }));
+      setNotice({ tone: 'info', text: `${app.name} was unpublished.` });
+    });
+  };
+
   const handlePublish = async (localApp: {id: string; name: string; icon?: string; path: string}) => {
     if (publishingIds.has(localApp.id) || !instance) return;
+    // The store assigns the next patch version; cancel aborts the publish
+    const changelog = window.prompt(`What's new in this version of ${localApp.name}? (optional)`, '');
+    if (changelog === null) return;
 
     setPublishingIds(prev => new Set(prev).add(localApp.id));
     
@@ -131,7 +361,7 @@ export function AppStoreScreen() {
         body: JSON.stringify({
           appId: localApp.id,
           name: localApp.name,
-          version: '1.0.0',
+          changelog,
           description: manifest.description,
           icon: manifest.icon,
           tags: manifest.tags,
@@ -142,14 +372,29 @@ export function AppStoreScreen() {
         }),
       });
 
+      if (res.status === 422) {
+        // Blocked by the safety scan; nothing was uploaded
+        const data = await res.json() as { safety?: SafetyReport };
+        const blocking = (data.safety?.findings ?? []).filter((f) => f.severity === 'blocking');
+        setNotice({ tone: 'error', text: `${localApp.name} was not published. Fix these first: ${blocking.map(describeFinding).join('; ')}` });
+        return;
+      }
       if (!res.ok) {
         const errorText = await res.text();
         throw new Error(`Publish failed: ${errorText}`);
       }
+      const published = await res.json() as { safety?: SafetyReport };
+      const warnings = (published.safety?.findings ?? []).filter((f) => f.severity === 'warning').length;
+      const safetyNote = warnings > 0 ? ` The safety scan reported ${warnings} warning${warnings === 1 ? '' : 's'}, shown on the listing.` : '';
+
+      setNotice(pkg.unresolvedImports.length > 0
+        ? { tone: 'error', text: `${localApp.name} published, but these imports are not installed and were left out of its dependencies: ${pkg.unresolvedImports.join(', ')}.${safetyNote}` }
+        : { tone: warnings > 0 ? 'error' : 'info', text: `${localApp.name} published with ${Object.keys(pkg.manifest.dependencies ?? {}).length} dependencies.${safetyNote}` });
 
-      // Refresh the apps list to show the newly published app
-      const data = await fetchJSON<{ apps: AppRecord[] }>('/api/store/apps');
-      setApps(data.apps || []);
+      // Refresh the recent list to show the newly published app
+      const data = await fetchJSON<AppPage>(appsUrl({ sort: 'recent', limit: 8 }));
+      setRecentApps(data.apps || []);
+      await loadMyApps();
       
     } catch (e) {
       console.error('Publish failed:', e);
@@ -163,10 +408,9 @@ export function AppStoreScreen() {
     }
   };
 
-  // Group apps for different sections
-  const featuredApps = apps.slice(0, 3);
-  const newApps = apps.slice(3, 8);
-  const popularApps = apps.slice(0, 6);
+  // Discover: the most recently updated app is featured, the rest are "new"
+  const featuredApps = recentApps.slice(0, 1);
+  const newApps = recentApps.slice(1, 8);
 
   if (loading) {
     return (
@@ -200,16 +444,37 @@ export function AppStoreScreen() {
               <h1 className="text-2xl font-bold text-white">App Store</h1>
               <p className="text-white/70 text-sm">Discover amazing apps for your desktop</p>
             </div>
-            <Button variant="outline" size="sm" className="gap-2 border-white/30 text-white hover:bg-white/10">
-              <Search className="w-4 h-4" />
-              Search
-            </Button>
+            <div className="relative w-72">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/60" />
+              <Input
+                value={searchInput}
+                onChange={(e) => {
+                  setSearchInput(e.target.value);
+                  if (e.target.value.trim()) setActiveTab('apps');
+                }}
+                placeholder="Search apps"
+                className="pl-9 bg-white/10 border-white/30 text-white placeholder:text-white/50"
+              />
+            </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-6xl mx-auto px-6 py-8">
-        <Tabs defaultValue="discover" className="space-y-8">
+        {notice && (
+          <div className={`mb-6 flex items-start gap-3 rounded-xl border px-4 py-3 text-sm ${notice.tone === 'error' ? 'border-red-400/40 bg-red-500/10 text-red-200' : 'border-white/20 bg-white/10 text-white/90'}`}>
+            <div className="flex-1">
+              <p>{notice.text}</p>
+              {notice.details && notice.details.length > 0 && (
+                <ul className="mt-1 list-disc pl-5 font-mono text-xs opacity-80">
+                  {notice.details.map((line) => <li key={line}>{line}</li>)}
+                </ul>
+              )}
+            </div>
+            <button className="text-white/60 hover:text-white" onClick={() => setNotice(null)} aria-label="Dismiss">×</button>
+          </div>
+        )}
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-8">
           <TabsList className="grid w-full grid-cols-4 max-w-lg bg-white/10 border-white/20">
             <TabsTrigger value="discover" className="gap-2 text-white/70 data-[state=active]:text-white data-[state=active]:bg-white/20">
               <Sparkles className="w-4 h-4" />
@@ -218,6 +483,9 @@ export function AppStoreScreen() {
             <TabsTrigger value="apps" className="gap-2 text-white/70 data-[state=active]:text-white data-[state=active]:bg-white/20">
               <Download className="w-4 h-4" />
               Apps
+              {updatableApps.length > 0 && (
+                <Badge className="ml-1 h-5 px-1.5 bg-blue-500 text-white border-transparent">{updatableApps.length}</Badge>
+              )}
             </TabsTrigger>
             <TabsTrigger value="trending" className="gap-2 text-white/70 data-[state=active]:text-white data-[state=active]:bg-white/20">
               <TrendingUp className="w-4 h-4" />
@@ -238,7 +506,7 @@ export function AppStoreScreen() {
                     <Badge className="mb-4 bg-white/20 text-white border-white/30">
                       Editor&apos;s Choice
                     </Badge>
-                    <h2 className="text-4xl font-bold mb-2">{featuredApps[0].name}</h2>
+                    <h2 className="text-4xl font-bold mb-2 cursor-pointer" onClick={() => setSelectedApp(featuredApps[0])}>{featuredApps[0].name}</h2>
                     <p className="text-lg opacity-90 mb-6 max-w-md">
                       {featuredApps[0].description || 'Discover this amazing app'}
                     </p>
@@ -248,7 +516,7 @@ export function AppStoreScreen() {
                       onClick={() => handleInstall(featuredApps[0]._id)}
                       disabled={installingIds.has(featuredApps[0]._id)}
                     >
-                      {installingIds.has(featuredApps[0]._id) ? 'Installing...' : 'Get'}
+                      {actionLabel(featuredApps[0])}
                     </Button>
                   </div>
                   <div className="absolute -right-8 -top-8 text-8xl opacity-20">
@@ -263,11 +531,11 @@ export function AppStoreScreen() {
               <section>
                 <div className="flex items-center justify-between mb-6">
                   <h3 className="text-2xl font-bold text-white">New & Noteworthy</h3>
-                  <Button variant="ghost" size="sm" className="text-white/70 hover:text-white hover:bg-white/10">See All</Button>
+                  <Button variant="ghost" size="sm" className="text-white/70 hover:text-white hover:bg-white/10" onClick={() => { setSort('recent'); browseTag(null); }}>See All</Button>
                 </div>
                 <div className="flex gap-4 overflow-x-auto pb-4" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
                   {newApps.map((app) => (
-                    <Card key={app._id} className="flex-shrink-0 w-72 hover:shadow-lg transition-shadow">
+                    <Card key={app._id} className="flex-shrink-0 w-72 hover:shadow-lg transition-shadow cursor-pointer" onClick={() => setSelectedApp(app)}>
                       <CardHeader className="pb-3">
                         <div className="flex items-start gap-3">
                           <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-slate-100 to-slate-200 flex items-center justify-center text-2xl">
@@ -283,18 +551,13 @@ export function AppStoreScreen() {
                       </CardHeader>
                       <CardContent className="pt-0">
                         <div className="flex items-center justify-between">
-                          <div className="flex gap-1">
-                            {[...Array(5)].map((_, i) => (
-                              <Star key={i} className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                            ))}
-                            <span className="text-sm text-slate-600 ml-2">4.8</span>
-                          </div>
+                          <StarRating value={app.ratingAvg} count={app.ratingCount} />
                           <Button
                             size="sm"
-                            onClick={() => handleInstall(app._id)}
+                            onClick={(e) => { e.stopPropagation(); handleInstall(app._id); }}
                             disabled={installingIds.has(app._id)}
                           >
-                            {installingIds.has(app._id) ? 'Installing...' : 'Get'}
+                            {actionLabel(app)}
                           </Button>
                         </div>
                       </CardContent>
@@ -303,14 +566,105 @@ export function AppStoreScreen() {
                 </div>
               </section>
             )}
+
+            {tagFacets.length > 0 && (
+              <section>
+                <h3 className="text-2xl font-bold text-white mb-6">Categories</h3>
+                <div className="flex flex-wrap gap-2">
+                  {tagFacets.map((facet) => (
+                    <Button
+                      key={facet.tag}
+                      variant="outline"
+                      size="sm"
+                      className="border-white/30 text-white bg-white/5 hover:bg-white/15"
+                      onClick={() => browseTag(facet.tag)}
+                    >
+                      {facet.tag}
+                      <span className="text-white/50">{facet.count}</span>
+                    </Button>
+                  ))}
+                </div>
+              </section>
+            )}
           </TabsContent>
 
           <TabsContent value="apps" className="space-y-8">
+            {updatableApps.length > 0 && (
+              <section>
+                <h3 className="text-2xl font-bold text-white mb-6">Updates Available</h3>
+                <div className="space-y-4">
+                  {updatableApps.map((app) => {
+                    const update = updatesByStoreId.get(app._id)!;
+                    return (
+                      <Card key={app._id} className="hover:shadow-md transition-shadow">
+                        <CardContent className="p-6">
+                          <div className="flex items-center gap-4">
+                            <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-slate-100 to-slate-200 flex items-center justify-center text-2xl">
+                              {app.icon || '📦'}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <h4 className="font-semibold text-lg">{app.name}</h4>
+                              <p className="text-slate-600 text-sm">
+                                {update.installed.source?.version} → {update.latest}
+                              </p>
+                            </div>
+                            <Button
+                              size="sm"
+                              onClick={() => handleInstall(app._id)}
+                              disabled={installingIds.has(app._id)}
+                            >
+                              {actionLabel(app)}
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              </section>
+            )}
             <section>
-              <h3 className="text-2xl font-bold text-white mb-6">All Apps</h3>
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h3 className="text-2xl font-bold text-white">
+                  {search ? `Results for "${search}"` : tag ? `Tagged "${tag}"` : 'All Apps'}
+                </h3>
+                {/* Search results are ordered by relevance */}
+                <Select value={sort} onValueChange={(value) => setSort(value as SortKey)} disabled={!!search}>
+                  <SelectTrigger className="w-48 bg-white/10 border-white/30 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+                      <SelectItem key={key} value={key}>{SORT_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {tagFacets.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-6">
+                  <Badge
+                    className={`cursor-pointer ${tag === null ? 'bg-white text-slate-900' : 'bg-white/10 text-white/80 border-white/20'}`}
+                    onClick={() => setTag(null)}
+                  >
+                    All
+                  </Badge>
+                  {tagFacets.map((facet) => (
+                    <Badge
+                      key={facet.tag}
+                      className={`cursor-pointer ${tag === facet.tag ? 'bg-white text-slate-900' : 'bg-white/10 text-white/80 border-white/20'}`}
+                      onClick={() => setTag(tag === facet.tag ? null : facet.tag)}
+                    >
+                      {facet.tag} ({facet.count})
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {!browseLoading && browse.apps.length === 0 && (
+                <p className="text-white/60">No apps match.</p>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {apps.map((app) => (
-                  <Card key={app._id} className="hover:shadow-lg transition-shadow">
+                {browse.apps.map((app) => (
+                  <Card key={app._id} className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => setSelectedApp(app)}>
                     <CardHeader>
                       <div className="flex items-start gap-3">
                         <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-slate-100 to-slate-200 flex items-center justify-center text-3xl">
@@ -321,38 +675,56 @@ export function AppStoreScreen() {
                           <CardDescription className="line-clamp-2">
                             {app.description || 'A great app for your desktop'}
                           </CardDescription>
+                          <StarRating value={app.ratingAvg} count={app.ratingCount} className="mt-2" />
                         </div>
                       </div>
                     </CardHeader>
                     <CardContent>
                       <div className="flex items-center justify-between">
                         <div className="flex gap-1">
-                          {app.tags?.slice(0, 2).map((tag) => (
-                            <Badge key={tag} variant="secondary" className="text-xs">
-                              {tag}
+                          {app.tags?.slice(0, 2).map((appTag) => (
+                            <Badge
+                              key={appTag}
+                              variant="secondary"
+                              className="text-xs cursor-pointer"
+                              onClick={(e) => { e.stopPropagation(); setTag(appTag); }}
+                            >
+                              {appTag}
                             </Badge>
                           ))}
                         </div>
                         <Button
-                          onClick={() => handleInstall(app._id)}
+                          onClick={(e) => { e.stopPropagation(); handleInstall(app._id); }}
                           disabled={installingIds.has(app._id)}
                         >
-                          {installingIds.has(app._id) ? 'Installing...' : 'Get'}
+                          {actionLabel(app)}
                         </Button>
                       </div>
                     </CardContent>
                   </Card>
                 ))}
               </div>
+              {!browse.isDone && (
+                <div className="flex justify-center mt-8">
+                  <Button
+                    variant="outline"
+                    className="border-white/30 text-white bg-white/5 hover:bg-white/15"
+                    onClick={loadMore}
+                    disabled={browseLoading}
+                  >
+                    {browseLoading ? 'Loading...' : 'Load more'}
+                  </Button>
+                </div>
+              )}
             </section>
           </TabsContent>
 
           <TabsContent value="trending" className="space-y-8">
             <section>
-              <h3 className="text-2xl font-bold text-white mb-6">Trending Now</h3>
+              <h3 className="text-2xl font-bold text-white mb-6">Most Installed</h3>
               <div className="space-y-4">
-                {popularApps.map((app, index) => (
-                  <Card key={app._id} className="hover:shadow-md transition-shadow">
+                {trendingApps.map((app, index) => (
+                  <Card key={app._id} className="hover:shadow-md transition-shadow cursor-pointer" onClick={() => setSelectedApp(app)}>
                     <CardContent className="p-6">
                       <div className="flex items-center gap-4">
                         <div className="text-2xl font-bold text-slate-400 w-8">
@@ -367,18 +739,17 @@ export function AppStoreScreen() {
                             {app.description || 'A great app for your desktop'}
                           </p>
                         </div>
-                        <div className="flex items-center gap-2">
-                          <div className="flex gap-1">
-                            {[...Array(5)].map((_, i) => (
-                              <Star key={i} className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                            ))}
-                          </div>
+                        <div className="flex items-center gap-4">
+                          <span className="text-sm text-slate-500">
+                            {app.installCount ?? 0} install{app.installCount === 1 ? '' : 's'}
+                          </span>
+                          <StarRating value={app.ratingAvg} count={app.ratingCount} />
                           <Button
                             size="sm"
-                            onClick={() => handleInstall(app._id)}
+                            onClick={(e) => { e.stopPropagation(); handleInstall(app._id); }}
                             disabled={installingIds.has(app._id)}
                           >
-                            {installingIds.has(app._id) ? 'Installing...' : 'Get'}
+                            {actionLabel(app)}
                           </Button>
                         </div>
                       </div>
@@ -443,9 +814,244 @@ export function AppStoreScreen() {
                 </div>
               )}
             </section>
+
+            {myApps.length > 0 && (
+              <section>
+                <h3 className="text-2xl font-bold text-white mb-6">Your Published Apps</h3>
+                <div className="space-y-4">
+                  {myApps.map((app) => (
+                    <Card key={app._id} className="bg-white/5 border-white/20">
+                      <CardContent className="p-6">
+                        <div className="flex items-center gap-4">
+                          <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-white/10 to-white/5 flex items-center justify-center text-2xl">
+                            {app.icon || '📦'}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <h4 className="font-semibold text-lg text-white">{app.name}</h4>
+                            <p className="text-white/60 text-sm">
+                              {app.version ? `v${app.version} • ` : ''}{app.installCount ?? 0} install{app.installCount === 1 ? '' : 's'}
+                            </p>
+                          </div>
+                          <Select
+                            value={app.visibility ?? 'public'}
+                            onValueChange={(value) => handleVisibilityChange(app, value as Visibility)}
+                            disabled={managingIds.has(app._id)}
+                          >
+                            <SelectTrigger className="w-48 bg-white/10 border-white/20 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(VISIBILITY_LABELS) as Visibility[]).map((key) => (
+                                <SelectItem key={key} value={key}>{VISIBILITY_LABELS[key]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="outline"
+                            onClick={() => handleUnpublish(app)}
+                            disabled={managingIds.has(app._id)}
+                            className="border-red-400/40 bg-transparent text-red-200 hover:bg-red-500/20"
+                          >
+                            Unpublish
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </section>
+            )}
           </TabsContent>
         </Tabs>
       </main>
+
+      <AppDetailsDialog
+        app={selectedApp}
+        onClose={() => setSelectedApp(null)}
+        onInstall={handleInstall}
+        installLabel={selectedApp ? actionLabel(selectedApp) : ''}
+        installing={selectedApp ? installingIds.has(selectedApp._id) : false}
+        onTagClick={(next) => { setSelectedApp(null); browseTag(next); }}
+      />
     </div>
   );
 }
+
+// Listing view of the publish-time safety scan (see src/utils/app-safety.ts)
+function SafetySummary({ report }: { report?: SafetyReport }) {
+  if (!report) {
+    return <p className="text-xs text-slate-500">Published before safety scanning; not analyzed.</p>;
+  }
+  const notable = report.findings.filter((f) => f.severity !== 'info');
+  if (notable.length === 0) {
+    return <Badge variant="secondary" className="w-fit">Safety scan: no issues</Badge>;
+  }
+  return (
+    <details className="rounded-lg border border-amber-300 bg-amber-50 px-3 py-2 text-sm">
+      <summary className="cursor-pointer font-medium text-amber-800">
+        Safety scan: {notable.length} warning{notable.length === 1 ? '' : 's'}
+      </summary>
+      <ul className="mt-2 space-y-1 text-amber-900">
+        {notable.map((finding, i) => (
+          <li key={i}>
+            <span className="font-mono text-xs">{finding.file}{finding.line ? `:${finding.line}` : ''}</span> {finding.message}
+            {finding.snippet && <code className="block truncate text-xs text-amber-700">{finding.snippet}</code>}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+function AppDetailsDialog({ app, onClose, onInstall, installLabel, installing, onTagClick }: {
+  app: AppRecord | null;
+  onClose: () => void;
+  onInstall: (id: string) => void;
+  installLabel: string;
+  installing: boolean;
+  onTagClick: (tag: string) => void;
+}) {
+  const [ratings, setRatings] = useState<RatingRecord[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [summary, setSummary] = useState<{ ratingAvg?: number; ratingCount?: number }>({});
+  const [myRating, setMyRating] = useState(0);
+  const [review, setReview] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [rateError, setRateError] = useState<string | null>(null);
+  const appId = app?._id;
+
+  useEffect(() => {
+    if (!app) return;
+    setSummary({ ratingAvg: app.ratingAvg, ratingCount: app.ratingCount });
+  }, [app]);
+
+  useEffect(() => {
+    if (!appId) return;
+    let mounted = true;
+    setRatings([]);
+    setCursor(null);
+    setMyRating(0);
+    setReview('');
+    setRateError(null);
+    fetchJSON<{ ratings: RatingRecord[]; cursor: string | null; mine: { rating: number; review?: string } | null }>(`/api/store/apps/${appId}/ratings`)
+      .then((data) => {
+        if (!mounted) return;
+        setRatings(data.ratings || []);
+        setCursor(data.cursor);
+        if (data.mine) {
+          setMyRating(data.mine.rating);
+          setReview(data.mine.review ?? '');
+        }
+      })
+      .catch(() => {});
+    return () => { mounted = false; };
+  }, [appId]);
+
+  const loadMoreRatings = async () => {
+    if (!appId || !cursor) return;
+    try {
+      const data = await fetchJSON<{ ratings: RatingRecord[]; cursor: string | null }>(`/api/store/apps/${appId}/ratings?cursor=${encodeURIComponent(cursor)}`);
+      setRatings((prev) => [...prev, ...(data.ratings || [])]);
+      setCursor(data.cursor);
+    } catch {}
+  };
+
+  const submitRating = async () => {
+    if (!appId || myRating < 1 || submitting) return;
+    setSubmitting(true);
+    setRateError(null);
+    try {
+      const res = await fetch(`/api/store/apps/${appId}/ratings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating: myRating, review }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `Failed: ${res.status}`);
+      setSummary({ ratingAvg: data.ratingAvg, ratingCount: data.ratingCount });
+      const refreshed = await fetchJSON<{ ratings: RatingRecord[]; cursor: string | null }>(`/api/store/apps/${appId}/ratings`);
+      setRatings(refreshed.ratings || []);
+      setCursor(refreshed.cursor);
+    } catch (e) {
+      setRateError(e instanceof Error ? e.message : 'Failed to submit rating');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!app} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        {app && (
+          <>
+            <DialogHeader>
+              <div className="flex items-start gap-4">
+                <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-slate-100 to-slate-200 flex items-center justify-center text-3xl">
+                  {app.icon || '📦'}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <DialogTitle className="text-xl">{app.name}</DialogTitle>
+                  <DialogDescription>
+                    {app.version ? `v${app.version} • ` : ''}{app.installCount ?? 0} install{app.installCount === 1 ? '' : 's'}
+                  </DialogDescription>
+                  <StarRating value={summary.ratingAvg} count={summary.ratingCount} className="mt-1" />
+                </div>
+                <Button onClick={() => onInstall(app._id)} disabled={installing}>{installLabel}</Button>
+              </div>
+            </DialogHeader>
+
+            {app.description && <p className="text-sm text-slate-600">{app.description}</p>}
+            <SafetySummary report={app.safety} />
+            {app.tags && app.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {app.tags.map((appTag) => (
+                  <Badge key={appTag} variant="secondary" className="cursor-pointer" onClick={() => onTagClick(appTag)}>{appTag}</Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2 border-t pt-4">
+              <h4 className="font-semibold">Your rating</h4>
+              <div className="flex gap-1">
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <button key={value} type="button" onClick={() => setMyRating(value)} aria-label={`${value} star${value === 1 ? '' : 's'}`}>
+                    <Star className={`w-6 h-6 ${value <= myRating ? 'fill-yellow-400 text-yellow-400' : 'text-slate-300'}`} />
+                  </button>
+                ))}
+              </div>
+              <Textarea
+                value={review}
+                onChange={(e) => setReview(e.target.value)}
+                placeholder="Write a review (optional)"
+                maxLength={2000}
+                rows={3}
+              />
+              {rateError && <p className="text-sm text-red-500">{rateError}</p>}
+              <Button size="sm" onClick={submitRating} disabled={myRating < 1 || submitting}>
+                {submitting ? 'Submitting...' : 'Submit rating'}
+              </Button>
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              <h4 className="font-semibold">Reviews</h4>
+              {ratings.length === 0 && <p className="text-sm text-slate-500">No reviews yet.</p>}
+              {ratings.map((entry, i) => (
+                <div key={`${entry.author}-${entry.updatedAt}-${i}`} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{entry.mine ? 'You' : entry.author}</span>
+                    <span className="text-yellow-500">{'★'.repeat(entry.rating)}{'☆'.repeat(5 - entry.rating)}</span>
+                    <span className="text-slate-400 text-xs">{new Date(entry.updatedAt).toLocaleDateString()}</span>
+                  </div>
+                  {entry.review && <p className="text-slate-600 whitespace-pre-wrap">{entry.review}</p>}
+                </div>
+              ))}
+              {cursor && (
+                <Button variant="ghost" size="sm" onClick={loadMoreRatings}>More reviews</Button>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { SyncConflict, SyncResolution } from '@/utils/cloud-sync';
+
+type SyncConflictDialogProps = {
+  conflicts: SyncConflict[];
+  busy: boolean;
+  error: string | null;
+  onResolve: (resolutions: Record<string, SyncResolution>) => void;
+  onDismiss: () => void;
+};
+
+function describeSide(hash: string | null, side: string): string {
+  return hash ? `Edited ${side}` : `Deleted ${side}`;
+}
+
+export default function SyncConflictDialog({ conflicts, busy, error, onResolve, onDismiss }: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, SyncResolution>>({});
+
+  // Default to keeping this device's copy; nothing is overwritten until applied
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.path, 'local' as SyncResolution])));
+  }, [conflicts]);
+
+  const setAll = (choice: SyncResolution) => {
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.path, choice])));
+  };
+
+  return (
+    <Dialog open={conflicts.length > 0} onOpenChange={(open) => { if (!open && !busy) onDismiss(); }}>
+      <DialogContent className="max-h-[85vh] overflow-hidden sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sync conflicts</DialogTitle>
+          <DialogDescription>
+            {conflicts.length === 1 ? 'A file was' : `${conflicts.length} files were`} changed both on this device and on
+            another one since they last synced. Choose which version to keep; conflicted files are not synced until you do.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-muted-foreground">Keep all:</span>
+          <Button variant="outline" size="sm" disabled={busy} onClick={() => setAll('local')}>This device</Button>
+          <Button variant="outline" size="sm" disabled={busy} onClick={() => setAll('remote')}>Cloud</Button>
+        </div>
+        <ul className="max-h-[50vh] divide-y overflow-y-auto rounded border">
+          {conflicts.map((conflict) => (
+            <li key={conflict.path} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <div className="truncate font-mono text-xs" title={conflict.path}>{conflict.path}</div>
+                <div className="text-[11px] text-muted-foreground">
+                  {describeSide(conflict.localHash, 'here')} · {describeSide(conflict.remoteHash, 'elsewhere')}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {(['local', 'remote'] as const).map((choice) => (
+                  <Button
+                    key={choice}
+                    size="sm"
+                    variant={choices[conflict.path] === choice ? 'default' : 'outline'}
+                    disabled={busy}
+                    onClick={() => setChoices((prev) => ({ ...prev, [conflict.path]: choice }))}
+                  >
+                    {choice === 'local' ? 'This device' : 'Cloud'}
+                  </Button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+        {error && <div className="text-sm text-red-500">{error}</div>}
+        <DialogFooter>
+          <Button variant="ghost" disabled={busy} onClick={onDismiss}>Decide later</Button>
+          <Button disabled={busy} onClick={() => onResolve(choices)}>{busy ? 'Syncing…' : 'Apply'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,324 @@
+'use client';
+
+import '@xterm/xterm/css/xterm.css';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { WebContainer as WebContainerAPI, WebContainerProcess } from '@webcontainer/api';
+import type { Terminal } from '@xterm/xterm';
+import type { FitAddon } from '@xterm/addon-fit';
+import { Plus, X } from 'lucide-react';
+import { useWebContainer } from './WebContainerProvider';
+import { useTerminalPanel } from './TerminalProvider';
+import { getProcessOutput, subscribeProcessOutput, type ProcessChannel } from '@/utils/process-output';
+
+// Shell tabs run `jsh` in the WebContainer; log tabs replay and follow the
+// buffered install / dev-server output. Shell tabs and their scrollback are
+// saved to localStorage so a reload reopens them with the previous output.
+
+type TerminalTab =
+  | { id: string; kind: 'shell'; title: string }
+  | { id: ProcessChannel; kind: 'log'; title: string };
+
+type SavedTerminals = {
+  shells: Array<{ id: string; title: string }>;
+  scrollback: Record<string, string>;
+};
+
+const STORAGE_KEY = 'fyos.terminal.v1';
+const MAX_SCROLLBACK_CHARS = 64 * 1024;
+const SAVE_DEBOUNCE_MS = 1000;
+
+const LOG_TABS: TerminalTab[] = [
+  { id: 'dev', kind: 'log', title: 'Dev server' },
+  { id: 'install', kind: 'log', title: 'Install' },
+];
+
+const THEME = {
+  background: '#0a0a0a',
+  foreground: '#e5e5e5',
+  cursor: '#e5e5e5',
+  selectionBackground: '#ffffff33',
+};
+
+function loadSaved(): SavedTerminals {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as SavedTerminals;
+      if (Array.isArray(parsed?.shells)) return { shells: parsed.shells, scrollback: parsed.scrollback ?? {} };
+    }
+  } catch {}
+  return { shells: [], scrollback: {} };
+}
+
+// Keeps the tail, starting at a line boundary so escape sequences aren't cut
+function capScrollback(text: string): string {
+  if (text.length <= MAX_SCROLLBACK_CHARS) return text;
+  const tail = text.slice(text.length - MAX_SCROLLBACK_CHARS);
+  const newline = tail.indexOf('\n');
+  return newline === -1 ? tail : tail.slice(newline + 1);
+}
+
+function createShellId(): string {
+  return `sh_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+type TerminalViewProps = {
+  tab: TerminalTab;
+  visible: boolean;
+  instance: WebContainerAPI | null;
+  initialScrollback?: string;
+  onOutput?: (id: string, chunk: string) => void;
+};
+
+function TerminalView({ tab, visible, instance, initialScrollback, onOutput }: TerminalViewProps) {
+  // Tab objects are rebuilt every render; effects key off these primitives
+  const { id, kind } = tab;
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const termRef = useRef<Terminal | null>(null);
+  const fitRef = useRef<FitAddon | null>(null);
+  const [ready, setReady] = useState(false);
+  const visibleRef = useRef(visible);
+  useEffect(() => { visibleRef.current = visible; }, [visible]);
+  const onOutputRef = useRef(onOutput);
+  useEffect(() => { onOutputRef.current = onOutput; }, [onOutput]);
+  const initialScrollbackRef = useRef(initialScrollback);
+
+  const fit = useCallback(() => {
+    if (!visibleRef.current) return;
+    try { fitRef.current?.fit(); } catch {}
+  }, []);
+
+  // Create the xterm instance once; the packages touch `window` so they load client-side only
+  useEffect(() => {
+    let disposed = false;
+    let observer: ResizeObserver | null = null;
+    (async () => {
+      const [{ Terminal: XTerm }, { FitAddon: Fit }] = await Promise.all([import('@xterm/xterm'), import('@xterm/addon-fit')]);
+      if (disposed || !containerRef.current) return;
+      const term = new XTerm({
+        convertEol: kind === 'log',
+        disableStdin: kind === 'log',
+        cursorBlink: kind === 'shell',
+        fontSize: 12,
+        fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+        scrollback: 5000,
+        theme: THEME,
+      });
+      const fitAddon = new Fit();
+      term.loadAddon(fitAddon);
+      term.open(containerRef.current);
+      termRef.current = term;
+      fitRef.current = fitAddon;
+      fit();
+      observer = new ResizeObserver(() => fit());
+      observer.observe(containerRef.current);
+      if (kind === 'shell' && initialScrollbackRef.current) {
+        term.write(initialScrollbackRef.current);
+        term.write('\r\n\x1b[2m— restored from previous session —\x1b[0m\r\n');
+      }
+      setReady(true);
+    })();
+    return () => {
+      disposed = true;
+      observer?.disconnect();
+      termRef.current?.dispose();
+      termRef.current = null;
+      fitRef.current = null;
+    };
+  }, [kind, fit]);
+
+  useEffect(() => {
+    if (visible && ready) requestAnimationFrame(() => fit());
+  }, [visible, ready, fit]);
+
+  // Log tabs: replay the buffer, then follow it
+  useEffect(() => {
+    const term = termRef.current;
+    if (!ready || !term || kind !== 'log') return;
+    const channel = id as ProcessChannel;
+    term.write(getProcessOutput(channel));
+    return subscribeProcessOutput(channel, (chunk) => term.write(chunk));
+  }, [ready, id, kind]);
+
+  // Shell tabs: attach a jsh process once the container is up
+  useEffect(() => {
+    const term = termRef.current;
+    if (!ready || !term || kind !== 'shell') return;
+    if (!instance) {
+      term.write('\x1b[2mWaiting for the workspace to finish booting…\x1b[0m\r\n');
+      return;
+    }
+
+    let cancelled = false;
+    let proc: WebContainerProcess | null = null;
+    const disposables: Array<{ dispose(): void }> = [];
+    (async () => {
+      try {
+        proc = await instance.spawn('jsh', { terminal: { cols: term.cols, rows: term.rows } });
+      } catch (e) {
+        term.write(`\r\n\x1b[31mCould not start a shell: ${e instanceof Error ? e.message : String(e)}\x1b[0m\r\n`);
+        return;
+      }
+      if (cancelled) {
+        proc.kill();
+        return;
+      }
+      const running = proc;
+      void running.output.pipeTo(new WritableStream<string>({
+        write(chunk) {
+          term.write(chunk);
+          onOutputRef.current?.(id, chunk);
+        },
+      })).catch(() => {});
+      const input = running.input.getWriter();
+      disposables.push(term.onData((data) => { void input.write(data).catch(() => {}); }));
+      disposables.push(term.onResize(({ cols, rows }) => {
+        try { running.resize({ cols, rows }); } catch {}
+      }));
+      void running.exit.then((code) => {
+        if (!cancelled) term.write(`\r\n\x1b[2m[process exited with code ${code}]\x1b[0m\r\n`);
+      });
+    })();
+
+    return () => {
+      cancelled = true;
+      for (const d of disposables) d.dispose();
+      try { proc?.kill(); } catch {}
+    };
+  }, [ready, id, kind, instance]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`absolute inset-0 px-2 py-1 ${visible ? '' : 'invisible'}`}
+      onClick={() => termRef.current?.focus()}
+    />
+  );
+}
+
+export default function TerminalPanel() {
+  const { open, setOpen } = useTerminalPanel();
+  const { instance } = useWebContainer();
+  const [shells, setShells] = useState<Array<{ id: string; title: string }>>([]);
+  const [activeId, setActiveId] = useState<string>('dev');
+  const [loaded, setLoaded] = useState(false);
+  // Terminals (and their shells) are only created once the panel is first opened
+  const [everOpened, setEverOpened] = useState(false);
+  useEffect(() => { if (open) setEverOpened(true); }, [open]);
+  const scrollbackRef = useRef<Record<string, string>>({});
+  const saveTimerRef = useRef<number | null>(null);
+  const shellsRef = useRef(shells);
+  useEffect(() => { shellsRef.current = shells; }, [shells]);
+
+  const save = useCallback(() => {
+    if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(() => {
+      saveTimerRef.current = null;
+      const ids = new Set(shellsRef.current.map((s) => s.id));
+      const scrollback = Object.fromEntries(Object.entries(scrollbackRef.current).filter(([id]) => ids.has(id)));
+      try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ shells: shellsRef.current, scrollback } satisfies SavedTerminals));
+      } catch {}
+    }, SAVE_DEBOUNCE_MS);
+  }, []);
+
+  useEffect(() => {
+    const saved = loadSaved();
+    scrollbackRef.current = saved.scrollback;
+    setShells(saved.shells);
+    if (saved.shells.length > 0) setActiveId(saved.shells[0].id);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) save();
+  }, [shells, loaded, save]);
+
+  useEffect(() => () => {
+    if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+  }, []);
+
+  const handleOutput = useCallback((id: string, chunk: string) => {
+    scrollbackRef.current[id] = capScrollback((scrollbackRef.current[id] ?? '') + chunk);
+    save();
+  }, [save]);
+
+  const addShell = useCallback(() => {
+    const id = createShellId();
+    setShells((prev) => {
+      const used = new Set(prev.map((s) => s.title));
+      let n = 1;
+      while (used.has(`Shell ${n}`)) n++;
+      return [...prev, { id, title: `Shell ${n}` }];
+    });
+    setActiveId(id);
+  }, []);
+
+  const closeShell = useCallback((id: string) => {
+    delete scrollbackRef.current[id];
+    setShells((prev) => prev.filter((s) => s.id !== id));
+    setActiveId((prev) => (prev === id ? 'dev' : prev));
+  }, []);
+
+  // Open with a shell ready the first time
+  useEffect(() => {
+    if (open && loaded && shellsRef.current.length === 0) addShell();
+  }, [open, loaded, addShell]);
+
+  const tabs: TerminalTab[] = [...shells.map((s) => ({ ...s, kind: 'shell' as const })), ...LOG_TABS];
+
+  return (
+    <div
+      className={`fixed inset-x-3 top-3 z-40 flex h-[45vh] flex-col overflow-hidden rounded-lg border border-white/10 bg-neutral-950/95 shadow-2xl backdrop-blur ${open ? '' : 'hidden'}`}
+      role="region"
+      aria-label="Terminal"
+    >
+      <div className="flex items-center gap-1 border-b border-white/10 px-2 py-1">
+        <div className="flex flex-1 items-center gap-1 overflow-x-auto">
+          {tabs.map((tab) => (
+            <div
+              key={tab.id}
+              className={`flex items-center gap-1 rounded px-2 py-1 text-xs ${tab.id === activeId ? 'bg-white/15 text-white' : 'text-white/60 hover:bg-white/10'}`}
+            >
+              <button type="button" onClick={() => setActiveId(tab.id)}>{tab.title}</button>
+              {tab.kind === 'shell' && (
+                <button type="button" onClick={() => closeShell(tab.id)} aria-label={`Close ${tab.title}`} className="text-white/40 hover:text-white">
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={addShell}
+            className="inline-flex h-6 w-6 items-center justify-center rounded text-white/60 hover:bg-white/10 hover:text-white"
+            title="New shell"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </button>
+        </div>
+        <span className="hidden text-[11px] text-white/40 sm:inline">Ctrl+`</span>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="inline-flex h-6 w-6 items-center justify-center rounded text-white/60 hover:bg-white/10 hover:text-white"
+          aria-label="Hide terminal"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="relative flex-1 min-h-0">
+        {loaded && everOpened && tabs.map((tab) => (
+          <TerminalView
+            key={tab.id}
+            tab={tab}
+            visible={open && tab.id === activeId}
+            instance={instance}
+            initialScrollback={tab.kind === 'shell' ? scrollbackRef.current[tab.id] : undefined}
+            onOutput={handleOutput}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+export interface TerminalContextValue {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  toggle: () => void;
+}
+
+const TerminalContext = createContext<TerminalContextValue | null>(null);
+
+export function useTerminalPanel(): TerminalContextValue {
+  const context = useContext(TerminalContext);
+  if (!context) {
+    throw new Error('useTerminalPanel must be used within a TerminalProvider');
+  }
+  return context;
+}
+
+export function TerminalProvider({ children }: { children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const toggle = useCallback(() => setOpen((prev) => !prev), []);
+
+  // Ctrl+` toggles the panel, as in most editors
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && !e.metaKey && !e.altKey && e.code === 'Backquote') {
+        e.preventDefault();
+        toggle();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [toggle]);
+
+  return (
+    <TerminalContext.Provider value={{ open, setOpen, toggle }}>
+      {children}
+    </TerminalContext.Provider>
+  );
+}
@@ -5,8 +5,11 @@ import { WebContainer as WebContainerAPI, type WebContainerProcess } from '@webc
 // Binary snapshot approach for faster mounting
 import { useWebContainer } from './WebContainerProvider';
 import BootScreen from './BootScreen';
-import { hasPersistedVfs, restoreFromPersistence, persistNow } from '@/utils/vfs-persistence';
+import SyncConflictDialog from './SyncConflictDialog';
+import { hasPersistedVfs, restoreFromPersistence, persistNow, startVfsPersistence } from '@/utils/vfs-persistence';
 import { persistAssetsFromAIResult, type MediaScope } from '@/utils/ai-media';
+import { appendProcessOutput, processOutputSink, resetProcessOutput } from '@/utils/process-output';
+import { pullCloudChanges, resolveSyncConflicts, syncDesktop, type CloudSyncTarget, type SyncConflict, type SyncResolution } from '@/utils/cloud-sync';
 import { useConvexClient } from '@/lib/useConvexClient';
 import { api as convexApi } from '../../convex/_generated/api';
 import { useAuth, useClerk } from '@clerk/nextjs';
@@ -188,7 +191,7 @@ const formatPreviewMessageArgs = (value: unknown): string => {
 };
 
 export default function WebContainer() {
-  const { isSignedIn } = useAuth();
+  const { isSignedIn, userId } = useAuth();
   const { openSignIn } = useClerk();
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const [webcontainerInstance, setWebcontainerInstance] = useState<WebContainerAPI | null>(null);
@@ -212,6 +215,12 @@ export default function WebContainer() {
   const desktopReadyRef = useRef<boolean>(false);
   const lastRemoteSaveRef = useRef<number>(0);
   const remoteSaveInFlightRef = useRef<boolean>(false);
+  const userIdRef = useRef(userId);
+  useEffect(() => { userIdRef.current = userId; }, [userId]);
+  const syncTargetRef = useRef<CloudSyncTarget | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [syncBusy, setSyncBusy] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
   const { client: convexClient, ready: convexReady } = useConvexClient();
   const convexClientRef = useRef(convexClient);
   useEffect(() => { convexClientRef.current = convexClient; }, [convexClient]);
@@ -262,6 +271,7 @@ export default function WebContainer() {
     let cleanupMessageListener: (() => void) | null = null;
     let visibilityHandler: (() => void) | null = null;
     let beforeUnloadHandler: (() => void) | null = null;
+    let stopVfsPersistence: (() => Promise<void>) | null = null;
 
     const initWebContainer = async () => {
       try {
@@ -379,48 +389,47 @@ export default function WebContainer() {
         setLoadingStage('Preparing workspace…');
         setTargetProgress((p) => Math.max(p, 26));
 
-        // Try restoring a private desktop snapshot from server, then local IndexedDB, else default snapshot
+        // Restore the local workspace first; the cloud is merged on top of it below
         let restored = false;
         try {
-          const convexClientCurrent = convexClientRef.current;
-          if (userModeRef.current === 'auth' && convexReadyRef.current && convexClientCurrent) {
-            setLoadingStage('Checking cloud snapshot…');
+          const hasSaved = await hasPersistedVfs();
+          if (hasSaved) {
+            setLoadingStage('Restoring your workspace…');
             setTargetProgress((p) => Math.max(p, 30));
-            const record = await convexClientCurrent.query(convexApi.desktops_private.getLatestDesktop, {});
-            if (record && record._id) {
+            restored = await restoreFromPersistence(instance);
+            if (restored) {
+              console.log('[WebContainer] Restored from persisted VFS');
+            }
+          }
+        } catch {}
+
+        const convexClientBoot = convexClientRef.current;
+        const accountId = userIdRef.current;
+        if (userModeRef.current === 'auth' && convexReadyRef.current && convexClientBoot && accountId) {
+          syncTargetRef.current = { client: convexClientBoot, instance, accountId };
+        }
+
+        if (!restored && syncTargetRef.current && convexClientBoot) {
+          // A device with no local workspace seeds from the last whole-snapshot
+          // save if this desktop has never synced file by file
+          try {
+            const info = await convexClientBoot.query(convexApi.desktops_private.getSyncInfo, { desktopId: 'default' });
+            if (info.revision === 0 && info.legacySnapshotId) {
               setLoadingStage('Restoring from cloud…');
               setTargetProgress((p) => Math.max(p, 34));
-              const url = await convexClientCurrent.query(convexApi.desktops_private.getDesktopSnapshotUrl, { id: record._id });
+              const url = await convexClientBoot.query(convexApi.desktops_private.getDesktopSnapshotUrl, { id: info.legacySnapshotId });
               const snapRes = await fetch(url, { cache: 'no-store' });
               if (snapRes.ok) {
                 const buf = new Uint8Array(await snapRes.arrayBuffer());
-                try {
-                  const { restoreDesktopSnapshot } = await import('@/utils/desktop-snapshot');
-                  await restoreDesktopSnapshot(instance, buf);
-                  restored = true;
-                  console.log('[WebContainer] Restored from private cloud snapshot');
-                } catch (e) {
-                  console.warn('[WebContainer] Cloud snapshot restore failed, falling back:', e);
-                }
+                const { restoreDesktopSnapshot } = await import('@/utils/desktop-snapshot');
+                await restoreDesktopSnapshot(instance, buf);
+                restored = true;
+                console.log('[WebContainer] Restored from private cloud snapshot');
               }
             }
+          } catch (e) {
+            console.warn('[WebContainer] Could not restore private cloud snapshot:', e);
           }
-        } catch (e) {
-          console.warn('[WebContainer] Could not check latest private snapshot:', e);
-        }
-
-        if (!restored) {
-          try {
-            const hasSaved = await hasPersistedVfs();
-            if (hasSaved) {
-              setLoadingStage('Restoring your workspace…');
-              setTargetProgress((p) => Math.max(p, 38));
-              restored = await restoreFromPersistence(instance);
-              if (restored) {
-                console.log('[WebContainer] Restored from persisted VFS');
-              }
-            }
-          } catch {}
         }
 
         if (!restored) {
@@ -434,6 +443,19 @@ export default function WebContainer() {
           console.log('[WebContainer] Mounted default snapshot');
         }
 
+        const bootSyncTarget = syncTargetRef.current;
+        if (bootSyncTarget) {
+          setLoadingStage('Syncing with the cloud…');
+          setTargetProgress((p) => Math.max(p, 38));
+          try {
+            const { pulled, conflicts } = await pullCloudChanges(bootSyncTarget);
+            if (pulled > 0) console.log(`[WebContainer] Merged ${pulled} file(s) from the cloud`);
+            if (conflicts.length > 0) setSyncConflicts(conflicts);
+          } catch (e) {
+            console.warn('[WebContainer] Cloud sync failed, continuing with the local workspace:', e);
+          }
+        }
+
 
         // Add a small normalization stylesheet to guarantee full-bleed preview sizing
         const normalizeCss = `html,body,#root{height:100%;width:100%;margin:0;padding:0}
@@ -523,16 +545,16 @@ export default function Document() {
         setLoadingStage('Getting things ready…');
         setTargetProgress((p) => Math.max(p, 42));
         // Use pnpm for faster dependency installation
+        resetProcessOutput('install', '$ pnpm install\r\n');
         const installProcess = await instance.spawn('pnpm', ['install']);
         
-        // Consume installation output without noisy logging to avoid jank
+        // Buffer installation output for the terminal panel instead of logging it (avoids jank)
         try {
-          installProcess.output.pipeTo(new WritableStream({
-            write() {}
-          }));
+          void installProcess.output.pipeTo(processOutputSink('install')).catch(() => {});
         } catch {}
 
         const installExitCode = await installProcess.exit;
+        appendProcessOutput('install', `\r\n[pnpm install exited with code ${installExitCode}]\r\n`);
 
         if (installExitCode !== 0) {
           throw new Error('Failed to install dependencies');
@@ -541,16 +563,23 @@ export default function Document() {
         // Expose the instance to tools only after dependencies are installed
         setInstanceRef.current?.(instance);
 
-        // Removed periodic autosave; persist on visibility/unload only
+        // Local saves follow fs.watch: changed files are flushed to IndexedDB in debounced batches
+        stopVfsPersistence = startVfsPersistence(instance);
+        // Push what changed locally while signed out or offline
+        if (syncTargetRef.current) {
+          void syncDesktop(syncTargetRef.current)
+            .then((result) => { if (result.conflicts.length > 0) setSyncConflicts(result.conflicts); })
+            .catch((e) => console.warn('[WebContainer] Cloud sync failed:', e));
+        }
 
-        // Save on tab hide or before unload (local + cloud) for auth users only
-        const savePrivateSnapshot = async () => {
+        // Save on tab hide or before unload (local + cloud file sync) for auth users only
+        const syncPrivateDesktop = async () => {
           try {
             if (remoteSaveInFlightRef.current) return;
             const now = Date.now();
             if (now - lastRemoteSaveRef.current < 60000) return; // throttle 60s
             remoteSaveInFlightRef.current = true;
-            // Ask desktop iframe for current UI state and persist to FS before building snapshot
+            // Ask desktop iframe for current UI state and persist to FS before syncing
             const fetchDesktopState = async (timeoutMs = 1500): Promise<Record<string, unknown> | null> => {
               try {
                 const cw = iframeRef.current?.contentWindow;
@@ -599,28 +628,10 @@ export default function Document() {
                 } catch {}
               }
             }
-            const convexClientCurrent = convexClientRef.current;
-            if (userModeRef.current === 'auth' && convexReadyRef.current && convexClientCurrent) {
-              const { buildDesktopSnapshot } = await import('@/utils/desktop-snapshot');
-              const snap = await buildDesktopSnapshot(instance);
-              const start = await convexClientCurrent.mutation(convexApi.desktops_private.saveDesktopStart, {
-                desktopId: 'default',
-                title: 'My Desktop',
-                size: snap.size,
-                fileCount: snap.fileCount,
-                contentSha256: snap.contentSha256,
-              });
-              if (start?.url && start?.r2KeySnapshot) {
-                await fetch(start.url, { method: 'PUT', body: new Uint8Array(snap.gz), headers: { 'Content-Type': 'application/octet-stream' } }).catch(() => {});
-                await convexClientCurrent.mutation(convexApi.desktops_private.saveDesktopFinalize, {
-                  desktopId: 'default',
-                  title: 'My Desktop',
-                  r2KeySnapshot: start.r2KeySnapshot,
-                  size: snap.size,
-                  fileCount: snap.fileCount,
-                  contentSha256: snap.contentSha256,
-                }).catch(() => {});
-              }
+            const syncTarget = syncTargetRef.current;
+            if (userModeRef.current === 'auth' && syncTarget) {
+              const result = await syncDesktop(syncTarget);
+              if (result.conflicts.length > 0) setSyncConflicts(result.conflicts);
             }
             lastRemoteSaveRef.current = now;
           } catch {
@@ -640,14 +651,14 @@ export default function Document() {
           if (document.visibilityState === 'hidden') {
             persistLocalVfs();
             if (userModeRef.current === 'auth') {
-              void savePrivateSnapshot();
+              void syncPrivateDesktop();
             }
           }
         };
         const handleBeforeUnload = () => {
           persistLocalVfs();
           if (userModeRef.current === 'auth') {
-            void savePrivateSnapshot();
+            void syncPrivateDesktop();
           }
         };
         document.addEventListener('visibilitychange', handleVisibility);
@@ -659,14 +670,13 @@ export default function Document() {
         // Jump progress modestly; avoid per-chunk increments to reduce renders
         setTargetProgress((p) => Math.max(p, 78));
         // Start dev server
+        resetProcessOutput('dev', '$ pnpm run dev\r\n');
         const devProcess = await instance.spawn('pnpm', ['run', 'dev']);
         devProcRef.current = devProcess;
         
-        // Consume dev server output silently
+        // Buffer dev server output for the terminal panel
         try {
-          devProcess.output.pipeTo(new WritableStream({
-            write() {}
-          }));
+          void devProcess.output.pipeTo(processOutputSink('dev')).catch(() => {});
         } catch {}
 
         // Wait for server-ready event
@@ -831,20 +841,34 @@ export default function Document() {
 
           // Install App from App Store (bundle download + install inside WebContainer)
           if (isRecord(data) && data.type === 'FYOS_INSTALL_APP') {
+            const appId = typeof data.appId === 'string' ? data.appId : null;
+            if (!appId) return;
+            // Report the outcome (including dependency changes) back to the requesting app
+            const srcWin = getSourceWindow(event.source);
+            const reply = (payload: Record<string, unknown>) => {
+              if (!srcWin) return;
+              try { srcWin.postMessage({ type: 'FYOS_INSTALL_APP_RESULT', appId, ...payload }, event.origin); } catch {}
+            };
             try {
-              const appId = typeof data.appId === 'string' ? data.appId : null;
-              if (!appId) return;
-              const bundleUrl = `/api/store/apps/${appId}/bundle`;
-              const res = await fetch(bundleUrl);
-              if (!res.ok) {
-                console.error('[WebContainer] Failed to fetch bundle', res.status);
-                return;
+              // Optional pinned version (install or roll back to an exact release)
+              const version = typeof data.version === 'string' && data.version ? data.version : undefined;
+              // Already-installed store apps are upgraded in place rather than installed again
+              const { installOrUpgradeFromStore, describeDependencyReport } = await import('@/utils/app-install');
+              const outcome = await installOrUpgradeFromStore(instance, appId, version);
+              const conflicts = outcome.kind === 'upgraded' ? outcome.result.conflicts : [];
+              if (conflicts.length > 0) {
+                console.warn('[WebContainer] Upgrade kept local changes with conflicts', conflicts);
               }
-              const buf = new Uint8Array(await res.arrayBuffer());
-              const { installAppFromBundle } = await import('@/utils/app-install');
-              await installAppFromBundle(instance, buf);
+              reply({
+                ok: outcome.dependencies.ok,
+                kind: outcome.kind,
+                id: outcome.id,
+                dependencies: describeDependencyReport(outcome.dependencies),
+                conflicts: conflicts.map((c) => c.path),
+              });
             } catch (installError: unknown) {
               console.error('[WebContainer] Install failed', installError);
+              reply({ ok: false, error: installError instanceof Error ? installError.message : String(installError) });
             }
             return;
           }
@@ -922,9 +946,14 @@ export default function Document() {
       if (visibilityHandler) document.removeEventListener('visibilitychange', visibilityHandler);
       if (beforeUnloadHandler) window.removeEventListener('beforeunload', beforeUnloadHandler);
       try {
-        const existingInstance = webcontainerInstanceRef.current;
-        if (existingInstance) {
-          void persistNow(existingInstance);
+        // Stops watching after flushing whatever is still pending
+        if (stopVfsPersistence) {
+          void stopVfsPersistence();
+        } else {
+          const existingInstance = webcontainerInstanceRef.current;
+          if (existingInstance) {
+            void persistNow(existingInstance);
+          }
         }
       } catch {}
     };
@@ -1036,6 +1065,21 @@ export default function Document() {
     postMaskCommand({ type: 'FYOS_MASK_UNPIN', mode: 'boot' });
   }, [isLoading]);
 
+  const handleResolveConflicts = async (resolutions: Record<string, SyncResolution>) => {
+    const target = syncTargetRef.current;
+    if (!target) return;
+    setSyncBusy(true);
+    setSyncError(null);
+    try {
+      const result = await resolveSyncConflicts(target, resolutions);
+      setSyncConflicts(result.conflicts);
+    } catch (e) {
+      setSyncError(e instanceof Error ? e.message : 'Sync failed');
+    } finally {
+      setSyncBusy(false);
+    }
+  };
+
   if (error) {
     return (
       <div className="flex items-center justify-center h-full bg-red-50 border border-red-200 rounded-lg">
@@ -1069,6 +1113,15 @@ export default function Document() {
         sandbox="allow-forms allow-modals allow-popups allow-presentation allow-same-origin allow-scripts allow-downloads"
         style={{ backgroundColor: 'white' }}
       />
+      {!isLoading && (
+        <SyncConflictDialog
+          conflicts={syncConflicts}
+          busy={syncBusy}
+          error={syncError}
+          onResolve={(resolutions) => { void handleResolveConflicts(resolutions); }}
+          onDismiss={() => { setSyncConflicts([]); setSyncError(null); }}
+        />
+      )}
       <style jsx>{`
         .iframe-ready { opacity: 1; }
       `}</style>
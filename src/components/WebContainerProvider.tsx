@@ -1,7 +1,7 @@
 'use client';
 
 import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
-import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
+import type { WebContainer as WebContainerAPI, WebContainerProcess } from '@webcontainer/api';
 
 type SpawnResult = {
   exitCode: number;
@@ -20,6 +20,8 @@ type WebContainerCtx = {
   remove: (path: string, opts?: { recursive?: boolean }) => Promise<void>;
   // process
   spawn: (command: string, args?: string[], opts?: { cwd?: string }) => Promise<SpawnResult>;
+  // Starts a process without waiting for it; the caller owns its output and exit
+  spawnProcess: (command: string, args?: string[], opts?: { cwd?: string }) => Promise<WebContainerProcess>;
 };
 
 const Ctx = createContext<WebContainerCtx | null>(null);
@@ -210,6 +212,14 @@ export function WebContainerProvider({ children }: { children: React.ReactNode }
     }
   }, [instance]);
 
+  const spawnProcess = useCallback(async (command: string, args: string[] = [], opts?: { cwd?: string }) => {
+    if (!instance) throw new Error('WebContainer not ready');
+    if (process.env.NODE_ENV === 'development') {
+      console.debug?.(`⚡ [FileOp] SPAWN (background): ${`${command} ${args.join(' ')}`.trim()} (cwd: ${opts?.cwd || '.'})`);
+    }
+    return instance.spawn(command, args, { cwd: opts?.cwd });
+  }, [instance]);
+
   const value = useMemo<WebContainerCtx>(() => ({
     instance,
     setInstance,
@@ -220,7 +230,8 @@ export function WebContainerProvider({ children }: { children: React.ReactNode }
     exists,
     remove,
     spawn,
-  }), [instance, writeFile, readFile, mkdir, readdirRecursive, exists, remove, spawn]);
+    spawnProcess,
+  }), [instance, writeFile, readFile, mkdir, readdirRecursive, exists, remove, spawn, spawnProcess]);
 
   return <Ctx.Provider value={value}>{children}</Ctx.Provider>;
 }
@@ -1,14 +1,27 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import type React from 'react';
 import { DefaultChatTransport, lastAssistantMessageIsCompleteWithToolCalls, type TextUIPart, type UIMessage } from 'ai';
 import { useChat } from '@ai-sdk/react';
-import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
+import type { WebContainer as WebContainerAPI, WebContainerProcess } from '@webcontainer/api';
 import { agentLogger } from '@/lib/agentLogger';
 import { persistAssetsFromAIResult, extractOriginalMediaUrlsFromResult, type MediaScope } from '@/utils/ai-media';
 import { autoIngestInputs } from '@/utils/auto-ingest';
 import { guessContentTypeFromFilename } from '@/lib/agent/agentUtils';
-import type { TCodeEditAstInput } from '@/lib/agentTools';
+import type { TCodeEditAstInput, TProcessKillInput, TProcessListInput, TProcessTailInput, TRunTestsInput, TValidateProjectInput, TWebFsGrepInput, TWebFsPatchInput } from '@/lib/agentTools';
+import type { DiagnosticThresholds, ValidationReport } from '@/lib/agent/agentDiagnostics';
+import { buildGrepRegExp, globToRegExp, grepFiles } from '@/lib/agent/agentGrep';
+import { parseVitestJson, stripAnsi } from '@/lib/agent/agentTestResults';
+import { normalizeExecCommand } from '@/lib/agent/agentExecGuard';
+import { evaluateToolPolicy } from '@/lib/agent/agentPolicy';
+import { consumePolicyApproval } from '@/utils/policy-approvals';
+import { removedPackages, type ApprovalCategory, type ApprovalFile, type ApprovalRequest } from '@/lib/agent/agentApprovals';
+import { denyAllToolApprovals, loadApprovalSettings, requestToolApproval } from '@/utils/tool-approvals';
+import { applyAcceptedHunks, buildReviewHunks, isReviewablePath, reviewChanges, type ReviewOutcome } from '@/lib/agent/agentReview';
+import { loadReviewMode, rejectAllWriteReviews, requestWriteReview } from '@/utils/write-reviews';
+import { getAgentProcess, getAgentProcessOutput, killAgentProcess, listAgentProcesses, trackAgentProcess, waitForAgentProcess, type AgentProcessInfo } from '@/utils/agent-processes';
+import type { ModelProfileId } from '@/lib/agent/agentModels';
 import { parse, type ParserPlugin } from '@babel/parser';
+import { createTwoFilesPatch } from 'diff';
 
 type WebContainerFns = {
   mkdir: (path: string, recursive?: boolean) => Promise<void>;
@@ -17,6 +30,7 @@ type WebContainerFns = {
   readdirRecursive: (path?: string, maxDepth?: number) => Promise<{ path: string; type: 'file' | 'dir' }[]>;
   remove: (path: string, opts?: { recursive?: boolean }) => Promise<void>;
   spawn: (command: string, args?: string[], opts?: { cwd?: string }) => Promise<{ exitCode: number; output: string }>;
+  spawnProcess: (command: string, args?: string[], opts?: { cwd?: string }) => Promise<WebContainerProcess>;
 };
 
 type UseAgentChatOptions = {
@@ -31,8 +45,9 @@ type UseAgentChatOptions = {
   media: {
     loadMedia: () => Promise<void>;
   };
-  runValidation: (scope: 'quick' | 'full', files?: string[]) => Promise<void>;
+  runValidation: (scope: 'quick' | 'full', files?: string[], thresholds?: DiagnosticThresholds) => Promise<ValidationReport>;
   attachmentsProvider?: () => Array<{ name: string; publicUrl: string; contentType: string }>;
+  getModelProfile?: () => ModelProfileId | null;
   onFirstToolCall?: () => void;
   onToolProgress?: (toolName: string) => void;
 };
@@ -50,6 +65,8 @@ type WebExecInput = {
   command: string;
   args?: string[];
   cwd?: string;
+  waitSeconds?: number;
+  timeoutSeconds?: number;
 };
 
 type AiGenerateInput = {
@@ -68,6 +85,35 @@ type CodeEditAstInput = TCodeEditAstInput;
 
 const isTextPart = (part: UIMessage['parts'][number]): part is TextUIPart => part.type === 'text';
 
+const lastLines = (text: string, n: number): string => {
+  const lines = text.split(/\r?\n/);
+  return lines.slice(Math.max(0, lines.length - n)).join('\n');
+};
+
+// Long directory listings on approval cards are cut to this many files
+const MAX_APPROVAL_FILES = 50;
+
+const describeReview = (outcome: ReviewOutcome | null) => {
+  if (!outcome || outcome.totalHunks === 0) return {};
+  if (outcome.acceptedHunks === outcome.totalHunks) return { reviewed: true };
+  return {
+    reviewed: true,
+    acceptedHunks: outcome.acceptedHunks,
+    rejectedHunks: outcome.totalHunks - outcome.acceptedHunks,
+    note: 'The user rejected some hunks, so the file differs from what you sent. Read it again before editing it further.',
+  };
+};
+
+const REVIEW_REJECTED_ERROR = 'The user rejected this change in review; nothing was written. Do not retry it unless they ask.';
+
+const describeProcess = (info: AgentProcessInfo) => ({
+  processId: info.id,
+  command: info.command,
+  status: info.status,
+  exitCode: info.exitCode,
+  elapsedMs: (info.endedAt ?? Date.now()) - info.startedAt,
+});
+
 type MutableWindow = Window & {
   __FYOS_FIRST_TOOL_CALLED_REF?: { current: boolean };
 };
@@ -126,6 +172,7 @@ export function useAgentChat(opts: UseAgentChatOptions) {
     wc,
     runValidation,
     attachmentsProvider,
+    getModelProfile,
     onFirstToolCall,
     onToolProgress,
   } = opts;
@@ -137,7 +184,7 @@ export function useAgentChat(opts: UseAgentChatOptions) {
 
   const activeThreadIdRef = useRef<string | null>(activeThreadId);
   useEffect(() => { activeThreadIdRef.current = activeThreadId; }, [activeThreadId]);
-  const { messages, sendMessage, status, stop, addToolResult, setMessages } = useChat<UIMessage>({
+  const { messages, sendMessage, status, stop, addToolResult, setMessages, error, clearError } = useChat<UIMessage>({
     id,
     messages: initialMessages,
     transport: new DefaultChatTransport({
@@ -148,11 +195,14 @@ export function useAgentChat(opts: UseAgentChatOptions) {
           messages: UIMessage[];
           threadId?: string;
           attachmentHints?: Array<{ contentType: string; url: string }>;
+          modelProfile?: ModelProfileId;
         } = { id, messages };
         const threadForRequest = typeof getActiveThreadId === 'function'
           ? getActiveThreadId()
           : activeThreadIdRef.current;
         if (threadForRequest) body.threadId = threadForRequest;
+        const modelProfile = typeof getModelProfile === 'function' ? getModelProfile() : null;
+        if (modelProfile) body.modelProfile = modelProfile;
         // Include attachment hints so server-side classifier can detect media ops
         try {
           if (typeof attachmentsProvider === 'function') {
@@ -212,6 +262,66 @@ export function useAgentChat(opts: UseAgentChatOptions) {
         } catch {}
       };
 
+      // Policy gate: violations go back to the model unless the user allowed this exact action once
+      const verdict = evaluateToolPolicy(tc.toolName, tc.input);
+      if (!verdict.allowed) {
+        const { violation } = verdict;
+        if (!violation.approvalKey || !consumePolicyApproval(violation.approvalKey)) {
+          await logAndAddResult({
+            ok: false,
+            error: `Blocked by workspace policy: ${violation.message}`,
+            policyViolation: violation,
+            hint: violation.approvable
+              ? 'The user can allow this once from the chat; otherwise pick an allowed alternative.'
+              : 'This is never allowed; pick an allowed alternative.',
+          });
+          return;
+        }
+      }
+
+      // Approval mode: actions in an enabled category wait for the user's decision on the tool card
+      const needsApproval = (category: ApprovalCategory) => loadApprovalSettings()[category];
+      const awaitApproval = async (request: Omit<ApprovalRequest, 'toolCallId' | 'tool'>): Promise<boolean> => {
+        if (!needsApproval(request.category)) return true;
+        const decision = await requestToolApproval({ ...request, toolCallId: tc.toolCallId, tool: tc.toolName });
+        if (decision === 'approved') return true;
+        await logAndAddResult({ ok: false, denied: true, error: 'The user denied this action; nothing was changed. Do not retry it unless they ask.' });
+        return false;
+      };
+      const listFilesForApproval = async (paths: string[]): Promise<Pick<ApprovalRequest, 'files' | 'moreFiles'>> => {
+        const found: string[] = [];
+        for (const path of paths) {
+          try {
+            const entries = await fnsRef.current.readdirRecursive(path, 20);
+            found.push(...entries.filter((entry) => entry.type === 'file').map((entry) => entry.path));
+          } catch {
+            try {
+              await fnsRef.current.readFile(path, 'utf-8');
+              found.push(path);
+            } catch {}
+          }
+        }
+        const files: ApprovalFile[] = found.slice(0, MAX_APPROVAL_FILES).map((path) => ({ path, status: 'deleted' }));
+        return { files, moreFiles: found.length > MAX_APPROVAL_FILES ? found.length - MAX_APPROVAL_FILES : undefined };
+      };
+      // Review mode: the write is staged on the tool card and only the hunks the user keeps land; null when all are rejected
+      const reviewWrite = async (path: string, before: string | null, after: string): Promise<ReviewOutcome | null> => {
+        const hunks = buildReviewHunks(path, before ?? '', after);
+        if (hunks.length === 0) return { content: after, acceptedHunks: 0, totalHunks: 0 };
+        const decision = await requestWriteReview({ toolCallId: tc.toolCallId, tool: tc.toolName, path, isNewFile: before === null, hunks });
+        const acceptedHunks = decision.filter(Boolean).length;
+        if (acceptedHunks === 0) return null;
+        // The hunks were built against `before`; refuse rather than overwrite edits made while the card waited
+        let current: string | null = null;
+        try { current = await fnsRef.current.readFile(path, 'utf-8'); } catch {}
+        if (current !== before) {
+          throw new Error(`${path} changed while this write waited for review, so nothing was written. Read it again and redo the change.`);
+        }
+        const content = acceptedHunks === hunks.length ? after : applyAcceptedHunks(path, before ?? '', hunks, decision);
+        if (content === null) throw new Error(`Could not apply the accepted hunks to ${path}`);
+        return { content, acceptedHunks, totalHunks: hunks.length };
+      };
+
       try {
         switch (tc.toolName) {
           case 'web_fs_find': {
@@ -220,21 +330,6 @@ export function useAgentChat(opts: UseAgentChatOptions) {
             const results = await fnsRef.current.readdirRecursive(root, maxDepth);
             const paths = results.map(r => r.path);
             const filterByPrefix = (p: string) => (prefix ? p.startsWith(prefix) : true);
-            const globToRegExp = (pattern: string) => {
-              let re = '^';
-              for (let i = 0; i < pattern.length; i++) {
-                const ch = pattern[i];
-                if (ch === '*') {
-                  if (pattern[i + 1] === '*') { re += '.*'; i++; } else { re += '[^/]*'; }
-                } else if (ch === '?') {
-                  re += '.';
-                } else {
-                  re += /[\\.^$+()|{}\[\]\-]/.test(ch) ? `\\${ch}` : ch;
-                }
-              }
-              re += '$';
-              return new RegExp(re);
-            };
             const regex = glob ? globToRegExp(glob) : null;
             const filterByGlob = (p: string) => (regex ? regex.test(p) : true);
             const filtered = paths.filter((p: string) => filterByPrefix(p) && filterByGlob(p));
@@ -245,6 +340,26 @@ export function useAgentChat(opts: UseAgentChatOptions) {
             await logAndAddResult({ files: page, count: page.length, total: filtered.length, root, offset: start, nextOffset, hasMore: end < filtered.length, applied: { glob: !!glob, prefix: !!prefix } });
             break;
           }
+          case 'web_fs_grep': {
+            const grepInput = tc.input as Partial<TWebFsGrepInput>;
+            const { pattern = '', literal = false, ignoreCase = false, root = '.', glob, maxDepth = 10, contextLines = 0, maxMatches = 200, limit = 50, offset = 0 } = grepInput;
+            try {
+              buildGrepRegExp(pattern, literal, ignoreCase);
+            } catch (err: unknown) {
+              const message = err instanceof Error ? err.message : String(err);
+              await logAndAddResult({ ok: false, error: `Invalid regular expression: ${message}. Set literal=true to search plain text.`, pattern });
+              break;
+            }
+            const entries = await fnsRef.current.readdirRecursive(root, maxDepth);
+            const files = entries.filter(e => e.type === 'file').map(e => e.path);
+            const result = await grepFiles(fnsRef.current, files, { pattern, literal, ignoreCase, glob, contextLines, maxMatches });
+            const start = Math.max(0, offset || 0);
+            const end = Math.min(result.matches.length, start + Math.max(1, Math.min(limit || 50, 200)));
+            const page = result.matches.slice(start, end);
+            const nextOffset = end < result.matches.length ? end : null;
+            await logAndAddResult({ matches: page, count: page.length, total: result.matches.length, filesSearched: result.filesSearched, filesMatched: result.filesMatched, truncated: result.truncated, root, offset: start, nextOffset, hasMore: end < result.matches.length, applied: { glob: !!glob, literal, ignoreCase } });
+            break;
+          }
           case 'web_fs_read': {
             const { path, encoding = 'utf-8' } = tc.input as { path: string; encoding?: 'utf-8' | 'base64' };
             const content = await fnsRef.current.readFile(path, encoding);
@@ -277,8 +392,26 @@ export function useAgentChat(opts: UseAgentChatOptions) {
               });
               break;
             }
-            await fnsRef.current.writeFile(path, content);
-            await logAndAddResult({ ok: true, path, size: `${sizeKB}KB` });
+            const reviewing = loadReviewMode() && isReviewablePath(path);
+            let existing: string | null = null;
+            if (reviewing || needsApproval('overwrite')) {
+              try { existing = await fnsRef.current.readFile(path, 'utf-8'); } catch {}
+            }
+            let review: ReviewOutcome | null = null;
+            if (reviewing) {
+              review = await reviewWrite(path, existing, content);
+              if (!review) {
+                await logAndAddResult({ ok: false, path, rejected: true, error: REVIEW_REJECTED_ERROR });
+                break;
+              }
+            } else if (existing !== null && existing !== content) {
+              const patch = createTwoFilesPatch(path, path, existing, content, '', '', { context: 3 });
+              if (!(await awaitApproval({ category: 'overwrite', summary: `Overwrite ${path}`, files: [{ path, status: 'modified', patch }] }))) break;
+            }
+            const written = review ? review.content : content;
+            await fnsRef.current.writeFile(path, written);
+            const writtenKB = written === content ? sizeKB : (encoder.encode(written).length / 1024).toFixed(1);
+            await logAndAddResult({ ok: true, path, size: `${writtenKB}KB`, ...describeReview(review) });
             try {
               const lower = path.toLowerCase();
               const isMedia = /(\.png|\.jpg|\.jpeg|\.webp|\.gif|\.mp3|\.wav|\.m4a|\.aac|\.mp4|\.webm|\.mov)$/i.test(lower);
@@ -309,8 +442,114 @@ export function useAgentChat(opts: UseAgentChatOptions) {
             } catch {}
             break;
           }
+          case 'web_fs_patch': {
+            const { patch, fuzzFactor = 2, dryRun = false } = tc.input as TWebFsPatchInput;
+            const { planUnifiedPatch } = await import('@/lib/code-edit/applyPatch');
+            const plan = await planUnifiedPatch({
+              patch,
+              fuzzFactor,
+              readFile: async (path) => {
+                try { return await fnsRef.current.readFile(path, 'utf-8'); } catch { return null; }
+              },
+            });
+            if (!plan.ok) {
+              await logAndAddResult({ ok: false, error: 'Patch not applied; no files were changed.', failures: plan.failures });
+              break;
+            }
+            // Syntax-check every resulting file before touching any of them
+            const encoder = new TextEncoder();
+            const syntaxFailures = plan.changes.flatMap((change) => {
+              if (change.status === 'deleted') return [];
+              const result = syntaxCheckSource(change.path, change.after, encoder.encode(change.after).length);
+              return result.ok ? [] : [{ path: change.path, reason: `Syntax check failed: ${result.error}` }];
+            });
+            if (syntaxFailures.length > 0) {
+              await logAndAddResult({ ok: false, error: 'Patch not applied; no files were changed.', failures: syntaxFailures });
+              break;
+            }
+            const files = plan.changes.map(({ path, status, hunks, added, removed }) => ({ path, status, hunks, added, removed }));
+            if (dryRun) {
+              await logAndAddResult({ ok: true, dryRun: true, files });
+              break;
+            }
+            const deletions = plan.changes.filter((change) => change.status === 'deleted');
+            if (deletions.length > 0) {
+              const summary = `Patch deletes ${deletions.length === 1 ? deletions[0].path : `${deletions.length} files`}`;
+              if (!(await awaitApproval({ category: 'delete', summary, files: deletions.map(({ path }) => ({ path, status: 'deleted' })) }))) break;
+            }
+            // In review mode each file's hunks are reviewed instead of approving the overwrite as a whole
+            const reviewing = loadReviewMode();
+            const overwrites = plan.changes.filter((change) => change.status === 'modified');
+            if (!reviewing && overwrites.length > 0 && needsApproval('overwrite')) {
+              const summary = `Patch overwrites ${overwrites.length === 1 ? overwrites[0].path : `${overwrites.length} files`}`;
+              const approvalFiles: ApprovalFile[] = overwrites.slice(0, MAX_APPROVAL_FILES).map(({ path, before, after }) => ({
+                path,
+                status: 'modified',
+                patch: createTwoFilesPatch(path, path, before, after, '', '', { context: 3 }),
+              }));
+              const moreFiles = overwrites.length > MAX_APPROVAL_FILES ? overwrites.length - MAX_APPROVAL_FILES : undefined;
+              if (!(await awaitApproval({ category: 'overwrite', summary, files: approvalFiles, moreFiles }))) break;
+            }
+            try {
+              if (typeof window !== 'undefined') {
+                (window as unknown as { __FYOS_SUPPRESS_PREVIEW_ERRORS_UNTIL?: number }).__FYOS_SUPPRESS_PREVIEW_ERRORS_UNTIL = Date.now() + 1500;
+              }
+            } catch {}
+            const { kept, rejected } = reviewing
+              ? await reviewChanges(plan.changes, reviewWrite)
+              : { kept: plan.changes.map((change) => ({ change, content: change.after, outcome: null })), rejected: [] as string[] };
+            if (kept.length === 0) {
+              await logAndAddResult({ ok: false, rejected: true, error: REVIEW_REJECTED_ERROR });
+              break;
+            }
+            const applied: typeof plan.changes = [];
+            try {
+              for (const { change, content } of kept) {
+                if (change.status === 'deleted') {
+                  await fnsRef.current.remove(change.path);
+                } else {
+                  const dir = change.path.split('/').slice(0, -1).join('/') || '.';
+                  await fnsRef.current.mkdir(dir, true);
+                  await fnsRef.current.writeFile(change.path, content);
+                }
+                applied.push(change);
+              }
+            } catch (err: unknown) {
+              // Roll back whatever was already written so the patch stays all-or-nothing
+              for (const change of applied.reverse()) {
+                try {
+                  if (change.status === 'created') await fnsRef.current.remove(change.path);
+                  else await fnsRef.current.writeFile(change.path, change.before);
+                } catch {}
+              }
+              const message = err instanceof Error ? err.message : String(err);
+              await logAndAddResult({ ok: false, error: `Patch write failed and was rolled back: ${message}` });
+              break;
+            }
+            if (!reviewing) {
+              await logAndAddResult({ ok: true, dryRun: false, files });
+              break;
+            }
+            const partial = kept.filter(({ outcome }) => outcome && outcome.acceptedHunks < outcome.totalHunks).map(({ change }) => change.path);
+            await logAndAddResult({
+              ok: true,
+              dryRun: false,
+              reviewed: true,
+              files: files.filter((file) => !rejected.includes(file.path)),
+              ...(rejected.length > 0 ? { rejectedFiles: rejected } : {}),
+              ...(partial.length > 0 ? { partiallyAcceptedFiles: partial } : {}),
+              ...(rejected.length > 0 || partial.length > 0
+                ? { note: 'The user rejected part of this patch in review, so the files differ from what you sent. Read them again before editing further.' }
+                : {}),
+            });
+            break;
+          }
           case 'web_fs_rm': {
             const { path, recursive = true } = tc.input as { path: string; recursive?: boolean };
+            if (needsApproval('delete')) {
+              const listing = await listFilesForApproval([path]);
+              if (!(await awaitApproval({ category: 'delete', summary: `Delete ${path}${recursive ? ' and everything in it' : ''}`, ...listing }))) break;
+            }
             await fnsRef.current.remove(path, { recursive });
             addToolResult({ tool: tc.toolName, toolCallId: tc.toolCallId, output: { ok: true, path, recursive } });
             break;
@@ -319,28 +558,9 @@ export function useAgentChat(opts: UseAgentChatOptions) {
             const execInput = (isPlainObject(tc.input) ? tc.input : {}) as Partial<WebExecInput>;
             let { command = '', args = [] } = execInput;
             const { cwd } = execInput;
-            const splitCommandLine = (line: string): string[] => {
-              const out: string[] = []; let cur = ''; let quote: '"' | "'" | null = null;
-              for (let i = 0; i < line.length; i++) {
-                const ch = line[i];
-                if (quote) {
-                  if (ch === quote) { quote = null; }
-                  else if (ch === '\\' && i + 1 < line.length) { i++; cur += line[i]; }
-                  else { cur += ch; }
-                } else {
-                  if (ch === '"' || ch === "'") { quote = ch as '"' | "'"; }
-                  else if (/\s/.test(ch)) { if (cur) { out.push(cur); cur = ''; } }
-                  else if (ch === '\\' && i + 1 < line.length) { i++; cur += line[i]; }
-                  else { cur += ch; }
-                }
-              }
-              if (cur) out.push(cur);
-              return out;
-            };
-            if ((!args || args.length === 0) && /\s/.test(command)) {
-              const tokens = splitCommandLine(command);
-              if (tokens.length > 0) { command = tokens[0]; args = tokens.slice(1); }
-            }
+            ({ command, args } = normalizeExecCommand(command, args));
+            const removing = removedPackages(command, args);
+            if (removing && !(await awaitApproval({ category: 'packageRemoval', summary: `Remove ${removing.length > 0 ? removing.join(', ') : 'packages'}`, files: [], packages: removing }))) break;
             const cmdLower = command.toLowerCase();
             const firstArg = (args[0] || '').toLowerCase();
             const isPkgMgr = /^(pnpm|npm|yarn|bun)$/.test(cmdLower);
@@ -352,22 +572,105 @@ export function useAgentChat(opts: UseAgentChatOptions) {
               else if (cmdLower === 'bun' && !args.includes('--silent')) args = [...args, '--silent'];
             }
             const fullCommand = `${command} ${args.join(' ')}`.trim();
-            const result = await fnsRef.current.spawn(command, args, { cwd });
+            const { waitSeconds = 90, timeoutSeconds = 600 } = execInput;
+            const proc = await fnsRef.current.spawnProcess(command, args, { cwd });
+            const started = trackAgentProcess(proc, { command: fullCommand, cwd, toolCallId: tc.toolCallId, timeoutMs: timeoutSeconds * 1000 });
+            const info = (await waitForAgentProcess(started.id, waitSeconds * 1000)) ?? started;
+            const output = getAgentProcessOutput(info.id);
             const isPkgMgrCmd = /(pnpm|npm|yarn|bun)\s+(add|install|remove|uninstall|update)/i.test(fullCommand);
             const maxChars = 8000; const maxLines = 120;
-            const lastLines = (s: string, n: number) => s.split(/\r?\n/).slice(Math.max(0, s.split(/\r?\n/).length - n)).join('\n');
             const trimChars = (s: string) => (s.length > maxChars ? `${s.slice(0, 2000)}\n...\n${s.slice(-6000)}` : s);
-            if (isPkgMgrCmd) {
-              addToolResult({ tool: tc.toolName, toolCallId: tc.toolCallId, output: { command: fullCommand, exitCode: result.exitCode, ok: result.exitCode === 0, outputTail: trimChars(lastLines(result.output, maxLines)) } });
+            if (info.status === 'running') {
+              addToolResult({ tool: tc.toolName, toolCallId: tc.toolCallId, output: { command: fullCommand, processId: info.id, status: info.status, running: true, elapsedMs: Date.now() - info.startedAt, outputTail: trimChars(lastLines(output, maxLines)), note: `Still running after ${waitSeconds}s (killed after ${timeoutSeconds}s). Use process_tail to follow it or process_kill to stop it.` } });
+            } else if (isPkgMgrCmd) {
+              addToolResult({ tool: tc.toolName, toolCallId: tc.toolCallId, output: { command: fullCommand, processId: info.id, status: info.status, exitCode: info.exitCode, ok: info.status === 'exited' && info.exitCode === 0, outputTail: trimChars(lastLines(output, maxLines)) } });
             } else {
-              addToolResult({ tool: tc.toolName, toolCallId: tc.toolCallId, output: { command: fullCommand, exitCode: result.exitCode, output: trimChars(result.output), cwd } });
+              addToolResult({ tool: tc.toolName, toolCallId: tc.toolCallId, output: { command: fullCommand, processId: info.id, status: info.status, exitCode: info.exitCode, output: trimChars(output), cwd } });
             }
             break;
           }
+          case 'process_list': {
+            const { includeFinished = true } = (isPlainObject(tc.input) ? tc.input : {}) as Partial<TProcessListInput>;
+            const processes = listAgentProcesses().filter((info) => includeFinished || info.status === 'running');
+            await logAndAddResult({ processes: processes.map(describeProcess), count: processes.length });
+            break;
+          }
+          case 'process_tail': {
+            const { processId = '', lines = 60, waitSeconds = 0 } = (isPlainObject(tc.input) ? tc.input : {}) as Partial<TProcessTailInput>;
+            const info = await waitForAgentProcess(processId, waitSeconds * 1000);
+            if (!info) {
+              await logAndAddResult({ ok: false, error: `Unknown process ${processId}. Use process_list to see tracked processes.` });
+              break;
+            }
+            await logAndAddResult({ ...describeProcess(info), outputTail: lastLines(stripAnsi(getAgentProcessOutput(info.id)), lines) });
+            break;
+          }
+          case 'process_kill': {
+            const { processId = '' } = (isPlainObject(tc.input) ? tc.input : {}) as Partial<TProcessKillInput>;
+            const before = getAgentProcess(processId);
+            const info = killAgentProcess(processId);
+            if (!info) {
+              await logAndAddResult({ ok: false, error: `Unknown process ${processId}. Use process_list to see tracked processes.` });
+              break;
+            }
+            await logAndAddResult({ ok: true, alreadyFinished: before?.status !== 'running', ...describeProcess(info) });
+            break;
+          }
           case 'validate_project': {
-            const { scope = 'quick', files = [] } = tc.input as { scope?: 'quick' | 'full'; files?: string[] };
-            await runValidation(scope, files);
-            addToolResult({ tool: tc.toolName, toolCallId: tc.toolCallId, output: { ok: true, scope, files } });
+            const { scope = 'quick', files = [], minSeverity, failOn, maxDiagnostics } = tc.input as Partial<TValidateProjectInput>;
+            const report = await runValidation(scope, files, { minSeverity, failOn, maxDiagnostics });
+            await logAndAddResult({ ...report, files });
+            break;
+          }
+          case 'run_tests': {
+            const { appId, testNamePattern, timeoutSeconds = 180 } = tc.input as Partial<TRunTestsInput>;
+            const target = appId ? `src/apps/${appId}` : 'src/apps';
+            const outputFile = 'tmp/vitest-results.json';
+            const args = ['exec', 'vitest', 'run', target, '--reporter=json', `--outputFile=${outputFile}`];
+            if (testNamePattern) args.push('-t', testNamePattern);
+            const timeoutMs = timeoutSeconds * 1000;
+            const proc = await fnsRef.current.spawnProcess('pnpm', args);
+            const started = trackAgentProcess(proc, { command: `pnpm ${args.join(' ')}`, toolCallId: tc.toolCallId, timeoutMs });
+            let info = (await waitForAgentProcess(started.id, timeoutMs)) ?? started;
+            // The tracker's own timer may not have fired yet
+            if (info.status === 'running') info = killAgentProcess(info.id, 'timed_out') ?? info;
+            const run = { output: getAgentProcessOutput(info.id), exitCode: info.exitCode };
+            const tail = stripAnsi(run.output).trim().split('\n').slice(-20).join('\n');
+            if (info.status === 'timed_out' || info.status === 'killed') {
+              try { await fnsRef.current.remove(outputFile); } catch {}
+              await logAndAddResult({
+                ok: false,
+                appId: appId ?? null,
+                timedOut: info.status === 'timed_out',
+                error: info.status === 'timed_out'
+                  ? `Tests did not finish within ${timeoutSeconds}s and were stopped. Look for hanging tests or a run stuck in watch mode.`
+                  : 'The test run was stopped before it finished.',
+                output: tail,
+              });
+              break;
+            }
+            let report: ReturnType<typeof parseVitestJson> = null;
+            try {
+              report = parseVitestJson(await fnsRef.current.readFile(outputFile, 'utf-8'));
+            } catch {}
+            try { await fnsRef.current.remove(outputFile); } catch {}
+            if (!report) {
+              const noTests = /No test files found/i.test(run.output);
+              const missing = /Command "vitest" not found|vitest: (command )?not found/i.test(run.output);
+              await logAndAddResult({
+                ok: false,
+                appId: appId ?? null,
+                error: noTests
+                  ? `No test files found under ${target}. Add *.test.ts(x) files next to the app code.`
+                  : missing
+                    ? 'Vitest is not installed. Run `pnpm add -D vitest` and try again.'
+                    : 'Vitest did not produce a report.',
+                exitCode: run.exitCode,
+                output: tail,
+              });
+              break;
+            }
+            await logAndAddResult({ ...report, appId: appId ?? null, exitCode: run.exitCode });
             break;
           }
           case 'ai_generate': {
@@ -441,10 +744,23 @@ export function useAgentChat(opts: UseAgentChatOptions) {
               const content = await fnsRef.current.readFile(input.path, 'utf-8');
               const { applyAstEdit } = await import('@/lib/code-edit/recastEdit');
               const result = await applyAstEdit({ ...input, content });
+              let written = result.code;
+              let review: ReviewOutcome | null = null;
               if (result.applied) {
-                await fnsRef.current.writeFile(input.path, result.code);
+                if (loadReviewMode()) {
+                  review = await reviewWrite(input.path, content, result.code);
+                  if (!review) {
+                    addToolResult({ tool: 'code_edit_ast', toolCallId: tc.toolCallId, output: { ok: false, applied: false, rejected: true, error: REVIEW_REJECTED_ERROR, previewDiff: result.previewDiff, path: input.path } });
+                    break;
+                  }
+                  written = review.content;
+                } else if (needsApproval('overwrite')) {
+                  const patch = createTwoFilesPatch(input.path, input.path, content, result.code, '', '', { context: 3 });
+                  if (!(await awaitApproval({ category: 'overwrite', summary: `Edit ${input.path}`, files: [{ path: input.path, status: 'modified', patch }] }))) break;
+                }
+                await fnsRef.current.writeFile(input.path, written);
               }
-              addToolResult({ tool: 'code_edit_ast', toolCallId: tc.toolCallId, output: { ok: true, applied: result.applied, edits: result.edits, previewDiff: result.previewDiff, path: input.path, elapsedMs: result.elapsedMs, bytesChanged: result.applied ? Math.abs(result.code.length - content.length) : 0 } });
+              addToolResult({ tool: 'code_edit_ast', toolCallId: tc.toolCallId, output: { ok: true, applied: result.applied, edits: result.edits, previewDiff: result.previewDiff, path: input.path, elapsedMs: result.elapsedMs, bytesChanged: result.applied ? Math.abs(written.length - content.length) : 0, ...(result.matchCount !== undefined ? { matchCount: result.matchCount } : {}), ...describeReview(review) } });
             } catch (err: unknown) {
               const message = err instanceof Error ? err.message : String(err);
               addToolResult({ tool: 'code_edit_ast', toolCallId: tc.toolCallId, output: { ok: false, error: message, path: input.path } });
@@ -543,6 +859,10 @@ export function useAgentChat(opts: UseAgentChatOptions) {
                 reg = JSON.parse(regRaw);
                 const app = reg.find(r => r.id === id); if (app) appName = app.name;
               } catch {}
+              if (needsApproval('delete')) {
+                const listing = await listFilesForApproval([`src/apps/${id}`, `src/apps/app-${id}`]);
+                if (!(await awaitApproval({ category: 'delete', summary: `Remove the ${appName === 'Unknown' ? id : appName} app`, ...listing }))) break;
+              }
               const next = reg.filter((r) => r.id !== id);
               await fnsRef.current.writeFile('public/apps/registry.json', JSON.stringify(next, null, 2));
               const p1 = `src/apps/${id}`; const p2 = `src/apps/app-${id}`;
@@ -583,5 +903,12 @@ export function useAgentChat(opts: UseAgentChatOptions) {
     setMessages(initialMessages);
   }, [initialMessages, setMessages]);
 
-  return { messages, sendMessage, status, stop, addToolResult } as const;
+  // Stopping the agent also denies whatever is still waiting for approval or review
+  const stopAndDeny = useCallback(() => {
+    denyAllToolApprovals();
+    rejectAllWriteReviews();
+    stop();
+  }, [stop]);
+
+  return { messages, sendMessage, status, stop: stopAndDeny, addToolResult, error, clearError } as const;
 }
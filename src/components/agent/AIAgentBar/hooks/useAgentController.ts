@@ -1,13 +1,15 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { MutableRefObject, Dispatch, SetStateAction } from 'react';
 import type { UIMessage } from 'ai';
-import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
+import type { WebContainer as WebContainerAPI, WebContainerProcess } from '@webcontainer/api';
 import { useThreads } from './useThreads';
 import { useAgentChat } from './useAgentChat';
 import { useValidationDiagnostics } from './useValidationDiagnostics';
 import { getMutableWindow } from '../utils/window';
 import type { Attachment } from '../ui/ChatComposer';
 import type { Id } from '../../../../../convex/_generated/dataModel';
+import type { AgentBudgetExceededPayload } from '@/lib/agent/agentTypes';
+import { parseAgentBudgetError } from '@/lib/agent/agentUtils';
 
 export type OptimisticChatMessage = {
   id: string;
@@ -30,6 +32,7 @@ type WebContainerFns = {
   readdirRecursive: (path?: string, maxDepth?: number) => Promise<{ path: string; type: 'file' | 'dir' }[]>;
   remove: (path: string, opts?: { recursive?: boolean }) => Promise<void>;
   spawn: (command: string, args?: string[], opts?: { cwd?: string }) => Promise<{ exitCode: number; output: string }>;
+  spawnProcess: (command: string, args?: string[], opts?: { cwd?: string }) => Promise<WebContainerProcess>;
 };
 
 type UseAgentControllerArgs = {
@@ -61,11 +64,14 @@ type AgentChatState = {
   optimisticMessages: OptimisticChatMessage[];
   status: string;
   stop: () => void;
+  sendMessage: (args: { text: string }) => Promise<void>;
   agentActive: boolean;
   didAnimateWelcome: boolean;
   setDidAnimateWelcome: (value: boolean) => void;
   bubbleAnimatingIds: Set<string>;
   lastSentAttachments: Attachment[] | null;
+  budgetError: AgentBudgetExceededPayload | null;
+  clearBudgetError: () => void;
 };
 
 type AgentController = {
@@ -103,8 +109,12 @@ export function useAgentController(args: UseAgentControllerArgs): AgentControlle
     ensureActiveThread,
     closeThread,
     deleteThread,
+    activeModelProfile,
+    setModelProfile,
     isAuthenticated: isChatAuthenticated,
   } = useThreads();
+  const activeModelProfileRef = useRef(activeModelProfile);
+  useEffect(() => { activeModelProfileRef.current = activeModelProfile; }, [activeModelProfile]);
 
   const [showThreadHistory, setShowThreadHistory] = useState(false);
   const [optimisticMessages, setOptimisticMessages] = useState<OptimisticChatMessage[]>([]);
@@ -146,7 +156,7 @@ export function useAgentController(args: UseAgentControllerArgs): AgentControlle
   const agentActiveRef = useRef<boolean>(false);
   const registryBeforeRunRef = useRef<AppRegistryEntry[] | null>(null);
 
-  const { messages, sendMessage: sendMessageRaw, status, stop } = useAgentChat({
+  const { messages, sendMessage: sendMessageRaw, status, stop, error: chatError, clearError } = useAgentChat({
     id: chatSessionKey,
     initialMessages: initialChatMessages,
     activeThreadId,
@@ -155,6 +165,7 @@ export function useAgentController(args: UseAgentControllerArgs): AgentControlle
     media: { loadMedia: async () => { await loadMedia({}); } },
     runValidation,
     attachmentsProvider: () => (pendingAttachmentsRef.current || attachmentsRef.current || []),
+    getModelProfile: () => activeModelProfileRef.current,
     onFirstToolCall: () => {
       // Mark agent active; allow UI to reflect busy state without pausing HMR
       agentActiveRef.current = true;
@@ -166,6 +177,7 @@ export function useAgentController(args: UseAgentControllerArgs): AgentControlle
   });
 
   useEffect(() => { statusRef.current = status; }, [status]);
+  const budgetError = useMemo(() => parseAgentBudgetError(chatError), [chatError]);
   useEffect(() => { sendMessageRef.current = (content: string) => sendMessageRaw({ text: content }); }, [sendMessageRaw]);
 
   useEffect(() => {
@@ -432,6 +444,8 @@ export function useAgentController(args: UseAgentControllerArgs): AgentControlle
     ensureActiveThread,
     closeThread,
     deleteThread,
+    activeModelProfile,
+    setModelProfile,
     isAuthenticated: isChatAuthenticated,
     showThreadHistory,
     setShowThreadHistory,
@@ -452,6 +466,8 @@ export function useAgentController(args: UseAgentControllerArgs): AgentControlle
     ensureActiveThread,
     closeThread,
     deleteThread,
+    activeModelProfile,
+    setModelProfile,
     isChatAuthenticated,
     showThreadHistory,
     activeThreadIdImmediateRef,
@@ -463,11 +479,14 @@ export function useAgentController(args: UseAgentControllerArgs): AgentControlle
     optimisticMessages,
     status,
     stop,
+    sendMessage,
     agentActive,
     didAnimateWelcome,
     setDidAnimateWelcome,
     bubbleAnimatingIds,
     lastSentAttachments,
+    budgetError,
+    clearBudgetError: clearError,
   };
 
   return {
@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MutableRefObject } from 'react';
+import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
+import type { TextUIPart, UIMessage } from 'ai';
+import {
+  captureRestorePoint,
+  deleteRestorePoint,
+  diffRestorePoint,
+  listRestorePoints,
+  restorePointLabel,
+  restoreToPoint,
+} from '@/utils/restore-points';
+import type { RestorePoint } from '@/utils/restore-points';
+
+type UseRestorePointsArgs = {
+  instance: WebContainerAPI | null;
+  instanceRef: MutableRefObject<WebContainerAPI | null>;
+  status: string;
+  // Used to name points after the user turn that produced them
+  messages: UIMessage[];
+};
+
+type RestoreOptions = {
+  onBeforeRestore?: () => void;
+  onAfterRestore?: () => void;
+};
+
+const isTextPart = (part: UIMessage['parts'][number]): part is TextUIPart => part.type === 'text';
+
+function lastUserText(messages: UIMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== 'user') continue;
+    return message.parts.filter(isTextPart).map((part) => part.text).join(' ');
+  }
+  return '';
+}
+
+export function useRestorePoints({
+  instance,
+  instanceRef,
+  status,
+  messages,
+}: UseRestorePointsArgs) {
+  const [points, setPoints] = useState<RestorePoint[]>([]);
+  const [currentPointId, setCurrentPointId] = useState<string | null>(null);
+  const currentPointRef = useRef<RestorePoint | null>(null);
+  const messagesRef = useRef(messages);
+  const fsChangedRef = useRef(false);
+  const prevStatusRef = useRef<string>('ready');
+  const lastInstanceRef = useRef<WebContainerAPI | null>(null);
+  // Captures and restores must not interleave
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => { messagesRef.current = messages; }, [messages]);
+
+  const enqueue = useCallback(<T>(task: () => Promise<T>): Promise<T> => {
+    const next = queueRef.current.then(task, task);
+    queueRef.current = next.catch(() => {});
+    return next;
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setPoints(await listRestorePoints());
+    } catch (error) {
+      console.warn('[RESTORE] Could not list restore points', error);
+    }
+  }, []);
+
+  const capture = useCallback((inst: WebContainerAPI, label: string) => enqueue(async () => {
+    const point = await captureRestorePoint(inst, label, currentPointRef.current);
+    currentPointRef.current = point;
+    setCurrentPointId(point.id);
+    await refresh();
+    return point;
+  }), [enqueue, refresh]);
+
+  useEffect(() => {
+    if (!instance) {
+      lastInstanceRef.current = null;
+      return;
+    }
+    if (lastInstanceRef.current === instance) return;
+
+    let cancelled = false;
+    lastInstanceRef.current = instance;
+    currentPointRef.current = null;
+    fsChangedRef.current = false;
+
+    (async () => {
+      try {
+        // Compared against the newest stored point, so a reload with no changes adds nothing
+        await capture(instance, 'Session start');
+      } catch (error) {
+        if (!cancelled) console.warn('[RESTORE] Initial restore point failed', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [instance, capture]);
+
+  const markFsChanged = useCallback(() => {
+    fsChangedRef.current = true;
+  }, []);
+
+  useEffect(() => {
+    const prev = prevStatusRef.current;
+    const now = status;
+    const finished = (prev === 'submitted' || prev === 'streaming') && now === 'ready';
+    prevStatusRef.current = now;
+    if (!finished) return;
+
+    const inst = instanceRef.current;
+    if (!fsChangedRef.current || !inst) {
+      fsChangedRef.current = false;
+      return;
+    }
+    fsChangedRef.current = false;
+    const label = restorePointLabel(lastUserText(messagesRef.current));
+    capture(inst, label).catch((error) => console.warn('[RESTORE] Restore point after run failed', error));
+  }, [status, instanceRef, capture]);
+
+  const restorePoint = useCallback(async (id: string, opts?: RestoreOptions) => {
+    const inst = instanceRef.current;
+    if (!inst) return false;
+    const point = points.find((p) => p.id === id);
+    if (!point) return false;
+
+    return enqueue(async () => {
+      opts?.onBeforeRestore?.();
+      try {
+        await restoreToPoint(inst, id);
+        fsChangedRef.current = false;
+        currentPointRef.current = point;
+        setCurrentPointId(point.id);
+        return true;
+      } finally {
+        opts?.onAfterRestore?.();
+      }
+    });
+  }, [instanceRef, points, enqueue]);
+
+  const previewRestorePoint = useCallback(async (id: string) => {
+    const inst = instanceRef.current;
+    if (!inst) return [];
+    return diffRestorePoint(inst, id);
+  }, [instanceRef]);
+
+  const removeRestorePoint = useCallback(async (id: string) => {
+    await deleteRestorePoint(id);
+    if (currentPointRef.current?.id === id) {
+      currentPointRef.current = null;
+      setCurrentPointId(null);
+    }
+    await refresh();
+  }, [refresh]);
+
+  return {
+    points,
+    currentPointId,
+    markFsChanged,
+    refresh,
+    restorePoint,
+    previewRestorePoint,
+    removeRestorePoint,
+  } as const;
+}
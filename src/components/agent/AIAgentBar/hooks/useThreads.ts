@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useConvexAuth, useMutation, useQuery } from 'convex/react';
 import type { UIMessage } from 'ai';
 import type { ChatThread } from '@/lib/agent/agentTypes';
+import { DEFAULT_MODEL_PROFILE, type ModelProfileId } from '@/lib/agent/agentModels';
 import { api as convexApi } from '../../../../../convex/_generated/api';
 import type { Doc, Id } from '../../../../../convex/_generated/dataModel';
 
@@ -22,6 +23,8 @@ type UseThreadsState = {
   ensureActiveThread: (opts?: { titleHint?: string; bootstrap?: boolean }) => Promise<string | null>;
   closeThread: (id: string) => void;
   deleteThread: (id: string) => Promise<void>;
+  activeModelProfile: ModelProfileId;
+  setModelProfile: (profile: ModelProfileId) => Promise<void>;
   isAuthenticated: boolean;
 };
 
@@ -36,7 +39,7 @@ function normalizeTitle(title?: string) {
   return trimmed.length > 80 ? `${trimmed.slice(0, 77)}…` : trimmed;
 }
 
-type ThreadDoc = Pick<Doc<'chat_threads'>, '_id' | 'title' | 'updatedAt' | 'lastMessageAt' | 'createdAt'> & { id?: string };
+type ThreadDoc = Pick<Doc<'chat_threads'>, '_id' | 'title' | 'updatedAt' | 'lastMessageAt' | 'createdAt' | 'modelProfile'> & { id?: string };
 
 type MessageDoc = Pick<Doc<'chat_messages'>,
   '_id'
@@ -53,6 +56,7 @@ function mapThread(doc: ThreadDoc): ChatThread {
     title: doc.title ?? 'Chat',
     updatedAt: doc.updatedAt ?? doc.lastMessageAt ?? doc.createdAt ?? 0,
     lastMessageAt: doc.lastMessageAt,
+    modelProfile: doc.modelProfile,
   };
 }
 
@@ -78,6 +82,8 @@ export function useThreads(): UseThreadsState {
   const [initialChatMessages, setInitialChatMessages] = useState<UIMessage[] | undefined>(undefined);
   const [chatSessionKey, setChatSessionKey] = useState<string>('agent-chat');
   const [openThreadIds, setOpenThreadIds] = useState<string[]>([]);
+  // Profile for chats without a stored thread yet (signed out or not created)
+  const [draftModelProfile, setDraftModelProfile] = useState<ModelProfileId>(DEFAULT_MODEL_PROFILE);
   const openIdsLoadedRef = useRef(false);
   const activeThreadIdRef = useRef<string | null>(null);
   const threadIdMapRef = useRef<Map<string, Id<'chat_threads'>>>(new Map());
@@ -86,6 +92,7 @@ export function useThreads(): UseThreadsState {
   const createThreadMutation = useMutation(convexApi.chat.createThread);
   const deleteThreadMutation = useMutation(convexApi.chat.deleteThread);
   const appendMessageMutation = useMutation(convexApi.chat.appendMessage);
+  const setThreadModelProfileMutation = useMutation(convexApi.chat.setThreadModelProfile);
   const pendingThreadPromiseRef = useRef<Promise<string | null> | null>(null);
 
   const threadsData = useQuery(
@@ -246,10 +253,10 @@ export function useThreads(): UseThreadsState {
       try {
         const title = normalizeTitle(titleHint ?? DEFAULT_THREAD_TITLE);
         const now = Date.now();
-        const tid = await createThreadMutation({ title });
+        const tid = await createThreadMutation({ title, modelProfile: draftModelProfile });
         const id = String(tid);
         threadIdMapRef.current.set(id, tid);
-        const optimistic: ChatThread = { _id: id, title, updatedAt: now, lastMessageAt: now };
+        const optimistic: ChatThread = { _id: id, title, updatedAt: now, lastMessageAt: now, modelProfile: draftModelProfile };
         setThreads((prev) => (prev.some((t) => t._id === id) ? prev : [...prev, optimistic]));
         setOpenThreadIds((prev) => (prev.includes(id) ? prev : [...prev, id]));
         activeThreadIdRef.current = id;
@@ -288,7 +295,7 @@ export function useThreads(): UseThreadsState {
 
     pendingThreadPromiseRef.current = promise;
     return promise;
-  }, [appendMessageMutation, createThreadMutation, isAuthenticated]);
+  }, [appendMessageMutation, createThreadMutation, draftModelProfile, isAuthenticated]);
 
   const startBlankThread = useCallback(() => {
     if (!isAuthenticated) {
@@ -350,6 +357,25 @@ export function useThreads(): UseThreadsState {
     }
   }, [closeThread, deleteThreadMutation, isAuthenticated]);
 
+  const activeModelProfile = useMemo<ModelProfileId>(() => {
+    const active = activeThreadIdState ? threads.find((t) => t._id === activeThreadIdState) : undefined;
+    return active?.modelProfile ?? draftModelProfile;
+  }, [activeThreadIdState, draftModelProfile, threads]);
+
+  const setModelProfile = useCallback(async (profile: ModelProfileId) => {
+    setDraftModelProfile(profile);
+    const id = activeThreadIdRef.current;
+    const threadId = id ? threadIdMapRef.current.get(id) : undefined;
+    if (!isAuthenticated || !id || !threadId) return;
+    setThreads((prev) => prev.map((t) => (t._id === id ? { ...t, modelProfile: profile } : t)));
+    try {
+      await setThreadModelProfileMutation({ threadId, modelProfile: profile });
+    } catch (error) {
+      console.error('Failed to save thread model profile', error);
+      setThreadsError((error as Error)?.message ?? 'Failed to save model preference');
+    }
+  }, [isAuthenticated, setThreadModelProfileMutation]);
+
   const refreshThreads = useCallback(async () => {
     try {
       setThreadsError(null);
@@ -387,6 +413,8 @@ export function useThreads(): UseThreadsState {
     ensureActiveThread,
     closeThread,
     deleteThread,
+    activeModelProfile,
+    setModelProfile,
     isAuthenticated,
   };
 }
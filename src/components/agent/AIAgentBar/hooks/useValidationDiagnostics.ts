@@ -1,5 +1,13 @@
 import { useCallback, useEffect, useRef } from 'react';
 import { JSONSafe, stableHash, trimForChat } from '@/lib/agent/agentUtils';
+import {
+  buildValidationReport,
+  parseEslintJson,
+  parseTscOutput,
+  type DiagnosticThresholds,
+  type ProjectDiagnostic,
+  type ValidationReport,
+} from '@/lib/agent/agentDiagnostics';
 
 type SpawnFn = (command: string, args?: string[], opts?: { cwd?: string }) => Promise<{ exitCode: number; output: string }>;
 
@@ -9,8 +17,19 @@ type Options = {
   getStatus: () => string;
 };
 
+type RawValidation = {
+  diagnostics: ProjectDiagnostic[];
+  toolErrors: string[];
+};
+
+function lintTargetsOf(changed: string[]): string[] {
+  return changed.filter((p) => /\.(ts|tsx|js|jsx)$/.test(p));
+}
+
 export function useValidationDiagnostics({ spawn, sendMessage, getStatus }: Options) {
-  const validateRunningRef = useRef(false);
+  // In-flight runs keyed by their lint targets; runs are chained so tsc never runs twice at once
+  const validateRunsRef = useRef(new Map<string, Promise<RawValidation>>());
+  const validateChainRef = useRef<Promise<unknown>>(Promise.resolve());
   const lastErrorHashRef = useRef<string | null>(null);
   const autoPostBusyRef = useRef(false);
 
@@ -31,100 +50,65 @@ export function useValidationDiagnostics({ spawn, sendMessage, getStatus }: Opti
     }
   }, [getStatus, sendMessage]);
 
-  function extractBreakingESLint(jsonOutput: string): string | null {
+  async function collectDiagnostics(changed: string[]): Promise<RawValidation> {
+    const diagnostics: ProjectDiagnostic[] = [];
+    const toolErrors: string[] = [];
+
     try {
-      const reports: Array<{
-        filePath: string;
-        messages: Array<{ ruleId: string | null; fatal?: boolean; severity: number; message: string; line?: number; column?: number }>;
-      }> = JSON.parse(jsonOutput);
-      const breaking: string[] = [];
-      for (const rep of reports) {
-        for (const m of rep.messages) {
-          const isParsing = m.fatal === true || m.ruleId === null || /Parsing error/i.test(m.message);
-          if (isParsing) {
-            breaking.push(`${rep.filePath}:${m.line ?? 0}:${m.column ?? 0} ${m.message}`);
-          }
-        }
-      }
-      if (breaking.length > 0) {
-        const body = breaking.slice(0, 25).join('\n');
-        return `Parsing errors detected (likely breaking):\n${trimForChat(body)}`;
+      const tsc = await spawn('pnpm', ['exec', 'tsc', '--noEmit', '--pretty', 'false']);
+      if (tsc.exitCode !== 0) {
+        const parsed = parseTscOutput(tsc.output);
+        diagnostics.push(...parsed);
+        if (parsed.length === 0) toolErrors.push(`[TypeScript] exited with ${tsc.exitCode}: ${trimForChat(tsc.output)}`);
       }
-      return null;
-    } catch {
-      return null;
+    } catch (e) {
+      toolErrors.push(`[TypeScript] failed to run: ${e instanceof Error ? e.message : String(e)}`);
     }
-  }
 
-  function extractBreakingTSErrors(tscOutput: string): string | null {
-    const lines = tscOutput.split(/\r?\n/);
-    const selected: string[] = [];
-    const codeRe = /error\s+TS(\d+):\s*(.*)/i;
-    for (const line of lines) {
-      const m = line.match(codeRe);
-      if (!m) continue;
-      const code = parseInt(m[1], 10);
-      const msg = m[2] || '';
-      const isSyntax = code >= 1000 && code < 1200;
-      const isModule = code === 2307;
-      if (isSyntax || isModule) {
-        selected.push(`TS${code}: ${msg}`);
-      }
-    }
-    if (selected.length > 0) {
-      return selected.slice(0, 25).join('\n');
-    }
-    return null;
-  }
-
-  async function runValidation(scope: 'quick' | 'full', changed: string[] = []) {
-    if (validateRunningRef.current) return;
-    validateRunningRef.current = true;
-    try {
-      const logs: string[] = [];
+    const lintTargets = lintTargetsOf(changed);
+    if (lintTargets.length > 0) {
       try {
-        const tsc = await spawn('pnpm', ['exec', 'tsc', '--noEmit', '--pretty', 'false']);
-        if (tsc.exitCode !== 0) {
-          const breakingTS = extractBreakingTSErrors(tsc.output);
-          if (breakingTS) logs.push(`[TypeScript] ${breakingTS}`);
+        const eslint = await spawn('pnpm', [
+          'exec',
+          'eslint',
+          '--format',
+          'json',
+          ...lintTargets,
+        ]);
+        if (eslint.exitCode !== 0) {
+          const parsed = parseEslintJson(JSONSafe(eslint.output));
+          diagnostics.push(...parsed);
+          if (parsed.length === 0) toolErrors.push(`[ESLint] exited with ${eslint.exitCode}: ${trimForChat(eslint.output)}`);
         }
       } catch (e) {
-        logs.push(`[TypeScript] failed to run: ${e instanceof Error ? e.message : String(e)}`);
+        toolErrors.push(`[ESLint] failed to run: ${e instanceof Error ? e.message : String(e)}`);
       }
+    }
 
-      const lintTargets = changed.filter((p) => /\.(ts|tsx|js|jsx)$/.test(p));
-      if (lintTargets.length > 0) {
-        try {
-          const eslint = await spawn('pnpm', [
-            'exec',
-            'eslint',
-            '--format',
-            'json',
-            '--max-warnings=0',
-            ...lintTargets,
-          ]);
-          if (eslint.exitCode !== 0) {
-            const breakingLint = extractBreakingESLint(JSONSafe(eslint.output));
-            if (breakingLint) logs.push(`[ESLint] ${breakingLint}`);
-          }
-        } catch (e) {
-          logs.push(`[ESLint] failed to run: ${e instanceof Error ? e.message : String(e)}`);
-        }
-      }
+    return { diagnostics, toolErrors };
+  }
 
-      const final = logs.filter(Boolean).join('\n\n');
-      if (final.trim().length > 0) {
-        const hash = stableHash(final);
-        if (hash !== lastErrorHashRef.current) {
-          lastErrorHashRef.current = hash;
-          await autoPostDiagnostic(
-            `Automatic validation detected issues after recent changes (${changed.join(', ')}). Please fix these errors:\n\n\`\`\`txt\n${final}\n\`\`\`\n`,
-          );
-        }
-      }
-    } finally {
-      validateRunningRef.current = false;
+  // Concurrent calls for the same files share a run; other files queue a run of their own
+  async function runValidation(
+    scope: 'quick' | 'full',
+    changed: string[] = [],
+    thresholds: DiagnosticThresholds = {},
+  ): Promise<ValidationReport> {
+    const key = [...lintTargetsOf(changed)].sort().join('\n');
+    const runs = validateRunsRef.current;
+    let run = runs.get(key);
+    if (!run) {
+      const collect = () => collectDiagnostics(changed);
+      const created = validateChainRef.current.then(collect, collect);
+      validateChainRef.current = created.catch(() => {});
+      runs.set(key, created);
+      created.finally(() => {
+        if (runs.get(key) === created) runs.delete(key);
+      }).catch(() => {});
+      run = created;
     }
+    const raw = await run;
+    return buildValidationReport(scope, raw.diagnostics, thresholds, raw.toolErrors);
   }
 
   useEffect(() => {
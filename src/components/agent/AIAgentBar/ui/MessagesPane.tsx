@@ -1,11 +1,18 @@
 import type { RefObject } from 'react';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useSyncExternalStore } from 'react';
 import { useConvexAuth, useQuery } from 'convex/react';
 import { api as convexApi } from '../../../../../convex/_generated/api';
 import { formatBytes, guessContentTypeFromFilename } from '@/lib/agent/agentUtils';
 import type { Doc } from '../../../../../convex/_generated/dataModel';
 import { Message, MessageContent, MessageResponse } from '@/components/ai-elements/message';
 import { cn } from '@/lib/utils';
+import ProcessOutputCard from './ProcessOutputCard';
+import PolicyViolationCard, { getPolicyViolation } from './PolicyViolationCard';
+import ToolApprovalCard from './ToolApprovalCard';
+import { getPendingApproval, getToolApprovalsVersion, resolveToolApproval, subscribeToolApprovals } from '@/utils/tool-approvals';
+import WriteReviewCard from './WriteReviewCard';
+import { getPendingWriteReview, getWriteReviewsVersion, resolveWriteReview, subscribeWriteReviews } from '@/utils/write-reviews';
+import type { PolicyViolation } from '@/lib/agent/agentPolicy';
 
 type ChatMode = 'agent' | 'persona';
 
@@ -74,6 +81,32 @@ const isToolResultPart = (part: unknown): part is ToolResultPart => {
   return Boolean(part && typeof part === 'object' && (part as { type?: unknown }).type === 'tool-result');
 };
 
+type ExecToolPart = {
+  type: 'tool-web_exec';
+  toolCallId: string;
+  input?: unknown;
+  output?: unknown;
+};
+
+// Any client tool call part (`tool-<name>`), e.g. to surface policy rejections
+const isToolCallPart = (part: unknown): part is { type: string; toolCallId: string; output?: unknown } => {
+  return Boolean(
+    part &&
+    typeof part === 'object' &&
+    String((part as { type?: unknown }).type).startsWith('tool-') &&
+    typeof (part as { toolCallId?: unknown }).toolCallId === 'string'
+  );
+};
+
+const isExecToolPart = (part: unknown): part is ExecToolPart => {
+  return Boolean(
+    part &&
+    typeof part === 'object' &&
+    (part as { type?: unknown }).type === 'tool-web_exec' &&
+    typeof (part as { toolCallId?: unknown }).toolCallId === 'string'
+  );
+};
+
 const isToolResultPayload = (value: unknown): value is ToolResultPayload => {
   return Boolean(value && typeof value === 'object');
 };
@@ -155,6 +188,7 @@ export type MessagesPaneProps = {
   activeThreadId?: string;
   agentActive: boolean;
   onSuggestionSelect?: (text: string) => void;
+  onAllowPolicyViolation?: (violation: PolicyViolation) => void;
 };
 
 function extractAttachmentsFromText(text: string): { cleanedText: string; items: AttachmentPreview[] } {
@@ -298,6 +332,7 @@ export default function MessagesPane(props: MessagesPaneProps) {
     activeThreadId,
     agentActive: _agentActive,
     onSuggestionSelect,
+    onAllowPolicyViolation,
   } = props;
   const displayMessages: DisplayMessage[] = optimisticMessages.length > 0 ? [...messages, ...optimisticMessages] : messages;
   const { isAuthenticated } = useConvexAuth();
@@ -306,6 +341,10 @@ export default function MessagesPane(props: MessagesPaneProps) {
     isAuthenticated && activeThreadId ? { threadId: activeThreadId, limit: 50 } : 'skip'
   );
   const liveMediaList: Doc<'media_public'>[] = Array.isArray(liveMedia) ? liveMedia : [];
+  // Re-render when a tool call starts or stops waiting for approval
+  useSyncExternalStore(subscribeToolApprovals, getToolApprovalsVersion, () => 0);
+  // ...and when a staged write starts or stops waiting for review
+  useSyncExternalStore(subscribeWriteReviews, getWriteReviewsVersion, () => 0);
   const lastUserMessage = [...displayMessages].reverse().find(m => m.role === 'user');
   const lastUserMessageId = lastUserMessage?.id;
 
@@ -514,6 +553,26 @@ export default function MessagesPane(props: MessagesPaneProps) {
               // Don't render tool result JSON - hide it
               return null;
             }
+            // Destructive calls paused in approval mode
+            const pendingApproval = isToolCallPart(part) ? getPendingApproval(part.toolCallId) : null;
+            if (pendingApproval) {
+              return <ToolApprovalCard key={`approval-${index}`} request={pendingApproval} onDecide={resolveToolApproval} />;
+            }
+            // Writes staged in review mode
+            const pendingReview = isToolCallPart(part) ? getPendingWriteReview(part.toolCallId) : null;
+            if (pendingReview) {
+              return <WriteReviewCard key={`review-${pendingReview.toolCallId}`} review={pendingReview} onSubmit={resolveWriteReview} />;
+            }
+            // Calls rejected by the workspace policy, with a one-off approval
+            const violation = isToolCallPart(part) ? getPolicyViolation(part.output) : null;
+            if (violation) {
+              const agentBusy = status === 'streaming' || status === 'submitted';
+              return <PolicyViolationCard key={`policy-${index}`} violation={violation} onAllow={agentBusy ? undefined : onAllowPolicyViolation} />;
+            }
+            // Commands stream their output into a card while they run
+            if (isExecToolPart(part)) {
+              return <ProcessOutputCard key={part.toolCallId} toolCallId={part.toolCallId} input={part.input} output={part.output} />;
+            }
             // Hide other tool parts like step-start and tool-* types
             if (part && typeof part === 'object' && 'type' in part) {
               const partType = (part as { type?: string }).type || '';
@@ -535,8 +594,12 @@ export default function MessagesPane(props: MessagesPaneProps) {
             return text.length > 0;
           });
 
+          const hasToolCards = (m.parts || []).some((part) => isExecToolPart(part) || (
+            isToolCallPart(part) && (getPolicyViolation(part.output) !== null || getPendingApproval(part.toolCallId) !== null || getPendingWriteReview(part.toolCallId) !== null)
+          ));
+
           // Don't render assistant messages that have no visible content (only tool parts or whitespace)
-          const hasVisibleContent = hasActualText || (previewItems && previewItems.length > 0) || showLiveMedia;
+          const hasVisibleContent = hasActualText || (previewItems && previewItems.length > 0) || showLiveMedia || hasToolCards;
           if (!isUser && !hasVisibleContent) {
             return null;
           }
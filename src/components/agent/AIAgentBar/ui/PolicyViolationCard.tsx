@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Check, ShieldAlert } from 'lucide-react';
+import type { PolicyViolation } from '@/lib/agent/agentPolicy';
+
+type PolicyViolationCardProps = {
+  violation: PolicyViolation;
+  // Unset while the agent is busy; approving then would race the running turn
+  onAllow?: (violation: PolicyViolation) => void;
+};
+
+export function getPolicyViolation(output: unknown): PolicyViolation | null {
+  if (!output || typeof output !== 'object') return null;
+  const candidate = (output as { policyViolation?: unknown }).policyViolation;
+  if (!candidate || typeof candidate !== 'object') return null;
+  const violation = candidate as PolicyViolation;
+  return typeof violation.message === 'string' && typeof violation.tool === 'string' ? violation : null;
+}
+
+export default function PolicyViolationCard({ violation, onAllow }: PolicyViolationCardProps) {
+  const [allowed, setAllowed] = useState(false);
+
+  return (
+    <div className="mt-2 rounded-lg border border-amber-400/30 bg-amber-500/10 px-2 py-1.5 text-xs whitespace-normal">
+      <div className="flex items-start gap-2">
+        <ShieldAlert className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-300" />
+        <div className="min-w-0 flex-1">
+          <div className="text-amber-100">Blocked {violation.tool}: {violation.message}</div>
+          <div className="mt-0.5 truncate font-mono text-white/60" title={violation.target}>{violation.target}</div>
+        </div>
+        {violation.approvable && violation.approvalKey && (
+          allowed ? (
+            <span className="inline-flex shrink-0 items-center gap-1 text-emerald-300"><Check className="h-3 w-3" /> Allowed once</span>
+          ) : (
+            <button
+              type="button"
+              disabled={!onAllow}
+              onClick={() => {
+                if (!onAllow) return;
+                onAllow(violation);
+                setAllowed(true);
+              }}
+              className="shrink-0 rounded border border-white/20 px-2 py-0.5 text-white/80 hover:bg-white/10 hover:text-white disabled:opacity-40"
+              title={onAllow ? 'Allow this exact action one time and ask the agent to retry' : 'Available once the agent finishes'}
+            >
+              Allow once
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { Loader2, Square, SquareTerminal } from 'lucide-react';
+import { stripAnsi } from '@/lib/agent/agentTestResults';
+import {
+  findAgentProcessByToolCall,
+  getAgentProcessOutput,
+  killAgentProcess,
+  subscribeAgentProcessOutput,
+  subscribeAgentProcesses,
+  type AgentProcessStatus,
+} from '@/utils/agent-processes';
+
+type ProcessOutputCardProps = {
+  toolCallId: string;
+  input?: unknown;
+  output?: unknown;
+};
+
+// What the web_exec result carries when the process is no longer tracked (e.g. after a reload)
+type ExecResult = {
+  command?: string;
+  status?: AgentProcessStatus;
+  exitCode?: number | null;
+  error?: string;
+  output?: string;
+  outputTail?: string;
+};
+
+const STATUS_LABELS: Record<AgentProcessStatus, string> = {
+  running: 'Running',
+  exited: 'Exited',
+  killed: 'Stopped',
+  timed_out: 'Timed out',
+};
+
+function statusClass(status: AgentProcessStatus | undefined, exitCode: number | null | undefined): string {
+  if (status === 'running') return 'text-sky-300';
+  if (status === 'exited' && exitCode === 0) return 'text-emerald-300';
+  return 'text-red-300';
+}
+
+function inputCommand(input: unknown): string {
+  if (!input || typeof input !== 'object') return '';
+  const { command, args } = input as { command?: unknown; args?: unknown };
+  const argList = Array.isArray(args) ? args.filter((a): a is string => typeof a === 'string') : [];
+  return typeof command === 'string' ? `${command} ${argList.join(' ')}`.trim() : '';
+}
+
+export default function ProcessOutputCard({ toolCallId, input, output }: ProcessOutputCardProps) {
+  const info = useSyncExternalStore(
+    subscribeAgentProcesses,
+    () => findAgentProcessByToolCall(toolCallId),
+    () => null,
+  );
+  const processId = info?.id ?? null;
+  const [text, setText] = useState('');
+  const preRef = useRef<HTMLPreElement | null>(null);
+
+  // Replay what was printed so far, then follow the stream
+  useEffect(() => {
+    if (!processId) return;
+    setText(getAgentProcessOutput(processId));
+    return subscribeAgentProcessOutput(processId, () => setText(getAgentProcessOutput(processId)));
+  }, [processId]);
+
+  useEffect(() => {
+    const el = preRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [text]);
+
+  const result = (output && typeof output === 'object' ? output : {}) as ExecResult;
+  const command = info?.command ?? result.command ?? inputCommand(input);
+  if (!command) return null;
+  const status = info?.status ?? result.status;
+  const exitCode = info ? info.exitCode : result.exitCode;
+  const body = stripAnsi(info ? text : (result.error ?? result.outputTail ?? result.output ?? '')).trim();
+
+  return (
+    <div className="mt-2 overflow-hidden rounded-lg border border-white/10 bg-black/40 whitespace-normal">
+      <div className="flex items-center gap-2 border-b border-white/10 px-2 py-1 text-xs">
+        <SquareTerminal className="h-3.5 w-3.5 shrink-0 text-white/50" />
+        <span className="min-w-0 flex-1 truncate font-mono text-white/80" title={command}>{command}</span>
+        {status ? (
+          <span className={statusClass(status, exitCode)}>
+            {STATUS_LABELS[status]}{status === 'exited' && exitCode !== null && exitCode !== undefined ? ` (${exitCode})` : ''}
+          </span>
+        ) : result.error ? (
+          <span className="text-red-300">Blocked</span>
+        ) : (
+          <Loader2 className="h-3.5 w-3.5 animate-spin text-white/50" />
+        )}
+        {info?.status === 'running' && (
+          <button
+            type="button"
+            onClick={() => killAgentProcess(info.id)}
+            className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-white/70 hover:bg-white/10 hover:text-white"
+            title="Stop this command"
+          >
+            <Square className="h-3 w-3" /> Stop
+          </button>
+        )}
+      </div>
+      {body && (
+        <pre ref={preRef} className="modern-scrollbar max-h-48 overflow-auto whitespace-pre-wrap break-all px-2 py-1 text-[11px] leading-4 text-white/70">
+          {body}
+        </pre>
+      )}
+    </div>
+  );
+}
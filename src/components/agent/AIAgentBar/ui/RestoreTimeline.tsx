@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { formatBytes } from '@/lib/agent/agentUtils';
+import type { RestorePoint, RestorePointDiff } from '@/utils/restore-points';
+
+export type RestoreTimelineProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  points: RestorePoint[];
+  currentPointId: string | null;
+  busy: boolean;
+  onPreview: (id: string) => Promise<RestorePointDiff[]>;
+  onRestore: (id: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+};
+
+const STATUS_STYLES: Record<RestorePointDiff['status'], string> = {
+  added: 'text-emerald-300',
+  removed: 'text-red-300',
+  modified: 'text-amber-200',
+};
+
+// Statuses describe what restoring does to the current workspace
+const STATUS_LABELS: Record<RestorePointDiff['status'], string> = {
+  added: 'restores',
+  removed: 'deletes',
+  modified: 'reverts',
+};
+
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function patchLineClass(line: string): string {
+  if (line.startsWith('@@')) return 'text-sky-300/80';
+  if (line.startsWith('+')) return 'bg-emerald-500/10 text-emerald-200';
+  if (line.startsWith('-')) return 'bg-red-500/10 text-red-200';
+  return 'text-white/60';
+}
+
+function DiffPreview({ diffs }: { diffs: RestorePointDiff[] }) {
+  if (diffs.length === 0) {
+    return <div className="text-xs text-white/60">Matches the current desktop — restoring changes nothing.</div>;
+  }
+  return (
+    <div className="space-y-2">
+      {diffs.map((diff) => (
+        <details key={diff.path} className="rounded border border-white/10 bg-black/30">
+          <summary className="cursor-pointer px-2 py-1 text-xs">
+            <span className={STATUS_STYLES[diff.status]}>{STATUS_LABELS[diff.status]}</span>{' '}
+            <span className="font-mono text-white/80">{diff.path}</span>
+          </summary>
+          {diff.binary ? (
+            <div className="px-2 pb-2 text-xs text-white/50">Binary file</div>
+          ) : (
+            <pre className="max-h-64 overflow-auto px-2 pb-2 text-[11px] leading-4">
+              {(diff.patch ?? '').split('\n').map((line, i) => (
+                <div key={i} className={patchLineClass(line)}>{line || ' '}</div>
+              ))}
+              {diff.truncated && <div className="text-white/40">… diff truncated</div>}
+            </pre>
+          )}
+        </details>
+      ))}
+    </div>
+  );
+}
+
+export default function RestoreTimeline(props: RestoreTimelineProps) {
+  const { open, onOpenChange, points, currentPointId, busy, onPreview, onRestore, onDelete } = props;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<RestorePointDiff[] | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setSelectedId(null);
+      setDiffs(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const selectPoint = async (id: string) => {
+    setSelectedId(id);
+    setDiffs(null);
+    setError(null);
+    setPreviewLoading(true);
+    try {
+      setDiffs(await onPreview(id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not build a preview');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const selected = points.find((p) => p.id === selectedId) ?? null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-hidden border-white/10 bg-neutral-950 text-white sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Restore points</DialogTitle>
+          <DialogDescription className="text-white/60">
+            Saved after each agent turn that changed files. Pick one to preview what restoring it would change.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid min-h-0 grid-cols-1 gap-3 sm:grid-cols-[16rem_1fr]">
+          <ol className="max-h-[60vh] space-y-1 overflow-y-auto pr-1">
+            {points.length === 0 && <li className="text-xs text-white/60">No restore points yet.</li>}
+            {points.map((point) => (
+              <li key={point.id}>
+                <button
+                  type="button"
+                  onClick={() => { void selectPoint(point.id); }}
+                  className={`w-full rounded border px-2 py-1.5 text-left transition-colors ${point.id === selectedId ? 'border-sky-400/50 bg-sky-500/10' : 'border-white/10 hover:bg-white/5'}`}
+                >
+                  <div className="truncate text-xs text-white/90" title={point.label}>{point.label}</div>
+                  <div className="mt-0.5 flex items-center gap-2 text-[11px] text-white/50">
+                    <span>{formatTime(point.createdAt)}</span>
+                    <span>{point.changedFiles.length} changed</span>
+                    {point.id === currentPointId && <span className="text-emerald-300">current</span>}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ol>
+          <div className="max-h-[60vh] min-w-0 overflow-y-auto">
+            {!selected && <div className="text-xs text-white/60">Select a restore point.</div>}
+            {selected && (
+              <div className="space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm text-white/90">{selected.label}</div>
+                    <div className="text-[11px] text-white/50">
+                      {formatTime(selected.createdAt)} · {selected.fileCount} files · {formatBytes(selected.size)}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <button
+                      type="button"
+                      disabled={busy || selected.id === currentPointId}
+                      onClick={() => { void onDelete(selected.id).then(() => setSelectedId(null)); }}
+                      className="inline-flex h-7 w-7 items-center justify-center rounded border border-white/15 text-white/70 hover:bg-white/10 disabled:opacity-40"
+                      title="Delete restore point"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy || previewLoading}
+                      onClick={() => { void onRestore(selected.id).then(() => selectPoint(selected.id)); }}
+                      className="inline-flex items-center gap-1.5 rounded border border-white/15 px-2.5 py-1 text-xs text-white/90 hover:bg-white/10 disabled:opacity-40"
+                    >
+                      {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RotateCcw className="h-3.5 w-3.5" />}
+                      <span>Restore</span>
+                    </button>
+                  </div>
+                </div>
+                {selected.changedFiles.length > 0 && (
+                  <div>
+                    <div className="mb-1 text-[11px] uppercase tracking-wide text-white/40">Changed in this turn</div>
+                    <ul className="space-y-0.5 font-mono text-[11px] text-white/70">
+                      {selected.changedFiles.slice(0, 20).map((path) => <li key={path} className="truncate">{path}</li>)}
+                      {selected.changedFiles.length > 20 && <li className="text-white/40">+{selected.changedFiles.length - 20} more</li>}
+                    </ul>
+                  </div>
+                )}
+                <div>
+                  <div className="mb-1 text-[11px] uppercase tracking-wide text-white/40">Restoring would change</div>
+                  {previewLoading && <div className="text-xs text-white/60">Comparing with the current desktop…</div>}
+                  {error && <div className="text-xs text-red-300">{error}</div>}
+                  {diffs && <DiffPreview diffs={diffs} />}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
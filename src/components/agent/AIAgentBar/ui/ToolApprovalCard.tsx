@@ -0,0 +1,74 @@
+import { Check, OctagonAlert, X } from 'lucide-react';
+import { APPROVAL_CATEGORIES, type ApprovalDecision, type ApprovalRequest } from '@/lib/agent/agentApprovals';
+
+type ToolApprovalCardProps = {
+  request: ApprovalRequest;
+  onDecide: (toolCallId: string, decision: ApprovalDecision) => void;
+};
+
+function patchLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-white/40';
+  if (line.startsWith('@@')) return 'text-sky-300/80';
+  if (line.startsWith('+')) return 'bg-emerald-500/10 text-emerald-200';
+  if (line.startsWith('-')) return 'bg-red-500/10 text-red-200';
+  return 'text-white/60';
+}
+
+export default function ToolApprovalCard({ request, onDecide }: ToolApprovalCardProps) {
+  const { category, summary, files, moreFiles, packages, toolCallId } = request;
+
+  return (
+    <div className="mt-2 rounded-lg border border-red-400/30 bg-red-500/10 px-2 py-1.5 text-xs whitespace-normal">
+      <div className="flex items-start gap-2">
+        <OctagonAlert className="mt-0.5 h-3.5 w-3.5 shrink-0 text-red-300" />
+        <div className="min-w-0 flex-1">
+          <div className="text-white/90">{summary}</div>
+          <div className="text-[11px] text-white/50">Needs your approval · {APPROVAL_CATEGORIES[category].label}</div>
+        </div>
+      </div>
+      {packages && packages.length > 0 && (
+        <div className="mt-1.5 flex flex-wrap gap-1">
+          {packages.map((name) => (
+            <span key={name} className="rounded border border-white/15 px-1.5 py-0.5 font-mono text-[11px] text-white/80">{name}</span>
+          ))}
+        </div>
+      )}
+      {files.length > 0 && (
+        <div className="mt-1.5 max-h-56 space-y-1 overflow-y-auto">
+          {files.map((file) => file.patch ? (
+            <details key={file.path} open={files.length === 1} className="rounded border border-white/10 bg-black/30">
+              <summary className="cursor-pointer truncate px-2 py-1 font-mono text-[11px] text-amber-200">{file.path}</summary>
+              <pre className="max-h-48 overflow-auto px-2 pb-2 text-[11px] leading-4">
+                {file.patch.split('\n').map((line, i) => (
+                  <div key={i} className={patchLineClass(line)}>{line || ' '}</div>
+                ))}
+              </pre>
+            </details>
+          ) : (
+            <div key={file.path} className="truncate font-mono text-[11px] text-red-200/90" title={file.path}>{file.path}</div>
+          ))}
+          {moreFiles ? <div className="text-[11px] text-white/40">+{moreFiles} more files</div> : null}
+        </div>
+      )}
+      {files.length === 0 && category !== 'packageRemoval' && (
+        <div className="mt-1.5 text-[11px] text-white/50">Nothing matching exists right now.</div>
+      )}
+      <div className="mt-2 flex justify-end gap-1.5">
+        <button
+          type="button"
+          onClick={() => onDecide(toolCallId, 'denied')}
+          className="inline-flex items-center gap-1 rounded border border-white/20 px-2 py-0.5 text-white/80 hover:bg-white/10 hover:text-white"
+        >
+          <X className="h-3 w-3" /> Deny
+        </button>
+        <button
+          type="button"
+          onClick={() => onDecide(toolCallId, 'approved')}
+          className="inline-flex items-center gap-1 rounded border border-red-400/40 bg-red-500/30 px-2 py-0.5 text-white hover:bg-red-500/50"
+        >
+          <Check className="h-3 w-3" /> Approve
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useMemo, useState } from 'react';
+import { Check, FileDiff, X } from 'lucide-react';
+import type { BundledLanguage } from 'shiki';
+import { CodeBlock, type CodeBlockLineDecoration } from '@/components/ai-elements/code-block';
+import { sideBySideRows, type ReviewHunk, type SideBySideCell, type WriteReview, type WriteReviewDecision } from '@/lib/agent/agentReview';
+import { cn } from '@/lib/utils';
+
+type WriteReviewCardProps = {
+  review: WriteReview;
+  onSubmit: (toolCallId: string, decision: WriteReviewDecision) => void;
+};
+
+const LANGUAGES: Record<string, BundledLanguage> = {
+  ts: 'typescript',
+  tsx: 'tsx',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'jsx',
+  json: 'json',
+  css: 'css',
+  html: 'html',
+  md: 'markdown',
+  yml: 'yaml',
+  yaml: 'yaml',
+};
+
+function languageForPath(path: string): BundledLanguage {
+  const ext = path.split('.').pop()?.toLowerCase() ?? '';
+  return LANGUAGES[ext] ?? 'log';
+}
+
+const CELL_CLASSES: Record<SideBySideCell['kind'], string | undefined> = {
+  context: undefined,
+  removed: 'bg-red-500/20',
+  added: 'bg-emerald-500/20',
+  empty: 'bg-white/5',
+};
+
+function DiffColumn({ cells, language }: { cells: SideBySideCell[]; language: BundledLanguage }) {
+  const code = cells.map((cell) => cell.text).join('\n');
+  const decorations = useMemo<CodeBlockLineDecoration[]>(
+    () => cells.map((cell) => ({ number: cell.number, className: CELL_CLASSES[cell.kind] })),
+    [cells]
+  );
+  return (
+    <CodeBlock
+      code={code}
+      language={language}
+      showLineNumbers
+      lineDecorations={decorations}
+      className="min-w-0 rounded-none border-0 bg-transparent [&_pre]:!bg-transparent [&_pre]:!p-1 [&_code]:!text-[11px] [&_.line]:inline-block [&_.line]:w-full [&_.line>span:first-child]:!min-w-6 [&_.line>span:first-child]:!mr-2"
+    />
+  );
+}
+
+function HunkView({ hunk, language }: { hunk: ReviewHunk; language: BundledLanguage }) {
+  const rows = useMemo(() => sideBySideRows(hunk), [hunk]);
+  const left = useMemo(() => rows.map((row) => row.left), [rows]);
+  const right = useMemo(() => rows.map((row) => row.right), [rows]);
+  return (
+    <div className="dark grid grid-cols-2 divide-x divide-white/10 overflow-x-auto">
+      <DiffColumn cells={left} language={language} />
+      <DiffColumn cells={right} language={language} />
+    </div>
+  );
+}
+
+export default function WriteReviewCard({ review, onSubmit }: WriteReviewCardProps) {
+  const { toolCallId, path, hunks, isNewFile } = review;
+  const [accepted, setAccepted] = useState<boolean[]>(() => hunks.map(() => true));
+  const language = languageForPath(path);
+  const acceptedCount = accepted.filter(Boolean).length;
+
+  const toggle = (index: number, value: boolean) => {
+    setAccepted((prev) => prev.map((current, i) => (i === index ? value : current)));
+  };
+
+  return (
+    <div className="mt-2 rounded-lg border border-sky-400/30 bg-sky-500/10 px-2 py-1.5 text-xs whitespace-normal">
+      <div className="flex items-start gap-2">
+        <FileDiff className="mt-0.5 h-3.5 w-3.5 shrink-0 text-sky-300" />
+        <div className="min-w-0 flex-1">
+          <div className="truncate font-mono text-white/90" title={path}>{path}</div>
+          <div className="text-[11px] text-white/50">
+            Review {isNewFile ? 'new file' : `${hunks.length} ${hunks.length === 1 ? 'change' : 'changes'}`} · nothing is written until you apply
+          </div>
+        </div>
+      </div>
+      <div className="mt-1.5 max-h-96 space-y-1.5 overflow-y-auto">
+        {hunks.map((hunk, index) => (
+          <div key={index} className={cn('overflow-hidden rounded border border-white/10 bg-black/40', !accepted[index] && 'opacity-50')}>
+            <div className="flex items-center gap-2 border-b border-white/10 px-2 py-0.5">
+              <span className="flex-1 truncate font-mono text-[11px] text-sky-300/80">
+                @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+              </span>
+              <button
+                type="button"
+                onClick={() => toggle(index, false)}
+                className={cn('inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[11px]', accepted[index] ? 'text-white/60 hover:bg-white/10' : 'bg-red-500/30 text-white')}
+              >
+                <X className="h-3 w-3" /> Reject
+              </button>
+              <button
+                type="button"
+                onClick={() => toggle(index, true)}
+                className={cn('inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[11px]', accepted[index] ? 'bg-emerald-500/30 text-white' : 'text-white/60 hover:bg-white/10')}
+              >
+                <Check className="h-3 w-3" /> Accept
+              </button>
+            </div>
+            <HunkView hunk={hunk} language={language} />
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex justify-end gap-1.5">
+        <button
+          type="button"
+          onClick={() => onSubmit(toolCallId, hunks.map(() => false))}
+          className="inline-flex items-center gap-1 rounded border border-white/20 px-2 py-0.5 text-white/80 hover:bg-white/10 hover:text-white"
+        >
+          <X className="h-3 w-3" /> Reject all
+        </button>
+        <button
+          type="button"
+          onClick={() => onSubmit(toolCallId, accepted)}
+          className="inline-flex items-center gap-1 rounded border border-sky-400/40 bg-sky-500/30 px-2 py-0.5 text-white hover:bg-sky-500/50"
+        >
+          <Check className="h-3 w-3" />
+          {acceptedCount === 0 ? 'Reject change' : acceptedCount === hunks.length ? 'Apply' : `Apply ${acceptedCount} of ${hunks.length}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -14,10 +14,17 @@ import {
 } from "react";
 import { type BundledLanguage, codeToHtml, type ShikiTransformer } from "shiki";
 
+// Per-line overrides: a custom line number (null leaves it blank) and extra classes
+export type CodeBlockLineDecoration = {
+  number?: number | null;
+  className?: string;
+};
+
 type CodeBlockProps = HTMLAttributes<HTMLDivElement> & {
   code: string;
   language: BundledLanguage;
   showLineNumbers?: boolean;
+  lineDecorations?: CodeBlockLineDecoration[];
 };
 
 type CodeBlockContextType = {
@@ -28,9 +35,12 @@ const CodeBlockContext = createContext<CodeBlockContextType>({
   code: "",
 });
 
-const lineNumberTransformer: ShikiTransformer = {
+const lineNumberTransformer = (
+  decorations?: CodeBlockLineDecoration[]
+): ShikiTransformer => ({
   name: "line-numbers",
   line(node, line) {
+    const number = decorations?.[line - 1]?.number;
     node.children.unshift({
       type: "element",
       tagName: "span",
@@ -44,19 +54,41 @@ const lineNumberTransformer: ShikiTransformer = {
           "text-muted-foreground",
         ],
       },
-      children: [{ type: "text", value: String(line) }],
+      children: [
+        {
+          type: "text",
+          value: number === null ? "" : String(number ?? line),
+        },
+      ],
     });
   },
-};
+});
+
+const lineDecorationTransformer = (
+  decorations: CodeBlockLineDecoration[]
+): ShikiTransformer => ({
+  name: "line-decorations",
+  line(node, line) {
+    const className = decorations[line - 1]?.className;
+    if (className) {
+      this.addClassToHast(node, className);
+    }
+  },
+});
 
 export async function highlightCode(
   code: string,
   language: BundledLanguage,
-  showLineNumbers = false
+  showLineNumbers = false,
+  lineDecorations?: CodeBlockLineDecoration[]
 ) {
-  const transformers: ShikiTransformer[] = showLineNumbers
-    ? [lineNumberTransformer]
-    : [];
+  const transformers: ShikiTransformer[] = [];
+  if (showLineNumbers) {
+    transformers.push(lineNumberTransformer(lineDecorations));
+  }
+  if (lineDecorations) {
+    transformers.push(lineDecorationTransformer(lineDecorations));
+  }
 
   return await Promise.all([
     codeToHtml(code, {
@@ -76,6 +108,7 @@ export const CodeBlock = ({
   code,
   language,
   showLineNumbers = false,
+  lineDecorations,
   className,
   children,
   ...props
@@ -85,7 +118,7 @@ export const CodeBlock = ({
   const mounted = useRef(false);
 
   useEffect(() => {
-    highlightCode(code, language, showLineNumbers).then(([light, dark]) => {
+    highlightCode(code, language, showLineNumbers, lineDecorations).then(([light, dark]) => {
       if (!mounted.current) {
         setHtml(light);
         setDarkHtml(dark);
@@ -96,7 +129,7 @@ export const CodeBlock = ({
     return () => {
       mounted.current = false;
     };
-  }, [code, language, showLineNumbers]);
+  }, [code, language, showLineNumbers, lineDecorations]);
 
   return (
     <CodeBlockContext.Provider value={{ code }}>
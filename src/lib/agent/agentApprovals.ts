@@ -0,0 +1,53 @@
+import { binaryName } from '@/lib/agent/agentExecGuard';
+
+// Approval mode: destructive tool actions in an enabled category pause until
+// the user approves or denies them from the chat.
+
+export type ApprovalCategory = 'delete' | 'overwrite' | 'packageRemoval';
+
+export const APPROVAL_CATEGORIES: Record<ApprovalCategory, { label: string; description: string }> = {
+  delete: { label: 'Deleting files or apps', description: 'web_fs_rm, app_manage remove, and patches that delete files' },
+  overwrite: { label: 'Overwriting existing files', description: 'web_fs_write onto a file that already exists' },
+  packageRemoval: { label: 'Removing packages', description: 'pnpm/npm/yarn/bun remove or uninstall' },
+};
+
+export const APPROVAL_CATEGORY_IDS = Object.keys(APPROVAL_CATEGORIES) as ApprovalCategory[];
+
+export type ApprovalSettings = Record<ApprovalCategory, boolean>;
+
+export const DEFAULT_APPROVAL_SETTINGS: ApprovalSettings = {
+  delete: true,
+  overwrite: false,
+  packageRemoval: true,
+};
+
+export type ApprovalFile = {
+  path: string;
+  status: 'deleted' | 'modified';
+  // Unified diff of the change, for overwrites
+  patch?: string;
+};
+
+export type ApprovalRequest = {
+  toolCallId: string;
+  tool: string;
+  category: ApprovalCategory;
+  summary: string;
+  files: ApprovalFile[];
+  // Files left out of `files` when a directory listing is long
+  moreFiles?: number;
+  packages?: string[];
+};
+
+export type ApprovalDecision = 'approved' | 'denied';
+
+const PACKAGE_MANAGERS = new Set(['pnpm', 'npm', 'yarn', 'bun']);
+const REMOVE_SUBCOMMANDS = new Set(['remove', 'rm', 'uninstall', 'un', 'r']);
+
+/** Packages a package-manager command removes, or null when it removes none. */
+export function removedPackages(command: string, args: string[]): string[] | null {
+  if (!PACKAGE_MANAGERS.has(binaryName(command))) return null;
+  const positional = args.filter((arg) => !arg.startsWith('-'));
+  if (!REMOVE_SUBCOMMANDS.has((positional[0] ?? '').toLowerCase())) return null;
+  return positional.slice(1);
+}
@@ -0,0 +1,201 @@
+// Structured diagnostics for the validate_project tool: parses `tsc --pretty false`
+// text and `eslint --format json` output, then filters and groups them per app.
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type ProjectDiagnostic = {
+  source: 'tsc' | 'eslint';
+  file: string;
+  line: number;
+  column: number;
+  // e.g. TS2322 or an ESLint rule id ("parse" for fatal parsing errors)
+  code: string;
+  message: string;
+  severity: DiagnosticSeverity;
+};
+
+export type AppDiagnostics = {
+  // App id for files under src/apps/<id>/, otherwise "(project)"
+  app: string;
+  errors: number;
+  warnings: number;
+  diagnostics: ProjectDiagnostic[];
+};
+
+export type DiagnosticThresholds = {
+  // Lowest severity included in the report
+  minSeverity?: DiagnosticSeverity;
+  // Lowest severity that makes the report fail (ok: false)
+  failOn?: DiagnosticSeverity;
+  maxDiagnostics?: number;
+};
+
+export type ValidationReport = {
+  ok: boolean;
+  scope: 'quick' | 'full';
+  summary: { errors: number; warnings: number; infos: number; files: number };
+  apps: AppDiagnostics[];
+  // True when maxDiagnostics dropped some entries (counts in summary are complete)
+  truncated: boolean;
+  thresholds: { minSeverity: DiagnosticSeverity; failOn: DiagnosticSeverity };
+  // Tools that could not run (missing binary, crash) rather than reporting problems
+  toolErrors?: string[];
+};
+
+export const PROJECT_GROUP = '(project)';
+const DEFAULT_MAX_DIAGNOSTICS = 50;
+const MAX_MESSAGE_CHARS = 500;
+
+const SEVERITY_RANK: Record<DiagnosticSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+export function atLeast(severity: DiagnosticSeverity, threshold: DiagnosticSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+}
+
+// Make absolute WebContainer paths (/home/<id>/src/...) project-relative
+export function normalizeDiagnosticPath(file: string): string {
+  const trimmed = file.trim().replace(/\\/g, '/');
+  const rel = trimmed.replace(/^.*?\/(?=(?:src|public|templates)\/)/, '');
+  return rel.replace(/^\.\//, '');
+}
+
+export function appForPath(file: string): string {
+  const match = /^src\/apps\/([^/]+)\//.exec(file);
+  return match ? match[1] : PROJECT_GROUP;
+}
+
+function clipMessage(message: string): string {
+  const single = message.trim();
+  return single.length > MAX_MESSAGE_CHARS ? `${single.slice(0, MAX_MESSAGE_CHARS)}…` : single;
+}
+
+/**
+ * Parses `tsc --noEmit --pretty false` output. Indented continuation lines
+ * (elaborations of the previous error) are folded into its message.
+ */
+export function parseTscOutput(output: string): ProjectDiagnostic[] {
+  const diagnostics: ProjectDiagnostic[] = [];
+  const withLocation = /^(.+?)\((\d+),(\d+)\):\s+(error|warning|message)\s+(TS\d+):\s*(.*)$/;
+  const global = /^(error|warning|message)\s+(TS\d+):\s*(.*)$/;
+  let last: ProjectDiagnostic | null = null;
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.replace(/\u001b\[[0-9;]*m/g, '');
+    const located = withLocation.exec(line);
+    const unlocated = located ? null : global.exec(line.trim());
+    if (located || unlocated) {
+      const [category, code, message] = located ? [located[4], located[5], located[6]] : [unlocated![1], unlocated![2], unlocated![3]];
+      last = {
+        source: 'tsc',
+        file: located ? normalizeDiagnosticPath(located[1]) : '',
+        line: located ? Number(located[2]) : 0,
+        column: located ? Number(located[3]) : 0,
+        code,
+        message: clipMessage(message),
+        severity: category === 'error' ? 'error' : category === 'warning' ? 'warning' : 'info',
+      };
+      diagnostics.push(last);
+      continue;
+    }
+    if (last && /^\s+\S/.test(line)) {
+      last.message = clipMessage(`${last.message}\n${line.trim()}`);
+    } else {
+      last = null;
+    }
+  }
+
+  return diagnostics;
+}
+
+type EslintReport = {
+  filePath: string;
+  messages: Array<{ ruleId: string | null; fatal?: boolean; severity: number; message: string; line?: number; column?: number }>;
+};
+
+export function parseEslintJson(json: string): ProjectDiagnostic[] {
+  let reports: EslintReport[];
+  try {
+    reports = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(reports)) return [];
+
+  const diagnostics: ProjectDiagnostic[] = [];
+  for (const report of reports) {
+    const file = normalizeDiagnosticPath(report.filePath ?? '');
+    for (const m of report.messages ?? []) {
+      const isParsing = m.fatal === true || m.ruleId === null || /Parsing error/i.test(m.message);
+      diagnostics.push({
+        source: 'eslint',
+        file,
+        line: m.line ?? 0,
+        column: m.column ?? 0,
+        code: isParsing ? 'parse' : m.ruleId ?? 'eslint',
+        message: clipMessage(m.message),
+        severity: isParsing || m.severity >= 2 ? 'error' : 'warning',
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Applies thresholds and groups diagnostics per app. Errors are kept ahead of
+ * warnings when maxDiagnostics truncates the list.
+ */
+export function buildValidationReport(
+  scope: 'quick' | 'full',
+  diagnostics: ProjectDiagnostic[],
+  thresholds: DiagnosticThresholds = {},
+  toolErrors: string[] = [],
+): ValidationReport {
+  const minSeverity = thresholds.minSeverity ?? 'error';
+  const failOn = thresholds.failOn ?? 'error';
+  const maxDiagnostics = Math.max(1, thresholds.maxDiagnostics ?? DEFAULT_MAX_DIAGNOSTICS);
+
+  const included = diagnostics
+    .filter((d) => atLeast(d.severity, minSeverity))
+    .sort((a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line ||
+      a.column - b.column
+    );
+  const kept = included.slice(0, maxDiagnostics);
+
+  // Counts cover everything that passed minSeverity; diagnostics only the kept page
+  const groups = new Map<string, AppDiagnostics>();
+  for (const diagnostic of included) {
+    const app = appForPath(diagnostic.file);
+    let group = groups.get(app);
+    if (!group) {
+      group = { app, errors: 0, warnings: 0, diagnostics: [] };
+      groups.set(app, group);
+    }
+    if (diagnostic.severity === 'error') group.errors++;
+    else if (diagnostic.severity === 'warning') group.warnings++;
+  }
+  for (const diagnostic of kept) {
+    groups.get(appForPath(diagnostic.file))!.diagnostics.push(diagnostic);
+  }
+
+  const apps = Array.from(groups.values()).sort((a, b) =>
+    a.app === PROJECT_GROUP ? 1 : b.app === PROJECT_GROUP ? -1 : a.app.localeCompare(b.app)
+  );
+
+  return {
+    ok: !diagnostics.some((d) => atLeast(d.severity, failOn)) && toolErrors.length === 0,
+    scope,
+    summary: {
+      errors: diagnostics.filter((d) => d.severity === 'error').length,
+      warnings: diagnostics.filter((d) => d.severity === 'warning').length,
+      infos: diagnostics.filter((d) => d.severity === 'info').length,
+      files: new Set(diagnostics.map((d) => d.file)).size,
+    },
+    apps,
+    truncated: kept.length < included.length,
+    thresholds: { minSeverity, failOn },
+    ...(toolErrors.length > 0 ? { toolErrors } : {}),
+  };
+}
@@ -0,0 +1,147 @@
+// Commands web_exec refuses to run. The workspace starts its own dev server at
+// boot; dev/build/start/preview servers or watchers launched by the agent never
+// exit, fight over the same port and leave the turn waiting on them. Test
+// runners in watch mode hang the same way, so tests go through run_tests.
+
+export type ExecGuardResult = { ok: true } | { ok: false; reason: string };
+
+const PACKAGE_MANAGERS = new Set(['pnpm', 'npm', 'yarn', 'bun']);
+// Binary runners: the next non-flag argument is the binary being run
+const RUNNERS = new Set(['npx', 'pnpx', 'bunx']);
+const RUNNER_SUBCOMMANDS = new Set(['exec', 'dlx', 'x']);
+const SCRIPT_SUBCOMMANDS = new Set(['run', 'run-script']);
+const SERVER_SCRIPTS = new Set(['dev', 'start', 'build', 'preview', 'serve', 'watch']);
+const SERVER_BINARIES = new Set([
+  'vite',
+  'next',
+  'webpack',
+  'webpack-dev-server',
+  'serve',
+  'http-server',
+  'live-server',
+  'nodemon',
+]);
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'jsh']);
+// Package scripts that usually run a test runner (npm t is an alias of npm test)
+const TEST_SCRIPTS = new Set(['test', 't']);
+// Vitest subcommands that exit on their own; anything else watches outside CI
+const VITEST_ONESHOT = new Set(['run', 'list']);
+// Flags whose value is the next argument, so it is not a subcommand or binary
+const VALUE_FLAGS = new Set(['--filter', '-F', '-C', '--dir', '--prefix', '--workspace', '--cwd', '--loglevel', '--reporter', '-p', '--package', '--config']);
+// pnpm -w is a boolean (workspace root); npm -w takes a workspace name
+const BINARY_VALUE_FLAGS: Record<string, string[]> = { npm: ['-w'] };
+
+const BLOCKED_HINT = 'The workspace already runs the dev server and rebuilds on save; validate changes with validate_project instead.';
+const TEST_HINT = 'Test runners can start in watch mode and never exit; run tests with run_tests instead.';
+
+// Shell-style split honoring quotes and backslash escapes
+export function splitCommandLine(line: string): string[] {
+  const out: string[] = []; let cur = ''; let quote: '"' | "'" | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) { quote = null; }
+      else if (ch === '\\' && i + 1 < line.length) { i++; cur += line[i]; }
+      else { cur += ch; }
+    } else {
+      if (ch === '"' || ch === "'") { quote = ch as '"' | "'"; }
+      else if (/\s/.test(ch)) { if (cur) { out.push(cur); cur = ''; } }
+      else if (ch === '\\' && i + 1 < line.length) { i++; cur += line[i]; }
+      else { cur += ch; }
+    }
+  }
+  if (cur) out.push(cur);
+  return out;
+}
+
+/** Models often pass a whole command line as `command`; split it when no args were given. */
+export function normalizeExecCommand(command: string, args: string[] = []): { command: string; args: string[] } {
+  if (args.length === 0 && /\s/.test(command)) {
+    const tokens = splitCommandLine(command);
+    if (tokens.length > 0) return { command: tokens[0], args: tokens.slice(1) };
+  }
+  return { command, args };
+}
+
+export function binaryName(command: string): string {
+  const base = command.trim().split('/').pop() ?? '';
+  return base.toLowerCase();
+}
+
+/** Indexes of positional arguments, skipping flags and the values of flags that take one. */
+export function positionalIndexes(bin: string, args: string[]): number[] {
+  const valueFlags = BINARY_VALUE_FLAGS[bin] ?? [];
+  const out: number[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-')) {
+      out.push(i);
+      continue;
+    }
+    if (VALUE_FLAGS.has(arg) || valueFlags.includes(arg)) i++;
+  }
+  return out;
+}
+
+function blocked(what: string, hint = BLOCKED_HINT): ExecGuardResult {
+  return { ok: false, reason: `${what} is not allowed from web_exec. ${hint}` };
+}
+
+// Checks the binary at args[index] with the arguments after it
+function checkNested(args: string[], index: number): ExecGuardResult {
+  return checkExecCommand(args[index], args.slice(index + 1));
+}
+
+// Splits `sh -c` scripts into commands on && / || / ; / | and checks each one
+function checkShellScript(script: string): ExecGuardResult {
+  for (const segment of script.split(/&&|\|\||[;|]/)) {
+    const tokens = splitCommandLine(segment);
+    if (tokens.length === 0) continue;
+    const result = checkExecCommand(tokens[0], tokens.slice(1));
+    if (!result.ok) return result;
+  }
+  return { ok: true };
+}
+
+export function checkExecCommand(command: string, args: string[] = []): ExecGuardResult {
+  const bin = binaryName(command);
+  if (!bin) return { ok: false, reason: 'No command given.' };
+
+  if (args.includes('--watch')) return blocked(`Watch mode (\`${bin} --watch\`)`);
+  if (args.includes('--watchAll')) return blocked(`Watch mode (\`${bin} --watchAll\`)`, TEST_HINT);
+
+  if (SHELLS.has(bin)) {
+    const scriptIndex = args.indexOf('-c');
+    if (scriptIndex !== -1 && args[scriptIndex + 1]) return checkShellScript(args[scriptIndex + 1]);
+    return { ok: true };
+  }
+
+  if (SERVER_BINARIES.has(bin)) return blocked(`Running \`${bin}\``);
+
+  const positional = positionalIndexes(bin, args);
+
+  if (bin === 'vitest') {
+    const sub = positional.length > 0 ? args[positional[0]] : '';
+    if (!VITEST_ONESHOT.has(sub) && !args.includes('--run')) return blocked('`vitest` without `run`', TEST_HINT);
+    return { ok: true };
+  }
+
+  if (RUNNERS.has(bin)) {
+    // npx -c runs a script string
+    const callIndex = args.findIndex((arg) => arg === '-c' || arg === '--call');
+    if (callIndex !== -1 && args[callIndex + 1]) return checkShellScript(args[callIndex + 1]);
+    return positional.length > 0 ? checkNested(args, positional[0]) : { ok: true };
+  }
+
+  if (PACKAGE_MANAGERS.has(bin)) {
+    const sub = positional.length > 0 ? args[positional[0]].toLowerCase() : '';
+    if (RUNNER_SUBCOMMANDS.has(sub) && positional.length > 1) return checkNested(args, positional[1]);
+    const isRun = SCRIPT_SUBCOMMANDS.has(sub);
+    const script = isRun ? (positional.length > 1 ? args[positional[1]].toLowerCase() : '') : sub;
+    const label = `\`${bin} ${isRun ? `${sub} ` : ''}${script}\``;
+    if (SERVER_SCRIPTS.has(script)) return blocked(label);
+    if (TEST_SCRIPTS.has(script)) return blocked(label, TEST_HINT);
+  }
+
+  return { ok: true };
+}
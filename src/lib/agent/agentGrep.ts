@@ -0,0 +1,126 @@
+import { EXCLUDED_DIRS } from '@/utils/vfs-persistence';
+
+// Content search over the WebContainer filesystem for the web_fs_grep tool.
+// Walks the same tree as web_fs_find and reads files one at a time.
+
+export type GrepMatch = {
+  path: string;
+  line: number;
+  column: number;
+  text: string;
+  before?: string[];
+  after?: string[];
+};
+
+export type GrepOptions = {
+  pattern: string;
+  literal?: boolean;
+  ignoreCase?: boolean;
+  glob?: string;
+  contextLines?: number;
+  maxMatches?: number;
+};
+
+export type GrepResult = {
+  matches: GrepMatch[];
+  filesSearched: number;
+  filesMatched: number;
+  // True when maxMatches was hit before every file was searched
+  truncated: boolean;
+};
+
+type GrepFs = {
+  readFile: (path: string, encoding?: 'utf-8' | 'base64') => Promise<string>;
+};
+
+const MAX_FILE_CHARS = 512_000;
+const MAX_LINE_CHARS = 240;
+
+export function globToRegExp(pattern: string): RegExp {
+  let re = '^';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*') {
+      if (pattern[i + 1] === '*') { re += '.*'; i++; } else { re += '[^/]*'; }
+    } else if (ch === '?') {
+      re += '.';
+    } else {
+      re += /[\\.^$+()|{}\[\]\-]/.test(ch) ? `\\${ch}` : ch;
+    }
+  }
+  re += '$';
+  return new RegExp(re);
+}
+
+export function isExcludedPath(path: string): boolean {
+  return path.split('/').some((segment) => EXCLUDED_DIRS.has(segment));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Throws on an invalid regular expression so the caller can report it
+export function buildGrepRegExp(pattern: string, literal = false, ignoreCase = false): RegExp {
+  return new RegExp(literal ? escapeRegExp(pattern) : pattern, ignoreCase ? 'i' : '');
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}…` : line;
+}
+
+/**
+ * Searches the given file paths line by line and stops once maxMatches lines
+ * have matched. Binary-looking and very large files are skipped.
+ */
+export async function grepFiles(fs: GrepFs, paths: string[], options: GrepOptions): Promise<GrepResult> {
+  const regex = buildGrepRegExp(options.pattern, options.literal, options.ignoreCase);
+  const globRegex = options.glob ? globToRegExp(options.glob) : null;
+  const contextLines = Math.max(0, Math.min(options.contextLines ?? 0, 10));
+  const maxMatches = Math.max(1, options.maxMatches ?? 200);
+
+  const matches: GrepMatch[] = [];
+  let filesSearched = 0;
+  let filesMatched = 0;
+  let truncated = false;
+
+  const candidates = paths
+    .filter((p) => !isExcludedPath(p) && (globRegex ? globRegex.test(p) : true))
+    .sort();
+
+  for (const path of candidates) {
+    if (matches.length >= maxMatches) {
+      truncated = true;
+      break;
+    }
+    let content: string;
+    try {
+      content = await fs.readFile(path, 'utf-8');
+    } catch {
+      continue;
+    }
+    if (content.length > MAX_FILE_CHARS || content.includes('\u0000')) continue;
+    filesSearched++;
+
+    const lines = content.split(/\r?\n/);
+    let matchedHere = false;
+    for (let i = 0; i < lines.length; i++) {
+      const found = regex.exec(lines[i]);
+      if (!found) continue;
+      matchedHere = true;
+      const match: GrepMatch = { path, line: i + 1, column: found.index + 1, text: clip(lines[i]) };
+      if (contextLines > 0) {
+        match.before = lines.slice(Math.max(0, i - contextLines), i).map(clip);
+        match.after = lines.slice(i + 1, i + 1 + contextLines).map(clip);
+      }
+      matches.push(match);
+      if (matches.length >= maxMatches) {
+        truncated = i < lines.length - 1;
+        break;
+      }
+    }
+    if (matchedHere) filesMatched++;
+  }
+
+  return { matches, filesSearched, filesMatched, truncated };
+}
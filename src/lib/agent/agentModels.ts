@@ -0,0 +1,53 @@
+// Agent model profiles. Each profile is an ordered fallback chain of OpenRouter
+// model ids; the route moves to the next entry when a provider errors or is
+// rate-limited. Every model listed here should have an entry in agentPricing.ts.
+
+export type ModelCandidate = {
+  model: string;
+  // OpenRouter provider routing preference for this model
+  providerOrder?: string[];
+};
+
+export type ModelProfile = {
+  label: string;
+  description: string;
+  chain: ModelCandidate[];
+};
+
+export const MODEL_PROFILE_IDS = ['fast', 'smart', 'cheap'] as const;
+export type ModelProfileId = typeof MODEL_PROFILE_IDS[number];
+
+export const DEFAULT_MODEL_PROFILE: ModelProfileId = 'fast';
+
+export const MODEL_PROFILES: Record<ModelProfileId, ModelProfile> = {
+  fast: {
+    label: 'Fast',
+    description: 'Low-latency responses for everyday edits.',
+    chain: [
+      { model: 'z-ai/glm-4.6', providerOrder: ['cerebras', 'fireworks'] },
+      { model: 'google/gemini-2.5-flash' },
+      { model: 'anthropic/claude-haiku-4.5' },
+    ],
+  },
+  smart: {
+    label: 'Smart',
+    description: 'Strongest reasoning for larger builds and tricky bugs.',
+    chain: [
+      { model: 'anthropic/claude-sonnet-4.5' },
+      { model: 'z-ai/glm-4.6', providerOrder: ['fireworks', 'cerebras'] },
+    ],
+  },
+  cheap: {
+    label: 'Cheap',
+    description: 'Lowest cost per token.',
+    chain: [
+      { model: 'qwen/qwen3-coder' },
+      { model: 'openai/gpt-4o-mini' },
+      { model: 'z-ai/glm-4.6', providerOrder: ['cerebras', 'fireworks'] },
+    ],
+  },
+};
+
+export function isModelProfileId(value: unknown): value is ModelProfileId {
+  return typeof value === 'string' && (MODEL_PROFILE_IDS as readonly string[]).includes(value);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateToolPolicy } from './agentPolicy';
+
+function patchVerdict(patch: string) {
+  return evaluateToolPolicy('web_fs_patch', { patch });
+}
+
+describe('web_fs_patch paths', () => {
+  it('allows patches to writable files', () => {
+    expect(patchVerdict('--- a/src/apps/todo/index.tsx\n+++ b/src/apps/todo/index.tsx\n@@\n-old\n+new\n').allowed).toBe(true);
+  });
+
+  it('reads headers separated by tabs', () => {
+    const verdict = patchVerdict('---\tsrc/main.tsx\n+++\tsrc/main.tsx\n@@\n-old\n+new\n');
+    expect(verdict.allowed).toBe(false);
+    if (!verdict.allowed) expect(verdict.violation.rule).toBe('path.protected');
+  });
+
+  it('reads +++ before --- and checks every file of a multi-file patch', () => {
+    const verdict = patchVerdict([
+      '+++ b/src/apps/todo/index.tsx',
+      '--- a/src/apps/todo/index.tsx',
+      '@@',
+      '-old',
+      '+new',
+      '---\ta/pnpm-lock.yaml',
+      '+++\tb/pnpm-lock.yaml',
+      '@@',
+      '-a',
+      '+b',
+      '',
+    ].join('\n'));
+    expect(verdict.allowed).toBe(false);
+    if (!verdict.allowed) expect(verdict.violation.target).toBe('pnpm-lock.yaml');
+  });
+
+  it('denies patches without readable file paths', () => {
+    const verdict = patchVerdict('@@\n-old\n+new\n');
+    expect(verdict.allowed).toBe(false);
+    if (!verdict.allowed) {
+      expect(verdict.violation.rule).toBe('path.unknown');
+      expect(verdict.violation.approvable).toBe(false);
+    }
+  });
+
+  it('skips dry runs', () => {
+    expect(evaluateToolPolicy('web_fs_patch', { patch: '@@\n-a\n+b\n', dryRun: true }).allowed).toBe(true);
+  });
+});
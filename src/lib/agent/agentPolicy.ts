@@ -0,0 +1,238 @@
+import { globToRegExp } from '@/lib/agent/agentGrep';
+import { binaryName, checkExecCommand, normalizeExecCommand, positionalIndexes } from '@/lib/agent/agentExecGuard';
+import { parsePatch } from 'diff';
+import { normalizePatchPath, normalizeUnifiedDiff } from '@/lib/code-edit/applyPatch';
+
+// Declarative policy checked before every client-side tool runs: which
+// binaries web_exec may start (and with which arguments and working
+// directories) and which workspace paths the file tools may write or delete.
+// Violations go back to the model as structured errors; approvable ones can be
+// allowed once by the user from the chat.
+
+export type CommandRule = {
+  binary: string;
+  // First positional argument must be one of these; omit to allow any
+  subcommands?: string[];
+  // Subcommands whose next positional argument is a binary that must also be allowed
+  runnerSubcommands?: string[];
+  // The first positional argument is a binary that must also be allowed (npx and friends)
+  runner?: boolean;
+  // Regex sources; any argument matching one is rejected
+  denyArgs?: string[];
+};
+
+export type AgentPolicy = {
+  commands: CommandRule[];
+  // Reject dev/build/start servers and watchers outright (see agentExecGuard)
+  blockServers: boolean;
+  // Workspace-relative globs web_exec may use as cwd ('.' is the root)
+  cwd: string[];
+  // Globs the file tools may write or delete
+  writable: string[];
+  // Globs that stay off limits even when writable matches
+  protectedPaths: string[];
+};
+
+export type PolicyRule =
+  | 'command.binary'
+  | 'command.subcommand'
+  | 'command.args'
+  | 'command.server'
+  | 'command.cwd'
+  | 'path.outside'
+  | 'path.protected'
+  | 'path.notWritable'
+  | 'path.unknown';
+
+export type PolicyViolation = {
+  tool: string;
+  rule: PolicyRule;
+  message: string;
+  // Command line or path(s) the rule rejected
+  target: string;
+  approvable: boolean;
+  // Identifies this exact action for a one-off approval
+  approvalKey?: string;
+};
+
+export type PolicyVerdict = { allowed: true } | { allowed: false; violation: PolicyViolation };
+
+const PACKAGE_INSPECT = ['list', 'ls', 'why', 'outdated', 'info', 'view'];
+const NO_GLOBAL = ['^(-g|--global)$'];
+
+export const DEFAULT_AGENT_POLICY: AgentPolicy = {
+  commands: [
+    { binary: 'pnpm', subcommands: ['add', 'install', 'i', 'remove', 'rm', 'uninstall', 'update', 'up', 'run', 'test', 'exec', 'dlx', ...PACKAGE_INSPECT], runnerSubcommands: ['exec', 'dlx'], denyArgs: NO_GLOBAL },
+    { binary: 'npm', subcommands: ['install', 'i', 'uninstall', 'remove', 'rm', 'update', 'run', 'test', 'exec', ...PACKAGE_INSPECT], runnerSubcommands: ['exec'], denyArgs: NO_GLOBAL },
+    { binary: 'yarn', subcommands: ['add', 'remove', 'install', 'upgrade', 'run', 'test', ...PACKAGE_INSPECT], denyArgs: ['^global$'] },
+    { binary: 'bun', subcommands: ['add', 'remove', 'install', 'i', 'update', 'run', 'test', 'x'], runnerSubcommands: ['x'], denyArgs: NO_GLOBAL },
+    { binary: 'npx', runner: true },
+    { binary: 'pnpx', runner: true },
+    { binary: 'bunx', runner: true },
+    { binary: 'tsc' },
+    { binary: 'eslint' },
+    { binary: 'vitest' },
+    { binary: 'prettier' },
+    { binary: 'ls' },
+    { binary: 'cat' },
+    { binary: 'pwd' },
+    { binary: 'echo' },
+  ],
+  blockServers: true,
+  cwd: ['.', 'src/**'],
+  writable: ['src/**', 'public/**', 'tmp/**', 'package.json', 'tailwind.config.js', 'postcss.config.js'],
+  protectedPaths: [
+    'src',
+    'src/apps',
+    'src/desktop',
+    'public',
+    'public/apps',
+    'src/main.tsx',
+    'src/iframe-root.*',
+    'node_modules/**',
+    '.git/**',
+    'pnpm-lock.yaml',
+  ],
+};
+
+/** Workspace-relative form of a path, or null when it escapes the workspace. */
+export function normalizeWorkspacePath(path: string): string | null {
+  const out: string[] = [];
+  for (const segment of path.trim().split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      if (out.length === 0) return null;
+      out.pop();
+    } else {
+      out.push(segment);
+    }
+  }
+  return out.join('/');
+}
+
+function matchesAny(path: string, globs: string[]): boolean {
+  return globs.some((glob) => (glob === '.' ? path === '' : globToRegExp(glob).test(path)));
+}
+
+function commandViolation(policy: AgentPolicy, command: string, args: string[]): { rule: PolicyRule; message: string } | null {
+  const bin = binaryName(command);
+  const rule = policy.commands.find((candidate) => candidate.binary === bin);
+  if (!rule) {
+    return { rule: 'command.binary', message: `\`${bin}\` is not an allowed command. Allowed: ${policy.commands.map((c) => c.binary).join(', ')}.` };
+  }
+  for (const pattern of rule.denyArgs ?? []) {
+    const re = new RegExp(pattern);
+    const hit = args.find((arg) => re.test(arg));
+    if (hit) return { rule: 'command.args', message: `Argument \`${hit}\` is not allowed for \`${bin}\`.` };
+  }
+  const positional = positionalIndexes(bin, args);
+  if (rule.runner) {
+    const target = positional[0];
+    return target !== undefined ? commandViolation(policy, args[target], args.slice(target + 1)) : null;
+  }
+  const sub = positional.length > 0 ? args[positional[0]] : undefined;
+  if (rule.subcommands && sub && !rule.subcommands.includes(sub)) {
+    return { rule: 'command.subcommand', message: `\`${bin} ${sub}\` is not allowed. Allowed subcommands: ${rule.subcommands.join(', ')}.` };
+  }
+  if (sub && rule.runnerSubcommands?.includes(sub) && positional.length > 1) {
+    return commandViolation(policy, args[positional[1]], args.slice(positional[1] + 1));
+  }
+  return null;
+}
+
+function evaluateExec(policy: AgentPolicy, tool: string, input: Record<string, unknown>): PolicyVerdict {
+  const rawArgs = Array.isArray(input.args) ? input.args.filter((a): a is string => typeof a === 'string') : [];
+  const { command, args } = normalizeExecCommand(typeof input.command === 'string' ? input.command : '', rawArgs);
+  const cwdRaw = typeof input.cwd === 'string' && input.cwd.trim() ? input.cwd : '.';
+  const target = `${command} ${args.join(' ')}`.trim();
+  const deny = (rule: PolicyRule, message: string, approvable = true): PolicyVerdict => ({
+    allowed: false,
+    violation: { tool, rule, message, target, approvable, approvalKey: approvable ? `${tool}:${cwdRaw}:${target}` : undefined },
+  });
+
+  if (policy.blockServers) {
+    const guard = checkExecCommand(command, args);
+    if (!guard.ok) return deny('command.server', guard.reason, false);
+  }
+  const cwd = normalizeWorkspacePath(cwdRaw);
+  if (cwd === null) return deny('command.cwd', `cwd \`${cwdRaw}\` is outside the workspace.`, false);
+  if (!matchesAny(cwd, policy.cwd)) {
+    return deny('command.cwd', `Commands may only run in: ${policy.cwd.join(', ')} (got \`${cwdRaw}\`).`);
+  }
+  const violation = commandViolation(policy, command, args);
+  return violation ? deny(violation.rule, violation.message) : { allowed: true };
+}
+
+// File paths a patch touches, parsed exactly as planUnifiedPatch parses it
+function patchPaths(patch: string): string[] {
+  const paths = new Set<string>();
+  try {
+    for (const filePatch of parsePatch(normalizeUnifiedDiff(patch))) {
+      for (const name of [filePatch.oldFileName, filePatch.newFileName]) {
+        const path = normalizePatchPath(name);
+        if (path) paths.add(path);
+      }
+    }
+  } catch {}
+  return [...paths];
+}
+
+type PathRule = Exclude<Extract<PolicyRule, `path.${string}`>, 'path.unknown'>;
+
+function evaluatePaths(policy: AgentPolicy, tool: string, paths: string[]): PolicyVerdict {
+  const problems: Array<{ path: string; rule: PathRule }> = [];
+  for (const raw of paths) {
+    const path = normalizeWorkspacePath(raw);
+    if (path === null) problems.push({ path: raw, rule: 'path.outside' });
+    else if (path === '' || matchesAny(path, policy.protectedPaths)) problems.push({ path, rule: 'path.protected' });
+    else if (!matchesAny(path, policy.writable)) problems.push({ path, rule: 'path.notWritable' });
+  }
+  if (problems.length === 0) return { allowed: true };
+  const target = problems.map((p) => p.path).join(', ');
+  // Paths outside the workspace and the workspace root itself are never allowed
+  const approvable = problems.every((p) => p.rule !== 'path.outside' && p.path !== '');
+  const reasons: Record<PathRule, string> = {
+    'path.outside': 'is outside the workspace',
+    'path.protected': 'is protected',
+    'path.notWritable': `is not in a writable location (${policy.writable.join(', ')})`,
+  };
+  return {
+    allowed: false,
+    violation: {
+      tool,
+      rule: problems[0].rule,
+      message: problems.map((p) => `\`${p.path || '.'}\` ${reasons[p.rule]}`).join('; ') + '.',
+      target,
+      approvable,
+      approvalKey: approvable ? `${tool}:${target}` : undefined,
+    },
+  };
+}
+
+/** Checks a client tool call against the policy before it runs. */
+export function evaluateToolPolicy(toolName: string, input: unknown, policy: AgentPolicy = DEFAULT_AGENT_POLICY): PolicyVerdict {
+  const args = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const path = typeof args.path === 'string' ? args.path : '';
+  switch (toolName) {
+    case 'web_exec':
+      return evaluateExec(policy, toolName, args);
+    case 'web_fs_write':
+    case 'web_fs_rm':
+      return evaluatePaths(policy, toolName, [path]);
+    case 'code_edit_ast':
+      return args.dryRun === true ? { allowed: true } : evaluatePaths(policy, toolName, [path]);
+    case 'web_fs_patch': {
+      if (args.dryRun === true || typeof args.patch !== 'string') return { allowed: true };
+      const paths = patchPaths(args.patch);
+      if (paths.length === 0) {
+        return {
+          allowed: false,
+          violation: { tool: toolName, rule: 'path.unknown', message: 'No file paths could be read from the patch; include ---/+++ file headers.', target: '', approvable: false },
+        };
+      }
+      return evaluatePaths(policy, toolName, paths);
+    }
+    default:
+      return { allowed: true };
+  }
+}
@@ -0,0 +1,44 @@
+// Per-model token pricing in USD per million tokens, keyed by the exact
+// OpenRouter model id we send. Keep in sync with https://openrouter.ai/models.
+export type ModelPricing = {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  // Cached prompt tokens, when the provider bills them separately
+  cachedInputPerMillion?: number;
+};
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'z-ai/glm-4.6': { inputPerMillion: 0.6, outputPerMillion: 2.2, cachedInputPerMillion: 0.11 },
+  'anthropic/claude-sonnet-4.5': { inputPerMillion: 3, outputPerMillion: 15, cachedInputPerMillion: 0.3 },
+  'anthropic/claude-haiku-4.5': { inputPerMillion: 1, outputPerMillion: 5, cachedInputPerMillion: 0.1 },
+  'openai/gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6, cachedInputPerMillion: 0.075 },
+  'google/gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, cachedInputPerMillion: 0.075 },
+  'qwen/qwen3-coder': { inputPerMillion: 0.22, outputPerMillion: 0.95 },
+};
+
+// Used for unknown model ids so spend is never silently recorded as zero
+export const FALLBACK_PRICING: ModelPricing = { inputPerMillion: 3, outputPerMillion: 15 };
+
+export function getModelPricing(model: string): ModelPricing {
+  return MODEL_PRICING[model] ?? FALLBACK_PRICING;
+}
+
+export type TokenUsageForCost = {
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedInputTokens?: number;
+};
+
+export function estimateCostUsd(model: string, usage: TokenUsageForCost): number {
+  const pricing = getModelPricing(model);
+  const input = Math.max(0, usage.inputTokens ?? 0);
+  const output = Math.max(0, usage.outputTokens ?? 0);
+  // inputTokens includes cached tokens; bill the cached share at the cached rate when known
+  const cached = pricing.cachedInputPerMillion !== undefined ? Math.min(input, Math.max(0, usage.cachedInputTokens ?? 0)) : 0;
+  const cachedRate = pricing.cachedInputPerMillion ?? pricing.inputPerMillion;
+  return (
+    ((input - cached) / 1_000_000) * pricing.inputPerMillion +
+    (cached / 1_000_000) * cachedRate +
+    (output / 1_000_000) * pricing.outputPerMillion
+  );
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { planUnifiedPatch } from '@/lib/code-edit/applyPatch';
+import { applyAcceptedHunks, buildReviewHunks, reviewChanges, type ReviewOutcome, type WriteReviewDecision } from './agentReview';
+
+const FILES: Record<string, string> = {
+  'src/a.ts': ['const a = 1;', 'const b = 2;', 'const c = 3;', 'const d = 4;', 'const e = 5;', 'const f = 6;', 'const g = 7;', 'const h = 8;', 'const i = 9;', ''].join('\n'),
+  'src/old.ts': 'export {};\n',
+};
+
+const PATCH = [
+  '--- a/src/a.ts',
+  '+++ b/src/a.ts',
+  '@@ -1,3 +1,3 @@',
+  '-const a = 1;',
+  '+const a = 10;',
+  ' const b = 2;',
+  ' const c = 3;',
+  '@@ -7,3 +7,3 @@',
+  ' const g = 7;',
+  ' const h = 8;',
+  '-const i = 9;',
+  '+const i = 90;',
+  '--- /dev/null',
+  '+++ b/src/new.ts',
+  '@@ -0,0 +1 @@',
+  '+export const created = true;',
+  '--- a/src/old.ts',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-export {};',
+  '',
+].join('\n');
+
+async function plan() {
+  const result = await planUnifiedPatch({ patch: PATCH, readFile: async (path) => FILES[path] ?? null });
+  if (!result.ok) throw new Error(JSON.stringify(result.failures));
+  return result.changes;
+}
+
+// Stands in for the review card: answers each file with scripted hunk decisions
+function scriptedReview(decisions: Record<string, (hunks: number) => WriteReviewDecision>) {
+  const reviewed: Array<{ path: string; isNewFile: boolean }> = [];
+  const reviewWrite = async (path: string, before: string | null, after: string): Promise<ReviewOutcome | null> => {
+    reviewed.push({ path, isNewFile: before === null });
+    const hunks = buildReviewHunks(path, before ?? '', after);
+    const decision = decisions[path](hunks.length);
+    const acceptedHunks = decision.filter(Boolean).length;
+    if (acceptedHunks === 0) return null;
+    const content = applyAcceptedHunks(path, before ?? '', hunks, decision);
+    if (content === null) throw new Error('hunks no longer fit');
+    return { content, acceptedHunks, totalHunks: hunks.length };
+  };
+  return { reviewed, reviewWrite };
+}
+
+describe('reviewChanges', () => {
+  it('reviews created and modified files of a patch and passes deletions through', async () => {
+    const { reviewed, reviewWrite } = scriptedReview({
+      'src/a.ts': (n) => Array.from({ length: n }, () => true),
+      'src/new.ts': () => [true],
+    });
+    const { kept, rejected } = await reviewChanges(await plan(), reviewWrite);
+    expect(reviewed).toEqual([{ path: 'src/a.ts', isNewFile: false }, { path: 'src/new.ts', isNewFile: true }]);
+    expect(rejected).toEqual([]);
+    expect(kept.map(({ change }) => [change.path, change.status])).toEqual([
+      ['src/a.ts', 'modified'],
+      ['src/new.ts', 'created'],
+      ['src/old.ts', 'deleted'],
+    ]);
+    expect(kept[0].content).toContain('const a = 10;');
+    expect(kept[0].content).toContain('const i = 90;');
+  });
+
+  it('writes only the accepted hunks and drops fully rejected files', async () => {
+    const { reviewWrite } = scriptedReview({
+      'src/a.ts': () => [false, true],
+      'src/new.ts': () => [false],
+    });
+    const { kept, rejected } = await reviewChanges(await plan(), reviewWrite);
+    expect(rejected).toEqual(['src/new.ts']);
+    const modified = kept.find(({ change }) => change.path === 'src/a.ts');
+    expect(modified?.content).toContain('const a = 1;');
+    expect(modified?.content).toContain('const i = 90;');
+    expect(modified?.outcome).toEqual(expect.objectContaining({ acceptedHunks: 1, totalHunks: 2 }));
+  });
+});
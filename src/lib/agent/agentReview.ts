@@ -0,0 +1,114 @@
+import { applyPatch, structuredPatch } from 'diff';
+
+// Review mode: web_fs_write and code_edit_ast changes are staged as hunks the
+// user accepts or rejects one by one before anything is written.
+
+export type ReviewHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Unified diff body lines, each prefixed with ' ', '-', '+' or '\'
+  lines: string[];
+};
+
+export type WriteReview = {
+  toolCallId: string;
+  tool: string;
+  path: string;
+  isNewFile: boolean;
+  hunks: ReviewHunk[];
+};
+
+// One entry per hunk; all false rejects the whole write
+export type WriteReviewDecision = boolean[];
+
+// What landed after a review: the content to write and how many hunks were kept
+export type ReviewOutcome = { content: string; acceptedHunks: number; totalHunks: number };
+
+type ReviewableChange = { path: string; status: 'created' | 'modified' | 'deleted'; before: string; after: string };
+
+export type ReviewedChange<C extends ReviewableChange> = { change: C; content: string; outcome: ReviewOutcome | null };
+
+export type SideBySideCell = {
+  number: number | null;
+  text: string;
+  kind: 'context' | 'removed' | 'added' | 'empty';
+};
+
+export type SideBySideRow = { left: SideBySideCell; right: SideBySideCell };
+
+const BINARY_EXTENSIONS = /\.(png|jpe?g|webp|gif|ico|mp3|wav|m4a|aac|mp4|webm|mov|woff2?|ttf|otf)$/i;
+
+/** Media and font files are written straight through; a line diff of them means nothing. */
+export function isReviewablePath(path: string): boolean {
+  return !BINARY_EXTENSIONS.test(path);
+}
+
+export function buildReviewHunks(path: string, before: string, after: string): ReviewHunk[] {
+  const patch = structuredPatch(path, path, before, after, '', '', { context: 3 });
+  return patch.hunks.map(({ oldStart, oldLines, newStart, newLines, lines }) => ({ oldStart, oldLines, newStart, newLines, lines }));
+}
+
+/** `before` with only the accepted hunks applied, or null when they no longer fit. */
+export function applyAcceptedHunks(path: string, before: string, hunks: ReviewHunk[], accepted: WriteReviewDecision): string | null {
+  const kept = hunks.filter((_, index) => accepted[index]);
+  if (kept.length === 0) return before;
+  // Hunks are located by their old-side lines, so skipped ones need no offset fixes
+  const result = applyPatch(before, { oldFileName: path, newFileName: path, oldHeader: '', newHeader: '', hunks: kept });
+  return result === false ? null : result;
+}
+
+/**
+ * Reviews each created or modified file of a multi-file change in turn.
+ * Files whose hunks were all rejected are dropped; deletions pass through
+ * (they are approved separately). Nothing is written here.
+ */
+export async function reviewChanges<C extends ReviewableChange>(
+  changes: C[],
+  reviewWrite: (path: string, before: string | null, after: string) => Promise<ReviewOutcome | null>,
+): Promise<{ kept: ReviewedChange<C>[]; rejected: string[] }> {
+  const kept: ReviewedChange<C>[] = [];
+  const rejected: string[] = [];
+  for (const change of changes) {
+    if (change.status === 'deleted') {
+      kept.push({ change, content: '', outcome: null });
+      continue;
+    }
+    const outcome = await reviewWrite(change.path, change.status === 'created' ? null : change.before, change.after);
+    if (outcome) kept.push({ change, content: outcome.content, outcome });
+    else rejected.push(change.path);
+  }
+  return { kept, rejected };
+}
+
+/** Pairs a hunk's removed and added lines into rows for a two-column view. */
+export function sideBySideRows(hunk: ReviewHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  const empty: SideBySideCell = { number: null, text: '', kind: 'empty' };
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+  let removed: SideBySideCell[] = [];
+  let added: SideBySideCell[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? empty, right: added[i] ?? empty });
+    }
+    removed = [];
+    added = [];
+  };
+  for (const line of hunk.lines) {
+    const marker = line[0];
+    const text = line.slice(1);
+    if (marker === '-') {
+      removed.push({ number: oldLine++, text, kind: 'removed' });
+    } else if (marker === '+') {
+      added.push({ number: newLine++, text, kind: 'added' });
+    } else if (marker === ' ') {
+      flush();
+      rows.push({ left: { number: oldLine++, text, kind: 'context' }, right: { number: newLine++, text, kind: 'context' } });
+    }
+  }
+  flush();
+  return rows;
+}
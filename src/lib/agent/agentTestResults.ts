@@ -0,0 +1,127 @@
+// Parses Vitest's JSON reporter output (Jest-compatible shape) into a compact
+// per-test result for the run_tests tool.
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export type TestCaseResult = {
+  name: string;
+  status: TestStatus;
+  durationMs?: number;
+  // Only present for failed tests
+  failureMessages?: string[];
+};
+
+export type TestFileResult = {
+  file: string;
+  status: 'passed' | 'failed';
+  // Suite-level error (e.g. import or syntax failure) when no test could run
+  message?: string;
+  tests: TestCaseResult[];
+};
+
+export type TestRunSummary = {
+  ok: boolean;
+  summary: { total: number; passed: number; failed: number; skipped: number; files: number };
+  files: TestFileResult[];
+};
+
+type VitestAssertion = {
+  title?: string;
+  fullName?: string;
+  ancestorTitles?: string[];
+  status?: string;
+  duration?: number | null;
+  failureMessages?: string[];
+};
+
+type VitestJsonReport = {
+  success?: boolean;
+  numTotalTests?: number;
+  numPassedTests?: number;
+  numFailedTests?: number;
+  numPendingTests?: number;
+  numTodoTests?: number;
+  testResults?: Array<{
+    name?: string;
+    status?: string;
+    message?: string;
+    assertionResults?: VitestAssertion[];
+  }>;
+};
+
+const MAX_FAILURE_CHARS = 1500;
+const MAX_FAILURES_PER_TEST = 3;
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+// Drops stack frames from Vitest internals; frames in app code are kept
+function clipFailure(message: string): string {
+  const clean = stripAnsi(message)
+    .split('\n')
+    .filter((line) => !/^\s+at .*node_modules/.test(line))
+    .join('\n')
+    .trim();
+  return clean.length > MAX_FAILURE_CHARS ? `${clean.slice(0, MAX_FAILURE_CHARS)}…` : clean;
+}
+
+// Vitest reports absolute paths; keep them project-relative
+function relativeTestPath(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^.*?\/(?=src\/)/, '');
+}
+
+function toStatus(status: string | undefined): TestStatus {
+  if (status === 'passed') return 'passed';
+  if (status === 'failed') return 'failed';
+  return 'skipped';
+}
+
+/**
+ * Returns null when the text is not a Vitest JSON report, so callers can fall
+ * back to showing the raw command output.
+ */
+export function parseVitestJson(json: string): TestRunSummary | null {
+  let report: VitestJsonReport;
+  try {
+    report = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!report || typeof report !== 'object' || !Array.isArray(report.testResults)) return null;
+
+  const files: TestFileResult[] = report.testResults.map((suite) => {
+    const tests: TestCaseResult[] = (suite.assertionResults ?? []).map((assertion) => {
+      const status = toStatus(assertion.status);
+      const name = assertion.fullName
+        || [...(assertion.ancestorTitles ?? []), assertion.title ?? ''].filter(Boolean).join(' > ');
+      const result: TestCaseResult = { name, status };
+      if (typeof assertion.duration === 'number') result.durationMs = Math.round(assertion.duration);
+      if (status === 'failed' && assertion.failureMessages?.length) {
+        result.failureMessages = assertion.failureMessages.slice(0, MAX_FAILURES_PER_TEST).map(clipFailure);
+      }
+      return result;
+    });
+    const failed = suite.status === 'failed' || tests.some((test) => test.status === 'failed');
+    const file: TestFileResult = { file: relativeTestPath(suite.name ?? ''), status: failed ? 'failed' : 'passed', tests };
+    if (suite.message && suite.message.trim()) file.message = clipFailure(suite.message);
+    return file;
+  });
+
+  const all = files.flatMap((file) => file.tests);
+  const passed = all.filter((test) => test.status === 'passed').length;
+  const failed = all.filter((test) => test.status === 'failed').length;
+  const failedFiles = files.filter((file) => file.status === 'failed').length;
+
+  return {
+    ok: failed === 0 && failedFiles === 0 && (report.success ?? true),
+    summary: {
+      total: report.numTotalTests ?? all.length,
+      passed,
+      failed,
+      skipped: all.length - passed - failed,
+      files: files.length,
+    },
+    files,
+  };
+}
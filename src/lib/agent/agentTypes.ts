@@ -1,8 +1,11 @@
+import type { ModelProfileId } from './agentModels';
+
 export type ChatThread = {
   _id: string;
   title: string;
   updatedAt?: number;
   lastMessageAt?: number;
+  modelProfile?: ModelProfileId;
 };
 
 export type MediaItem = {
@@ -15,3 +18,17 @@ export type MediaItem = {
 };
 
 
+
+export type AgentBudgetPeriod = 'daily' | 'monthly';
+
+// Body of the 402 response /api/agent returns when a user's spend budget is used up
+export type AgentBudgetExceededPayload = {
+  error: string;
+  code: 'budget_exceeded';
+  budget: {
+    period: AgentBudgetPeriod;
+    limitUsd: number;
+    spentUsd: number;
+    resetsAt: string;
+  };
+};
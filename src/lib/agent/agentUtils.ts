@@ -1,3 +1,5 @@
+import type { AgentBudgetExceededPayload } from './agentTypes';
+
 export function formatBytes(n?: number): string {
   if (!n || n <= 0) return '';
   const units = ['B', 'KB', 'MB', 'GB'];
@@ -43,3 +45,15 @@ export function trimForChat(s: string): string {
 }
 
 
+
+// useChat surfaces non-2xx responses as Error(message = response body)
+export function parseAgentBudgetError(error: unknown): AgentBudgetExceededPayload | null {
+  if (!(error instanceof Error) || !error.message) return null;
+  try {
+    const parsed = JSON.parse(error.message) as Partial<AgentBudgetExceededPayload>;
+    if (parsed && parsed.code === 'budget_exceeded' && parsed.budget && typeof parsed.error === 'string') {
+      return parsed as AgentBudgetExceededPayload;
+    }
+  } catch {}
+  return null;
+}
@@ -0,0 +1,95 @@
+import type { ConvexHttpClient } from 'convex/browser';
+import { api as convexApi } from '../../../../convex/_generated/api';
+import type { AgentBudgetExceededPayload } from '@/lib/agent/agentTypes';
+
+export type AgentBudgetLimits = {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+};
+
+function parseLimit(raw: string | undefined): number | null {
+  if (!raw || !raw.trim()) return null;
+  const value = Number(raw);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Budgets are USD per user; unset or non-positive means unlimited
+export function getAgentBudgetLimits(): AgentBudgetLimits {
+  return {
+    dailyUsd: parseLimit(process.env.AGENT_DAILY_BUDGET_USD),
+    monthlyUsd: parseLimit(process.env.AGENT_MONTHLY_BUDGET_USD),
+  };
+}
+
+function nextUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+function nextUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Returns a structured over-budget payload when the signed-in user has used up
+ * their daily or monthly budget, otherwise null. Fails open if the ledger is
+ * unreachable so a Convex hiccup does not take the agent down.
+ */
+export async function checkAgentBudget(client: ConvexHttpClient): Promise<AgentBudgetExceededPayload | null> {
+  const limits = getAgentBudgetLimits();
+  if (limits.dailyUsd === null && limits.monthlyUsd === null) return null;
+
+  let spend: { dailyCostUsd: number; monthlyCostUsd: number };
+  try {
+    spend = await client.query(convexApi.usage.getMySpend, {});
+  } catch (error) {
+    console.warn('⚠️ [BUDGET] Failed to read spend ledger', error);
+    return null;
+  }
+
+  const now = new Date();
+  if (limits.monthlyUsd !== null && spend.monthlyCostUsd >= limits.monthlyUsd) {
+    return {
+      error: `Monthly agent budget of $${limits.monthlyUsd.toFixed(2)} reached.`,
+      code: 'budget_exceeded',
+      budget: {
+        period: 'monthly',
+        limitUsd: limits.monthlyUsd,
+        spentUsd: spend.monthlyCostUsd,
+        resetsAt: nextUtcMonth(now).toISOString(),
+      },
+    };
+  }
+  if (limits.dailyUsd !== null && spend.dailyCostUsd >= limits.dailyUsd) {
+    return {
+      error: `Daily agent budget of $${limits.dailyUsd.toFixed(2)} reached.`,
+      code: 'budget_exceeded',
+      budget: {
+        period: 'daily',
+        limitUsd: limits.dailyUsd,
+        spentUsd: spend.dailyCostUsd,
+        resetsAt: nextUtcDay(now).toISOString(),
+      },
+    };
+  }
+  return null;
+}
+
+export async function recordAgentUsage(
+  client: ConvexHttpClient,
+  entry: {
+    sessionId: string;
+    threadId?: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens?: number;
+    totalTokens: number;
+    costUsd: number;
+  },
+) {
+  try {
+    await client.mutation(convexApi.usage.recordUsage, entry);
+  } catch (error) {
+    console.warn('⚠️ [BUDGET] Failed to record usage', error);
+  }
+}
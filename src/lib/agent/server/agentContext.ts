@@ -0,0 +1,235 @@
+import type { UIMessage } from 'ai';
+import { stableHash } from '@/lib/agent/agentUtils';
+
+// Rolling context management for long agent threads: bulky tool payloads in
+// older turns are elided first; if the conversation is still over budget the
+// oldest turns are folded into a summary persisted on the thread.
+
+type ContextMessage = Omit<UIMessage, 'id'> & { id?: string; content?: string };
+type LoosePart = { type?: unknown; text?: unknown; input?: unknown; output?: unknown; state?: unknown; toolName?: unknown };
+
+// Rough chars-per-token ratio; good enough for budgeting
+const CHARS_PER_TOKEN = 4;
+// Message history budget (system prompt and tool schemas are extra)
+export const CONTEXT_TOKEN_BUDGET = 48_000;
+// Tool payloads in the most recent messages are always kept verbatim
+const KEEP_TOOL_PAYLOADS_RECENT = 4;
+// Never summarize the most recent messages
+const MIN_RECENT_MESSAGES = 6;
+// Keep roughly this share of the budget as verbatim recent history after summarizing
+const RECENT_SHARE = 0.6;
+const MAX_TRANSCRIPT_CHARS = 60_000;
+
+// Tools whose inputs/outputs carry file contents or long logs
+const BULKY_TOOLS = new Set(['web_fs_read', 'web_fs_write', 'web_fs_patch', 'web_exec', 'process_tail', 'web_fs_find', 'web_fs_grep', 'validate_project', 'run_tests', 'code_edit_ast', 'web_search']);
+
+export type ThreadSummaryState = {
+  summary?: string;
+  // messageAnchor of the last message folded into the summary
+  summaryThroughHash?: string;
+};
+
+export type CompactionResult<M extends ContextMessage> = {
+  messages: M[];
+  summary?: string;
+  summaryThroughHash?: string;
+  // True when a new summary was produced and should be persisted
+  summaryChanged: boolean;
+  elidedParts: number;
+  estimatedTokens: number;
+};
+
+export type Summarizer = (args: { previousSummary?: string; transcript: string }) => Promise<string>;
+
+function partsOf(message: ContextMessage): LoosePart[] {
+  return Array.isArray(message.parts) ? (message.parts as unknown as LoosePart[]) : [];
+}
+
+function textOf(message: ContextMessage): string {
+  const fromParts = partsOf(message)
+    .filter((part) => part.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text as string)
+    .join('');
+  if (fromParts) return fromParts;
+  return typeof message.content === 'string' ? message.content : '';
+}
+
+export function messageHash(message: ContextMessage): string {
+  let parts = '';
+  try {
+    parts = JSON.stringify(message.parts ?? message.content ?? '');
+  } catch {
+    parts = textOf(message);
+  }
+  return stableHash(`${message.role}|${parts}`);
+}
+
+/** The message id when there is one; otherwise a hash of the role and every part. */
+export function messageAnchor(message: ContextMessage): string {
+  return message.id ? `id:${message.id}` : messageHash(message);
+}
+
+function toolNameOf(part: LoosePart): string | null {
+  if (typeof part.type !== 'string') return null;
+  if (part.type === 'dynamic-tool') return typeof part.toolName === 'string' ? part.toolName : null;
+  return part.type.startsWith('tool-') ? part.type.slice('tool-'.length) : null;
+}
+
+export function estimateTokens(messages: ContextMessage[]): number {
+  let chars = 0;
+  for (const message of messages) {
+    try {
+      chars += JSON.stringify(message.parts ?? message.content ?? '').length;
+    } catch {
+      chars += textOf(message).length;
+    }
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+function pickString(value: unknown, key: string): string | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const field = (value as Record<string, unknown>)[key];
+  return typeof field === 'string' ? field : undefined;
+}
+
+// Replace a tool part's heavy input/output with a short stub the model can act on
+function elidePart(part: LoosePart, toolName: string): LoosePart {
+  const path = pickString(part.input, 'path');
+  const note = path
+    ? `[elided ${toolName} payload for ${path}; call web_fs_read again if you need the current contents]`
+    : `[elided ${toolName} payload from an earlier turn]`;
+  const next: LoosePart = { ...part };
+  if (toolName === 'web_fs_write' && part.input && typeof part.input === 'object') {
+    const { content: _content, ...rest } = part.input as Record<string, unknown>;
+    next.input = { ...rest, content: note };
+  }
+  if (toolName === 'web_fs_patch' && part.input && typeof part.input === 'object') {
+    next.input = { ...(part.input as Record<string, unknown>), patch: note };
+  }
+  if (part.output !== undefined) {
+    next.output = { elided: true, note, ...(path ? { path } : {}) };
+  }
+  return next;
+}
+
+/**
+ * Elides bulky tool payloads outside the most recent messages. Returns new
+ * message objects; the input array is not mutated.
+ */
+export function elideBulkyToolOutputs<M extends ContextMessage>(messages: M[], keepRecent = KEEP_TOOL_PAYLOADS_RECENT): { messages: M[]; elided: number } {
+  let elided = 0;
+  const cutoff = Math.max(0, messages.length - keepRecent);
+  const out = messages.map((message, index) => {
+    if (index >= cutoff || !Array.isArray(message.parts)) return message;
+    let changed = false;
+    const parts = partsOf(message).map((part) => {
+      const toolName = toolNameOf(part);
+      if (!toolName || !BULKY_TOOLS.has(toolName)) return part;
+      changed = true;
+      elided += 1;
+      return elidePart(part, toolName);
+    });
+    return changed ? ({ ...message, parts: parts as unknown as M['parts'] } as M) : message;
+  });
+  return { messages: out, elided };
+}
+
+function transcriptLine(message: ContextMessage): string {
+  const lines: string[] = [];
+  const text = textOf(message).trim();
+  if (text) lines.push(`${message.role.toUpperCase()}: ${text}`);
+  for (const part of partsOf(message)) {
+    const toolName = toolNameOf(part);
+    if (!toolName) continue;
+    const path = pickString(part.input, 'path');
+    const error = pickString(part.output, 'error');
+    lines.push(`  [tool ${toolName}${path ? ` ${path}` : ''}${error ? ` -> error: ${error.slice(0, 200)}` : ''}]`);
+  }
+  return lines.join('\n');
+}
+
+function buildTranscript(messages: ContextMessage[]): string {
+  const full = messages.map(transcriptLine).filter(Boolean).join('\n');
+  // Keep the tail when the backlog is huge; the previous summary covers what came before
+  return full.length > MAX_TRANSCRIPT_CHARS ? `…\n${full.slice(-MAX_TRANSCRIPT_CHARS)}` : full;
+}
+
+/**
+ * Drops messages already covered by the stored summary, elides bulky tool
+ * payloads and, when still over budget, summarizes the oldest turns.
+ */
+export async function compactConversation<M extends ContextMessage>(
+  input: M[],
+  state: ThreadSummaryState,
+  summarize: Summarizer,
+  budget = CONTEXT_TOKEN_BUDGET,
+): Promise<CompactionResult<M>> {
+  let messages = input;
+  let summary = state.summary;
+  let summaryThroughHash = state.summaryThroughHash;
+
+  // 1) Skip everything up to the last message already folded into the summary.
+  // An anchor matching several messages is ambiguous, so nothing is skipped.
+  if (summary && summaryThroughHash) {
+    let coveredIdx = -1;
+    let matches = 0;
+    for (let i = 0; i < messages.length; i++) {
+      if (messageAnchor(messages[i]) !== summaryThroughHash) continue;
+      coveredIdx = i;
+      matches += 1;
+    }
+    if (matches === 1 && coveredIdx < messages.length - 1) {
+      messages = messages.slice(coveredIdx + 1);
+    }
+  }
+
+  // 2) Elide bulky tool payloads from older turns
+  const elision = elideBulkyToolOutputs(messages);
+  messages = elision.messages;
+  let estimatedTokens = estimateTokens(messages);
+  if (estimatedTokens <= budget || messages.length <= MIN_RECENT_MESSAGES) {
+    return { messages, summary, summaryThroughHash, summaryChanged: false, elidedParts: elision.elided, estimatedTokens };
+  }
+
+  // 3) Walk back from the end to find how much recent history fits verbatim
+  const recentBudget = Math.floor(budget * RECENT_SHARE);
+  let splitIdx = messages.length - MIN_RECENT_MESSAGES;
+  let recentTokens = estimateTokens(messages.slice(splitIdx));
+  while (splitIdx > 0) {
+    const candidate = estimateTokens([messages[splitIdx - 1]]);
+    if (recentTokens + candidate > recentBudget) break;
+    recentTokens += candidate;
+    splitIdx -= 1;
+  }
+  // Start the kept window on a user turn so the model sees a coherent exchange
+  while (splitIdx < messages.length - 1 && messages[splitIdx].role !== 'user') splitIdx += 1;
+  if (splitIdx <= 0) {
+    return { messages, summary, summaryThroughHash, summaryChanged: false, elidedParts: elision.elided, estimatedTokens };
+  }
+
+  const older = messages.slice(0, splitIdx);
+  try {
+    const next = (await summarize({ previousSummary: summary, transcript: buildTranscript(older) })).trim();
+    if (next) {
+      summary = next;
+      summaryThroughHash = messageAnchor(older[older.length - 1]);
+      messages = messages.slice(splitIdx);
+      estimatedTokens = estimateTokens(messages);
+      return { messages, summary, summaryThroughHash, summaryChanged: true, elidedParts: elision.elided, estimatedTokens };
+    }
+  } catch (error) {
+    console.warn('⚠️ [CONTEXT] Summarization failed; sending elided history', error);
+  }
+  return { messages, summary, summaryThroughHash, summaryChanged: false, elidedParts: elision.elided, estimatedTokens };
+}
+
+export const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and a coding agent working inside a WebContainer desktop.
+Merge the previous summary (if any) with the new transcript into one concise summary (at most ~400 words).
+Keep: the user's goals and preferences, apps and files created or changed (with paths), decisions made, unresolved errors and open TODOs.
+Drop: pleasantries, file contents, and step-by-step tool chatter. Write plain prose or short bullets, no preamble.`;
+
+export function buildSummaryPrompt(args: { previousSummary?: string; transcript: string }): string {
+  const previous = args.previousSummary ? `Previous summary:\n${args.previousSummary}\n\n` : '';
+  return `${previous}New transcript:\n${args.transcript}`;
+}
@@ -0,0 +1,208 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { auth } from '@clerk/nextjs/server';
+import {
+  agentLogger,
+  clampLogLimit,
+  matchesLogDeleteFilter,
+  matchesLogQuery,
+  MemoryAgentLogStore,
+  toEpochMs,
+  type AgentLogDeleteFilter,
+  type AgentLogEntry,
+  type AgentLogOwnerResolver,
+  type AgentLogQuery,
+  type AgentLogStore,
+} from '@/lib/agentLogger';
+import { api as convexApi } from '../../../../convex/_generated/api';
+import { getConvexClientOptional } from './agentServerHelpers';
+
+// Convex documents are capped at 1MB; keep individual log payloads well below that
+const MAX_CONVEX_DATA_CHARS = 64 * 1024;
+
+function toConvexData(data: AgentLogEntry['data']): unknown {
+  // JSON round-trip drops undefined/functions so the payload is a valid Convex value
+  let json: string;
+  try {
+    json = JSON.stringify(data) ?? '{}';
+  } catch {
+    return { error: 'unserializable log data' };
+  }
+  if (json.length <= MAX_CONVEX_DATA_CHARS) return JSON.parse(json);
+  const { toolInput, toolOutput, content, ...rest } = data;
+  const preview = (value: unknown) => {
+    try {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return text ? `${text.slice(0, 2000)}...` : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  return JSON.parse(
+    JSON.stringify({
+      ...rest,
+      content: content ? preview(content) : undefined,
+      toolInput: toolInput !== undefined ? preview(toolInput) : undefined,
+      toolOutput: toolOutput !== undefined ? preview(toolOutput) : undefined,
+      truncated: true,
+    }),
+  );
+}
+
+/** Clerk user of the current request; undefined outside a signed-in request. */
+export async function currentLogOwner(): Promise<string | undefined> {
+  try {
+    const { userId } = await auth();
+    return userId ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Persists logs in the `agent_logs` Convex table, scoped to the signed-in user.
+ * Requests without a Clerk/Convex token are not persisted (console only).
+ */
+export class ConvexAgentLogStore implements AgentLogStore {
+  readonly name = 'convex';
+
+  async append(entry: AgentLogEntry): Promise<void> {
+    const client = await getConvexClientOptional();
+    if (!client) return;
+    await client.mutation(convexApi.agentLogs.append, {
+      sessionId: entry.sessionId,
+      type: entry.type,
+      toolName: entry.data.toolName,
+      data: toConvexData(entry.data),
+      createdAt: Date.parse(entry.timestamp) || Date.now(),
+    });
+  }
+
+  async query(query: AgentLogQuery): Promise<AgentLogEntry[]> {
+    const client = await getConvexClientOptional();
+    if (!client) return [];
+    const rows = await client.query(convexApi.agentLogs.list, {
+      sessionId: query.sessionId,
+      type: query.type,
+      toolName: query.toolName,
+      from: toEpochMs(query.from),
+      to: toEpochMs(query.to),
+      limit: clampLogLimit(query.limit),
+    });
+    return rows.map((row) => ({
+      timestamp: new Date(row.createdAt).toISOString(),
+      sessionId: row.sessionId,
+      type: row.type,
+      data: (row.data ?? {}) as AgentLogEntry['data'],
+    }));
+  }
+
+  // Convex scopes every call to the token's user, so ownerId is implied
+  async delete(filter: AgentLogDeleteFilter): Promise<number> {
+    const client = await getConvexClientOptional();
+    if (!client) return 0;
+    let deleted = 0;
+    for (;;) {
+      const res = await client.mutation(convexApi.agentLogs.remove, { sessionId: filter.sessionId });
+      deleted += res.deleted;
+      if (!res.hasMore) break;
+    }
+    return deleted;
+  }
+}
+
+/**
+ * Appends logs as JSON lines to a local file. Intended for development and
+ * self-hosted setups where the filesystem is writable. Entries are stamped
+ * with the signed-in user so reads and deletes can be scoped to them.
+ */
+export class FileAgentLogStore implements AgentLogStore {
+  readonly name = 'file';
+  // Serialize writes so appends and rewrites never interleave
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly resolveOwner?: AgentLogOwnerResolver,
+  ) {}
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task, task);
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private async readAll(): Promise<AgentLogEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch {
+      return [];
+    }
+    const entries: AgentLogEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AgentLogEntry);
+      } catch {}
+    }
+    return entries;
+  }
+
+  async append(entry: AgentLogEntry): Promise<void> {
+    const ownerId = entry.ownerId ?? (await this.resolveOwner?.());
+    const stamped = ownerId ? { ...entry, ownerId } : entry;
+    await this.enqueue(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(stamped)}\n`, 'utf-8');
+    });
+  }
+
+  async query(query: AgentLogQuery): Promise<AgentLogEntry[]> {
+    const entries = await this.enqueue(() => this.readAll());
+    const limit = clampLogLimit(query.limit);
+    const out: AgentLogEntry[] = [];
+    for (let i = entries.length - 1; i >= 0 && out.length < limit; i--) {
+      if (matchesLogQuery(entries[i], query)) out.push(entries[i]);
+    }
+    return out;
+  }
+
+  async delete(filter: AgentLogDeleteFilter): Promise<number> {
+    return this.enqueue(async () => {
+      const entries = await this.readAll();
+      const kept = entries.filter((e) => !matchesLogDeleteFilter(e, filter));
+      if (kept.length === entries.length) return 0;
+      const body = kept.map((e) => JSON.stringify(e)).join('\n');
+      await fs.writeFile(this.filePath, body ? `${body}\n` : '', 'utf-8');
+      return entries.length - kept.length;
+    });
+  }
+}
+
+export function createAgentLogStore(): AgentLogStore {
+  const configured = (process.env.AGENT_LOG_STORE || '').trim().toLowerCase();
+  const kind = configured || (process.env.NEXT_PUBLIC_CONVEX_URL ? 'convex' : 'file');
+  switch (kind) {
+    case 'convex':
+      return new ConvexAgentLogStore();
+    case 'file':
+      return new FileAgentLogStore(process.env.AGENT_LOG_FILE || path.join(process.cwd(), '.tmp', 'agent-logs.jsonl'), currentLogOwner);
+    case 'memory':
+      return new MemoryAgentLogStore(undefined, currentLogOwner);
+    default:
+      console.warn(`[AgentLogger] Unknown AGENT_LOG_STORE "${configured}", falling back to memory`);
+      return new MemoryAgentLogStore(undefined, currentLogOwner);
+  }
+}
+
+let installed = false;
+
+/** Installs the configured persistent store on the shared agentLogger (idempotent). */
+export function ensureServerAgentLogStore(): AgentLogStore {
+  if (!installed) {
+    agentLogger.setStore(createAgentLogStore());
+    installed = true;
+  }
+  return agentLogger.getStore();
+}
@@ -0,0 +1,150 @@
+import { APICallError } from 'ai';
+import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
+
+type StreamResult = Awaited<ReturnType<LanguageModelV2['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer P> ? P : never;
+
+export type FallbackCandidate = {
+  id: string;
+  model: LanguageModelV2;
+};
+
+export type FallbackHooks = {
+  // Called once per step with the candidate that is actually serving it
+  onSelected?: (id: string) => void;
+  onFallback?: (from: string, to: string, error: unknown) => void;
+};
+
+// Parts a provider may emit before any model output; an error right after them is still safe to retry
+const PREAMBLE_PARTS = new Set<StreamPart['type']>(['stream-start', 'response-metadata']);
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+}
+
+/**
+ * Whether a failed call should move on to the next model. Provider outages,
+ * rate limits, timeouts and "no endpoint for this model" qualify; request
+ * errors that would fail the same way everywhere (e.g. 400/401) do not.
+ */
+export function shouldFallback(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    if (status === undefined) return true;
+    if (status === 404 || status === 408 || status === 409 || status === 429 || status >= 500) return true;
+    return error.isRetryable;
+  }
+  return true;
+}
+
+function describeError(error: unknown): string {
+  if (APICallError.isInstance(error)) return `${error.statusCode ?? 'network'} ${error.message}`;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Wraps an ordered list of models into a single LanguageModelV2 that tries each
+ * in turn. Streams are committed to a model once it emits its first real part,
+ * so fallbacks never duplicate or splice partial output.
+ */
+export function createFallbackModel(candidates: FallbackCandidate[], hooks: FallbackHooks = {}): LanguageModelV2 {
+  if (candidates.length === 0) throw new Error('createFallbackModel requires at least one model');
+  const primary = candidates[0];
+
+  const handleFailure = (index: number, error: unknown) => {
+    const next = candidates[index + 1];
+    if (!next || !shouldFallback(error)) throw error;
+    console.warn(`⚠️ [MODEL] ${candidates[index].id} failed (${describeError(error)}); falling back to ${next.id}`);
+    hooks.onFallback?.(candidates[index].id, next.id, error);
+  };
+
+  return {
+    specificationVersion: 'v2',
+    provider: primary.model.provider,
+    modelId: primary.model.modelId,
+    supportedUrls: primary.model.supportedUrls,
+
+    async doGenerate(options) {
+      for (let i = 0; i < candidates.length; i++) {
+        try {
+          const result = await candidates[i].model.doGenerate(options);
+          hooks.onSelected?.(candidates[i].id);
+          return result;
+        } catch (error) {
+          handleFailure(i, error);
+        }
+      }
+      throw new Error('All fallback models failed');
+    },
+
+    async doStream(options) {
+      for (let i = 0; i < candidates.length; i++) {
+        const isLast = i === candidates.length - 1;
+        let result: StreamResult;
+        try {
+          result = await candidates[i].model.doStream(options);
+        } catch (error) {
+          handleFailure(i, error);
+          continue;
+        }
+
+        // Peek until the first real part so an immediate error can still fall back
+        const reader = result.stream.getReader();
+        const buffered: StreamPart[] = [];
+        let failure: unknown = undefined;
+        let done = false;
+        for (;;) {
+          let chunk: ReadableStreamReadResult<StreamPart>;
+          try {
+            chunk = await reader.read();
+          } catch (error) {
+            // The stream itself rejected (e.g. connection reset) before any output
+            failure = error ?? new Error('Model stream failed');
+            break;
+          }
+          if (chunk.done) {
+            done = true;
+            break;
+          }
+          const part = chunk.value;
+          if (part.type === 'error' && !isLast) {
+            failure = part.error ?? new Error('Model stream failed');
+            break;
+          }
+          buffered.push(part);
+          if (!PREAMBLE_PARTS.has(part.type)) break;
+        }
+
+        if (failure !== undefined) {
+          try { await reader.cancel(); } catch {}
+          handleFailure(i, failure);
+          continue;
+        }
+
+        hooks.onSelected?.(candidates[i].id);
+        const stream = new ReadableStream<StreamPart>({
+          start(controller) {
+            for (const part of buffered) controller.enqueue(part);
+            if (done) controller.close();
+          },
+          async pull(controller) {
+            if (done) return;
+            const chunk = await reader.read();
+            if (chunk.done) {
+              done = true;
+              controller.close();
+              return;
+            }
+            controller.enqueue(chunk.value);
+          },
+          async cancel(reason) {
+            await reader.cancel(reason);
+          },
+        });
+        return { ...result, stream };
+      }
+      throw new Error('All fallback models failed');
+    },
+  };
+}
@@ -57,6 +57,16 @@ export function sanitizeToolInput(toolName: string, input: Record<string, unknow
         contentPreview: contentString ? `${contentString.slice(0, 100)}${contentString.length > 100 ? '...' : ''}` : undefined,
       };
     }
+    if (toolName === 'web_fs_patch' && input) {
+      const patch = typeof input['patch'] === 'string' ? (input['patch'] as string) : '';
+      const files = Array.from(patch.matchAll(/^\+\+\+ (?:b\/)?(\S+)/gm), (m) => m[1]).filter((f) => f !== '/dev/null');
+      return {
+        files,
+        patchSize: new TextEncoder().encode(patch).length,
+        fuzzFactor: typeof input['fuzzFactor'] === 'number' ? (input['fuzzFactor'] as number) : undefined,
+        dryRun: typeof input['dryRun'] === 'boolean' ? (input['dryRun'] as boolean) : undefined,
+      };
+    }
     if (toolName === 'web_fs_read') {
       return {
         path: typeof input?.['path'] === 'string' ? (input['path'] as string) : undefined,
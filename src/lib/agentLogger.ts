@@ -1,6 +1,10 @@
+import { estimateCostUsd } from '@/lib/agent/agentPricing';
+
 export interface AgentLogEntry {
   timestamp: string;
   sessionId: string;
+  // Signed-in user the entry belongs to; stamped by the store on append
+  ownerId?: string;
   type: 'message' | 'tool_call' | 'token_usage' | 'error';
   data: {
     // Message data
@@ -28,11 +32,173 @@ export interface AgentLogEntry {
   };
 }
 
+export type AgentLogType = AgentLogEntry['type'];
+
+export interface AgentLogQuery {
+  // Only this user's entries; entries without an owner never match
+  ownerId?: string;
+  sessionId?: string;
+  toolName?: string;
+  type?: AgentLogType;
+  // ISO timestamps or epoch milliseconds (inclusive)
+  from?: string | number;
+  to?: string | number;
+  limit?: number;
+}
+
+export interface AgentSessionSummary {
+  totalMessages: number;
+  totalToolCalls: number;
+  totalTokens: number;
+  totalCost: number;
+  duration: number;
+  toolCallBreakdown: Record<string, number>;
+}
+
+/**
+ * Storage backend for agent logs. The default keeps a small in-memory buffer so
+ * this module stays browser-safe; server routes install a persistent store
+ * (Convex or local file) via `agentLogger.setStore`.
+ */
+export interface AgentLogStore {
+  readonly name: string;
+  append(entry: AgentLogEntry): Promise<void>;
+  // Returns matching entries, newest first
+  query(query: AgentLogQuery): Promise<AgentLogEntry[]>;
+  // Deletes matching entries; returns how many were removed
+  delete(filter: AgentLogDeleteFilter): Promise<number>;
+}
+
+export type AgentLogDeleteFilter = { ownerId?: string; sessionId?: string };
+
+// Resolves the signed-in user for the current request, if any
+export type AgentLogOwnerResolver = () => Promise<string | undefined>;
+
+export const DEFAULT_LOG_QUERY_LIMIT = 100;
+export const MAX_LOG_QUERY_LIMIT = 5000;
+
+export function toEpochMs(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) return numeric;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+export function clampLogLimit(limit: number | undefined): number {
+  if (!limit || !Number.isFinite(limit) || limit <= 0) return DEFAULT_LOG_QUERY_LIMIT;
+  return Math.min(Math.floor(limit), MAX_LOG_QUERY_LIMIT);
+}
+
+export function matchesLogQuery(entry: AgentLogEntry, query: AgentLogQuery): boolean {
+  if (query.ownerId !== undefined && entry.ownerId !== query.ownerId) return false;
+  if (query.sessionId && entry.sessionId !== query.sessionId) return false;
+  if (query.type && entry.type !== query.type) return false;
+  if (query.toolName && entry.data.toolName !== query.toolName) return false;
+  const from = toEpochMs(query.from);
+  const to = toEpochMs(query.to);
+  if (from !== undefined || to !== undefined) {
+    const ts = Date.parse(entry.timestamp);
+    if (from !== undefined && ts < from) return false;
+    if (to !== undefined && ts > to) return false;
+  }
+  return true;
+}
+
+export function summarizeLogs(entries: AgentLogEntry[]): AgentSessionSummary {
+  const summary: AgentSessionSummary = {
+    totalMessages: 0,
+    totalToolCalls: 0,
+    totalTokens: 0,
+    totalCost: 0,
+    duration: 0,
+    toolCallBreakdown: {},
+  };
+  let first = Number.POSITIVE_INFINITY;
+  let last = Number.NEGATIVE_INFINITY;
+  for (const entry of entries) {
+    const ts = Date.parse(entry.timestamp);
+    if (!Number.isNaN(ts)) {
+      first = Math.min(first, ts);
+      last = Math.max(last, ts);
+    }
+    if (entry.type === 'message') summary.totalMessages += 1;
+    if (entry.type === 'tool_call') {
+      summary.totalToolCalls += 1;
+      const name = entry.data.toolName ?? 'unknown';
+      summary.toolCallBreakdown[name] = (summary.toolCallBreakdown[name] ?? 0) + 1;
+    }
+    if (entry.type === 'token_usage') {
+      summary.totalTokens += entry.data.totalTokens ?? 0;
+      summary.totalCost += entry.data.estimatedCost ?? 0;
+    }
+  }
+  if (Number.isFinite(first) && Number.isFinite(last)) {
+    summary.duration = last - first;
+  }
+  return summary;
+}
+
+/** Entries the delete filter removes; a filter without an owner or session matches everything. */
+export function matchesLogDeleteFilter(entry: AgentLogEntry, filter: AgentLogDeleteFilter): boolean {
+  if (filter.ownerId !== undefined && entry.ownerId !== filter.ownerId) return false;
+  if (filter.sessionId && entry.sessionId !== filter.sessionId) return false;
+  return true;
+}
+
+/**
+ * Bounded in-memory store. Used by default (and in the browser) so logs are at
+ * least queryable for the lifetime of the process.
+ */
+export class MemoryAgentLogStore implements AgentLogStore {
+  readonly name = 'memory';
+  private entries: AgentLogEntry[] = [];
+
+  constructor(
+    private readonly maxEntries: number = 2000,
+    private readonly resolveOwner?: AgentLogOwnerResolver,
+  ) {}
+
+  async append(entry: AgentLogEntry): Promise<void> {
+    const ownerId = entry.ownerId ?? (await this.resolveOwner?.());
+    this.entries.push(ownerId ? { ...entry, ownerId } : entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  async query(query: AgentLogQuery): Promise<AgentLogEntry[]> {
+    const limit = clampLogLimit(query.limit);
+    const out: AgentLogEntry[] = [];
+    for (let i = this.entries.length - 1; i >= 0 && out.length < limit; i--) {
+      if (matchesLogQuery(this.entries[i], query)) out.push(this.entries[i]);
+    }
+    return out;
+  }
+
+  async delete(filter: AgentLogDeleteFilter): Promise<number> {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((e) => !matchesLogDeleteFilter(e, filter));
+    return before - this.entries.length;
+  }
+}
+
 class AgentLogger {
+  private store: AgentLogStore = new MemoryAgentLogStore();
+
   private generateSessionId(): string {
     return `session_${Date.now()}_${Math.random().toString(36).slice(2)}`;
   }
 
+  setStore(store: AgentLogStore) {
+    this.store = store;
+  }
+
+  getStore(): AgentLogStore {
+    return this.store;
+  }
+
   async logEntry(entry: Omit<AgentLogEntry, 'timestamp'>) {
     const logEntry: AgentLogEntry = {
       timestamp: new Date().toISOString(),
@@ -41,6 +207,13 @@ class AgentLogger {
 
     // Log to console for development
     console.log(`[AgentLog] ${logEntry.type}:`, logEntry.data);
+
+    // Persisting must never break the agent loop
+    try {
+      await this.store.append(logEntry);
+    } catch (error) {
+      console.warn(`[AgentLogger] Failed to persist log entry to ${this.store.name} store:`, error);
+    }
   }
   
   async logMessage(sessionId: string, messageId: string, role: 'user' | 'assistant', content: string) {
@@ -81,11 +254,13 @@ class AgentLogger {
     promptTokens: number,
     completionTokens: number,
     totalTokens: number,
-    model: string = 'claude-3-5-sonnet-20241022',
+    model: string,
     estimatedCost?: number
   ) {
-    // Use provided cost or calculate as fallback
-    const cost = estimatedCost !== undefined ? estimatedCost : totalTokens * this.getCostPerToken(model);
+    // Use provided cost or calculate from the pricing table as fallback
+    const cost = estimatedCost !== undefined
+      ? estimatedCost
+      : estimateCostUsd(model, { inputTokens: promptTokens, outputTokens: completionTokens });
     
     await this.logEntry({
       sessionId,
@@ -112,44 +287,17 @@ class AgentLogger {
     });
   }
   
-  private getCostPerToken(model: string): number {
-    // Approximate costs per token (in USD) - update these based on current pricing
-    const costMap: Record<string, number> = {
-      'qwen3-coder': 0.000002, // $2 per 1M tokens (as used in route.ts)
-      'claude-3-5-sonnet-20241022': 0.000003, // $3 per 1M tokens (rough average of input/output)
-      'claude-3-haiku-20240307': 0.00000025, // $0.25 per 1M tokens
-      'gpt-4o': 0.0000025, // $2.5 per 1M tokens (rough average)
-      'gpt-4o-mini': 0.00000015, // $0.15 per 1M tokens
-    };
-    
-    return costMap[model] || 0.000002; // Default to qwen3-coder pricing
+  async getRecentLogs(limit: number = DEFAULT_LOG_QUERY_LIMIT, filters: Omit<AgentLogQuery, 'limit'> = {}): Promise<AgentLogEntry[]> {
+    return this.store.query({ ...filters, limit });
   }
-  
-  async getRecentLogs(limit: number = 100): Promise<AgentLogEntry[]> {
-    // Return empty array since we're not storing logs to files
-    console.log(`[AgentLogger] getRecentLogs called with limit ${limit} - returning empty array`);
-    return [];
-  }
-
-  async getSessionSummary(sessionId: string): Promise<{
-    totalMessages: number;
-    totalToolCalls: number;
-    totalTokens: number;
-    totalCost: number;
-    duration: number;
-    toolCallBreakdown: Record<string, number>;
-  }> {
-    console.log(`[AgentLogger] getSessionSummary called for session ${sessionId} - returning empty summary`);
-
-    // Return empty summary since we don't have persistent logs
-    return {
-      totalMessages: 0,
-      totalToolCalls: 0,
-      totalTokens: 0,
-      totalCost: 0,
-      duration: 0,
-      toolCallBreakdown: {},
-    };
+
+  async getSessionSummary(sessionId: string, ownerId?: string): Promise<AgentSessionSummary> {
+    const entries = await this.store.query({ sessionId, ownerId, limit: MAX_LOG_QUERY_LIMIT });
+    return summarizeLogs(entries);
+  }
+
+  async deleteLogs(filter: AgentLogDeleteFilter = {}): Promise<number> {
+    return this.store.delete(filter);
   }
 }
 
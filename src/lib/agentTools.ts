@@ -16,6 +16,19 @@ export const WebFsFindInput = z.object({
   responseFormat: ResponseFormat.optional().describe('concise (default) or detailed.'),
 });
 
+export const WebFsGrepInput = z.object({
+  pattern: z.string().min(1).describe('Text or JavaScript regular expression to search file contents for (matched per line).'),
+  literal: z.boolean().default(false).describe('Treat pattern as plain text instead of a regex.'),
+  ignoreCase: z.boolean().default(false).describe('Case-insensitive matching.'),
+  root: z.string().default('.').describe('Start directory. Narrow it (e.g., "src/apps/notes") when you can.'),
+  glob: z.string().optional().describe('Optional glob on file paths (e.g., "**/*.tsx").'),
+  maxDepth: z.number().int().min(0).max(20).default(10).describe('Max directory depth to walk.'),
+  contextLines: z.number().int().min(0).max(5).default(0).describe('Lines of context before/after each match.'),
+  maxMatches: z.number().int().min(1).max(1000).default(200).describe('Stop searching after this many matching lines.'),
+  limit: z.number().int().min(1).max(200).default(50).describe('Matches per page (default 50).'),
+  offset: z.number().int().min(0).default(0).describe('Pagination offset.'),
+});
+
 export const WebFsReadInput = z.object({
   path: z.string().describe('Exact file path to read. Read only what you need.'),
   encoding: z.enum(['utf-8', 'base64']).default('utf-8').describe('Decoding for contents.'),
@@ -28,6 +41,12 @@ export const WebFsWriteInput = z.object({
   createDirs: z.boolean().default(true).describe('Create parent directories when needed.'),
 });
 
+export const WebFsPatchInput = z.object({
+  patch: z.string().describe('Unified diff (---/+++ headers and @@ hunks) touching one or more files. Use /dev/null to create or delete a file.'),
+  fuzzFactor: z.number().int().min(0).max(5).default(2).describe('Context lines per hunk allowed to mismatch (0 = exact).'),
+  dryRun: z.boolean().default(false).describe('If true, check that the patch applies without writing.'),
+});
+
 export const WebFsRmInput = z.object({
   path: z.string().describe('File or directory path to remove.'),
   recursive: z.boolean().default(true).describe('Remove directories recursively. Destructive—use with care.'),
@@ -38,6 +57,23 @@ export const WebExecInput = z.object({
   command: z.string().describe('CLI to run. Use for package management only (e.g., pnpm add). Do NOT run dev/build/start servers.'),
   args: z.array(z.string()).default([]).describe('Arguments for the command.'),
   cwd: z.string().optional().describe('Working directory (optional).'),
+  waitSeconds: z.number().int().min(0).max(300).default(90).describe('Wait this long for the command to finish; if still running, returns a processId to follow with process_tail.'),
+  timeoutSeconds: z.number().int().min(5).max(1800).default(600).describe('Kill the command after this long.'),
+});
+
+// Processes started by web_exec
+export const ProcessListInput = z.object({
+  includeFinished: z.boolean().default(true).describe('Also list recently finished processes.'),
+});
+
+export const ProcessTailInput = z.object({
+  processId: z.string().describe('Process id returned by web_exec (e.g., "proc_3").'),
+  lines: z.number().int().min(1).max(500).default(60).describe('Number of trailing output lines to return.'),
+  waitSeconds: z.number().int().min(0).max(120).default(0).describe('Wait up to this long for the process to finish before reading.'),
+});
+
+export const ProcessKillInput = z.object({
+  processId: z.string().describe('Process id returned by web_exec.'),
 });
 
 // App management
@@ -52,19 +88,63 @@ export const AppManageInput = z.object({
 export const ValidateProjectInput = z.object({
   scope: z.enum(['quick', 'full']).default('quick').describe('quick: typecheck + lint; full: also runs production build.'),
   files: z.array(z.string()).optional().describe('Optional explicit file list to lint.'),
+  minSeverity: z
+    .enum(['error', 'warning', 'info'])
+    .default('error')
+    .describe('Lowest severity to include in the report (default error).'),
+  failOn: z
+    .enum(['error', 'warning', 'info'])
+    .default('error')
+    .describe('Lowest severity that makes ok=false (default error).'),
+  maxDiagnostics: z.number().int().min(1).max(500).default(50).describe('Max diagnostics returned; errors come first.'),
+});
+
+// Tests
+export const RunTestsInput = z.object({
+  appId: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]*$/)
+    .optional()
+    .describe('App id whose tests to run (src/apps/<id>); omit to run every app test.'),
+  testNamePattern: z.string().optional().describe('Only run tests whose name matches this pattern (vitest -t).'),
+  timeoutSeconds: z.number().int().min(10).max(900).default(180).describe('Stop the test run after this long.'),
 });
 
 // Code editing
 export const CodeEditAstInput = z.object({
   path: z.string().describe('File path to edit (TypeScript/JavaScript/TSX/JSX).'),
   action: z
-    .enum(['upsertImport', 'updateFunctionBody', 'replaceJsxElement', 'replaceJsxAttributes', 'insertAfterLastImport', 'insertAtTop'])
+    .enum([
+      'upsertImport',
+      'removeImport',
+      'updateFunctionBody',
+      'updateVariableInitializer',
+      'renameIdentifier',
+      'replaceJsxElement',
+      'replaceJsxAttributes',
+      'wrapJsxElement',
+      'insertJsxChild',
+      'addUseStateHook',
+      'insertAfterLastImport',
+      'insertAtTop',
+    ])
     .describe('Type of AST edit to perform.'),
   selector: z
     .object({
-      functionName: z.string().optional().describe('Function name (for updateFunctionBody).'),
+      functionName: z.string().optional().describe('Function name (for updateFunctionBody; component name for addUseStateHook, defaults to the default export; for renameIdentifier and updateVariableInitializer, the top-level function whose local binding to change).'),
       exported: z.boolean().optional().describe('Whether the function is exported (for updateFunctionBody).'),
-      jsxTag: z.string().optional().describe('JSX tag (for replaceJsx* actions).'),
+      jsxSelector: z
+        .string()
+        .optional()
+        .describe('CSS-like JSX selector for replaceJsx*, wrapJsxElement, insertJsxChild: tag, [attr="v"], [className~="token"], Parent > child, ancestor descendant, :nth(n). Must match exactly one element.'),
+      jsxTag: z.string().optional().describe('Plain JSX tag name; shorthand for jsxSelector.'),
+      identifier: z.string().optional().describe('Identifier to rename (for renameIdentifier). Only the module-level binding, or the one in selector.functionName, and its references are renamed; shadowing locals are left alone.'),
+      variableName: z.string().optional().describe('Variable name (for updateVariableInitializer). The module-level declaration is changed unless selector.functionName names the function holding the local.'),
+      module: z.string().optional().describe('Import source (for removeImport).'),
+      specifiers: z
+        .array(z.string())
+        .optional()
+        .describe('Local names to drop (for removeImport). Omit to remove the whole import.'),
     })
     .optional()
     .describe('Selector to find target element.'),
@@ -84,6 +164,17 @@ export const CodeEditAstInput = z.object({
         .optional()
         .describe('JSX attributes to set (for replaceJsxAttributes).'),
       insertText: z.string().optional().describe('Text to insert (for insertAfterLastImport/insertAtTop).'),
+      newName: z.string().optional().describe('New identifier name (for renameIdentifier).'),
+      initializer: z.string().optional().describe('Expression source for the new initializer (for updateVariableInitializer).'),
+      jsxWrapper: z
+        .string()
+        .optional()
+        .describe('Wrapper JSX element, e.g. <div className="card" /> (for wrapJsxElement). Its children are replaced by the target.'),
+      jsxChild: z.string().optional().describe('JSX to insert as a child (for insertJsxChild).'),
+      position: z.enum(['start', 'end']).optional().describe('Where to insert the child (for insertJsxChild, default end).'),
+      stateName: z.string().optional().describe('State variable name; setter is derived, e.g. count -> setCount (for addUseStateHook).'),
+      initialValue: z.string().optional().describe('Initial value expression (for addUseStateHook, default null).'),
+      stateType: z.string().optional().describe('Optional TypeScript type argument (for addUseStateHook).'),
     })
     .optional()
     .describe('Payload for the operation.'),
@@ -129,12 +220,18 @@ export const MediaListInput = z.object({
 
 // Types
 export type TWebFsFindInput = z.infer<typeof WebFsFindInput>;
+export type TWebFsGrepInput = z.infer<typeof WebFsGrepInput>;
 export type TWebFsReadInput = z.infer<typeof WebFsReadInput>;
 export type TWebFsWriteInput = z.infer<typeof WebFsWriteInput>;
+export type TWebFsPatchInput = z.infer<typeof WebFsPatchInput>;
 export type TWebFsRmInput = z.infer<typeof WebFsRmInput>;
 export type TWebExecInput = z.infer<typeof WebExecInput>;
+export type TProcessListInput = z.infer<typeof ProcessListInput>;
+export type TProcessTailInput = z.infer<typeof ProcessTailInput>;
+export type TProcessKillInput = z.infer<typeof ProcessKillInput>;
 export type TAppManageInput = z.infer<typeof AppManageInput>;
 export type TValidateProjectInput = z.infer<typeof ValidateProjectInput>;
+export type TRunTestsInput = z.infer<typeof RunTestsInput>;
 export type TCodeEditAstInput = z.infer<typeof CodeEditAstInput>;
 export type TWebSearchInput = z.infer<typeof WebSearchInput>;
 export type TAiGenerateInput = z.infer<typeof AiGenerateInput>;
@@ -142,12 +239,18 @@ export type TMediaListInput = z.infer<typeof MediaListInput>;
 // Tool names
 export const TOOL_NAMES = {
   web_fs_find: 'web_fs_find',
+  web_fs_grep: 'web_fs_grep',
   web_fs_read: 'web_fs_read',
   web_fs_write: 'web_fs_write',
+  web_fs_patch: 'web_fs_patch',
   web_fs_rm: 'web_fs_rm',
   web_exec: 'web_exec',
+  process_list: 'process_list',
+  process_tail: 'process_tail',
+  process_kill: 'process_kill',
   app_manage: 'app_manage',
   validate_project: 'validate_project',
+  run_tests: 'run_tests',
   web_search: 'web_search',
   ai_generate: 'ai_generate',
   media_list: 'media_list',
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { planUnifiedPatch } from './applyPatch';
+
+const FILES: Record<string, string> = {
+  'src/a.ts': ['const a = 1;', '', 'const b = 2;', 'const c = 3;', ''].join('\n'),
+  'src/b.ts': 'export const b = true;\n',
+  'src/old.ts': 'export {};\n',
+};
+
+function plan(lines: string[], files = FILES) {
+  return planUnifiedPatch({ patch: lines.join('\n'), readFile: async (path) => files[path] ?? null });
+}
+
+describe('planUnifiedPatch', () => {
+  it('accepts bare @@ hunk headers', async () => {
+    const result = await plan(['--- a/src/b.ts', '+++ b/src/b.ts', '@@', '-export const b = true;', '+export const b = false;', '']);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.changes[0]).toEqual(expect.objectContaining({ path: 'src/b.ts', status: 'modified', after: 'export const b = false;\n' }));
+  });
+
+  it('treats blank lines inside a hunk as context', async () => {
+    const result = await plan(['--- a/src/a.ts', '+++ b/src/a.ts', '@@ -1,3 +1,3 @@', ' const a = 1;', '', '-const b = 2;', '+const b = 20;', '']);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.changes[0].after).toBe(['const a = 1;', '', 'const b = 20;', 'const c = 3;', ''].join('\n'));
+  });
+
+  it('plans nothing when any hunk of a multi-file patch does not fit', async () => {
+    const result = await plan([
+      '--- a/src/b.ts',
+      '+++ b/src/b.ts',
+      '@@',
+      '-export const b = true;',
+      '+export const b = false;',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@',
+      '-const missing = 0;',
+      '+const missing = 1;',
+      '',
+    ]);
+    expect(result.ok).toBe(false);
+    expect(result).not.toHaveProperty('changes');
+    if (!result.ok) expect(result.failures).toEqual([expect.objectContaining({ path: 'src/a.ts', hunk: 1, reason: 'Hunk context not found in file' })]);
+  });
+
+  it('creates and deletes files through /dev/null headers', async () => {
+    const result = await plan([
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1 @@',
+      '+export const created = true;',
+      '--- a/src/old.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export {};',
+      '',
+    ]);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.changes.map(({ path, status, before, after }) => ({ path, status, before, after }))).toEqual([
+        { path: 'src/new.ts', status: 'created', before: '', after: 'export const created = true;\n' },
+        { path: 'src/old.ts', status: 'deleted', before: 'export {};\n', after: '' },
+      ]);
+    }
+  });
+
+  it('refuses to create a file that exists or delete one that does not', async () => {
+    const result = await plan([
+      '--- /dev/null',
+      '+++ b/src/b.ts',
+      '@@ -0,0 +1 @@',
+      '+export const b = 1;',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export {};',
+      '',
+    ]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.failures.map((failure) => failure.reason)).toEqual(['Patch creates a file that already exists', 'File not found']);
+  });
+});
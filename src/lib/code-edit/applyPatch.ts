@@ -0,0 +1,199 @@
+import { applyPatch, parsePatch } from 'diff';
+import type { StructuredPatch, StructuredPatchHunk } from 'diff';
+
+export type PatchFileStatus = 'modified' | 'created' | 'deleted';
+
+export interface PlannedFileChange {
+  path: string;
+  status: PatchFileStatus;
+  // Original content ('' for created files)
+  before: string;
+  // New content ('' for deleted files)
+  after: string;
+  hunks: number;
+  added: number;
+  removed: number;
+}
+
+export interface PatchFailure {
+  path: string;
+  hunk?: number;
+  header?: string;
+  reason: string;
+}
+
+export type PatchPlan =
+  | { ok: true; changes: PlannedFileChange[] }
+  | { ok: false; failures: PatchFailure[] };
+
+interface PatchPlanInput {
+  patch: string;
+  fuzzFactor?: number;
+  // Returns null when the file does not exist
+  readFile: (path: string) => Promise<string | null>;
+}
+
+// Also matches a bare "@@" line, which models use when they do not know line numbers
+const HUNK_HEADER = /^@@(?:\s*-?(\d+)?(?:,(\d+))?\s*\+?(\d+)?(?:,(\d+))?\s*@@(.*))?\s*$/;
+
+function isFileBoundary(line: string): boolean {
+  return line.startsWith('--- ') || line.startsWith('---\t') || line.startsWith('diff ') || line.startsWith('Index: ') || line.startsWith('index ');
+}
+
+/**
+ * Model-written diffs often carry wrong line counts, drop the leading space on
+ * blank context lines, or omit the numbers in "@@ @@". Rewrite every hunk
+ * header from its body so parsePatch accepts it; hunk positions are only hints
+ * for applyPatch, which searches for the best match anyway.
+ */
+export function normalizeUnifiedDiff(patch: string): string {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const out: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const match = HUNK_HEADER.exec(lines[i]);
+    if (!match) {
+      out.push(lines[i]);
+      i++;
+      continue;
+    }
+    const body: string[] = [];
+    i++;
+    while (i < lines.length && !lines[i].startsWith('@@') && !isFileBoundary(lines[i])) {
+      const line = lines[i];
+      if (line === '') body.push(' ');
+      else if (line[0] === ' ' || line[0] === '-' || line[0] === '+' || line[0] === '\\') body.push(line);
+      else break;
+      i++;
+    }
+    // A trailing blank line before the next file/hunk is almost always a separator, not context
+    while (body.length > 0 && body[body.length - 1] === ' ' && (i >= lines.length || isFileBoundary(lines[i]) || lines[i].startsWith('@@'))) {
+      body.pop();
+    }
+    let oldCount = 0;
+    let newCount = 0;
+    for (const line of body) {
+      if (line[0] === ' ') { oldCount++; newCount++; }
+      else if (line[0] === '-') oldCount++;
+      else if (line[0] === '+') newCount++;
+    }
+    const oldStart = match[1] ? Number(match[1]) : 1;
+    const newStart = match[3] ? Number(match[3]) : oldStart;
+    out.push(`@@ -${oldCount === 0 ? 0 : oldStart},${oldCount} +${newCount === 0 ? 0 : newStart},${newCount} @@${match[5] ?? ''}`);
+    out.push(...body);
+  }
+  return out.join('\n');
+}
+
+export function normalizePatchPath(name: string | undefined): string | null {
+  if (!name) return null;
+  const trimmed = name.trim().split('\t')[0];
+  if (!trimmed || trimmed === '/dev/null') return null;
+  return trimmed.replace(/^[ab]\//, '').replace(/^\.\//, '').replace(/^\/+/, '');
+}
+
+function hunkHeader(hunk: StructuredPatchHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+function countChanges(hunks: StructuredPatchHunk[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line[0] === '+') added++;
+      else if (line[0] === '-') removed++;
+    }
+  }
+  return { added, removed };
+}
+
+/**
+ * Parses a (possibly multi-file) unified diff and computes the resulting file
+ * contents without writing anything. Any unmatched hunk fails the whole plan.
+ */
+export async function planUnifiedPatch(input: PatchPlanInput): Promise<PatchPlan> {
+  let parsed: StructuredPatch[];
+  try {
+    parsed = parsePatch(normalizeUnifiedDiff(input.patch));
+  } catch (error) {
+    return { ok: false, failures: [{ path: '', reason: `Invalid unified diff: ${error instanceof Error ? error.message : String(error)}` }] };
+  }
+  const filePatches = parsed.filter((p) => p.hunks.length > 0);
+  if (filePatches.length === 0) {
+    return { ok: false, failures: [{ path: '', reason: 'Patch contains no hunks. Include ---/+++ file headers and @@ hunks.' }] };
+  }
+
+  const fuzzFactor = Math.max(0, Math.min(input.fuzzFactor ?? 2, 5));
+  // Tolerate trailing-whitespace drift between the patch context and the file
+  // (line is undefined when a hunk runs past the end of the file)
+  const compareLine = (_lineNumber: number, line: string | undefined, _operation: string, patchContent: string) =>
+    typeof line === 'string' && line.trimEnd() === patchContent.trimEnd();
+
+  const changes: PlannedFileChange[] = [];
+  const failures: PatchFailure[] = [];
+  const seen = new Set<string>();
+
+  for (const filePatch of filePatches) {
+    const oldPath = normalizePatchPath(filePatch.oldFileName);
+    const newPath = normalizePatchPath(filePatch.newFileName);
+    const path = newPath ?? oldPath;
+    if (!path) {
+      failures.push({ path: '', reason: 'Missing file name in ---/+++ headers' });
+      continue;
+    }
+    if (oldPath && newPath && oldPath !== newPath) {
+      failures.push({ path, reason: `Renames are not supported (${oldPath} -> ${newPath}); patch the file in place and use web_fs_rm/web_fs_write to move it` });
+      continue;
+    }
+    if (seen.has(path)) {
+      failures.push({ path, reason: 'File appears more than once in the patch; combine its hunks into one file section' });
+      continue;
+    }
+    seen.add(path);
+
+    const status: PatchFileStatus = !oldPath ? 'created' : !newPath ? 'deleted' : 'modified';
+    const existing = await input.readFile(path);
+    if (status === 'created' && existing !== null) {
+      failures.push({ path, reason: 'Patch creates a file that already exists' });
+      continue;
+    }
+    if (status !== 'created' && existing === null) {
+      failures.push({ path, reason: 'File not found' });
+      continue;
+    }
+    const before = existing ?? '';
+    const { added, removed } = countChanges(filePatch.hunks);
+
+    const result = applyPatch(before, filePatch, { fuzzFactor, compareLine });
+    if (result === false) {
+      // Pinpoint which hunks do not fit on their own for a useful error
+      const failed = filePatch.hunks
+        .map((hunk, index) => ({ hunk, index }))
+        .filter(({ hunk }) => applyPatch(before, { ...filePatch, hunks: [hunk] }, { fuzzFactor, compareLine }) === false);
+      if (failed.length === 0) {
+        failures.push({ path, reason: 'Hunks apply individually but not together (overlapping or out of order)' });
+      } else {
+        for (const { hunk, index } of failed) {
+          failures.push({ path, hunk: index + 1, header: hunkHeader(hunk), reason: 'Hunk context not found in file' });
+        }
+      }
+      continue;
+    }
+    if (status === 'deleted' && result.trim() !== '') {
+      failures.push({ path, reason: 'Deletion patch does not remove the whole file' });
+      continue;
+    }
+    changes.push({
+      path,
+      status,
+      before,
+      after: status === 'deleted' ? '' : result,
+      hunks: filePatch.hunks.length,
+      added,
+      removed,
+    });
+  }
+
+  return failures.length > 0 ? { ok: false, failures } : { ok: true, changes };
+}
@@ -0,0 +1,99 @@
+import { parse } from '@babel/parser';
+import * as t from '@babel/types';
+import { describe, expect, it } from 'vitest';
+import { jsxElementName, matchJsxSelector, parseJsxSelector, type JsxElementEntry } from './jsxSelector';
+
+const SOURCE = `
+export function Page() {
+  return (
+    <main>
+      <Header>
+        <h1 className="title big">Todos</h1>
+        <Icons.Check aria-label="done" />
+      </Header>
+      <section>
+        <div className="card">
+          <button aria-label="Save">Save</button>
+          <button aria-label="Cancel" disabled>Cancel</button>
+        </div>
+        <a href="https://example.com/docs/start">Docs</a>
+      </section>
+      <button aria-label="Help">?</button>
+    </main>
+  );
+}
+`;
+
+// Entries in document order with their nearest enclosing JSX element
+function collectEntries(source: string): JsxElementEntry[] {
+  const ast = parse(source, { sourceType: 'module', plugins: ['jsx', 'typescript'] });
+  const entries: JsxElementEntry[] = [];
+  const walk = (node: t.Node, parent: JsxElementEntry | null) => {
+    let next = parent;
+    if (node.type === 'JSXElement') {
+      next = { node, parent };
+      entries.push(next);
+    }
+    for (const key of t.VISITOR_KEYS[node.type] ?? []) {
+      const child = (node as unknown as Record<string, unknown>)[key];
+      for (const item of Array.isArray(child) ? child : [child]) {
+        if (item && typeof (item as t.Node).type === 'string') walk(item as t.Node, next);
+      }
+    }
+  };
+  walk(ast.program, null);
+  return entries;
+}
+
+const entries = collectEntries(SOURCE);
+
+function select(selector: string): string[] {
+  return matchJsxSelector(entries, selector).map((entry) => {
+    const label = entry.node.openingElement.attributes.find(
+      (attr): attr is t.JSXAttribute => attr.type === 'JSXAttribute' && attr.name.name === 'aria-label',
+    );
+    const name = jsxElementName(entry.node.openingElement.name);
+    return label?.value?.type === 'StringLiteral' ? `${name}:${label.value.value}` : name;
+  });
+}
+
+describe('matchJsxSelector', () => {
+  it('returns every match in document order when a selector is ambiguous', () => {
+    expect(select('button')).toEqual(['button:Save', 'button:Cancel', 'button:Help']);
+  });
+
+  it('returns nothing when no element matches', () => {
+    expect(select('footer')).toEqual([]);
+    expect(select('button[aria-label="Delete"]')).toEqual([]);
+    expect(select('Header > button')).toEqual([]);
+  });
+
+  it('picks the nth match, 1-based, and nothing past the end', () => {
+    expect(select('button:nth(2)')).toEqual(['button:Cancel']);
+    expect(select('section button:nth(1)')).toEqual(['button:Save']);
+    expect(select('button:nth(4)')).toEqual([]);
+  });
+
+  it('tells child and descendant combinators apart', () => {
+    expect(select('main > button')).toEqual(['button:Help']);
+    expect(select('section button')).toEqual(['button:Save', 'button:Cancel']);
+  });
+
+  it('filters by attribute presence, equality, token and substring', () => {
+    expect(select('button[disabled]')).toEqual(['button:Cancel']);
+    expect(select('h1[className~="big"]')).toEqual(['h1']);
+    expect(select('h1[className~="bi"]')).toEqual([]);
+    expect(select('a[href*="docs"]')).toEqual(['a']);
+    expect(select('Icons.Check[aria-label=done]')).toEqual(['Icons.Check:done']);
+  });
+});
+
+describe('parseJsxSelector', () => {
+  it('rejects malformed selectors', () => {
+    expect(() => parseJsxSelector('  ')).toThrow('Empty JSX selector');
+    expect(() => parseJsxSelector('div >')).toThrow(/ends with ">"/);
+    expect(() => parseJsxSelector('div:first')).toThrow(/only :nth\(n\) is supported/);
+    expect(() => parseJsxSelector('div:nth(0)')).toThrow(/1-based/);
+    expect(() => parseJsxSelector('div[className="a"')).toThrow(/expected "]"/);
+  });
+});
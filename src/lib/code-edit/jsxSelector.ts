@@ -0,0 +1,169 @@
+import type * as t from '@babel/types';
+
+// Small CSS-like selector language for picking JSX elements in code_edit_ast:
+//   button                      tag name (Foo.Bar for member tags, * for any)
+//   button[aria-label="Save"]   attribute equals ([attr] for presence)
+//   div[className~="card"]      attribute contains the whitespace-separated token
+//   a[href*="docs"]             attribute contains the substring
+//   Header > h1                 direct child;  Header h1  any descendant
+//   div:nth(2)                  2nd match (1-based, document order)
+
+type AttributeFilter = { name: string; operator?: '=' | '~=' | '*='; value?: string };
+
+type CompoundSelector = {
+  tag: string | null;
+  attributes: AttributeFilter[];
+  nth?: number;
+  // How this compound relates to the previous one
+  combinator: 'descendant' | 'child';
+};
+
+export type JsxElementEntry = {
+  node: t.JSXElement;
+  // Nearest enclosing JSX element, if any
+  parent: JsxElementEntry | null;
+};
+
+export function parseJsxSelector(selector: string): CompoundSelector[] {
+  const source = selector.trim();
+  if (!source) throw new Error('Empty JSX selector');
+
+  const compounds: CompoundSelector[] = [];
+  let combinator: CompoundSelector['combinator'] = 'descendant';
+  let i = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid JSX selector "${selector}": ${reason}`);
+  };
+  const read = (pattern: RegExp, what: string): string => {
+    const match = pattern.exec(source.slice(i));
+    if (!match) fail(`expected ${what} at position ${i + 1}`);
+    i += match![0].length;
+    return match![0];
+  };
+  // Tags may be member expressions (Foo.Bar); attributes may be namespaced (xlink:href)
+  const TAG_NAME = /^[A-Za-z_$][\w$-]*(?:\.[A-Za-z_$][\w$-]*)*/;
+  const ATTR_NAME = /^[A-Za-z_$][\w$:-]*/;
+
+  while (i < source.length) {
+    const compound: CompoundSelector = { tag: null, attributes: [], combinator };
+    const start = i;
+    if (source[i] === '*') {
+      i++;
+    } else if (/[A-Za-z_$]/.test(source[i])) {
+      compound.tag = read(TAG_NAME, 'a tag name');
+    }
+    while (i < source.length && /[[:]/.test(source[i])) {
+      if (source[i] === '[') {
+        i++;
+        const name = read(ATTR_NAME, 'an attribute name');
+        let operator: AttributeFilter['operator'];
+        let value: string | undefined;
+        const op = /^(~=|\*=|=)/.exec(source.slice(i));
+        if (op) {
+          operator = op[1] as AttributeFilter['operator'];
+          i += op[1].length;
+          const quoted = /^(["'])(.*?)\1/.exec(source.slice(i));
+          if (quoted) {
+            value = quoted[2];
+            i += quoted[0].length;
+          } else {
+            const bare = /^[^\]]+/.exec(source.slice(i));
+            if (!bare) fail(`missing value for [${name}=]`);
+            value = bare![0].trim();
+            i += bare![0].length;
+          }
+        }
+        if (source[i] !== ']') fail(`expected "]" after [${name}`);
+        i++;
+        compound.attributes.push({ name, operator, value });
+      } else {
+        const nth = /^:nth\((\d+)\)/.exec(source.slice(i));
+        if (!nth) fail('only :nth(n) is supported');
+        compound.nth = Number(nth![1]);
+        if (compound.nth < 1) fail(':nth() is 1-based');
+        i += nth![0].length;
+      }
+    }
+    if (i === start) fail(`unexpected "${source[i]}" at position ${i + 1}`);
+    compounds.push(compound);
+
+    const rest = /^\s*(>)?\s*/.exec(source.slice(i))!;
+    i += rest[0].length;
+    combinator = rest[1] ? 'child' : 'descendant';
+    if (rest[1] && i >= source.length) fail('selector ends with ">"');
+  }
+
+  return compounds;
+}
+
+export function jsxElementName(name: t.JSXOpeningElement['name']): string {
+  if (name.type === 'JSXIdentifier') return name.name;
+  if (name.type === 'JSXNamespacedName') return `${name.namespace.name}:${name.name.name}`;
+  return `${jsxElementName(name.object)}.${name.property.name}`;
+}
+
+// Static attribute value as text; undefined when the attribute is missing or dynamic
+function attributeValue(element: t.JSXElement, attrName: string): { present: boolean; value?: string } {
+  for (const attr of element.openingElement.attributes) {
+    if (attr.type !== 'JSXAttribute') continue;
+    const name = attr.name.type === 'JSXIdentifier' ? attr.name.name : `${attr.name.namespace.name}:${attr.name.name.name}`;
+    if (name !== attrName) continue;
+    const value = attr.value;
+    if (!value) return { present: true, value: 'true' };
+    if (value.type === 'StringLiteral') return { present: true, value: value.value };
+    if (value.type === 'JSXExpressionContainer') {
+      const expr = value.expression;
+      if (expr.type === 'StringLiteral') return { present: true, value: expr.value };
+      if (expr.type === 'NumericLiteral' || expr.type === 'BooleanLiteral') return { present: true, value: String(expr.value) };
+      if (expr.type === 'TemplateLiteral' && expr.expressions.length === 0) {
+        return { present: true, value: expr.quasis.map((q) => q.value.cooked ?? q.value.raw).join('') };
+      }
+    }
+    return { present: true };
+  }
+  return { present: false };
+}
+
+function matchesCompound(entry: JsxElementEntry, compound: CompoundSelector): boolean {
+  if (compound.tag && jsxElementName(entry.node.openingElement.name) !== compound.tag) return false;
+  for (const filter of compound.attributes) {
+    const attr = attributeValue(entry.node, filter.name);
+    if (!attr.present) return false;
+    if (filter.value === undefined) continue;
+    if (attr.value === undefined) return false;
+    if (filter.operator === '~=' && !attr.value.split(/\s+/).includes(filter.value)) return false;
+    if (filter.operator === '*=' && !attr.value.includes(filter.value)) return false;
+    if (filter.operator === '=' && attr.value !== filter.value) return false;
+  }
+  return true;
+}
+
+/**
+ * Returns the elements (in document order) matched by the selector. `entries`
+ * must be in document order as well.
+ */
+export function matchJsxSelector(entries: JsxElementEntry[], selector: string): JsxElementEntry[] {
+  const compounds = parseJsxSelector(selector);
+  let previous: Set<JsxElementEntry> | null = null;
+  let current: JsxElementEntry[] = [];
+
+  for (const compound of compounds) {
+    const prev = previous;
+    current = entries.filter((entry) => {
+      if (!matchesCompound(entry, compound)) return false;
+      if (!prev) return true;
+      if (compound.combinator === 'child') return !!entry.parent && prev.has(entry.parent);
+      for (let ancestor = entry.parent; ancestor; ancestor = ancestor.parent) {
+        if (prev.has(ancestor)) return true;
+      }
+      return false;
+    });
+    if (compound.nth !== undefined) {
+      current = current.length >= compound.nth ? [current[compound.nth - 1]] : [];
+    }
+    previous = new Set(current);
+  }
+
+  return current;
+}
@@ -0,0 +1,252 @@
+import { describe, expect, it } from 'vitest';
+import { applyAstEdit } from './recastEdit';
+
+const SAMPLE = `import React from 'react';
+import { format, parse } from 'date-fns';
+import { Button } from './Button';
+
+const title = 'Todos';
+const limit = 10;
+
+function Header({ count }: { count: number }) {
+  return <h1>{title} ({count})</h1>;
+}
+
+export default function TodoList() {
+  const items = ['a', 'b'].slice(0, limit);
+  const count = items.length;
+  return (
+    <div className="list">
+      <Header count={count} />
+      <ul>
+        {items.map((item) => <li key={item}>{format(item)}</li>)}
+      </ul>
+      <Button onClick={() => parse(title)} />
+    </div>
+  );
+}
+`;
+
+type EditInput = Parameters<typeof applyAstEdit>[0];
+
+function edit(input: Omit<EditInput, 'path' | 'content'>, content = SAMPLE) {
+  return applyAstEdit({ path: 'src/apps/todo/index.tsx', content, ...input } as EditInput);
+}
+
+describe('renameIdentifier', () => {
+  it('renames the module-level binding and its references, including JSX tags and shorthand', async () => {
+    const result = await edit({
+      action: 'renameIdentifier',
+      selector: { identifier: 'Header' },
+      payload: { newName: 'ListHeader' },
+    }, `${SAMPLE}\nexport const parts = { Header };\n`);
+    expect(result.applied).toBe(true);
+    expect(result.code).toContain('function ListHeader({ count }');
+    expect(result.code).toContain('<ListHeader count={count} />');
+    expect(result.code).toContain('{ Header: ListHeader }');
+  });
+
+  it('aliases renamed imports instead of changing the imported name', async () => {
+    const result = await edit({
+      action: 'renameIdentifier',
+      selector: { identifier: 'format' },
+      payload: { newName: 'formatDate' },
+    });
+    expect(result.code).toContain("import { format as formatDate, parse } from 'date-fns';");
+    expect(result.code).toContain('{formatDate(item)}');
+  });
+
+  it('leaves bindings in other scopes that share the name alone', async () => {
+    const result = await edit({
+      action: 'renameIdentifier',
+      selector: { identifier: 'title' },
+      payload: { newName: 'heading' },
+    }, `${SAMPLE}\nfunction Other() {\n  const title = 'local';\n  return title;\n}\n`);
+    expect(result.code).toContain("const heading = 'Todos';");
+    expect(result.code).toContain('<h1>{heading} ({count})</h1>');
+    expect(result.code).toContain('parse(heading)');
+    expect(result.code).toContain("const title = 'local';\n  return title;");
+  });
+
+  it('renames the local binding of selector.functionName only', async () => {
+    const result = await edit({
+      action: 'renameIdentifier',
+      selector: { identifier: 'count', functionName: 'TodoList' },
+      payload: { newName: 'total' },
+    });
+    expect(result.code).toContain('const total = items.length;');
+    expect(result.code).toContain('<Header count={total} />');
+    // Header's own parameter keeps its name
+    expect(result.code).toContain('function Header({ count }: { count: number })');
+    expect(result.code).toContain('<h1>{title} ({count})</h1>');
+  });
+
+  it('asks for functionName when only locals in different scopes declare the name', async () => {
+    await expect(edit({
+      action: 'renameIdentifier',
+      selector: { identifier: 'count' },
+      payload: { newName: 'total' },
+    })).rejects.toThrow(/pass selector.functionName/);
+  });
+
+  it('refuses a name already used where the binding is visible', async () => {
+    await expect(edit({
+      action: 'renameIdentifier',
+      selector: { identifier: 'limit' },
+      payload: { newName: 'title' },
+    })).rejects.toThrow(/already used/);
+  });
+});
+
+describe('removeImport', () => {
+  it('removes a whole import declaration', async () => {
+    const result = await edit({ action: 'removeImport', selector: { module: './Button' } });
+    expect(result.applied).toBe(true);
+    expect(result.code).not.toContain("from './Button'");
+  });
+
+  it('removes only the listed specifiers', async () => {
+    const result = await edit({ action: 'removeImport', selector: { module: 'date-fns', specifiers: ['parse'] } });
+    expect(result.code).toContain("import { format } from 'date-fns';");
+  });
+
+  it('reports nothing applied for an unknown module', async () => {
+    const result = await edit({ action: 'removeImport', selector: { module: 'lodash' } });
+    expect(result.applied).toBe(false);
+    expect(result.code).toBe(SAMPLE);
+  });
+});
+
+describe('updateVariableInitializer', () => {
+  it('replaces the initializer of the named variable', async () => {
+    const result = await edit({
+      action: 'updateVariableInitializer',
+      selector: { variableName: 'limit' },
+      payload: { initializer: '25' },
+    });
+    expect(result.applied).toBe(true);
+    expect(result.code).toContain('const limit = 25;');
+  });
+
+  it('accepts JSX and object initializers', async () => {
+    const result = await edit({
+      action: 'updateVariableInitializer',
+      selector: { variableName: 'title' },
+      payload: { initializer: '{ text: "Todos", icon: <span>✓</span> }' },
+    });
+    expect(result.code).toMatch(/const title = \{\s*text: "Todos",\s*icon: <span>✓<\/span>\s*\};/);
+  });
+
+  it('changes the module-level variable rather than a local that shadows it', async () => {
+    const shadowed = SAMPLE.replace("const items = ['a', 'b']", "const limit = 3;\n  const items = ['a', 'b']");
+    const result = await edit({
+      action: 'updateVariableInitializer',
+      selector: { variableName: 'limit' },
+      payload: { initializer: '25' },
+    }, shadowed);
+    expect(result.code).toContain('const limit = 25;');
+    expect(result.code).toContain('  const limit = 3;');
+  });
+
+  it('targets a local through selector.functionName and refuses ambiguous locals', async () => {
+    const local = await edit({
+      action: 'updateVariableInitializer',
+      selector: { variableName: 'count', functionName: 'TodoList' },
+      payload: { initializer: '0' },
+    });
+    expect(local.code).toContain('const count = 0;');
+
+    await expect(edit({
+      action: 'updateVariableInitializer',
+      selector: { variableName: 'count' },
+      payload: { initializer: '0' },
+    }, 'function A() { const count = 1; return count; }\nfunction B() { const count = 2; return count; }\n')).rejects.toThrow(/ambiguous \(2 local declarations\)/);
+  });
+});
+
+describe('wrapJsxElement', () => {
+  it('wraps the selected element in the given wrapper', async () => {
+    const result = await edit({
+      action: 'wrapJsxElement',
+      selector: { jsxSelector: 'ul' },
+      payload: { jsxWrapper: '<section className="items" />' },
+    });
+    expect(result.applied).toBe(true);
+    expect(result.matchCount).toBe(1);
+    expect(result.code).toMatch(/<section className="items">\s*<ul>[\s\S]*<\/ul>\s*<\/section>/);
+  });
+
+  it('fails when the selector matches more than one element', async () => {
+    await expect(edit({
+      action: 'wrapJsxElement',
+      selector: { jsxSelector: 'ul' },
+      payload: { jsxWrapper: '<div />' },
+    }, SAMPLE.replace('      <Button', '      <ul />\n      <Button'))).rejects.toThrow(/ambiguous \(2 matches\)/);
+  });
+});
+
+describe('insertJsxChild', () => {
+  it('appends a child by default', async () => {
+    const result = await edit({
+      action: 'insertJsxChild',
+      selector: { jsxSelector: 'div[className~="list"]' },
+      payload: { jsxChild: '<footer>Done</footer>' },
+    });
+    expect(result.applied).toBe(true);
+    expect(result.code).toMatch(/<Button onClick=\{\(\) => parse\(title\)\} \/>\s*<footer>Done<\/footer>\s*<\/div>/);
+  });
+
+  it('inserts at the start when asked', async () => {
+    const result = await edit({
+      action: 'insertJsxChild',
+      selector: { jsxTag: 'ul' },
+      payload: { jsxChild: '<li>First</li>', position: 'start' },
+    });
+    expect(result.code).toMatch(/<ul>\s*<li>First<\/li>/);
+  });
+
+  it('opens a self-closing element to hold the child', async () => {
+    const result = await edit({
+      action: 'insertJsxChild',
+      selector: { jsxTag: 'Button' },
+      payload: { jsxChild: '<span>Go</span>' },
+    });
+    expect(result.code).toMatch(/<Button onClick=\{\(\) => parse\(title\)\}>\s*<span>Go<\/span>\s*<\/Button>/);
+  });
+});
+
+describe('addUseStateHook', () => {
+  it('adds state to the default export and imports useState', async () => {
+    const result = await edit({
+      action: 'addUseStateHook',
+      payload: { stateName: 'filter', initialValue: "'all'", stateType: 'string' },
+    });
+    expect(result.applied).toBe(true);
+    expect(result.code).toContain("const [filter, setFilter] = useState<string>('all');");
+    expect(result.code).toMatch(/import \{ useState \} from 'react';|import React, \{ useState \} from 'react';/);
+  });
+
+  it('targets selector.functionName and does nothing when the state already exists', async () => {
+    const first = await edit({
+      action: 'addUseStateHook',
+      selector: { functionName: 'Header' },
+      payload: { stateName: 'open', initialValue: 'false' },
+    });
+    expect(first.code).toMatch(/function Header\(\{ count \}: \{ count: number \}\) \{\s*const \[open, setOpen\] = useState\(false\);/);
+
+    const second = await edit({
+      action: 'addUseStateHook',
+      selector: { functionName: 'Header' },
+      payload: { stateName: 'open' },
+    }, first.code);
+    expect(second.applied).toBe(false);
+  });
+
+  it('rejects an unknown component', async () => {
+    await expect(edit({
+      action: 'addUseStateHook',
+      selector: { functionName: 'Missing' },
+      payload: { stateName: 'open' },
+    })).rejects.toThrow(/Missing not found/);
+  });
+});
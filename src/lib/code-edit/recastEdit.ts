@@ -4,6 +4,7 @@ import { diffLines } from 'diff';
 import type { Change } from 'diff';
 import * as t from '@babel/types';
 import type { TCodeEditAstInput } from '@/lib/agentTools';
+import { matchJsxSelector, type JsxElementEntry } from './jsxSelector';
 
 const { namedTypes: n } = recast.types;
 const { builders: b } = recast.types;
@@ -30,6 +31,8 @@ function parseFile(source: string): t.File {
         return parser.parse(code, {
           sourceType: 'module',
           allowImportExportEverywhere: true,
+          // Without tokens recast re-tokenizes with esprima, which chokes on JSX closing tags
+          tokens: true,
           plugins: PARSER_PLUGINS,
         });
       },
@@ -47,6 +50,10 @@ function parseExpression(source: string): t.Expression {
   if (!declarator || declarator.type !== 'VariableDeclarator' || !declarator.init) {
     throw new Error('Failed to resolve parsed expression');
   }
+  // Drop the wrapping parens from the temp declaration so they are not printed
+  if (declarator.init.extra?.parenthesized) {
+    delete declarator.init.extra.parenthesized;
+  }
   return declarator.init;
 }
 
@@ -56,6 +63,7 @@ interface EditResult {
   edits: Array<{ start: number; end: number }>;
   previewDiff: string;
   elapsedMs: number;
+  matchCount?: number;
 }
 
 interface AstEditInput extends Omit<TCodeEditAstInput, 'dryRun'> {
@@ -78,20 +86,40 @@ export async function applyAstEdit(input: AstEditInput): Promise<EditResult> {
     const ast = parseFile(input.content);
 
     let applied = false;
+    // Number of elements the JSX selector matched (JSX actions only)
+    let matchCount: number | undefined;
 
     // Apply the requested transformation
     switch (input.action) {
       case 'upsertImport':
         applied = upsertImport(ast, input);
         break;
+      case 'removeImport':
+        applied = removeImport(ast, input);
+        break;
       case 'updateFunctionBody':
         applied = updateFunctionBody(ast, input);
         break;
+      case 'updateVariableInitializer':
+        applied = updateVariableInitializer(ast, input);
+        break;
+      case 'renameIdentifier':
+        applied = renameIdentifier(ast, input);
+        break;
       case 'replaceJsxElement':
-        applied = replaceJsxElement(ast, input);
+        ({ applied, matchCount } = replaceJsxElement(ast, input));
         break;
       case 'replaceJsxAttributes':
-        applied = replaceJsxAttributes(ast, input);
+        ({ applied, matchCount } = replaceJsxAttributes(ast, input));
+        break;
+      case 'wrapJsxElement':
+        ({ applied, matchCount } = wrapJsxElement(ast, input));
+        break;
+      case 'insertJsxChild':
+        ({ applied, matchCount } = insertJsxChild(ast, input));
+        break;
+      case 'addUseStateHook':
+        applied = addUseStateHook(ast, input);
         break;
       case 'insertAfterLastImport':
         applied = insertAfterLastImport(ast, input);
@@ -123,6 +151,7 @@ export async function applyAstEdit(input: AstEditInput): Promise<EditResult> {
       edits,
       previewDiff,
       elapsedMs,
+      ...(matchCount !== undefined ? { matchCount } : {}),
     };
   } catch (error) {
     const elapsedMs = Math.round(performance.now() - startTime);
@@ -205,6 +234,42 @@ function upsertImport(ast: t.File, input: AstEditInput): boolean {
   }
 }
 
+/**
+ * Remove an import declaration, or only some of its specifiers
+ */
+function removeImport(ast: t.File, input: AstEditInput): boolean {
+  if (!input.selector?.module) {
+    throw new Error('removeImport requires selector.module');
+  }
+
+  const { module, specifiers } = input.selector;
+  const body = ast.program.body;
+  let removed = false;
+
+  for (let i = body.length - 1; i >= 0; i--) {
+    const node = body[i];
+    if (node.type !== 'ImportDeclaration' || node.source.value !== module) continue;
+
+    if (!specifiers || specifiers.length === 0) {
+      body.splice(i, 1);
+      removed = true;
+      continue;
+    }
+
+    const toRemove = new Set(specifiers);
+    const remaining = node.specifiers.filter((spec) => !toRemove.has(spec.local.name));
+    if (remaining.length === node.specifiers.length) continue;
+    removed = true;
+    if (remaining.length === 0) {
+      body.splice(i, 1);
+    } else {
+      node.specifiers = remaining;
+    }
+  }
+
+  return removed;
+}
+
 /**
  * Update the body of a function (declaration or arrow function in variable)
  */
@@ -273,87 +338,634 @@ function updateFunctionBody(ast: t.File, input: AstEditInput): boolean {
 }
 
 /**
- * Replace a JSX element with new JSX content
+ * Replace the initializer of a variable. A program-level (or exported)
+ * declaration wins over locals that shadow it; a local is only changed when it
+ * is the sole declaration, or when selector.functionName picks its function.
  */
-function replaceJsxElement(ast: t.File, input: AstEditInput): boolean {
-  if (!input.selector?.jsxTag || !input.payload?.jsxReplaceWith) {
-    throw new Error('replaceJsxElement requires selector.jsxTag and payload.jsxReplaceWith');
+function updateVariableInitializer(ast: t.File, input: AstEditInput): boolean {
+  if (!input.selector?.variableName || input.payload?.initializer === undefined) {
+    throw new Error('updateVariableInitializer requires selector.variableName and payload.initializer');
   }
 
-  const { jsxTag } = input.selector;
-  const { jsxReplaceWith } = input.payload;
+  const { variableName, functionName } = input.selector;
+  const initializer = parseExpression(input.payload.initializer);
+  const isTarget = (declarator: t.VariableDeclarator) =>
+    declarator.id.type === 'Identifier' && declarator.id.name === variableName;
 
-  // Parse the replacement JSX
-  const replacementExpression = parseExpression(jsxReplaceWith);
-  if (replacementExpression.type !== 'JSXElement' && replacementExpression.type !== 'JSXFragment') {
-    throw new Error('Replacement JSX must evaluate to a JSX element or fragment');
+  let target: t.VariableDeclarator | null = null;
+  if (!functionName) {
+    for (const statement of ast.program.body) {
+      const node = statement.type === 'ExportNamedDeclaration' && statement.declaration ? statement.declaration : statement;
+      if (node.type !== 'VariableDeclaration') continue;
+      target = node.declarations.find(isTarget) ?? null;
+      if (target) break;
+    }
+  }
+
+  if (!target) {
+    const root = functionName ? findTopLevelFunction(ast, functionName) : ast.program;
+    if (!root) {
+      throw new Error(`Function ${functionName} not found`);
+    }
+    const matches: t.VariableDeclarator[] = [];
+    recast.visit(root, {
+      visitVariableDeclarator(path) {
+        if (isTarget(path.node as t.VariableDeclarator)) matches.push(path.node as t.VariableDeclarator);
+        this.traverse(path);
+      },
+    });
+    if (matches.length > 1) {
+      throw new Error(functionName
+        ? `${variableName} is declared ${matches.length} times inside ${functionName}; edit it by hand`
+        : `${variableName} is ambiguous (${matches.length} local declarations); pass selector.functionName to pick one`);
+    }
+    target = matches[0] ?? null;
+  }
+
+  if (!target) return false;
+  target.init = initializer as t.Expression;
+  return true;
+}
+
+// Identifier positions that are property names rather than references to a binding
+function isNonReferenceIdentifier(node: t.Node, parent: t.Node | null | undefined): boolean {
+  if (!parent) return false;
+  switch (parent.type) {
+    case 'MemberExpression':
+    case 'OptionalMemberExpression':
+      return parent.property === node && !parent.computed;
+    case 'ObjectProperty':
+      return parent.key === node && !parent.computed && !parent.shorthand;
+    case 'ObjectMethod':
+    case 'ClassMethod':
+    case 'ClassPrivateMethod':
+    case 'ClassProperty':
+    case 'TSPropertySignature':
+    case 'TSMethodSignature':
+      return parent.key === node && !parent.computed;
+    case 'ImportSpecifier':
+      return parent.imported === node && parent.local !== node;
+    case 'ExportSpecifier':
+      return parent.exported === node && parent.local !== node;
+    case 'TSQualifiedName':
+      return parent.right === node;
+    case 'LabeledStatement':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+      return true;
+    default:
+      return false;
+  }
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Nodes whose let/const/class/function declarations are local to them
+function isBlockScopeNode(node: t.Node): boolean {
+  return (
+    t.isProgram(node) ||
+    t.isBlockStatement(node) ||
+    t.isForStatement(node) ||
+    t.isForInStatement(node) ||
+    t.isForOfStatement(node) ||
+    t.isSwitchStatement(node) ||
+    t.isStaticBlock(node) ||
+    t.isTSModuleBlock(node)
+  );
+}
+
+// Nodes that `var` declarations are hoisted to
+function isFunctionScopeNode(node: t.Node): boolean {
+  return t.isProgram(node) || t.isFunction(node);
+}
+
+// Identifiers bound by a declaration target: `a`, `{ a, b: c }`, `[a, ...rest]`, `a = 1`
+function patternIdentifiers(node: t.Node | null | undefined): t.Identifier[] {
+  if (!node) return [];
+  switch (node.type) {
+    case 'Identifier':
+      return [node];
+    case 'ObjectPattern':
+      return node.properties.flatMap((prop) => patternIdentifiers(prop.type === 'RestElement' ? prop.argument : prop.value));
+    case 'ArrayPattern':
+      return node.elements.flatMap((element) => patternIdentifiers(element));
+    case 'AssignmentPattern':
+      return patternIdentifiers(node.left);
+    case 'RestElement':
+      return patternIdentifiers(node.argument);
+    case 'TSParameterProperty':
+      return patternIdentifiers(node.parameter);
+    default:
+      return [];
   }
+}
+
+function isJsxTagName(node: t.JSXIdentifier, parent: t.Node | undefined): boolean {
+  return !!parent && (
+    parent.type === 'JSXOpeningElement' ||
+    parent.type === 'JSXClosingElement' ||
+    (parent.type === 'JSXMemberExpression' && parent.object === node)
+  );
+}
+
+type NameOccurrence = {
+  node: t.Identifier | t.JSXIdentifier;
+  // Program first, direct parent last
+  ancestors: t.Node[];
+};
+
+type NameBindings = {
+  // Scope node each declaration of the name belongs to, keyed by its identifier
+  declarations: Map<t.Identifier, t.Node>;
+  // Every declaration and reference of the name, including JSX tag names
+  occurrences: NameOccurrence[];
+};
+
+function collectNameBindings(root: t.Node, name: string): NameBindings {
+  const declarations = new Map<t.Identifier, t.Node>();
+  const occurrences: NameOccurrence[] = [];
+  const ancestors: t.Node[] = [];
+  const nearest = (test: (node: t.Node) => boolean): t.Node => {
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      if (test(ancestors[i])) return ancestors[i];
+    }
+    return ancestors[0] ?? root;
+  };
+  const declare = (ids: t.Identifier[], scope: t.Node) => {
+    for (const id of ids) {
+      if (id.name === name) declarations.set(id, scope);
+    }
+  };
 
-  // Find and replace the first matching JSX element
-  let found = false;
+  const walk = (node: t.Node) => {
+    const parent = ancestors[ancestors.length - 1];
+    switch (node.type) {
+      case 'VariableDeclaration': {
+        const scope = node.kind === 'var' ? nearest(isFunctionScopeNode) : nearest(isBlockScopeNode);
+        for (const declarator of node.declarations) declare(patternIdentifiers(declarator.id), scope);
+        break;
+      }
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+      case 'TSEnumDeclaration':
+      case 'TSInterfaceDeclaration':
+      case 'TSTypeAliasDeclaration':
+        if (node.id) declare([node.id], nearest(isBlockScopeNode));
+        break;
+      case 'ClassExpression':
+        if (node.id) declare([node.id], node);
+        break;
+      case 'CatchClause':
+        declare(patternIdentifiers(node.param), node);
+        break;
+      case 'ImportDeclaration':
+        declare(node.specifiers.map((specifier) => specifier.local), nearest(t.isProgram));
+        break;
+    }
+    if (t.isFunction(node)) {
+      declare(node.params.flatMap((param) => patternIdentifiers(param)), node);
+      if (node.type === 'FunctionExpression' && node.id) declare([node.id], node);
+    }
+    if (node.type === 'Identifier' && node.name === name && !isNonReferenceIdentifier(node, parent)) {
+      occurrences.push({ node, ancestors: ancestors.slice() });
+    }
+    if (node.type === 'JSXIdentifier' && node.name === name && isJsxTagName(node, parent)) {
+      occurrences.push({ node, ancestors: ancestors.slice() });
+    }
+
+    ancestors.push(node);
+    for (const key of t.VISITOR_KEYS[node.type] ?? []) {
+      const child = (node as unknown as Record<string, unknown>)[key];
+      if (Array.isArray(child)) {
+        for (const item of child) {
+          if (item && typeof item === 'object' && 'type' in item) walk(item as t.Node);
+        }
+      } else if (child && typeof child === 'object' && 'type' in child) {
+        walk(child as t.Node);
+      }
+    }
+    ancestors.pop();
+  };
+
+  walk(root);
+  return { declarations, occurrences };
+}
+
+// Scope of the declaration an occurrence refers to; null for undeclared (global) names
+function resolveOccurrence(bindings: NameBindings, occurrence: NameOccurrence): t.Node | null {
+  const declared = occurrence.node.type === 'Identifier' ? bindings.declarations.get(occurrence.node) : undefined;
+  if (declared) return declared;
+  const scopes = new Set(bindings.declarations.values());
+  for (let i = occurrence.ancestors.length - 1; i >= 0; i--) {
+    if (scopes.has(occurrence.ancestors[i])) return occurrence.ancestors[i];
+  }
+  return null;
+}
+
+function containsNode(root: t.Node, target: t.Node): boolean {
+  if (root === target) return true;
+  for (const key of t.VISITOR_KEYS[root.type] ?? []) {
+    const child = (root as unknown as Record<string, unknown>)[key];
+    const items = Array.isArray(child) ? child : [child];
+    for (const item of items) {
+      if (item && typeof item === 'object' && 'type' in item && containsNode(item as t.Node, target)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Pick the binding renameIdentifier targets: the one declared in (or visible
+ * from) selector.functionName, else the module-level one, else the only one.
+ * Returns null to target an undeclared global.
+ */
+function selectRenameScope(ast: t.File, bindings: NameBindings, identifier: string, functionName?: string): t.Node | null {
+  const scopes = Array.from(new Set(bindings.declarations.values()));
+  if (functionName) {
+    const fn = findTopLevelFunction(ast, functionName);
+    if (!fn) {
+      throw new Error(`Function ${functionName} not found`);
+    }
+    const inside = scopes.filter((scope) => containsNode(fn, scope));
+    if (inside.length > 1) {
+      throw new Error(`${identifier} is declared ${inside.length} times inside ${functionName}; rename it by hand`);
+    }
+    if (inside.length === 1) return inside[0];
+    if (scopes.includes(ast.program)) return ast.program;
+    throw new Error(`${identifier} is not declared in or above ${functionName}`);
+  }
+  if (scopes.includes(ast.program)) return ast.program;
+  if (scopes.length === 1) return scopes[0];
+  if (scopes.length === 0) return null;
+  throw new Error(`${identifier} is declared in ${scopes.length} separate scopes; pass selector.functionName to pick one`);
+}
+
+/**
+ * Rename one binding and its references. Other bindings that share the name
+ * (shadowing locals, other components' state) are left alone, as are property
+ * names, import/export source names and labels; shorthand properties are
+ * expanded.
+ */
+function renameIdentifier(ast: t.File, input: AstEditInput): boolean {
+  if (!input.selector?.identifier || !input.payload?.newName) {
+    throw new Error('renameIdentifier requires selector.identifier and payload.newName');
+  }
+
+  const { identifier } = input.selector;
+  const { newName } = input.payload;
+  if (!IDENTIFIER_PATTERN.test(newName)) {
+    throw new Error(`Invalid identifier name: ${newName}`);
+  }
+  if (identifier === newName) {
+    return false;
+  }
+
+  const bindings = collectNameBindings(ast.program, identifier);
+  const scope = selectRenameScope(ast, bindings, identifier, input.selector.functionName);
+  const targets = new Set<t.Node>(
+    bindings.occurrences
+      .filter((occurrence) => resolveOccurrence(bindings, occurrence) === scope)
+      .map((occurrence) => occurrence.node)
+  );
+  if (targets.size === 0) {
+    return false;
+  }
+
+  // Refuse to merge two bindings into one name anywhere the renamed binding is visible
+  if (collectNameBindings(scope ?? ast.program, newName).occurrences.length > 0) {
+    throw new Error(`Cannot rename ${identifier} to ${newName}: ${newName} is already used in its scope`);
+  }
+
+  let renamed = 0;
   recast.visit(ast, {
-    visitJSXElement(path) {
-      if (found) {
-        return false;
+    visitIdentifier(path) {
+      const node = path.node as t.Identifier;
+      const parent = path.parent?.node as t.Node | undefined;
+      if (targets.has(node)) {
+        if (parent && parent.type === 'ObjectProperty' && parent.shorthand && parent.key === node) {
+          // { foo } -> { foo: bar }: keep the property name; the value is renamed when visited
+          parent.shorthand = false;
+          parent.key = t.identifier(identifier);
+        } else if (parent && (parent.type === 'ImportSpecifier' || parent.type === 'ExportSpecifier') && parent.local === node) {
+          // Keep the imported/exported name and alias the local binding. Recast reuses
+          // the original "{ foo }" text unless the specifier is a brand-new node.
+          const specifier = parent.type === 'ImportSpecifier'
+            ? t.importSpecifier(t.identifier(newName), parent.imported)
+            : t.exportSpecifier(t.identifier(newName), parent.exported);
+          path.parent.replace(specifier);
+          renamed++;
+          return false;
+        } else {
+          node.name = newName;
+          renamed++;
+        }
+      }
+      this.traverse(path);
+    },
+    visitJSXIdentifier(path) {
+      if (targets.has(path.node as t.Node)) {
+        path.node.name = newName;
+        renamed++;
       }
-      const opening = path.node.openingElement;
-      if (n.JSXIdentifier.check(opening.name) && opening.name.name === jsxTag) {
-        path.replace(replacementExpression);
-        found = true;
-        return false; // Stop traversing
+      this.traverse(path);
+    },
+  });
+
+  return renamed > 0;
+}
+
+type JsxTarget = {
+  element: t.JSXElement;
+  replace: (node: t.Expression) => void;
+};
+
+type JsxEditOutcome = {
+  applied: boolean;
+  matchCount: number;
+};
+
+const MAX_SELECTOR_CANDIDATES = 10;
+
+function describeJsxElement(element: t.JSXElement): string {
+  const line = element.loc?.start.line;
+  const opening = recast.print(element.openingElement).code.replace(/\s+/g, ' ');
+  const clipped = opening.length > 100 ? `${opening.slice(0, 100)}…` : opening;
+  return line ? `line ${line}: ${clipped}` : clipped;
+}
+
+/**
+ * Resolve selector.jsxSelector (or the legacy selector.jsxTag) to a single JSX
+ * element. Several matches are an error listing the candidates, so the caller
+ * can refine the selector instead of editing the wrong node.
+ */
+function selectJsxElement(ast: t.File, input: AstEditInput, action: string): { target: JsxTarget | null; matchCount: number } {
+  const selector = input.selector?.jsxSelector ?? input.selector?.jsxTag;
+  if (!selector) {
+    throw new Error(`${action} requires selector.jsxSelector (or selector.jsxTag)`);
+  }
+
+  const entries: JsxElementEntry[] = [];
+  const targets = new Map<JsxElementEntry, JsxTarget>();
+  const entryByNode = new Map<t.JSXElement, JsxElementEntry>();
+  recast.visit(ast, {
+    visitJSXElement(path) {
+      const node = path.node as unknown as t.JSXElement;
+      let parent: JsxElementEntry | null = null;
+      for (let p = path.parentPath; p; p = p.parentPath) {
+        if (n.JSXElement.check(p.value)) {
+          parent = entryByNode.get(p.value as t.JSXElement) ?? null;
+          break;
+        }
       }
+      const entry: JsxElementEntry = { node, parent };
+      entries.push(entry);
+      entryByNode.set(node, entry);
+      targets.set(entry, { element: node, replace: (replacement) => path.replace(replacement) });
       this.traverse(path);
     },
   });
 
-  return found;
+  const matches = matchJsxSelector(entries, selector);
+  if (matches.length > 1) {
+    const candidates = matches
+      .slice(0, MAX_SELECTOR_CANDIDATES)
+      .map((entry, index) => `  ${index + 1}. ${describeJsxElement(entry.node)}`)
+      .join('\n');
+    const more = matches.length > MAX_SELECTOR_CANDIDATES ? `\n  …and ${matches.length - MAX_SELECTOR_CANDIDATES} more` : '';
+    throw new Error(
+      `Selector "${selector}" is ambiguous (${matches.length} matches). Narrow it with [attr="value"], a parent (Parent > ${selector}) or :nth(n). Candidates:\n${candidates}${more}`
+    );
+  }
+
+  return { target: matches.length === 1 ? targets.get(matches[0]) ?? null : null, matchCount: matches.length };
+}
+
+/**
+ * Replace a JSX element with new JSX content
+ */
+function replaceJsxElement(ast: t.File, input: AstEditInput): JsxEditOutcome {
+  if (!input.payload?.jsxReplaceWith) {
+    throw new Error('replaceJsxElement requires selector.jsxSelector and payload.jsxReplaceWith');
+  }
+
+  const { jsxReplaceWith } = input.payload;
+
+  // Parse the replacement JSX
+  const replacementExpression = parseExpression(jsxReplaceWith);
+  if (replacementExpression.type !== 'JSXElement' && replacementExpression.type !== 'JSXFragment') {
+    throw new Error('Replacement JSX must evaluate to a JSX element or fragment');
+  }
+
+  const { target, matchCount } = selectJsxElement(ast, input, 'replaceJsxElement');
+  if (!target) {
+    return { applied: false, matchCount };
+  }
+  target.replace(replacementExpression);
+  return { applied: true, matchCount };
 }
 
 /**
  * Replace JSX attributes on a matching element
  */
-function replaceJsxAttributes(ast: t.File, input: AstEditInput): boolean {
-  if (!input.selector?.jsxTag || !input.payload?.jsxAttributes) {
-    throw new Error('replaceJsxAttributes requires selector.jsxTag and payload.jsxAttributes');
+function replaceJsxAttributes(ast: t.File, input: AstEditInput): JsxEditOutcome {
+  if (!input.payload?.jsxAttributes) {
+    throw new Error('replaceJsxAttributes requires selector.jsxSelector and payload.jsxAttributes');
   }
 
-  const { jsxTag } = input.selector;
   const { jsxAttributes } = input.payload;
 
-  let found = false;
-  recast.visit(ast, {
-    visitJSXOpeningElement(path) {
-      if (found) {
-        return false;
+  const { target, matchCount } = selectJsxElement(ast, input, 'replaceJsxAttributes');
+  if (!target) {
+    return { applied: false, matchCount };
+  }
+
+  // Create new attributes
+  const newAttributes = Object.entries(jsxAttributes).map(([key, value]) => {
+    let attrValue;
+    if (typeof value === 'string') {
+      attrValue = b.stringLiteral(value);
+    } else if (typeof value === 'boolean') {
+      attrValue = value ? null : b.jsxExpressionContainer(b.booleanLiteral(false));
+    } else if (typeof value === 'number') {
+      attrValue = b.jsxExpressionContainer(b.numericLiteral(value));
+    } else {
+      attrValue = b.stringLiteral(String(value));
+    }
+
+    return b.jsxAttribute(b.jsxIdentifier(key), attrValue);
+  });
+
+  // Replace all attributes
+  target.element.openingElement.attributes = newAttributes as unknown as t.JSXOpeningElement['attributes'];
+  return { applied: true, matchCount };
+}
+
+function parseJsxElement(source: string, action: string): t.JSXElement {
+  const expression = parseExpression(source);
+  if (expression.type !== 'JSXElement') {
+    throw new Error(`${action} requires a single JSX element`);
+  }
+  return expression;
+}
+
+// Give a self-closing element an explicit closing tag so it can hold children
+function openElement(element: t.JSXElement): void {
+  if (element.openingElement.selfClosing || !element.closingElement) {
+    element.openingElement.selfClosing = false;
+    element.closingElement = t.jsxClosingElement(element.openingElement.name);
+  }
+}
+
+/**
+ * Wrap the matching JSX element in a new parent element
+ */
+function wrapJsxElement(ast: t.File, input: AstEditInput): JsxEditOutcome {
+  if (!input.payload?.jsxWrapper) {
+    throw new Error('wrapJsxElement requires selector.jsxSelector and payload.jsxWrapper');
+  }
+
+  const wrapper = parseJsxElement(input.payload.jsxWrapper, 'wrapJsxElement');
+  openElement(wrapper);
+
+  const { target, matchCount } = selectJsxElement(ast, input, 'wrapJsxElement');
+  if (!target) {
+    return { applied: false, matchCount };
+  }
+  wrapper.children = [target.element];
+  target.replace(wrapper);
+  return { applied: true, matchCount };
+}
+
+/**
+ * Insert a JSX child at the start or end of the matching element
+ */
+function insertJsxChild(ast: t.File, input: AstEditInput): JsxEditOutcome {
+  if (!input.payload?.jsxChild) {
+    throw new Error('insertJsxChild requires selector.jsxSelector and payload.jsxChild');
+  }
+
+  const position = input.payload.position ?? 'end';
+  const child = parseExpression(input.payload.jsxChild);
+  if (child.type !== 'JSXElement' && child.type !== 'JSXFragment') {
+    throw new Error('insertJsxChild requires payload.jsxChild to be a JSX element or fragment');
+  }
+
+  const { target, matchCount } = selectJsxElement(ast, input, 'insertJsxChild');
+  if (!target) {
+    return { applied: false, matchCount };
+  }
+  openElement(target.element);
+  if (position === 'start') {
+    target.element.children.unshift(child);
+  } else {
+    target.element.children.push(child);
+  }
+  return { applied: true, matchCount };
+}
+
+type FunctionLike = t.FunctionDeclaration | t.FunctionExpression | t.ArrowFunctionExpression;
+
+/**
+ * Find a top-level function by name (declarations, exports and const arrow
+ * functions). Without a name, the default export is used.
+ */
+function findTopLevelFunction(ast: t.File, functionName?: string): FunctionLike | null {
+  const isFunction = (node: t.Node | null | undefined): node is FunctionLike =>
+    !!node && (node.type === 'FunctionDeclaration' || node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression');
+
+  for (const statement of ast.program.body) {
+    const node = statement.type === 'ExportNamedDeclaration' && statement.declaration ? statement.declaration : statement;
+
+    if (statement.type === 'ExportDefaultDeclaration') {
+      const declaration = statement.declaration;
+      if (isFunction(declaration) && (!functionName || (declaration.type === 'FunctionDeclaration' && declaration.id?.name === functionName))) {
+        return declaration;
       }
-      const name = path.node.name;
-      if (n.JSXIdentifier.check(name) && name.name === jsxTag) {
-        // Create new attributes
-        const newAttributes = Object.entries(jsxAttributes).map(([key, value]) => {
-          let attrValue;
-          if (typeof value === 'string') {
-            attrValue = b.stringLiteral(value);
-          } else if (typeof value === 'boolean') {
-            attrValue = value ? null : b.jsxExpressionContainer(b.booleanLiteral(false));
-          } else if (typeof value === 'number') {
-            attrValue = b.jsxExpressionContainer(b.numericLiteral(value));
-          } else {
-            attrValue = b.stringLiteral(String(value));
-          }
+      continue;
+    }
+    if (!functionName) continue;
 
-          return b.jsxAttribute(b.jsxIdentifier(key), attrValue);
-        });
+    if (node.type === 'FunctionDeclaration' && node.id?.name === functionName) {
+      return node;
+    }
+    if (node.type === 'VariableDeclaration') {
+      for (const declarator of node.declarations) {
+        if (declarator.id.type === 'Identifier' && declarator.id.name === functionName && isFunction(declarator.init)) {
+          return declarator.init;
+        }
+      }
+    }
+  }
 
-        // Replace all attributes
-        path.node.attributes = newAttributes;
-        found = true;
-        return false; // Stop traversing
+  // export default Name; where Name is declared above
+  if (!functionName) {
+    for (const statement of ast.program.body) {
+      if (statement.type === 'ExportDefaultDeclaration' && statement.declaration.type === 'Identifier') {
+        return findTopLevelFunction(ast, statement.declaration.name);
       }
-      this.traverse(path);
-    },
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Add `const [name, setName] = useState(initial)` to a component and make
+ * sure useState is imported from react
+ */
+function addUseStateHook(ast: t.File, input: AstEditInput): boolean {
+  if (!input.payload?.stateName) {
+    throw new Error('addUseStateHook requires payload.stateName');
+  }
+
+  const { stateName, initialValue = 'null', stateType } = input.payload;
+  if (!IDENTIFIER_PATTERN.test(stateName)) {
+    throw new Error(`Invalid state name: ${stateName}`);
+  }
+  const setterName = `set${stateName.charAt(0).toUpperCase()}${stateName.slice(1)}`;
+
+  const fn = findTopLevelFunction(ast, input.selector?.functionName);
+  if (!fn) {
+    throw new Error(
+      input.selector?.functionName
+        ? `Component ${input.selector.functionName} not found`
+        : 'No default-exported component found; pass selector.functionName'
+    );
+  }
+
+  if (fn.body.type !== 'BlockStatement') {
+    fn.body = t.blockStatement([t.returnStatement(fn.body)]);
+  }
+  const statements = fn.body.body;
+
+  // Already declared: nothing to do
+  for (const statement of statements) {
+    if (statement.type !== 'VariableDeclaration') continue;
+    for (const declarator of statement.declarations) {
+      if (declarator.id.type === 'ArrayPattern' && declarator.id.elements.some((el) => el?.type === 'Identifier' && el.name === stateName)) {
+        return false;
+      }
+    }
+  }
+
+  const typeArgument = stateType ? `<${stateType}>` : '';
+  const hookAst = parseFile(`const [${stateName}, ${setterName}] = useState${typeArgument}(${initialValue});`);
+  const hookStatement = hookAst.program.body[0];
+  if (!hookStatement) {
+    throw new Error('Failed to build useState declaration');
+  }
+
+  // Place after existing useState declarations so hook order stays readable
+  let insertIndex = 0;
+  statements.forEach((statement, index) => {
+    if (statement.type === 'VariableDeclaration' && recast.print(statement).code.includes('useState')) {
+      insertIndex = index + 1;
+    }
   });
+  statements.splice(insertIndex, 0, hookStatement);
 
-  return found;
+  upsertImport(ast, { ...input, payload: { import: { module: 'react', specifiers: ['useState'] } } });
+  return true;
 }
 
 /**
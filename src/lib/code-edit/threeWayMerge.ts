@@ -0,0 +1,108 @@
+import { diffArrays } from 'diff';
+
+export interface MergeConflict {
+  // 1-based line in the merged output where the conflicting region starts
+  line: number;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+export interface MergeResult {
+  text: string;
+  conflicts: MergeConflict[];
+}
+
+export interface MergeOptions {
+  // 'ours' keeps the local side of each conflict; 'markers' writes git-style conflict markers
+  conflictStyle?: 'ours' | 'markers';
+  oursLabel?: string;
+  theirsLabel?: string;
+}
+
+// For each base line, the index of the matching line in `other` (or -1)
+function matchLines(base: string[], other: string[]): number[] {
+  const matches = new Array<number>(base.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  for (const change of diffArrays(base, other)) {
+    const count = change.count ?? change.value.length;
+    if (change.added) {
+      j += count;
+    } else if (change.removed) {
+      i += count;
+    } else {
+      for (let k = 0; k < count; k++) matches[i + k] = j + k;
+      i += count;
+      j += count;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Line-based three-way merge (diff3). Regions changed on only one side take
+ * that side; regions changed identically on both sides merge cleanly; the
+ * rest are conflicts.
+ */
+export function threeWayMerge(base: string, ours: string, theirs: string, options: MergeOptions = {}): MergeResult {
+  if (ours === theirs) return { text: ours, conflicts: [] };
+  if (base === ours) return { text: theirs, conflicts: [] };
+  if (base === theirs) return { text: ours, conflicts: [] };
+
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+  const ourMatch = matchLines(baseLines, ourLines);
+  const theirMatch = matchLines(baseLines, theirLines);
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let i = 0;
+  let a = 0;
+  let b = 0;
+
+  while (i < baseLines.length || a < ourLines.length || b < theirLines.length) {
+    // Stable run: the base line is unchanged on both sides
+    if (i < baseLines.length && ourMatch[i] === a && theirMatch[i] === b) {
+      output.push(baseLines[i]);
+      i++; a++; b++;
+      continue;
+    }
+
+    // Next base line both sides kept; everything before it is one changed region
+    let next = i;
+    while (next < baseLines.length && (ourMatch[next] < a || theirMatch[next] < b || ourMatch[next] === -1 || theirMatch[next] === -1)) {
+      next++;
+    }
+    const ourEnd = next < baseLines.length ? ourMatch[next] : ourLines.length;
+    const theirEnd = next < baseLines.length ? theirMatch[next] : theirLines.length;
+
+    const baseChunk = baseLines.slice(i, next);
+    const ourChunk = ourLines.slice(a, ourEnd);
+    const theirChunk = theirLines.slice(b, theirEnd);
+
+    if (sameLines(ourChunk, baseChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      output.push(...ourChunk);
+    } else {
+      conflicts.push({ line: output.length + 1, base: baseChunk, ours: ourChunk, theirs: theirChunk });
+      if (options.conflictStyle === 'markers') {
+        output.push(`<<<<<<< ${options.oursLabel ?? 'ours'}`, ...ourChunk, '=======', ...theirChunk, `>>>>>>> ${options.theirsLabel ?? 'theirs'}`);
+      } else {
+        output.push(...ourChunk);
+      }
+    }
+
+    i = next;
+    a = ourEnd;
+    b = theirEnd;
+  }
+
+  return { text: output.join('\n'), conflicts };
+}
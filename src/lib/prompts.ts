@@ -159,11 +159,14 @@ When writing user-facing text (outside of tool inputs/outputs), follow the "Sim"
 
 ## Editing Existing Apps
 
-When modifying apps, use \`web_fs_find\` with filters, read just what you need via \`web_fs_read\`, prefer \`code_edit_ast\`, preserve style/structure, and finish with \`validate_project\`.
+When modifying apps, use \`web_fs_find\` with filters (or \`web_fs_grep\` to locate a symbol or string), read just what you need via \`web_fs_read\`, prefer \`code_edit_ast\`, preserve style/structure, and finish with \`validate_project\`.
 
 ### Code Modification Best Practices
 - Prefer AST edits for TS/JS and update the app's \`styles.css\` for styling tweaks.
+- For multi-line or multi-file changes, send one unified diff via \`web_fs_patch\` instead of rewriting whole files; it applies all-or-nothing.
+- JSX actions in \`code_edit_ast\` need a selector that matches exactly one element (e.g. \`button[aria-label="Save"]\`, \`Header > h1\`, \`div:nth(2)\`); if it reports candidates, refine the selector and retry.
 - Keep changes tight while preserving imports and exported APIs.
+- If the app has \`*.test.ts(x)\` files (or you change pure logic worth covering), run \`run_tests\` with its \`appId\` and fix failing tests before finishing.
 - Stay token-efficient with pagination/filters.
 - Validate TypeScript and linting after changes.
 
@@ -357,7 +360,11 @@ const handleAIGeneration = async () => {
 - Ask for confirmation before duplicating apps
 
 ### Package Management
-- Use \`web_exec\` only for package manager commands (e.g., \`pnpm add <pkg>\`, \`pnpm install\`)
+- Use \`web_exec\` only for package manager commands (e.g., \`pnpm add <pkg>\`, \`pnpm install\`); dev/build/start/preview servers and watchers are rejected
 - **Wait for web_exec result** (includes exitCode) before proceeding
+- If web_exec returns \`running: true\`, follow it with \`process_tail\` (set \`waitSeconds\` to wait for it to finish); use \`process_kill\` if it is clearly stuck
 - If install fails (non‑zero exitCode), report the error and suggest fixes or alternatives
+- Commands, their working directory and the paths file tools write or delete are checked against a workspace policy. A result with \`policyViolation\` means nothing ran: switch to an allowed alternative, or, if \`approvable\`, tell the user they can allow it once from the chat and wait
+- Deleting files or apps, removing packages and (if the user turned it on) overwriting existing files may wait for the user to approve them in the chat. A result with \`denied: true\` means the user declined and nothing changed: do not retry it unless they ask
+- In review mode the user accepts or rejects each hunk of web_fs_write, web_fs_patch and code_edit_ast changes before they are written. \`rejected: true\` means nothing was written; \`rejectedHunks\`, \`rejectedFiles\` or \`partiallyAcceptedFiles\` mean only part of your change landed, so read the file again before editing it further
 `;
@@ -0,0 +1,184 @@
+import type { WebContainerProcess } from '@webcontainer/api';
+
+// Processes started by the agent's web_exec tool. Each one gets an id, a hard
+// timeout and a capped output buffer, so a tool call can return while the
+// command keeps running and the model (or the user, from the tool card) can
+// follow or kill it later.
+
+export type AgentProcessStatus = 'running' | 'exited' | 'killed' | 'timed_out';
+
+export type AgentProcessInfo = {
+  id: string;
+  command: string;
+  cwd?: string;
+  toolCallId?: string;
+  status: AgentProcessStatus;
+  exitCode: number | null;
+  startedAt: number;
+  endedAt: number | null;
+  timeoutMs: number;
+};
+
+type OutputListener = (chunk: string) => void;
+
+type AgentProcessEntry = {
+  info: AgentProcessInfo;
+  proc: WebContainerProcess;
+  output: string;
+  timer: ReturnType<typeof setTimeout> | null;
+  done: Promise<void>;
+  markDone: () => void;
+  listeners: Set<OutputListener>;
+};
+
+export const DEFAULT_PROCESS_TIMEOUT_MS = 10 * 60_000;
+const MAX_OUTPUT_CHARS = 256 * 1024;
+// Finished processes kept for process_list and the tool cards
+const MAX_FINISHED = 20;
+
+const processes = new Map<string, AgentProcessEntry>();
+const changeListeners = new Set<() => void>();
+let counter = 0;
+
+function notifyChange() {
+  for (const listener of changeListeners) {
+    try { listener(); } catch {}
+  }
+}
+
+function pruneFinished() {
+  const finished = [...processes.values()].filter((entry) => entry.info.status !== 'running');
+  for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED))) {
+    processes.delete(entry.info.id);
+  }
+}
+
+// Info objects are replaced, never mutated, so React can compare snapshots
+function finish(entry: AgentProcessEntry, status: AgentProcessStatus, exitCode: number | null) {
+  if (entry.info.status !== 'running') {
+    if (exitCode !== null && entry.info.exitCode === null) {
+      entry.info = { ...entry.info, exitCode };
+      notifyChange();
+    }
+    return;
+  }
+  if (entry.timer) clearTimeout(entry.timer);
+  entry.timer = null;
+  entry.info = { ...entry.info, status, exitCode, endedAt: Date.now() };
+  entry.markDone();
+  pruneFinished();
+  notifyChange();
+}
+
+function append(entry: AgentProcessEntry, chunk: string) {
+  if (!chunk) return;
+  const next = entry.output + chunk;
+  entry.output = next.length > MAX_OUTPUT_CHARS ? next.slice(next.length - MAX_OUTPUT_CHARS) : next;
+  for (const listener of entry.listeners) {
+    try { listener(chunk); } catch {}
+  }
+}
+
+/** Starts tracking a spawned process; it is killed once `timeoutMs` elapses. */
+export function trackAgentProcess(
+  proc: WebContainerProcess,
+  opts: { command: string; cwd?: string; toolCallId?: string; timeoutMs?: number },
+): AgentProcessInfo {
+  counter += 1;
+  const id = `proc_${counter}`;
+  let markDone: () => void = () => {};
+  const done = new Promise<void>((resolve) => { markDone = resolve; });
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_PROCESS_TIMEOUT_MS;
+  const entry: AgentProcessEntry = {
+    info: {
+      id,
+      command: opts.command,
+      cwd: opts.cwd,
+      toolCallId: opts.toolCallId,
+      status: 'running',
+      exitCode: null,
+      startedAt: Date.now(),
+      endedAt: null,
+      timeoutMs,
+    },
+    proc,
+    output: '',
+    timer: null,
+    done,
+    markDone,
+    listeners: new Set(),
+  };
+  processes.set(id, entry);
+  entry.timer = setTimeout(() => { killAgentProcess(id, 'timed_out'); }, timeoutMs);
+
+  void proc.output.pipeTo(new WritableStream<string>({
+    write(chunk) {
+      append(entry, chunk);
+    },
+  })).catch(() => {});
+  void proc.exit.then(
+    (code) => finish(entry, 'exited', code),
+    () => finish(entry, 'exited', null),
+  );
+
+  notifyChange();
+  return entry.info;
+}
+
+/** Resolves once the process finishes or `waitMs` elapses, whichever is first. */
+export async function waitForAgentProcess(id: string, waitMs: number): Promise<AgentProcessInfo | null> {
+  const entry = processes.get(id);
+  if (!entry) return null;
+  if (entry.info.status === 'running' && waitMs > 0) {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    await Promise.race([entry.done, new Promise<void>((resolve) => { timer = setTimeout(resolve, waitMs); })]);
+    if (timer) clearTimeout(timer);
+  }
+  return entry.info;
+}
+
+export function killAgentProcess(id: string, status: 'killed' | 'timed_out' = 'killed'): AgentProcessInfo | null {
+  const entry = processes.get(id);
+  if (!entry) return null;
+  if (entry.info.status === 'running') {
+    try { entry.proc.kill(); } catch {}
+    append(entry, status === 'timed_out'
+      ? `\n[killed after ${Math.round(entry.info.timeoutMs / 1000)}s timeout]\n`
+      : '\n[killed]\n');
+    finish(entry, status, null);
+  }
+  return entry.info;
+}
+
+export function getAgentProcess(id: string): AgentProcessInfo | null {
+  return processes.get(id)?.info ?? null;
+}
+
+export function findAgentProcessByToolCall(toolCallId: string): AgentProcessInfo | null {
+  for (const entry of processes.values()) {
+    if (entry.info.toolCallId === toolCallId) return entry.info;
+  }
+  return null;
+}
+
+/** Newest first. */
+export function listAgentProcesses(): AgentProcessInfo[] {
+  return [...processes.values()].map((entry) => entry.info).reverse();
+}
+
+export function getAgentProcessOutput(id: string): string {
+  return processes.get(id)?.output ?? '';
+}
+
+export function subscribeAgentProcessOutput(id: string, listener: OutputListener): () => void {
+  const entry = processes.get(id);
+  if (!entry) return () => {};
+  entry.listeners.add(listener);
+  return () => { entry.listeners.delete(listener); };
+}
+
+/** Fires when a process starts or finishes. */
+export function subscribeAgentProcesses(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => { changeListeners.delete(listener); };
+}
@@ -0,0 +1,187 @@
+// App bundle format: gzip(ustar) containing app.manifest.json plus the app
+// files. Manifests from schemaVersion 2 list a sha256 per file; the store
+// records sha256(app.manifest.json) as manifestHash, so a bundle can be
+// verified end to end. Legacy bundles are gzip(zip) with an unhashed manifest.
+
+import { createTar, readTar } from './tar';
+
+export type AppManifest = {
+  // 1: legacy zip bundles; 2: tar bundles with per-file hashes
+  schemaVersion: 1 | 2;
+  id: string;
+  name: string;
+  icon?: string;
+  entry: string;
+  dependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  tags?: string[];
+  description?: string;
+  // Bundle path -> sha256 hex (schemaVersion 2)
+  files?: Record<string, string>;
+};
+
+export type AppBundle = {
+  format: 'tar' | 'zip';
+  manifest: AppManifest;
+  manifestBytes: Uint8Array;
+  // Paths as stored in the bundle (e.g. src/apps/<id>/index.tsx), manifest excluded
+  files: Record<string, Uint8Array>;
+};
+
+export const MANIFEST_PATH = 'app.manifest.json';
+export const MAX_BUNDLE_BYTES = 20 * 1024 * 1024;
+export const MAX_UNPACKED_BYTES = 64 * 1024 * 1024;
+export const MAX_BUNDLE_FILES = 2000;
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const input = bytes.slice().buffer; // ensure ArrayBuffer, not ArrayBufferLike
+  const buf = await crypto.subtle.digest('SHA-256', input);
+  return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Rejects absolute paths, drive letters, backslashes and "." / ".." segments
+export function safeBundlePath(name: string): string {
+  const path = name.replace(/^\.\//, '');
+  const invalid =
+    !path ||
+    path.includes('\0') ||
+    path.includes('\\') ||
+    path.startsWith('/') ||
+    /^[A-Za-z]:/.test(path) ||
+    path.split('/').some((segment) => segment === '..' || segment === '.' || segment === '');
+  if (invalid) throw new Error(`Invalid bundle: unsafe path "${name}"`);
+  return path;
+}
+
+async function gunzipBundle(bytes: Uint8Array): Promise<Uint8Array> {
+  if (bytes.byteLength > MAX_BUNDLE_BYTES) {
+    throw new Error(`Invalid bundle: ${bytes.byteLength} bytes exceeds the ${MAX_BUNDLE_BYTES} byte limit`);
+  }
+  if (bytes.byteLength < 18 || bytes[0] !== 0x1f || bytes[1] !== 0x8b) {
+    throw new Error('Invalid bundle: not gzip data');
+  }
+  // ISIZE trailer (uncompressed size mod 2^32) lets us refuse obvious bombs before inflating
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(bytes.byteLength - 4, true) > MAX_UNPACKED_BYTES) {
+    throw new Error('Invalid bundle: uncompressed size exceeds limit');
+  }
+  const fflate = await import('fflate');
+  const raw = fflate.gunzipSync(bytes);
+  if (raw.byteLength > MAX_UNPACKED_BYTES) throw new Error('Invalid bundle: uncompressed size exceeds limit');
+  return raw;
+}
+
+function isZip(bytes: Uint8Array): boolean {
+  return bytes.byteLength >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+async function unzipLegacy(raw: Uint8Array): Promise<Record<string, Uint8Array>> {
+  const fflate = await import('fflate');
+  let count = 0;
+  let total = 0;
+  return fflate.unzipSync(raw, {
+    filter: (file) => {
+      count++;
+      total += file.originalSize;
+      if (count > MAX_BUNDLE_FILES) throw new Error(`Invalid bundle: more than ${MAX_BUNDLE_FILES} files`);
+      if (total > MAX_UNPACKED_BYTES) throw new Error('Invalid bundle: uncompressed size exceeds limit');
+      // Directory entries carry no content
+      return !file.name.endsWith('/');
+    },
+  });
+}
+
+/**
+ * Unpacks a bundle (tar or legacy zip) with size, count and path checks.
+ * Does not verify hashes; see verifyAppBundle.
+ */
+export async function readAppBundle(bundleBytes: Uint8Array): Promise<AppBundle> {
+  const raw = await gunzipBundle(bundleBytes);
+  const format: AppBundle['format'] = isZip(raw) ? 'zip' : 'tar';
+
+  let entries: Array<[string, Uint8Array]>;
+  if (format === 'zip') {
+    entries = Object.entries(await unzipLegacy(raw));
+  } else {
+    entries = readTar(raw, { maxEntries: MAX_BUNDLE_FILES, maxTotalBytes: MAX_UNPACKED_BYTES })
+      .map((entry) => [entry.path, entry.data]);
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  let manifestBytes: Uint8Array | null = null;
+  for (const [name, data] of entries) {
+    const path = safeBundlePath(name);
+    if (path === MANIFEST_PATH) {
+      manifestBytes = data;
+      continue;
+    }
+    if (Object.prototype.hasOwnProperty.call(files, path)) throw new Error(`Invalid bundle: duplicate entry "${path}"`);
+    files[path] = data;
+  }
+  if (!manifestBytes) throw new Error(`Invalid bundle: missing ${MANIFEST_PATH}`);
+
+  let manifest: AppManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes)) as AppManifest;
+  } catch {
+    throw new Error(`Invalid bundle: ${MANIFEST_PATH} is not valid JSON`);
+  }
+  if (!manifest || typeof manifest.id !== 'string' || typeof manifest.entry !== 'string') {
+    throw new Error(`Invalid bundle: ${MANIFEST_PATH} is missing id or entry`);
+  }
+
+  return { format, manifest, manifestBytes, files };
+}
+
+/**
+ * Checks the manifest against the store's manifestHash (when known) and every
+ * file against the manifest's sha256 list. Legacy manifests without a file
+ * list can only be checked against manifestHash.
+ */
+export async function verifyAppBundle(bundle: AppBundle, expectedManifestHash?: string | null): Promise<void> {
+  if (expectedManifestHash) {
+    const actual = await sha256Hex(bundle.manifestBytes);
+    if (actual !== expectedManifestHash.toLowerCase()) {
+      throw new Error('Bundle verification failed: manifest hash does not match the store record');
+    }
+  }
+
+  const hashes = bundle.manifest.files;
+  if (!hashes) {
+    if (bundle.manifest.schemaVersion >= 2) throw new Error('Bundle verification failed: manifest has no file hashes');
+    return;
+  }
+  for (const path of Object.keys(bundle.files)) {
+    if (!hashes[path]) throw new Error(`Bundle verification failed: ${path} is not listed in the manifest`);
+  }
+  for (const [path, hash] of Object.entries(hashes)) {
+    const data = bundle.files[path];
+    if (!data) throw new Error(`Bundle verification failed: ${path} is missing`);
+    if ((await sha256Hex(data)) !== hash) throw new Error(`Bundle verification failed: ${path} hash mismatch`);
+  }
+}
+
+/**
+ * Builds gzip(ustar) with the manifest first and files in sorted order, and
+ * fills manifest.files with their sha256 hashes.
+ */
+export async function writeAppBundle(
+  manifest: AppManifest,
+  files: Record<string, Uint8Array>,
+): Promise<{ tarGz: Uint8Array; manifest: AppManifest; manifestBytes: Uint8Array }> {
+  const paths = Object.keys(files).map(safeBundlePath).sort();
+  const hashes: Record<string, string> = {};
+  for (const path of paths) hashes[path] = await sha256Hex(files[path]);
+
+  const fullManifest: AppManifest = { ...manifest, schemaVersion: 2, files: hashes };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(fullManifest, null, 2));
+  const tar = createTar([
+    { path: MANIFEST_PATH, data: manifestBytes },
+    ...paths.map((path) => ({ path, data: files[path] })),
+  ]);
+
+  const fflate = await import('fflate');
+  const tarGz = fflate.gzipSync(tar, { level: 6 });
+  return { tarGz, manifest: fullManifest, manifestBytes };
+}
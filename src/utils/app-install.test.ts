@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { isInstallableDependency } from './app-install';
+
+describe('isInstallableDependency', () => {
+  it('accepts registry names with semver ranges or dist-tags', () => {
+    expect(isInstallableDependency('zustand', '^4.5.0')).toBe(true);
+    expect(isInstallableDependency('@tanstack/react-query', '>=5 <6')).toBe(true);
+    expect(isInstallableDependency('date-fns', '2.x || 3.0.0 - 3.6.0')).toBe(true);
+    expect(isInstallableDependency('lodash.debounce', 'latest')).toBe(true);
+  });
+
+  it('rejects names pnpm would read as flags or that break the npm name rule', () => {
+    for (const name of ['--global', '-w', '.hidden', '_private', 'React', '../escape', '@scope/../x', 'a'.repeat(215)]) {
+      expect(isInstallableDependency(name, '^1.0.0')).toBe(false);
+    }
+  });
+
+  it('rejects non-registry specs', () => {
+    for (const spec of ['file:../evil', 'git+https://example.com/x.git', 'https://example.com/x.tgz', 'link:../x', 'workspace:*', 'github:user/repo', '--global', '1.0.0 -w', 'npm:other@1']) {
+      expect(isInstallableDependency('left-pad', spec)).toBe(false);
+    }
+  });
+});
@@ -1,7 +1,53 @@
 import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
+import { threeWayMerge } from '@/lib/code-edit/threeWayMerge';
+import { readAppBundle, verifyAppBundle, type AppBundle, type AppManifest } from './app-bundle';
+import { isSemverRange, satisfiesRange } from '../../convex/semver';
 
 type FS = WebContainerAPI['fs'];
 
+// Where an installed app came from; lets the App Store detect and apply updates
+export type InstalledAppSource = {
+  // apps_public document id in the store
+  storeId: string;
+  version: string;
+  installedAt: number;
+};
+
+export type RegistryEntry = {
+  id: string;
+  name: string;
+  icon?: string;
+  path: string;
+  source?: InstalledAppSource;
+};
+
+export type BundleVerification = {
+  // sha256 of app.manifest.json as recorded by the store (X-Manifest-Hash)
+  manifestHash?: string | null;
+};
+
+export type UpgradeFileStatus = 'updated' | 'merged' | 'added' | 'removed' | 'conflict';
+
+export type UpgradeConflict = {
+  path: string;
+  reason: 'both-modified' | 'modified-locally-removed-upstream' | 'removed-locally-modified-upstream' | 'binary-modified';
+  // Conflicting regions (both-modified only); the local side was kept for each
+  hunks?: number;
+};
+
+export type UpgradeResult = {
+  id: string;
+  fromVersion: string | null;
+  toVersion: string;
+  files: Array<{ path: string; status: UpgradeFileStatus }>;
+  conflicts: UpgradeConflict[];
+  // False when the installed version's bundle was unavailable, so every local difference counts as a conflict
+  merged: boolean;
+  dependencies: DependencyReport;
+};
+
+const REGISTRY_PATH = '/public/apps/registry.json';
+
 async function ensureDir(fs: FS, dir: string) {
   try {
     await fs.mkdir(dir, { recursive: true });
@@ -25,28 +71,170 @@ async function readJSON<T>(fs: FS, path: string): Promise<T | null> {
   }
 }
 
-export async function installAppFromBundle(instance: WebContainerAPI, bundleBytes: Uint8Array) {
+async function readBytes(fs: FS, path: string): Promise<Uint8Array | null> {
+  try {
+    return await fs.readFile(path);
+  } catch {
+    return null;
+  }
+}
+
+// Unpacks (tar or legacy zip) and verifies hashes before anything touches the filesystem
+async function readVerifiedBundle(bundleBytes: Uint8Array, verification: BundleVerification = {}): Promise<AppBundle> {
+  const bundle = await readAppBundle(bundleBytes);
+  await verifyAppBundle(bundle, verification.manifestHash);
+  for (const name of Object.keys(bundle.files)) {
+    if (!appRelativePath(name, bundle.manifest.id)) {
+      throw new Error(`Invalid bundle: ${name} is outside src/apps/`);
+    }
+  }
+  return bundle;
+}
+
+// Path relative to the app folder (null for files outside src/apps/)
+function appRelativePath(name: string, manifestId: string): string | null {
+  const exactPrefix = `src/apps/${manifestId}/`;
+  if (name.startsWith(exactPrefix)) return name.slice(exactPrefix.length);
+  if (name.startsWith('src/apps/')) return name.slice('src/apps/'.length);
+  return null;
+}
+
+function bundleAppFiles(bundle: AppBundle): Map<string, Uint8Array> {
+  const out = new Map<string, Uint8Array>();
+  for (const [name, content] of Object.entries(bundle.files)) {
+    const rel = appRelativePath(name, bundle.manifest.id);
+    if (rel) out.set(rel, content);
+  }
+  return out;
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  for (let i = 0; i < a.byteLength; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+// UTF-8 text or null for binary content
+function decodeText(bytes: Uint8Array): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+async function readRegistry(fs: FS): Promise<RegistryEntry[]> {
+  const existing = await readJSON<RegistryEntry[]>(fs, REGISTRY_PATH);
+  return Array.isArray(existing) ? existing : [];
+}
+
+export type DependencyReport = {
+  ok: boolean;
+  // Already installed at a version the app accepts
+  satisfied: string[];
+  // name@range added because the desktop did not have them
+  added: string[];
+  // Installed version was outside the app's range and was replaced
+  updated: Array<{ name: string; from: string; to: string }>;
+  // Outside the app's range but left alone because the desktop itself runs on them
+  skipped: Array<{ name: string; installed: string; wanted: string }>;
+  // Not valid npm names or version specs; never passed to pnpm
+  rejected: Array<{ name: string; wanted: string }>;
+  error?: string;
+};
+
+// Changing these under the running desktop would break every other app
+const PROTECTED_PACKAGES = new Set(['react', 'react-dom', 'vite', 'typescript']);
+
+// npm package-name rule: lowercase, URL-safe, no leading dot, underscore or dash
+const PACKAGE_NAME_PATTERN = /^(?:@[a-z0-9~][a-z0-9._~-]*\/)?[a-z0-9~][a-z0-9._~-]*$/;
+const DIST_TAG_PATTERN = /^[a-z][a-z0-9._-]*$/i;
+// Characters a semver range can contain; rules out URLs, paths and protocol specs
+const RANGE_CHARS_PATTERN = /^[0-9a-z.*^~<>=|+\s-]*$/i;
+
+// Manifests come from the store, so only registry names with semver ranges or dist-tags are installed
+export function isInstallableDependency(name: string, wanted: string): boolean {
+  if (name.length > 214 || !PACKAGE_NAME_PATTERN.test(name)) return false;
+  if (typeof wanted !== 'string' || wanted.length > 256) return false;
+  const spec = wanted.trim();
+  if (DIST_TAG_PATTERN.test(spec)) return true;
+  if (!RANGE_CHARS_PATTERN.test(spec) || /(^|\s)-\S/.test(spec)) return false;
+  return isSemverRange(spec);
+}
+
+/**
+ * Diffs the manifest's dependencies against the desktop and runs a single
+ * `pnpm add` for the missing or incompatible ones. Failures are reported, not
+ * thrown, since the app files are already in place.
+ */
+async function syncDependencies(instance: WebContainerAPI, manifest: AppManifest): Promise<DependencyReport> {
   const fs = instance.fs as FS;
-  // Our bundle format is gzip(zip(files...)) per packaging util
-  const fflate = await import('fflate');
-  const unGz = fflate.gunzipSync(bundleBytes);
-  const files = fflate.unzipSync(unGz);
-
-  // Find manifest first
-  const manifestEntry = files['app.manifest.json'];
-  if (!manifestEntry) throw new Error('Invalid bundle: missing app.manifest.json');
-  const manifestText = fflate.strFromU8(manifestEntry);
-  const manifest = JSON.parse(manifestText) as {
-    id: string; name: string; icon?: string; entry: string;
-    dependencies?: Record<string,string>; peerDependencies?: Record<string,string>; devDependencies?: Record<string,string>;
-  };
+  const report: DependencyReport = { ok: true, satisfied: [], added: [], updated: [], skipped: [], rejected: [] };
+  const pkg = (await readJSON<{ dependencies?: Record<string, string>; devDependencies?: Record<string, string> }>(fs, '/package.json')) ?? {};
+  const declared: Record<string,string> = { ...(pkg.dependencies||{}), ...(pkg.devDependencies||{}) };
+
+  const toAdd: string[] = [];
+  for (const [name, wanted] of Object.entries(manifest.dependencies || {})) {
+    if (!isInstallableDependency(name, wanted)) {
+      report.rejected.push({ name, wanted: String(wanted) });
+      continue;
+    }
+    const installed = (await readJSON<{ version?: string }>(fs, `/node_modules/${name}/package.json`))?.version;
+    if (!installed) {
+      if (declared[name]) {
+        // Declared but not installed yet (install still running); trust the declaration
+        report.satisfied.push(name);
+      } else {
+        toAdd.push(`${name}@${wanted}`);
+        report.added.push(`${name}@${wanted}`);
+      }
+      continue;
+    }
+    // Non-range specifiers (tags, URLs) cannot be checked; an installed copy is good enough
+    if (satisfiesRange(installed, wanted) !== false) {
+      report.satisfied.push(name);
+    } else if (PROTECTED_PACKAGES.has(name)) {
+      report.skipped.push({ name, installed, wanted });
+    } else {
+      toAdd.push(`${name}@${wanted}`);
+      report.updated.push({ name, from: installed, to: wanted });
+    }
+  }
+
+  if (report.rejected.length > 0) report.ok = false;
+  if (toAdd.length > 0) {
+    const proc = await instance.spawn('pnpm', ['add', ...toAdd, '--reporter', 'silent', '--color=false']);
+    const exit = await proc.exit;
+    if (exit !== 0) {
+      report.ok = false;
+      report.error = `pnpm add failed for: ${toAdd.join(', ')}`;
+    }
+  }
+  return report;
+}
+
+export function describeDependencyReport(report: DependencyReport): string {
+  const parts: string[] = [];
+  if (report.added.length) parts.push(`added ${report.added.join(', ')}`);
+  if (report.updated.length) parts.push(`updated ${report.updated.map((u) => `${u.name} ${u.from} → ${u.to}`).join(', ')}`);
+  if (report.skipped.length) parts.push(`kept ${report.skipped.map((u) => `${u.name}@${u.installed} (app wants ${u.wanted})`).join(', ')}`);
+  if (report.rejected.length) parts.push(`refused ${report.rejected.map((r) => `${r.name}@${r.wanted}`).join(', ')} (not a registry package with a version range or tag)`);
+  if (report.error) parts.push(report.error);
+  return parts.length ? parts.join('; ') : 'all dependencies already installed';
+}
+
+export async function installAppFromBundle(
+  instance: WebContainerAPI,
+  bundleBytes: Uint8Array,
+  source?: Omit<InstalledAppSource, 'installedAt'>,
+  verification?: BundleVerification,
+) {
+  const fs = instance.fs as FS;
+  const { manifest, files } = await readVerifiedBundle(bundleBytes, verification);
 
   // Resolve target path and handle duplicate ids
   let targetId = manifest.id;
-  const registryPath = '/public/apps/registry.json';
-  let registry: Array<{ id: string; name: string; icon?: string; path: string }> = [];
-  const existing = await readJSON<typeof registry>(fs, registryPath);
-  if (existing) registry = existing;
+  const registry = await readRegistry(fs);
   const existingIds = new Set(registry.map(r => r.id));
   let counter = 1;
   while (existingIds.has(targetId)) {
@@ -58,50 +246,192 @@ export async function installAppFromBundle(instance: WebContainerAPI, bundleByte
 
   // Write files under src/apps/<id> without duplicating nested <id>/<id>
   for (const [name, content] of Object.entries(files)) {
-    if (name === 'app.manifest.json') continue;
-    let fullPath: string;
-    const exactPrefix = `src/apps/${manifest.id}/`;
-    if (name.startsWith(exactPrefix)) {
-      const rest = name.slice(exactPrefix.length);
-      fullPath = `/src/apps/${targetId}/${rest}`;
-    } else if (name.startsWith('src/apps/')) {
-      const rest = name.slice('src/apps/'.length);
-      fullPath = `/src/apps/${targetId}/${rest}`;
-    } else {
-      fullPath = `/${name}`;
-    }
+    const fullPath = `/src/apps/${targetId}/${appRelativePath(name, manifest.id)}`;
     const dir = fullPath.split('/').slice(0, -1).join('/');
-  await ensureDir(fs, dir);
+    await ensureDir(fs, dir);
     await writeFile(fs, fullPath, content);
   }
 
   // Update registry
-  const entry = { id: targetId, name: manifest.name, icon: manifest.icon || '📦', path: manifest.entry.replace(`/src/apps/${manifest.id}/`, `/src/apps/${targetId}/`) };
+  const entry: RegistryEntry = { id: targetId, name: manifest.name, icon: manifest.icon || '📦', path: manifest.entry.replace(`/src/apps/${manifest.id}/`, `/src/apps/${targetId}/`) };
+  if (source) entry.source = { ...source, installedAt: Date.now() };
   const nextReg = [...registry, entry];
-  await writeFile(fs, registryPath, JSON.stringify(nextReg, null, 2));
+  await writeFile(fs, REGISTRY_PATH, JSON.stringify(nextReg, null, 2));
 
-  // Compute delta dependencies and install missing
-  const pkgRaw = await fs.readFile('/package.json', 'utf8');
-  const pkg = JSON.parse(pkgRaw) as {
-    dependencies?: Record<string, string>;
-    devDependencies?: Record<string, string>;
-  };
-  const have: Record<string,string> = { ...(pkg.dependencies||{}), ...(pkg.devDependencies||{}) };
-  const need = manifest.dependencies || {};
-  const missing: string[] = [];
-  for (const [dep, ver] of Object.entries(need)) {
-    if (!have[dep]) missing.push(`${dep}@${ver}`);
-  }
-  if (missing.length > 0) {
-    const proc = await instance.spawn('pnpm', ['add', ...missing, '--reporter', 'silent', '--color=false']);
-    const exit = await proc.exit;
-    if (exit !== 0) {
-      throw new Error(`pnpm add failed for: ${missing.join(', ')}`);
+  const dependencies = await syncDependencies(instance, manifest);
+
+  // Auto-open removed; the app will appear in registry and can be launched by the user
+
+  return { id: targetId, entry, dependencies };
+}
+
+/**
+ * Upgrades an installed app in place. Each file is merged three ways between
+ * the installed version's bundle (base), the files on disk (local) and the new
+ * bundle (upstream): untouched files are replaced, local edits are kept, and
+ * overlapping edits keep the local side and are reported as conflicts. Files
+ * the user added are never touched.
+ */
+export async function upgradeInstalledApp(
+  instance: WebContainerAPI,
+  installedId: string,
+  bundleBytes: Uint8Array,
+  baseBundleBytes: Uint8Array | null,
+  source: Omit<InstalledAppSource, 'installedAt'>,
+  verification?: { upstream?: BundleVerification; base?: BundleVerification },
+): Promise<UpgradeResult> {
+  const fs = instance.fs as FS;
+  const registry = await readRegistry(fs);
+  const index = registry.findIndex((r) => r.id === installedId);
+  if (index === -1) throw new Error(`App ${installedId} is not installed`);
+
+  const upstreamBundle = await readVerifiedBundle(bundleBytes, verification?.upstream);
+  const upstream = bundleAppFiles(upstreamBundle);
+  const base = baseBundleBytes ? bundleAppFiles(await readVerifiedBundle(baseBundleBytes, verification?.base)) : null;
+  const appBase = `/src/apps/${installedId}`;
+
+  const files: UpgradeResult['files'] = [];
+  const conflicts: UpgradeConflict[] = [];
+  const writes: Array<{ path: string; content: Uint8Array | string }> = [];
+  const removals: string[] = [];
+
+  for (const [rel, theirs] of upstream) {
+    const path = `${appBase}/${rel}`;
+    const ours = await readBytes(fs, path);
+    const original = base?.get(rel) ?? null;
+
+    if (!ours) {
+      if (original && !sameBytes(original, theirs)) {
+        conflicts.push({ path: rel, reason: 'removed-locally-modified-upstream' });
+        files.push({ path: rel, status: 'conflict' });
+      } else if (!original) {
+        writes.push({ path, content: theirs });
+        files.push({ path: rel, status: 'added' });
+      }
+      continue;
+    }
+    if (sameBytes(ours, theirs)) continue;
+    if (original && sameBytes(ours, original)) {
+      writes.push({ path, content: theirs });
+      files.push({ path: rel, status: 'updated' });
+      continue;
+    }
+    if (original && sameBytes(theirs, original)) continue;
+
+    // Both sides changed (or no base to tell): merge text, keep local binaries
+    const ourText = decodeText(ours);
+    const theirText = decodeText(theirs);
+    const baseText = original ? decodeText(original) : null;
+    if (ourText === null || theirText === null || (original && baseText === null)) {
+      conflicts.push({ path: rel, reason: 'binary-modified' });
+      files.push({ path: rel, status: 'conflict' });
+      continue;
+    }
+    const merge = threeWayMerge(baseText ?? '', ourText, theirText, { conflictStyle: 'ours' });
+    if (merge.text !== ourText) writes.push({ path, content: merge.text });
+    if (merge.conflicts.length > 0) {
+      conflicts.push({ path: rel, reason: 'both-modified', hunks: merge.conflicts.length });
+      files.push({ path: rel, status: 'conflict' });
+    } else {
+      files.push({ path: rel, status: 'merged' });
     }
   }
 
-  // Auto-open removed; the app will appear in registry and can be launched by the user
+  // Files the new version dropped: remove only if the user never edited them
+  for (const [rel, original] of base ?? []) {
+    if (upstream.has(rel)) continue;
+    const path = `${appBase}/${rel}`;
+    const ours = await readBytes(fs, path);
+    if (!ours) continue;
+    if (sameBytes(ours, original)) {
+      removals.push(path);
+      files.push({ path: rel, status: 'removed' });
+    } else {
+      conflicts.push({ path: rel, reason: 'modified-locally-removed-upstream' });
+      files.push({ path: rel, status: 'conflict' });
+    }
+  }
+
+  for (const { path, content } of writes) {
+    await ensureDir(fs, path.split('/').slice(0, -1).join('/'));
+    await writeFile(fs, path, content);
+  }
+  for (const path of removals) {
+    try { await fs.rm(path); } catch {}
+  }
 
-  return { id: targetId, entry };
+  const { manifest } = upstreamBundle;
+  const previous = registry[index];
+  registry[index] = {
+    ...previous,
+    name: manifest.name,
+    icon: manifest.icon || previous.icon || '📦',
+    path: manifest.entry.replace(`/src/apps/${manifest.id}/`, `${appBase}/`),
+    source: { ...source, installedAt: Date.now() },
+  };
+  await writeFile(fs, REGISTRY_PATH, JSON.stringify(registry, null, 2));
+
+  const dependencies = await syncDependencies(instance, manifest);
+
+  return {
+    id: installedId,
+    fromVersion: previous.source?.version ?? null,
+    toVersion: source.version,
+    files,
+    conflicts,
+    merged: base !== null,
+    dependencies,
+  };
+}
+
+async function fetchBundle(storeId: string, version?: string) {
+  const query = version ? `?version=${encodeURIComponent(version)}` : '';
+  const res = await fetch(`/api/store/apps/${storeId}/bundle${query}`);
+  if (!res.ok) throw new Error(`Bundle fetch failed (${res.status})`);
+  return {
+    bytes: new Uint8Array(await res.arrayBuffer()),
+    version: res.headers.get('X-App-Version'),
+    manifestHash: res.headers.get('X-Manifest-Hash'),
+  };
 }
 
+/**
+ * Installs a store app, or upgrades it in place when an app from the same
+ * store listing is already installed. `version` pins an exact release.
+ */
+export async function installOrUpgradeFromStore(instance: WebContainerAPI, storeId: string, version?: string) {
+  const registry = await readRegistry(instance.fs as FS);
+  const installed = registry.find((r) => r.source?.storeId === storeId);
+  const bundle = await fetchBundle(storeId, version);
+  const resolvedVersion = bundle.version ?? version ?? installed?.source?.version ?? '0.0.0';
+
+  if (!installed) {
+    const result = await installAppFromBundle(instance, bundle.bytes, { storeId, version: resolvedVersion }, { manifestHash: bundle.manifestHash });
+    // Install counts feed the store's "installs" sort; signed-out installs are not counted
+    try {
+      await fetch(`/api/store/apps/${storeId}/installs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version: resolvedVersion }),
+      });
+    } catch {}
+    return { kind: 'installed' as const, id: result.id, dependencies: result.dependencies };
+  }
+
+  // The installed release's bundle is the merge base; without it every local difference is a conflict
+  let base: Awaited<ReturnType<typeof fetchBundle>> | null = null;
+  if (installed.source?.version) {
+    try {
+      base = await fetchBundle(storeId, installed.source.version);
+    } catch {}
+  }
+  const result = await upgradeInstalledApp(
+    instance,
+    installed.id,
+    bundle.bytes,
+    base?.bytes ?? null,
+    { storeId, version: resolvedVersion },
+    { upstream: { manifestHash: bundle.manifestHash }, base: { manifestHash: base?.manifestHash } },
+  );
+  return { kind: 'upgraded' as const, id: installed.id, result, dependencies: result.dependencies };
+}
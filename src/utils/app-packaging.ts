@@ -2,7 +2,8 @@
 // This will be used to publish apps to R2 via signed uploads.
 
 import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
-import type { Zippable } from 'fflate';
+import { sha256Hex, writeAppBundle, type AppManifest } from './app-bundle';
+import { isSemverRange } from '../../convex/semver';
 
 type FS = WebContainerAPI['fs'];
 
@@ -37,18 +38,7 @@ async function listFilesRecursive(fs: FS, root: string): Promise<string[]> {
   return results;
 }
 
-export type AppManifest = {
-  schemaVersion: 1;
-  id: string;
-  name: string;
-  icon?: string;
-  entry: string;
-  dependencies?: Record<string, string>;
-  peerDependencies?: Record<string, string>;
-  devDependencies?: Record<string, string>;
-  tags?: string[];
-  description?: string;
-};
+export type { AppManifest };
 
 export type PackageResult = {
   tarGz: Uint8Array;
@@ -56,24 +46,88 @@ export type PackageResult = {
   size: number;
   manifestHash: string;
   depsHash: string;
+  // Bare imports whose package is neither declared nor installed in the container
+  unresolvedImports: string[];
 };
 
-function sha256Hex(bytes: Uint8Array): Promise<string> {
-  const input = bytes.slice().buffer; // ensure ArrayBuffer, not ArrayBufferLike
-  return crypto.subtle.digest('SHA-256', input).then((buf) =>
-    Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, '0')).join('')
-  );
+// Node builtins never belong in a manifest
+const NODE_BUILTINS = new Set([
+  'assert', 'buffer', 'child_process', 'crypto', 'events', 'fs', 'http', 'https', 'module', 'net',
+  'os', 'path', 'process', 'querystring', 'readline', 'stream', 'string_decoder', 'timers', 'tty',
+  'url', 'util', 'vm', 'worker_threads', 'zlib',
+]);
+
+// 'lodash/debounce' -> 'lodash', '@scope/pkg/sub' -> '@scope/pkg'; null for relative, aliased or builtin imports
+export function packageNameFromSpecifier(specifier: string): string | null {
+  if (!specifier || /^(\.|\/|~\/|@\/|node:|https?:|data:|virtual:)/.test(specifier) || specifier.includes('\0')) return null;
+  const parts = specifier.split('/');
+  const name = specifier.startsWith('@') ? (parts.length >= 2 && parts[0].length > 1 ? `${parts[0]}/${parts[1]}` : null) : parts[0];
+  if (!name || NODE_BUILTINS.has(name) || !/^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/i.test(name)) return null;
+  return name;
+}
+
+async function readPackageJson(fs: FS, path: string): Promise<{ version?: string; dependencies?: Record<string, string>; devDependencies?: Record<string, string> } | null> {
+  try {
+    return JSON.parse(await readText(fs, path));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Maps the packages imported by the app's files to version ranges: the range
+ * declared in the container's package.json when it is a real semver range,
+ * otherwise ^ of the version installed in node_modules (what the lockfile
+ * resolved).
+ */
+async function resolveImportedDependencies(fs: FS, files: string[]): Promise<{ dependencies: Record<string, string>; unresolved: string[] }> {
+  const imported = new Set<string>();
+  const importRe = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\(\s*)["']([^"']+)["']/g;
+  for (const filePath of files) {
+    if (!/\.(ts|tsx|js|jsx|mjs|cjs)$/.test(filePath)) continue;
+    let txt: string;
+    try {
+      txt = await readText(fs, filePath);
+    } catch {
+      continue;
+    }
+    let m: RegExpExecArray | null;
+    while ((m = importRe.exec(txt))) {
+      const pkg = packageNameFromSpecifier(m[1].trim());
+      if (pkg) imported.add(pkg);
+    }
+  }
+
+  const hostPkg = (await readPackageJson(fs, '/package.json')) ?? {};
+  const declared: Record<string, string> = { ...(hostPkg.devDependencies || {}), ...(hostPkg.dependencies || {}) };
+  const dependencies: Record<string, string> = {};
+  const unresolved: string[] = [];
+
+  for (const name of Array.from(imported).sort()) {
+    const range = declared[name];
+    if (range && isSemverRange(range)) {
+      dependencies[name] = range;
+      continue;
+    }
+    const installed = (await readPackageJson(fs, `/node_modules/${name}/package.json`))?.version;
+    if (installed) {
+      dependencies[name] = `^${installed}`;
+    } else {
+      unresolved.push(name);
+    }
+  }
+
+  return { dependencies, unresolved };
 }
 
-export async function buildAppTarGz(instance: WebContainerAPI, appId: string, manifest: AppManifest): Promise<PackageResult> {
+export async function buildAppTarGz(instance: WebContainerAPI, appId: string, inputManifest: AppManifest): Promise<PackageResult> {
+  let manifest = inputManifest;
   const fs = instance.fs as FS;
   const appRoot = `/src/apps/${appId}`;
   // Gather files under app root
   const files = await listFilesRecursive(fs, appRoot);
 
-  // Prepare zip tree: use fflate on demand via dynamic import
-  const fflate = await import('fflate');
-  const tree: Zippable = {};
+  const tree: Record<string, Uint8Array> = {};
 
   // Include app files
   for (const filePath of files) {
@@ -87,48 +141,23 @@ export async function buildAppTarGz(instance: WebContainerAPI, appId: string, ma
     tree[rel] = data;
   }
 
-  // Try to improve dependency detection by scanning imports in app files
-  try {
-    const depSet = new Set<string>(Object.keys(manifest.dependencies || {}));
-    const importRe = /from\s+["']([^\.\/@][^"']*)["']|require\(\s*["']([^\.\/@][^"']*)["']\s*\)/g;
-    for (const filePath of files) {
-      if (!/\.(ts|tsx|js|jsx)$/.test(filePath)) continue;
-      const txt = await readText(fs, filePath);
-      let m: RegExpExecArray | null;
-      while ((m = importRe.exec(txt))) {
-        const mod = (m[1] || m[2] || '').trim();
-        if (!mod) continue;
-        // only bare specifiers (no relative/absolute)
-        const pkg = mod.split('/')[0];
-        if (pkg && !depSet.has(pkg)) depSet.add(pkg);
-      }
-    }
-    // Keep existing versions unknown; installer will only add missing declared deps if present in manifest
-    // This scan is informational; we don't auto-pin versions to avoid incorrect guesses.
-  } catch {}
-
-  // Add manifest JSON
-  const manifestPath = 'app.manifest.json';
-  const manifestRel = manifestPath;
-  const manifestBytes = fflate.strToU8(JSON.stringify(manifest, null, 2));
-  tree[manifestRel] = manifestBytes;
-
-  // Create a zip of the folder, then gzip the zip (tar.gz alternative using zip+gzip)
-  // Note: For simplicity and small size, we use zipSync and then gzipSync the zip.
-  // If strict tar.gz is required, switch to an actual tar implementation.
-  const zipped = fflate.zipSync(tree, { level: 6 });
-  const gz = fflate.gzipSync(zipped, { level: 6 });
-
-  const size = gz.byteLength;
-
-  // Hashes
-  const manifestHash = await sha256Hex(manifestBytes);
+  // Record every imported package with the version range the container resolves it to
+  const resolution = await resolveImportedDependencies(fs, files);
+  const dependencies = { ...resolution.dependencies, ...(manifest.dependencies || {}) };
+  manifest = { ...manifest, dependencies };
+
+  // gzip(ustar) with the manifest first; the manifest lists a sha256 for every file
+  const bundle = await writeAppBundle(manifest, tree);
+  const size = bundle.tarGz.byteLength;
+
+  // Hashes (manifestHash covers the file hashes, so it pins the whole bundle)
+  const manifestHash = await sha256Hex(bundle.manifestBytes);
   const depsJson = JSON.stringify({
     dependencies: manifest.dependencies || {},
     peerDependencies: manifest.peerDependencies || {},
     devDependencies: manifest.devDependencies || {},
   });
-  const depsHash = await sha256Hex(fflate.strToU8(depsJson));
+  const depsHash = await sha256Hex(new TextEncoder().encode(depsJson));
 
-  return { tarGz: gz, manifest, size, manifestHash, depsHash };
+  return { tarGz: bundle.tarGz, manifest: bundle.manifest, size, manifestHash, depsHash, unresolvedImports: resolution.unresolved };
 }
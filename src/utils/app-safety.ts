@@ -0,0 +1,428 @@
+// Publish-time static analysis of app bundles. Store apps run inside every
+// installer's desktop, so patterns that execute strings as code, talk to the
+// host or third-party servers, or reach into other apps' storage are reported
+// with the published version. Blocking findings stop the publish.
+
+import * as parser from '@babel/parser';
+import * as t from '@babel/types';
+import type { AppBundle } from './app-bundle';
+
+export type SafetySeverity = 'info' | 'warning' | 'blocking';
+
+export type SafetyRule =
+  | 'dynamic-code'
+  | 'host-message'
+  | 'network'
+  | 'storage'
+  | 'secret'
+  | 'parse-error';
+
+export type SafetyFinding = {
+  rule: SafetyRule;
+  severity: SafetySeverity;
+  file: string;
+  line?: number;
+  message: string;
+  // Source excerpt with string contents and secrets redacted; shown on the public listing
+  snippet?: string;
+};
+
+export type SafetyReport = {
+  // 'block' when any finding is blocking, 'warn' for warnings, else 'pass'
+  status: 'pass' | 'warn' | 'block';
+  findings: SafetyFinding[];
+  scannerVersion: number;
+  scannedAt: number;
+};
+
+export type SafetyScanOptions = {
+  appId: string;
+  // Hosts apps may fetch from directly (exact match or subdomain)
+  fetchAllowlist?: string[];
+};
+
+export const SAFETY_SCANNER_VERSION = 2;
+const MAX_FINDINGS = 100;
+const MAX_SNIPPET_CHARS = 160;
+const SCANNED_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs)$/;
+
+// Message types the host (WebContainer.tsx / Desktop.tsx) handles from apps
+export const KNOWN_HOST_MESSAGE_TYPES = new Set([
+  'AI_REQUEST',
+  'MEDIA_INGEST',
+  'APP_CONSOLE',
+  'APP_RUNTIME_ERROR',
+  'FYOS_OPEN_APP',
+  'FYOS_OPEN_CHAT',
+  'FYOS_INSTALL_APP',
+  'FYOS_REQUEST_DESKTOP_STATE',
+  'FYOS_SET_WALLPAPER',
+  'FYOS_SET_THEME',
+  'FYOS_SET_ICON_SIZE',
+  'FYOS_SET_ANIMATIONS',
+  'FYOS_RESET_WINDOWS',
+  'FYOS_RESET_ICONS',
+]);
+
+// localStorage keys owned by the desktop shell
+const RESERVED_STORAGE_KEY = /^(desktop\.|fyos[-.])/;
+
+const SECRET_PATTERNS: Array<{ pattern: RegExp; label: string; severity: SafetySeverity }> = [
+  { pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/, label: 'private key', severity: 'blocking' },
+  { pattern: /\bAKIA[0-9A-Z]{16}\b/, label: 'AWS access key', severity: 'blocking' },
+  { pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/, label: 'API secret key', severity: 'blocking' },
+  { pattern: /\b(?:sk|rk)_live_[0-9A-Za-z]{20,}/, label: 'Stripe live key', severity: 'blocking' },
+  { pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}/, label: 'GitHub token', severity: 'blocking' },
+  { pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/, label: 'Slack token', severity: 'blocking' },
+  { pattern: /\bAIza[0-9A-Za-z_-]{35}\b/, label: 'Google API key', severity: 'warning' },
+  { pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/, label: 'JSON web token', severity: 'warning' },
+];
+const SECRET_NAME = /(secret|token|api[_-]?key|apikey|password|passwd|private[_-]?key|client[_-]?secret)/i;
+
+const PARSER_PLUGINS: parser.ParserPlugin[] = ['typescript', 'jsx', 'decorators-legacy', 'classProperties', 'dynamicImport'];
+
+function redact(value: string): string {
+  return value.length <= 8 ? '****' : `${value.slice(0, 4)}…${value.slice(-2)} (${value.length} chars)`;
+}
+
+// Excerpts are public, so mask secrets and any string long enough to carry one
+function redactSnippet(excerpt: string): string {
+  let masked = excerpt.replace(/(['"`])((?:\\.|(?!\1)[^\\])*)\1/g, (literal, quote: string, body: string) =>
+    body.length <= 12 ? literal : `${quote}${redact(body)}${quote}`);
+  for (const { pattern } of SECRET_PATTERNS) {
+    masked = masked.replace(new RegExp(pattern.source, 'g'), (match) => redact(match));
+  }
+  return masked;
+}
+
+// Shannon entropy in bits per character; random keys sit well above prose
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+type CallLike = t.CallExpression | t.OptionalCallExpression | t.NewExpression;
+type MemberLike = t.MemberExpression | t.OptionalMemberExpression;
+
+// `a.b` and `a?.b` alike
+function isMemberLike(node: t.Node | null | undefined): node is MemberLike {
+  return t.isMemberExpression(node) || t.isOptionalMemberExpression(node);
+}
+
+function isCallLike(node: t.Node | null | undefined): node is CallLike {
+  return t.isCallExpression(node) || t.isOptionalCallExpression(node) || t.isNewExpression(node);
+}
+
+function isGlobalRef(node: t.Node, name: string): boolean {
+  if (t.isIdentifier(node, { name })) return true;
+  // window.x / globalThis.x / self.x
+  return isMemberLike(node)
+    && !node.computed
+    && t.isIdentifier(node.property, { name })
+    && t.isIdentifier(node.object)
+    && ['window', 'globalThis', 'self'].includes(node.object.name);
+}
+
+// Ways code gets hold of eval/Function without calling it by name: `const F = Function`, `(0, eval)(s)`, `eval.call(null, s)`
+const DYNAMIC_CODE_GLOBALS = ['eval', 'Function'];
+const INVOKING_MEMBERS = new Set(['call', 'apply', 'bind']);
+const TS_VALUE_WRAPPERS = new Set(['TSAsExpression', 'TSSatisfiesExpression', 'TSNonNullExpression', 'TSTypeAssertion']);
+
+// False when `node` sits in a declaration, key, label or type position rather than being read as a value
+function isValueReference(node: t.Identifier, parent: t.Node | null): boolean {
+  if (!parent) return true;
+  if (parent.type.startsWith('TS') && !TS_VALUE_WRAPPERS.has(parent.type)) return false;
+  if (isMemberLike(parent) && parent.property === node && !parent.computed) return false;
+  if ((t.isObjectProperty(parent) || t.isObjectMethod(parent) || t.isClassMethod(parent) || t.isClassProperty(parent)) && parent.key === node && !parent.computed) {
+    return t.isObjectProperty(parent) && parent.shorthand;
+  }
+  if (t.isLabeledStatement(parent) || t.isBreakStatement(parent) || t.isContinueStatement(parent)) return false;
+  if (t.isImportSpecifier(parent) || t.isImportDefaultSpecifier(parent) || t.isExportSpecifier(parent)) return false;
+  return true;
+}
+
+function staticString(node: t.Node | null | undefined): string | null {
+  if (!node) return null;
+  if (t.isStringLiteral(node)) return node.value;
+  if (t.isTemplateLiteral(node) && node.expressions.length === 0) return node.quasis[0]?.value.cooked ?? null;
+  return null;
+}
+
+// Leading static part of a string or template literal (enough to see a URL's host or a key's prefix)
+function staticPrefix(node: t.Node | null | undefined): string | null {
+  if (!node) return null;
+  const full = staticString(node);
+  if (full !== null) return full;
+  if (t.isTemplateLiteral(node)) return node.quasis[0]?.value.cooked ?? null;
+  if (t.isBinaryExpression(node, { operator: '+' })) return staticPrefix(node.left);
+  return null;
+}
+
+function propertyName(node: t.Node): string | null {
+  if (t.isIdentifier(node)) return node.name;
+  if (t.isStringLiteral(node)) return node.value;
+  return null;
+}
+
+function hostAllowed(host: string, allowlist: string[]): boolean {
+  const lower = host.toLowerCase();
+  return allowlist.some((allowed) => lower === allowed || lower.endsWith(`.${allowed}`));
+}
+
+class FileScanner {
+  readonly findings: SafetyFinding[] = [];
+
+  constructor(
+    private readonly file: string,
+    private readonly source: string,
+    private readonly options: Required<SafetyScanOptions>,
+  ) {}
+
+  private add(node: t.Node, rule: SafetyRule, severity: SafetySeverity, message: string, snippet?: string) {
+    const line = node.loc?.start.line;
+    let excerpt = snippet;
+    if (excerpt === undefined && typeof node.start === 'number' && typeof node.end === 'number') {
+      excerpt = redactSnippet(this.source.slice(node.start, node.end).replace(/\s+/g, ' ').trim());
+    }
+    if (excerpt && excerpt.length > MAX_SNIPPET_CHARS) excerpt = `${excerpt.slice(0, MAX_SNIPPET_CHARS)}…`;
+    this.findings.push({ rule, severity, file: this.file, line, message, snippet: excerpt });
+  }
+
+  visit(node: t.Node, parent: t.Node | null) {
+    if (isCallLike(node)) this.checkCall(node);
+    if (t.isIdentifier(node) || isMemberLike(node)) this.checkDynamicCodeReference(node, parent);
+    if (isMemberLike(node)) this.checkStorageMember(node, parent);
+    if (t.isForInStatement(node) && this.isStorage(node.right)) {
+      this.add(node, 'storage', 'warning', 'Enumerates localStorage, which includes every app\'s saved data');
+    }
+    if (t.isStringLiteral(node)) this.checkSecret(node, node.value, parent);
+    if (t.isTemplateElement(node)) this.checkSecret(node, node.value.cooked ?? node.value.raw, parent);
+
+    for (const key of t.VISITOR_KEYS[node.type] ?? []) {
+      const child = (node as unknown as Record<string, unknown>)[key];
+      if (Array.isArray(child)) {
+        for (const item of child) if (item && typeof item === 'object' && 'type' in item) this.visit(item as t.Node, node);
+      } else if (child && typeof child === 'object' && 'type' in child) {
+        this.visit(child as t.Node, node);
+      }
+    }
+  }
+
+  private checkCall(node: CallLike) {
+    const callee = node.callee;
+    const firstArg = node.arguments[0];
+
+    if (isGlobalRef(callee, 'eval')) {
+      this.add(node, 'dynamic-code', 'blocking', 'eval() runs arbitrary strings as code');
+      return;
+    }
+    if (isGlobalRef(callee, 'Function')) {
+      this.add(node, 'dynamic-code', 'blocking', 'Function constructor runs arbitrary strings as code');
+      return;
+    }
+    // (() => {}).constructor('…') reaches the Function constructor through any function
+    if (!t.isNewExpression(node) && isMemberLike(callee) && propertyName(callee.property) === 'constructor' && firstArg && staticPrefix(firstArg) !== null) {
+      this.add(node, 'dynamic-code', 'blocking', '.constructor() with a string body runs it as code');
+      return;
+    }
+    if ((isGlobalRef(callee, 'setTimeout') || isGlobalRef(callee, 'setInterval')) && firstArg && staticPrefix(firstArg) !== null) {
+      this.add(node, 'dynamic-code', 'warning', 'Timer with a string body is evaluated like eval()');
+      return;
+    }
+
+    if (isGlobalRef(callee, 'fetch')) {
+      this.checkFetch(node, firstArg);
+      return;
+    }
+
+    // window.top.postMessage / window.parent.postMessage / top.postMessage / parent.postMessage
+    if (isMemberLike(callee) && t.isIdentifier(callee.property, { name: 'postMessage' })) {
+      const target = isMemberLike(callee.object) ? callee.object.property : callee.object;
+      if (t.isIdentifier(target) && (target.name === 'top' || target.name === 'parent')) {
+        this.checkHostMessage(node, firstArg);
+      }
+      return;
+    }
+
+    if (isMemberLike(callee) && this.isStorage(callee.object)) {
+      const method = propertyName(callee.property);
+      if (method === 'clear') {
+        this.add(node, 'storage', 'blocking', 'localStorage.clear() erases every app\'s saved data and the desktop layout');
+      } else if (method === 'key') {
+        this.add(node, 'storage', 'warning', 'localStorage.key() enumerates keys belonging to other apps');
+      } else if (method === 'getItem' || method === 'setItem' || method === 'removeItem') {
+        this.checkStorageKey(node, firstArg);
+      }
+    }
+
+    // Object.keys(localStorage) / Object.entries(localStorage)
+    if (isMemberLike(callee) && t.isIdentifier(callee.object, { name: 'Object' }) && firstArg && this.isStorage(firstArg)) {
+      this.add(node, 'storage', 'warning', 'Enumerates localStorage, which includes every app\'s saved data');
+    }
+  }
+
+  // eval/Function used as a value rather than called directly (direct calls are reported by checkCall)
+  private checkDynamicCodeReference(node: t.Identifier | MemberLike, parent: t.Node | null) {
+    const name = DYNAMIC_CODE_GLOBALS.find((candidate) => isGlobalRef(node, candidate));
+    if (!name) return;
+    if (t.isIdentifier(node) && !isValueReference(node, parent)) return;
+    if (isCallLike(parent) && parent.callee === node) return;
+    if (t.isBinaryExpression(parent, { operator: 'instanceof' }) && parent.right === node) return;
+    if (t.isUnaryExpression(parent, { operator: 'typeof' })) return;
+    // Function.prototype / eval.name are harmless; eval.call(…) / Function.apply(…) run code
+    if (isMemberLike(parent) && parent.object === node) {
+      const member = parent.computed ? staticString(parent.property) : propertyName(parent.property);
+      if (!member || !INVOKING_MEMBERS.has(member)) return;
+    }
+    this.add(node, 'dynamic-code', 'blocking', `${name === 'eval' ? 'eval' : 'The Function constructor'} is referenced indirectly and can run arbitrary strings as code`);
+  }
+
+  private checkFetch(node: t.Node, urlArg: t.Node | undefined) {
+    const prefix = staticPrefix(urlArg);
+    if (prefix === null) {
+      this.add(node, 'network', 'info', 'fetch() to a computed URL; the destination could not be checked');
+      return;
+    }
+    const match = /^(?:https?:)?\/\/([^/?#:]+)/i.exec(prefix);
+    // Relative URLs stay on the desktop's origin
+    if (!match) return;
+    const host = match[1];
+    if (!hostAllowed(host, this.options.fetchAllowlist)) {
+      this.add(node, 'network', 'warning', `fetch() to ${host}, which is not on the store allowlist`);
+    }
+  }
+
+  private checkHostMessage(node: t.Node, message: t.Node | undefined) {
+    let type: string | null = null;
+    if (message && t.isObjectExpression(message)) {
+      for (const prop of message.properties) {
+        if (t.isObjectProperty(prop) && !prop.computed && propertyName(prop.key) === 'type') {
+          type = staticString(prop.value);
+        }
+      }
+    }
+    if (type === null) {
+      this.add(node, 'host-message', 'warning', 'Posts a message of unknown type to the host window');
+    } else if (!KNOWN_HOST_MESSAGE_TYPES.has(type)) {
+      this.add(node, 'host-message', 'warning', `Posts unrecognized message type "${type}" to the host window`);
+    }
+  }
+
+  private isStorage(node: t.Node): boolean {
+    return isGlobalRef(node, 'localStorage');
+  }
+
+  private checkStorageKey(node: t.Node, keyArg: t.Node | undefined) {
+    const key = staticPrefix(keyArg);
+    if (key === null) return;
+    if (RESERVED_STORAGE_KEY.test(key)) {
+      this.add(node, 'storage', 'warning', `Accesses desktop-owned localStorage key "${key}"`);
+    } else if (key && !key.includes(this.options.appId)) {
+      this.add(node, 'storage', 'info', `localStorage key "${key}" is not namespaced with the app id and may collide with other apps`);
+    }
+  }
+
+  // localStorage['key'] / localStorage.key = ... (property-style access)
+  private checkStorageMember(node: MemberLike, parent: t.Node | null) {
+    if (!this.isStorage(node.object)) return;
+    if (isCallLike(parent) && parent.callee === node) return;
+    const key = node.computed ? staticPrefix(node.property) : propertyName(node.property);
+    if (key === null || key === 'length') return;
+    if (RESERVED_STORAGE_KEY.test(key)) {
+      this.add(node, 'storage', 'warning', `Accesses desktop-owned localStorage key "${key}"`);
+    }
+  }
+
+  private checkSecret(node: t.Node, value: string, parent: t.Node | null) {
+    if (value.length < 16) return;
+    for (const { pattern, label, severity } of SECRET_PATTERNS) {
+      const match = pattern.exec(value);
+      if (match) {
+        this.add(node, 'secret', severity, `Looks like a hard-coded ${label}`, redact(match[0]));
+        return;
+      }
+    }
+    // const apiKey = '…' / { secret: '…' } with a random-looking value
+    let name: string | null = null;
+    if (parent && t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) name = parent.id.name;
+    if (parent && t.isObjectProperty(parent) && parent.value === node) name = propertyName(parent.key);
+    if (parent && t.isAssignmentExpression(parent) && isMemberLike(parent.left)) name = propertyName(parent.left.property);
+    if (name && SECRET_NAME.test(name) && !/\s/.test(value) && entropy(value) >= 3.5) {
+      this.add(node, 'secret', 'warning', `"${name}" is assigned a secret-looking string`, redact(value));
+    }
+  }
+}
+
+function summarize(findings: SafetyFinding[]): SafetyReport['status'] {
+  if (findings.some((f) => f.severity === 'blocking')) return 'block';
+  if (findings.some((f) => f.severity === 'warning')) return 'warn';
+  return 'pass';
+}
+
+export function scanAppSource(file: string, source: string, options: SafetyScanOptions): SafetyFinding[] {
+  const resolved: Required<SafetyScanOptions> = {
+    appId: options.appId,
+    fetchAllowlist: (options.fetchAllowlist ?? []).map((host) => host.trim().toLowerCase()).filter(Boolean),
+  };
+  let ast: t.File;
+  try {
+    ast = parser.parse(source, {
+      sourceType: 'module',
+      allowImportExportEverywhere: true,
+      allowReturnOutsideFunction: true,
+      errorRecovery: true,
+      plugins: PARSER_PLUGINS,
+    });
+  } catch (e) {
+    return [{
+      rule: 'parse-error',
+      severity: 'warning',
+      file,
+      message: `Could not be analyzed: ${e instanceof Error ? e.message : 'parse error'}`,
+    }];
+  }
+  const scanner = new FileScanner(file, source, resolved);
+  scanner.visit(ast.program, null);
+  return scanner.findings;
+}
+
+/**
+ * Scans every script in the bundle. Non-script files are only checked for
+ * secret-like strings (e.g. a JSON config carrying an API key).
+ */
+export function scanAppBundle(bundle: AppBundle, options: SafetyScanOptions): SafetyReport {
+  const decoder = new TextDecoder();
+  const findings: SafetyFinding[] = [];
+
+  for (const path of Object.keys(bundle.files).sort()) {
+    const source = decoder.decode(bundle.files[path]);
+    if (SCANNED_EXTENSIONS.test(path)) {
+      findings.push(...scanAppSource(path, source, options));
+      continue;
+    }
+    if (!/\.(json|txt|md|env|ya?ml|html|css)$/i.test(path)) continue;
+    for (const { pattern, label, severity } of SECRET_PATTERNS) {
+      const match = pattern.exec(source);
+      if (match) {
+        const line = source.slice(0, match.index).split('\n').length;
+        findings.push({ rule: 'secret', severity, file: path, line, message: `Looks like a hard-coded ${label}`, snippet: redact(match[0]) });
+      }
+    }
+  }
+
+  // Blocking findings first so truncation never hides them
+  const rank: Record<SafetySeverity, number> = { blocking: 0, warning: 1, info: 2 };
+  findings.sort((a, b) => rank[a.severity] - rank[b.severity]);
+  return {
+    status: summarize(findings),
+    findings: findings.slice(0, MAX_FINDINGS),
+    scannerVersion: SAFETY_SCANNER_VERSION,
+    scannedAt: Date.now(),
+  };
+}
@@ -0,0 +1,334 @@
+import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
+import type { ConvexHttpClient } from 'convex/browser';
+import { api as convexApi } from '../../convex/_generated/api';
+import { sha256Hex } from './app-bundle';
+import { createDbOpener, requestResult } from './idb';
+import { loadPersistedIndex, persistNow, readPersistedBlobs, recordPersistedChanges, type FileChange } from './vfs-persistence';
+
+// File-level cloud sync of the private desktop.
+//
+// The local side of a sync is the IndexedDB VFS index (path -> sha256). Each
+// device remembers, per account and desktop, the cloud state it last agreed
+// with (`base`: the revision and the hash of every path at it). A sync pulls
+// rows changed since that revision and merges three ways:
+//   - local unchanged since base  -> take the cloud version
+//   - cloud unchanged since base  -> keep local; it is pushed afterwards
+//   - both changed differently    -> conflict, left for the user to resolve
+// Conflicted paths are never pushed or overwritten until resolved.
+
+export type SyncConflict = {
+  path: string;
+  // null when that side deleted the file
+  localHash: string | null;
+  remoteHash: string | null;
+};
+
+export type SyncResolution = 'local' | 'remote';
+
+export type CloudSyncTarget = {
+  client: ConvexHttpClient;
+  instance: WebContainerAPI;
+  // Signed-in user; keeps bases of different accounts in one browser apart
+  accountId: string;
+  desktopId?: string;
+};
+
+export type SyncResult = {
+  revision: number;
+  pulled: number;
+  pushed: number;
+  conflicts: SyncConflict[];
+};
+
+type SyncBase = {
+  key: string;
+  revision: number;
+  files: Record<string, string>;
+  conflicts: SyncConflict[];
+};
+
+const DB_NAME = 'fyos-cloud-sync';
+const DB_VERSION = 1;
+const BASES_STORE = 'bases';
+const DEVICE_ID_KEY = 'fyos.sync.deviceId';
+const DEFAULT_DESKTOP_ID = 'default';
+const COMMIT_BATCH = 200;
+const HASH_BATCH = 100;
+
+// Syncs run one at a time; overlapping ones would read the same base
+let syncChain: Promise<unknown> = Promise.resolve();
+
+const openDb = createDbOpener(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(BASES_STORE)) db.createObjectStore(BASES_STORE, { keyPath: 'key' });
+});
+
+function baseKey(target: Pick<CloudSyncTarget, 'accountId' | 'desktopId'>): string {
+  return `${target.accountId}/${target.desktopId ?? DEFAULT_DESKTOP_ID}`;
+}
+
+async function loadBase(key: string): Promise<SyncBase> {
+  const db = await openDb();
+  const tx = db.transaction(BASES_STORE, 'readonly');
+  const stored = (await requestResult(tx.objectStore(BASES_STORE).get(key))) as SyncBase | undefined;
+  return stored ?? { key, revision: 0, files: {}, conflicts: [] };
+}
+
+async function saveBase(base: SyncBase): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(BASES_STORE, 'readwrite');
+  await requestResult(tx.objectStore(BASES_STORE).put(base));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+export function getDeviceId(): string {
+  try {
+    const existing = window.localStorage.getItem(DEVICE_ID_KEY);
+    if (existing) return existing;
+    const id = typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : `dev_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+    window.localStorage.setItem(DEVICE_ID_KEY, id);
+    return id;
+  } catch {
+    return 'unknown-device';
+  }
+}
+
+function describeDevice(): string {
+  if (typeof navigator === 'undefined') return 'Browser';
+  const ua = navigator.userAgent;
+  const os = /Windows/.test(ua) ? 'Windows'
+    : /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Mac OS X/.test(ua) ? 'macOS'
+    : /Android/.test(ua) ? 'Android'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'Unknown OS';
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  return `${browser} on ${os}`;
+}
+
+async function downloadBlobs(target: CloudSyncTarget, hashes: string[]): Promise<Map<string, Uint8Array>> {
+  const desktopId = target.desktopId ?? DEFAULT_DESKTOP_ID;
+  const out = new Map<string, Uint8Array>();
+  for (const batch of chunk(Array.from(new Set(hashes)), HASH_BATCH)) {
+    const urls = await target.client.query(convexApi.desktops_private.getSyncDownloadUrls, { desktopId, hashes: batch });
+    for (const { hash, url } of urls) {
+      const res = await fetch(url, { cache: 'no-store' });
+      if (!res.ok) throw new Error(`Download failed for ${hash.slice(0, 12)}: ${res.status}`);
+      const data = new Uint8Array(await res.arrayBuffer());
+      if ((await sha256Hex(data)) !== hash) throw new Error(`Downloaded content does not match ${hash.slice(0, 12)}`);
+      out.set(hash, data);
+    }
+  }
+  return out;
+}
+
+async function writeWorkspaceFile(instance: WebContainerAPI, path: string, data: Uint8Array) {
+  const dir = path.split('/').slice(0, -1).join('/');
+  if (dir) {
+    try { await instance.fs.mkdir(dir, { recursive: true }); } catch {}
+  }
+  await instance.fs.writeFile(path, data);
+}
+
+// Writes (hash) or deletes (null) each path with content from the cloud. The
+// VFS index is updated right away: fs.watch reports these writes
+// asynchronously, and a push reading the old hashes would revert them.
+async function applyRemote(target: CloudSyncTarget, updates: Map<string, string | null>): Promise<void> {
+  const hashes = Array.from(updates.values()).filter((hash): hash is string => !!hash);
+  const content = await downloadBlobs(target, hashes);
+  const applied: FileChange[] = [];
+  for (const [path, hash] of updates) {
+    if (hash) {
+      const data = content.get(hash)!;
+      await writeWorkspaceFile(target.instance, path, data);
+      applied.push({ path, hash, data });
+    } else {
+      try { await target.instance.fs.rm(path); } catch {}
+      applied.push({ path, hash: null });
+    }
+  }
+  await recordPersistedChanges(applied);
+}
+
+// When the local VFS index is empty (first boot on this device, or local data
+// was cleared) the base is reset, so the cloud fills the workspace instead of
+// the empty index reading as "delete everything".
+async function pull(target: CloudSyncTarget): Promise<{ pulled: number; conflicts: SyncConflict[] }> {
+  const desktopId = target.desktopId ?? DEFAULT_DESKTOP_ID;
+  const local = await loadPersistedIndex();
+  let base = await loadBase(baseKey(target));
+  if (local.size === 0) base = { key: base.key, revision: 0, files: {}, conflicts: [] };
+
+  const remote: Record<string, string> = { ...base.files };
+  const touched = new Set(base.conflicts.map((c) => c.path));
+  let revision = base.revision;
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await target.client.query(convexApi.desktops_private.listSyncChanges, {
+      desktopId,
+      sinceRevision: base.revision,
+      cursor,
+    });
+    for (const change of page.changes) {
+      if (change.hash) remote[change.path] = change.hash;
+      else delete remote[change.path];
+      touched.add(change.path);
+      revision = Math.max(revision, change.revision);
+    }
+    if (page.isDone) break;
+    cursor = page.continueCursor;
+  }
+
+  const updates = new Map<string, string | null>();
+  const conflicts: SyncConflict[] = [];
+  for (const path of touched) {
+    const localHash = local.get(path)?.hash ?? null;
+    const remoteHash = remote[path] ?? null;
+    const baseHash = base.files[path] ?? null;
+    if (localHash === remoteHash) continue;
+    if (localHash === baseHash && !base.conflicts.some((c) => c.path === path)) {
+      updates.set(path, remoteHash);
+    } else {
+      conflicts.push({ path, localHash, remoteHash });
+    }
+  }
+
+  await applyRemote(target, updates);
+  await saveBase({ key: base.key, revision, files: remote, conflicts });
+  return { pulled: updates.size, conflicts };
+}
+
+// Uploads local changes since the base, skipping conflicted paths
+async function push(target: CloudSyncTarget): Promise<{ pushed: number; stale: number }> {
+  const desktopId = target.desktopId ?? DEFAULT_DESKTOP_ID;
+  const local = await loadPersistedIndex();
+  // An empty index means nothing was saved yet, not that every file was deleted
+  if (local.size === 0) return { pushed: 0, stale: 0 };
+  const base = await loadBase(baseKey(target));
+  const conflicted = new Set(base.conflicts.map((c) => c.path));
+
+  const changes: Array<{ path: string; hash?: string; size?: number }> = [];
+  for (const [path, record] of local) {
+    if (!conflicted.has(path) && base.files[path] !== record.hash) changes.push({ path, hash: record.hash, size: record.size });
+  }
+  for (const path of Object.keys(base.files)) {
+    if (!conflicted.has(path) && !local.has(path)) changes.push({ path });
+  }
+
+  const deviceId = getDeviceId();
+  const deviceLabel = describeDevice();
+  let pushed = 0;
+  let stale = 0;
+  for (const batch of chunk(changes, COMMIT_BATCH)) {
+    const hashes = Array.from(new Set(batch.map((c) => c.hash).filter((hash): hash is string => !!hash)));
+    const contents = await readPersistedBlobs(hashes);
+    for (const hashBatch of chunk(hashes, HASH_BATCH)) {
+      const uploads = await target.client.mutation(convexApi.desktops_private.requestSyncUploads, { desktopId, hashes: hashBatch });
+      for (const { hash, url } of uploads) {
+        const data = contents.get(hash);
+        if (!data) continue;
+        const res = await fetch(url, { method: 'PUT', body: new Uint8Array(data), headers: { 'Content-Type': 'application/octet-stream' } });
+        if (!res.ok) throw new Error(`Upload failed: ${res.status}`);
+      }
+    }
+    // Content that changed again since the index was read is committed on the next sync
+    const ready = batch.filter((c) => !c.hash || contents.has(c.hash));
+    if (ready.length === 0) continue;
+
+    const result = await target.client.mutation(convexApi.desktops_private.commitSyncChanges, {
+      desktopId,
+      deviceId,
+      deviceLabel,
+      baseRevision: base.revision,
+      changes: ready,
+    });
+    const applied = new Set(result.applied);
+    for (const change of ready) {
+      if (!applied.has(change.path)) continue;
+      if (change.hash) base.files[change.path] = change.hash;
+      else delete base.files[change.path];
+    }
+    // Changes from other devices landed in between; pull them before moving past
+    if (result.previousRevision === base.revision) base.revision = result.revision;
+    await saveBase(base);
+    pushed += applied.size;
+    stale += result.stale.length;
+  }
+  return { pushed, stale };
+}
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const next = syncChain.then(task, task);
+  syncChain = next.catch(() => {});
+  return next;
+}
+
+async function runSync(target: CloudSyncTarget): Promise<SyncResult> {
+  await persistNow(target.instance);
+  // Pulled files are already in the index (see applyRemote), so they don't read as local edits
+  let { pulled, conflicts } = await pull(target);
+  const { pushed, stale } = await push(target);
+  if (stale > 0) {
+    // Another device got there first; pulling again turns these into merges or conflicts
+    const again = await pull(target);
+    pulled += again.pulled;
+    conflicts = again.conflicts;
+  }
+  const { revision } = await loadBase(baseKey(target));
+  return { revision, pulled, pushed, conflicts };
+}
+
+/**
+ * Pulls cloud changes since this device's base and merges them into the
+ * workspace without pushing. Used at boot, before local saves are running.
+ */
+export function pullCloudChanges(target: CloudSyncTarget): Promise<{ pulled: number; conflicts: SyncConflict[] }> {
+  return serialize(() => pull(target));
+}
+
+/** Flush local saves, pull and merge, then push. */
+export function syncDesktop(target: CloudSyncTarget): Promise<SyncResult> {
+  return serialize(() => runSync(target));
+}
+
+export async function loadSyncConflicts(target: Pick<CloudSyncTarget, 'accountId' | 'desktopId'>): Promise<SyncConflict[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(BASES_STORE, 'readonly');
+    const stored = (await requestResult(tx.objectStore(BASES_STORE).get(baseKey(target)))) as SyncBase | undefined;
+    return stored?.conflicts ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Settles conflicts: 'local' keeps this device's version (pushed on the next
+ * sync), 'remote' replaces it with the cloud version. Unlisted conflicts stay.
+ */
+export function resolveSyncConflicts(
+  target: CloudSyncTarget,
+  resolutions: Record<string, SyncResolution>,
+): Promise<SyncResult> {
+  return serialize(async () => {
+    const base = await loadBase(baseKey(target));
+    const updates = new Map<string, string | null>();
+    for (const conflict of base.conflicts) {
+      if (resolutions[conflict.path] === 'remote') updates.set(conflict.path, conflict.remoteHash);
+    }
+    await applyRemote(target, updates);
+    base.conflicts = base.conflicts.filter((c) => !resolutions[c.path]);
+    await saveBase(base);
+    return runSync(target);
+  });
+}
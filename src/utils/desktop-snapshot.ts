@@ -3,6 +3,7 @@
 
 import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
 import type { Unzipped } from 'fflate';
+import { sha256Hex } from './app-bundle';
 
 // Exclusions mirror src/utils/vfs-persistence.ts
 const EXCLUDED_DIRS = new Set([
@@ -51,15 +52,6 @@ function toAbsolute(path: string): string {
   return path.startsWith('/') ? path : `/${path}`;
 }
 
-async function sha256Hex(bytes: Uint8Array): Promise<string> {
-  // WebCrypto expects BufferSource (ArrayBuffer/ArrayBufferView bound to ArrayBuffer)
-  const ab = (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength)
-    ? (bytes.buffer as ArrayBuffer)
-    : (bytes.buffer as ArrayBuffer).slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
-  const buf = await crypto.subtle.digest('SHA-256', ab);
-  return Array.from(new Uint8Array(buf)).map(b => b.toString(16).padStart(2, '0')).join('');
-}
-
 export async function buildDesktopSnapshot(instance: WebContainerAPI): Promise<{
   gz: Uint8Array;
   size: number;
@@ -87,10 +79,28 @@ export async function buildDesktopSnapshot(instance: WebContainerAPI): Promise<{
   return { gz, size: gz.byteLength, fileCount: Object.keys(tree).length, contentSha256 };
 }
 
-export async function restoreDesktopSnapshot(instance: WebContainerAPI, gzBytes: Uint8Array): Promise<void> {
+// Relative paths of every file a snapshot would capture
+export async function listDesktopFiles(instance: WebContainerAPI): Promise<string[]> {
+  return listFilesRecursive(instance.fs as FS, '.');
+}
+
+// Unpacks a snapshot without touching the FS; keys are relative paths
+export async function readDesktopSnapshot(gzBytes: Uint8Array): Promise<Unzipped> {
   const fflate = await import('fflate');
-  const unz = fflate.gunzipSync(gzBytes);
-  const files: Unzipped = fflate.unzipSync(unz);
+  return fflate.unzipSync(fflate.gunzipSync(gzBytes));
+}
+
+/**
+ * Writes a snapshot into the FS. With `prune`, files outside excluded dirs
+ * that the snapshot does not contain are removed, so the tree matches the
+ * snapshot exactly instead of being overlaid on top of newer files.
+ */
+export async function restoreDesktopSnapshot(
+  instance: WebContainerAPI,
+  gzBytes: Uint8Array,
+  opts?: { prune?: boolean },
+): Promise<void> {
+  const files = await readDesktopSnapshot(gzBytes);
 
   // Pre-compute directory set
   const dirSet = new Set<string>();
@@ -120,4 +130,12 @@ export async function restoreDesktopSnapshot(instance: WebContainerAPI, gzBytes:
       // ignore write failures
     }
   }
+
+  if (opts?.prune) {
+    const current = await listFilesRecursive(instance.fs as FS, '.');
+    for (const rel of current) {
+      if (Object.prototype.hasOwnProperty.call(files, rel)) continue;
+      try { await instance.fs.rm(toAbsolute(rel)); } catch {}
+    }
+  }
 }
@@ -0,0 +1,48 @@
+// Small IndexedDB helpers shared by the VFS cache, cloud sync bases and
+// restore points. Each database keeps one cached connection.
+
+/**
+ * Returns an opener for `name` that reuses one connection, runs `upgrade` on
+ * version bumps and drops the connection when another tab upgrades the schema.
+ */
+export function createDbOpener(name: string, version: number, upgrade: (db: IDBDatabase) => void): () => Promise<IDBDatabase> {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  return () => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB not available'));
+        return;
+      }
+      const req = indexedDB.open(name, version);
+      req.onupgradeneeded = () => upgrade(req.result);
+      req.onsuccess = () => {
+        const db = req.result;
+        // Another tab upgrading the schema needs this connection closed
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => reject(req.error ?? new Error('Failed to open IndexedDB'));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+  };
+}
+
+export function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request error'));
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction error'));
+  });
+}
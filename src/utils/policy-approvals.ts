@@ -0,0 +1,29 @@
+// One-off approvals the user granted from the chat for actions the agent
+// policy rejected (see lib/agent/agentPolicy). Each approval is used up by the
+// next tool call with the same approval key, and lapses if the agent never
+// retries.
+
+const APPROVAL_TTL_MS = 10 * 60_000;
+
+const granted = new Map<string, number>();
+
+export function grantPolicyApproval(key: string) {
+  granted.set(key, Date.now() + APPROVAL_TTL_MS);
+}
+
+export function hasPolicyApproval(key: string): boolean {
+  const expiresAt = granted.get(key);
+  if (expiresAt === undefined) return false;
+  if (expiresAt < Date.now()) {
+    granted.delete(key);
+    return false;
+  }
+  return true;
+}
+
+/** True (and forgets the approval) when `key` was approved and has not lapsed. */
+export function consumePolicyApproval(key: string): boolean {
+  const ok = hasPolicyApproval(key);
+  granted.delete(key);
+  return ok;
+}
@@ -0,0 +1,45 @@
+// Output of the long-running processes WebContainer.tsx spawns at boot, kept
+// in capped in-memory buffers so the terminal panel can show it live and
+// replay what was printed before it opened.
+
+export type ProcessChannel = 'install' | 'dev';
+
+type Listener = (chunk: string) => void;
+
+const MAX_CHARS = 256 * 1024;
+
+const buffers: Record<ProcessChannel, string> = { install: '', dev: '' };
+const listeners: Record<ProcessChannel, Set<Listener>> = { install: new Set(), dev: new Set() };
+
+export function appendProcessOutput(channel: ProcessChannel, chunk: string) {
+  if (!chunk) return;
+  const next = buffers[channel] + chunk;
+  buffers[channel] = next.length > MAX_CHARS ? next.slice(next.length - MAX_CHARS) : next;
+  for (const listener of listeners[channel]) {
+    try { listener(chunk); } catch {}
+  }
+}
+
+export function getProcessOutput(channel: ProcessChannel): string {
+  return buffers[channel];
+}
+
+// A fresh run (e.g. a restarted dev server) starts from an empty buffer
+export function resetProcessOutput(channel: ProcessChannel, banner?: string) {
+  buffers[channel] = '';
+  if (banner) appendProcessOutput(channel, banner);
+}
+
+export function subscribeProcessOutput(channel: ProcessChannel, listener: Listener): () => void {
+  listeners[channel].add(listener);
+  return () => { listeners[channel].delete(listener); };
+}
+
+/** Sink for `process.output.pipeTo(...)` that records into a channel. */
+export function processOutputSink(channel: ProcessChannel): WritableStream<string> {
+  return new WritableStream<string>({
+    write(chunk) {
+      appendProcessOutput(channel, chunk);
+    },
+  });
+}
@@ -0,0 +1,208 @@
+import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
+import { structuredPatch } from 'diff';
+import { sha256Hex } from './app-bundle';
+import { buildDesktopSnapshot, listDesktopFiles, readDesktopSnapshot, restoreDesktopSnapshot } from './desktop-snapshot';
+import { createDbOpener, requestResult, transactionDone } from './idb';
+
+// Named desktop restore points in IndexedDB.
+//
+// Each point keeps its metadata (label, time, changed files, per-file hashes)
+// in `points` and the gzipped snapshot in `snapshots`, so the timeline can be
+// listed without loading every archive. Only the newest MAX_POINTS are kept.
+
+export type RestorePoint = {
+  id: string;
+  label: string;
+  createdAt: number;
+  // Paths added, modified or removed relative to the point before it
+  changedFiles: string[];
+  // Relative path -> sha256 hex
+  fileHashes: Record<string, string>;
+  fileCount: number;
+  size: number;
+  contentSha256: string;
+};
+
+type SnapshotRecord = {
+  id: string;
+  gz: Uint8Array;
+};
+
+export type RestorePointDiff = {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  binary: boolean;
+  // Unified hunks from the current file to the restore point's version
+  patch?: string;
+  truncated?: boolean;
+};
+
+const DB_NAME = 'fyos-restore-points';
+const DB_VERSION = 1;
+const POINTS_STORE = 'points';
+const SNAPSHOTS_STORE = 'snapshots';
+const MAX_POINTS = 30;
+const MAX_PATCH_LINES = 400;
+const MAX_LABEL_CHARS = 80;
+
+
+const openDb = createDbOpener(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(POINTS_STORE)) {
+    const points = db.createObjectStore(POINTS_STORE, { keyPath: 'id' });
+    points.createIndex('by_createdAt', 'createdAt');
+  }
+  if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+});
+
+function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return `rp_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function diffFileHashes(before: Record<string, string>, after: Record<string, string>): string[] {
+  const changed = new Set<string>();
+  for (const [path, hash] of Object.entries(after)) {
+    if (before[path] !== hash) changed.add(path);
+  }
+  for (const path of Object.keys(before)) {
+    if (!(path in after)) changed.add(path);
+  }
+  return Array.from(changed).sort();
+}
+
+// Collapses a prompt into a single-line timeline label
+export function restorePointLabel(text: string | null | undefined, fallback = 'Agent changes'): string {
+  const line = (text ?? '').replace(/\s+/g, ' ').trim();
+  if (!line) return fallback;
+  return line.length > MAX_LABEL_CHARS ? `${line.slice(0, MAX_LABEL_CHARS - 1)}…` : line;
+}
+
+/** Newest first */
+export async function listRestorePoints(): Promise<RestorePoint[]> {
+  const db = await openDb();
+  const tx = db.transaction(POINTS_STORE, 'readonly');
+  const points = (await requestResult(tx.objectStore(POINTS_STORE).index('by_createdAt').getAll())) as RestorePoint[];
+  return points.reverse();
+}
+
+async function loadSnapshot(id: string): Promise<Uint8Array | null> {
+  const db = await openDb();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  const record = (await requestResult(tx.objectStore(SNAPSHOTS_STORE).get(id))) as SnapshotRecord | undefined;
+  return record?.gz ?? null;
+}
+
+/**
+ * Snapshots the workspace and stores it as a new point. `changedFiles` is
+ * computed against `base` (or the newest point); when nothing changed since
+ * then, no point is written and that point is returned instead.
+ */
+export async function captureRestorePoint(
+  instance: WebContainerAPI,
+  label: string,
+  base?: RestorePoint | null,
+): Promise<RestorePoint> {
+  const { gz, size, fileCount, contentSha256 } = await buildDesktopSnapshot(instance);
+  const files = await readDesktopSnapshot(gz);
+  const fileHashes: Record<string, string> = {};
+  for (const [path, data] of Object.entries(files)) fileHashes[path] = await sha256Hex(data);
+
+  const existing = await listRestorePoints();
+  const previous = base ?? existing[0] ?? null;
+  const changedFiles = previous ? diffFileHashes(previous.fileHashes, fileHashes) : [];
+  if (previous && changedFiles.length === 0) return previous;
+
+  const point: RestorePoint = {
+    id: createId(),
+    label,
+    createdAt: Date.now(),
+    changedFiles,
+    fileHashes,
+    fileCount,
+    size,
+    contentSha256,
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([POINTS_STORE, SNAPSHOTS_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  const pointsStore = tx.objectStore(POINTS_STORE);
+  const snapshotsStore = tx.objectStore(SNAPSHOTS_STORE);
+  pointsStore.put(point);
+  snapshotsStore.put({ id: point.id, gz } satisfies SnapshotRecord);
+  // existing is newest first; keep MAX_POINTS including the new one
+  for (const stale of existing.slice(MAX_POINTS - 1)) {
+    pointsStore.delete(stale.id);
+    snapshotsStore.delete(stale.id);
+  }
+  await done;
+  return point;
+}
+
+export async function restoreToPoint(instance: WebContainerAPI, id: string): Promise<void> {
+  const gz = await loadSnapshot(id);
+  if (!gz) throw new Error('Restore point not found');
+  await restoreDesktopSnapshot(instance, gz, { prune: true });
+}
+
+export async function deleteRestorePoint(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([POINTS_STORE, SNAPSHOTS_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(POINTS_STORE).delete(id);
+  tx.objectStore(SNAPSHOTS_STORE).delete(id);
+  await done;
+}
+
+function decodeText(bytes: Uint8Array): string | null {
+  if (bytes.includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function formatPatch(path: string, before: string, after: string): { patch: string; truncated: boolean } {
+  const { hunks } = structuredPatch(path, path, before, after, 'current', 'restore point', { context: 3 });
+  const lines: string[] = [];
+  for (const hunk of hunks) {
+    lines.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    lines.push(...hunk.lines);
+  }
+  const truncated = lines.length > MAX_PATCH_LINES;
+  return { patch: lines.slice(0, MAX_PATCH_LINES).join('\n'), truncated };
+}
+
+/**
+ * What restoring the point would change: every file that differs between the
+ * current workspace and the point, with a unified diff from current to point.
+ */
+export async function diffRestorePoint(instance: WebContainerAPI, id: string): Promise<RestorePointDiff[]> {
+  const gz = await loadSnapshot(id);
+  if (!gz) throw new Error('Restore point not found');
+  const target = await readDesktopSnapshot(gz);
+
+  const current: Record<string, Uint8Array> = {};
+  for (const path of await listDesktopFiles(instance)) {
+    try { current[path] = await instance.fs.readFile(path); } catch {}
+  }
+
+  const diffs: RestorePointDiff[] = [];
+  const paths = Array.from(new Set([...Object.keys(current), ...Object.keys(target)])).sort();
+  for (const path of paths) {
+    const before = current[path];
+    const after = target[path];
+    if (before && after && (await sha256Hex(before)) === (await sha256Hex(after))) continue;
+
+    const status: RestorePointDiff['status'] = !before ? 'added' : !after ? 'removed' : 'modified';
+    const beforeText = before ? decodeText(before) : '';
+    const afterText = after ? decodeText(after) : '';
+    if (beforeText === null || afterText === null) {
+      diffs.push({ path, status, binary: true });
+      continue;
+    }
+    diffs.push({ path, status, binary: false, ...formatPatch(path, beforeText, afterText) });
+  }
+  return diffs;
+}
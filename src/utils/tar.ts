@@ -0,0 +1,143 @@
+// Minimal POSIX ustar reader/writer for app bundles (regular files only).
+// Paths up to 255 bytes are supported through the ustar prefix field.
+
+export type TarEntry = {
+  path: string;
+  data: Uint8Array;
+  // Unix seconds; defaults to 0 so identical inputs produce identical archives
+  mtime?: number;
+};
+
+export type ReadTarOptions = {
+  maxEntries?: number;
+  // Sum of all file sizes
+  maxTotalBytes?: number;
+};
+
+const BLOCK = 512;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string) {
+  const bytes = encoder.encode(value);
+  if (bytes.length > length) throw new Error(`tar: "${value}" does not fit in ${length} bytes`);
+  header.set(bytes, offset);
+}
+
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number) {
+  // length - 1 digits followed by NUL
+  const digits = value.toString(8).padStart(length - 1, '0');
+  if (digits.length > length - 1) throw new Error(`tar: value ${value} too large for header field`);
+  writeString(header, offset, length, `${digits}\0`);
+}
+
+function readString(header: Uint8Array, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(header: Uint8Array, offset: number, length: number): number {
+  const text = readString(header, offset, length).trim();
+  if (!/^[0-7]*$/.test(text)) throw new Error('tar: invalid numeric header field');
+  return text ? parseInt(text, 8) : 0;
+}
+
+function checksum(header: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 32 : header[i];
+  }
+  return sum;
+}
+
+// Splits a path into ustar name (<=100 bytes) and prefix (<=155 bytes) at a "/"
+function splitPath(path: string): { name: string; prefix: string } {
+  if (encoder.encode(path).length <= 100) return { name: path, prefix: '' };
+  for (let i = path.lastIndexOf('/'); i > 0; i = path.lastIndexOf('/', i - 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (encoder.encode(prefix).length <= 155 && encoder.encode(name).length <= 100) return { name, prefix };
+  }
+  throw new Error(`tar: path too long for ustar: ${path}`);
+}
+
+export function createTar(entries: TarEntry[]): Uint8Array {
+  const blocks: Uint8Array[] = [];
+  let total = 0;
+
+  for (const entry of entries) {
+    const header = new Uint8Array(BLOCK);
+    const { name, prefix } = splitPath(entry.path);
+    writeString(header, 0, 100, name);
+    writeOctal(header, 100, 8, 0o644);
+    writeOctal(header, 108, 8, 0);
+    writeOctal(header, 116, 8, 0);
+    writeOctal(header, 124, 12, entry.data.length);
+    writeOctal(header, 136, 12, Math.floor(entry.mtime ?? 0));
+    header[156] = 0x30; // '0' regular file
+    writeString(header, 257, 6, 'ustar\0');
+    writeString(header, 263, 2, '00');
+    writeString(header, 345, 155, prefix);
+    writeString(header, 148, 8, `${checksum(header).toString(8).padStart(6, '0')}\0 `);
+
+    const padded = Math.ceil(entry.data.length / BLOCK) * BLOCK;
+    const body = new Uint8Array(padded);
+    body.set(entry.data);
+    blocks.push(header, body);
+    total += BLOCK + padded;
+  }
+
+  // End of archive: two zero blocks
+  const out = new Uint8Array(total + BLOCK * 2);
+  let offset = 0;
+  for (const block of blocks) {
+    out.set(block, offset);
+    offset += block.length;
+  }
+  return out;
+}
+
+/**
+ * Reads regular files from a ustar archive. Directory entries are skipped;
+ * links, devices and extension headers are rejected rather than guessed at.
+ */
+export function readTar(bytes: Uint8Array, options: ReadTarOptions = {}): TarEntry[] {
+  const entries: TarEntry[] = [];
+  const maxEntries = options.maxEntries ?? Infinity;
+  const maxTotalBytes = options.maxTotalBytes ?? Infinity;
+  let totalBytes = 0;
+  let offset = 0;
+
+  while (offset + BLOCK <= bytes.length) {
+    const header = bytes.subarray(offset, offset + BLOCK);
+    if (header.every((b) => b === 0)) break;
+
+    if (readOctal(header, 148, 8) !== checksum(header)) {
+      throw new Error(`tar: header checksum mismatch at offset ${offset}`);
+    }
+    if (!readString(header, 257, 6).startsWith('ustar')) {
+      throw new Error('tar: not a ustar archive');
+    }
+
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 345, 155);
+    const path = prefix ? `${prefix}/${name}` : name;
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + BLOCK;
+    if (dataStart + size > bytes.length) throw new Error(`tar: truncated entry ${path}`);
+    offset = dataStart + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === '5') continue;
+    if (type !== '0') throw new Error(`tar: unsupported entry type "${type}" for ${path}`);
+
+    totalBytes += size;
+    if (entries.length + 1 > maxEntries) throw new Error(`tar: more than ${maxEntries} entries`);
+    if (totalBytes > maxTotalBytes) throw new Error(`tar: contents exceed ${maxTotalBytes} bytes`);
+    entries.push({ path, data: bytes.slice(dataStart, dataStart + size), mtime: readOctal(header, 136, 12) });
+  }
+
+  return entries;
+}
@@ -0,0 +1,73 @@
+import { DEFAULT_APPROVAL_SETTINGS, type ApprovalDecision, type ApprovalRequest, type ApprovalSettings } from '@/lib/agent/agentApprovals';
+
+// Tool calls waiting on the user's approve/deny decision, plus the per-device
+// choice of which categories need approval. The agent's tool handler awaits
+// requestToolApproval(); the card in the chat resolves it.
+
+const STORAGE_KEY = 'fyos.agent.approvals.v1';
+
+type PendingApproval = {
+  request: ApprovalRequest;
+  resolve: (decision: ApprovalDecision) => void;
+};
+
+const pending = new Map<string, PendingApproval>();
+const listeners = new Set<() => void>();
+// Bumped on every change so React can re-render on subscription
+let version = 0;
+
+function notify() {
+  version += 1;
+  for (const listener of listeners) {
+    try { listener(); } catch {}
+  }
+}
+
+export function loadApprovalSettings(): ApprovalSettings {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_APPROVAL_SETTINGS, ...(JSON.parse(raw) as Partial<ApprovalSettings>) };
+  } catch {}
+  return { ...DEFAULT_APPROVAL_SETTINGS };
+}
+
+export function saveApprovalSettings(settings: ApprovalSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {}
+}
+
+/** Resolves with the user's decision once they act on the card. */
+export function requestToolApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+  return new Promise<ApprovalDecision>((resolve) => {
+    pending.get(request.toolCallId)?.resolve('denied');
+    pending.set(request.toolCallId, { request, resolve });
+    notify();
+  });
+}
+
+export function resolveToolApproval(toolCallId: string, decision: ApprovalDecision) {
+  const entry = pending.get(toolCallId);
+  if (!entry) return;
+  pending.delete(toolCallId);
+  entry.resolve(decision);
+  notify();
+}
+
+/** Denies everything still waiting, e.g. when the user stops the agent. */
+export function denyAllToolApprovals() {
+  for (const toolCallId of [...pending.keys()]) resolveToolApproval(toolCallId, 'denied');
+}
+
+export function getPendingApproval(toolCallId: string): ApprovalRequest | null {
+  return pending.get(toolCallId)?.request ?? null;
+}
+
+export function getToolApprovalsVersion(): number {
+  return version;
+}
+
+export function subscribeToolApprovals(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
@@ -1,17 +1,55 @@
 import type { WebContainer as WebContainerAPI } from '@webcontainer/api';
+import { sha256Hex } from './app-bundle';
+import { createDbOpener, requestResult, transactionDone } from './idb';
 
-type PersistedVfs = {
+// Local workspace persistence in IndexedDB.
+//
+// Schema v2 is content-addressed: `files` maps each path to the sha256 of its
+// content, `blobs` holds each distinct content once, and `meta` records when
+// the last flush landed. Paths reported by fs.watch are marked dirty and
+// flushed in debounced batches, so a save only reads and writes what changed.
+// Every flush is a single readwrite transaction across all three stores, so a
+// crash or closed tab mid-save leaves the previous state intact.
+//
+// Schema v1 stored the whole tree as one base64 record under vfs/current; it
+// is migrated on first access and then deleted.
+
+type LegacyPersistedVfs = {
   version: 1;
   savedAt: number;
   files: Array<{ path: string; base64: string }>;
 };
 
+type FileRecord = {
+  path: string;
+  hash: string;
+  size: number;
+};
+
+type BlobRecord = {
+  hash: string;
+  data: Uint8Array;
+};
+
+type VfsMeta = {
+  version: 2;
+  savedAt: number;
+  fileCount: number;
+};
+
+// A file to write (content + hash) or a path to delete (null)
+export type FileChange = { path: string; hash: string; data: Uint8Array } | { path: string; hash: null };
+
 const DB_NAME = 'fyos-webcontainer';
-const DB_VERSION = 1;
-const STORE_NAME = 'vfs';
-const STORE_KEY = 'current';
+const DB_VERSION = 2;
+const LEGACY_STORE = 'vfs';
+const LEGACY_KEY = 'current';
+const FILES_STORE = 'files';
+const BLOBS_STORE = 'blobs';
+const META_STORE = 'meta';
+const META_KEY = 'state';
 
-const EXCLUDED_DIRS = new Set([
+export const EXCLUDED_DIRS = new Set([
   'node_modules',
   '.pnpm',
   '.vite',
@@ -27,61 +65,148 @@ const EXCLUDED_DIRS = new Set([
   'tmp',
 ]);
 
-function openDb(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    if (typeof indexedDB === 'undefined') {
-      reject(new Error('IndexedDB not available'));
-      return;
-    }
-    const req = indexedDB.open(DB_NAME, DB_VERSION);
-    req.onupgradeneeded = () => {
-      const db = req.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
-      }
-    };
-    req.onsuccess = () => resolve(req.result);
-    req.onerror = () => reject(req.error ?? new Error('Failed to open IndexedDB'));
-  });
-}
+const FILE_LIMIT = 5000;
+const MAX_DEPTH = 12;
+
+
+const openDb = createDbOpener(DB_NAME, DB_VERSION, (db) => {
+  // The v1 store stays until its data has been migrated
+  if (!db.objectStoreNames.contains(LEGACY_STORE)) db.createObjectStore(LEGACY_STORE);
+  if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE, { keyPath: 'path' });
+  if (!db.objectStoreNames.contains(BLOBS_STORE)) db.createObjectStore(BLOBS_STORE, { keyPath: 'hash' });
+  if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+});
 
-async function idbGet<T>(key: IDBValidKey): Promise<T | null> {
+async function readMeta(): Promise<VfsMeta | null> {
   const db = await openDb();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readonly');
-    const store = tx.objectStore(STORE_NAME);
-    const req = store.get(key);
-    req.onsuccess = () => resolve((req.result as T) ?? null);
-    req.onerror = () => reject(req.error ?? new Error('IndexedDB get error'));
-  });
+  const tx = db.transaction(META_STORE, 'readonly');
+  return ((await requestResult(tx.objectStore(META_STORE).get(META_KEY))) as VfsMeta | undefined) ?? null;
 }
 
-async function idbSet<T>(key: IDBValidKey, value: T): Promise<void> {
+async function readIndex(): Promise<FileRecord[]> {
   const db = await openDb();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    const store = tx.objectStore(STORE_NAME);
-    const req = store.put(value, key);
-    req.onsuccess = () => resolve();
-    req.onerror = () => reject(req.error ?? new Error('IndexedDB put error'));
-  });
+  const tx = db.transaction(FILES_STORE, 'readonly');
+  return (await requestResult(tx.objectStore(FILES_STORE).getAll())) as FileRecord[];
 }
 
-async function idbDel(key: IDBValidKey): Promise<void> {
+/**
+ * Applies file changes in one transaction. Reads the path index first, then
+ * derives every write synchronously inside the success callback so blob
+ * reference bookkeeping cannot interleave with another request. Blobs exist
+ * exactly for the hashes referenced by `files`.
+ */
+async function commitChanges(changes: FileChange[], opts: { replaceAll?: boolean } = {}): Promise<VfsMeta> {
   const db = await openDb();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    const store = tx.objectStore(STORE_NAME);
-    const req = store.delete(key);
-    req.onsuccess = () => resolve();
-    req.onerror = () => reject(req.error ?? new Error('IndexedDB delete error'));
-  });
+  const tx = db.transaction([FILES_STORE, BLOBS_STORE, META_STORE], 'readwrite');
+  const files = tx.objectStore(FILES_STORE);
+  const blobs = tx.objectStore(BLOBS_STORE);
+  const meta: VfsMeta = { version: 2, savedAt: Date.now(), fileCount: 0 };
+  const done = transactionDone(tx);
+
+  const indexReq = files.getAll();
+  indexReq.onsuccess = () => {
+    const index = new Map<string, FileRecord>();
+    for (const record of indexReq.result as FileRecord[]) index.set(record.path, record);
+
+    const refCounts = new Map<string, number>();
+    for (const record of index.values()) refCounts.set(record.hash, (refCounts.get(record.hash) ?? 0) + 1);
+    const newBlobs = new Map<string, Uint8Array>();
+
+    const drop = (path: string) => {
+      const old = index.get(path);
+      if (!old) return;
+      index.delete(path);
+      files.delete(path);
+      refCounts.set(old.hash, (refCounts.get(old.hash) ?? 1) - 1);
+    };
+
+    if (opts.replaceAll) {
+      const keep = new Set(changes.map((change) => change.path));
+      for (const path of Array.from(index.keys())) if (!keep.has(path)) drop(path);
+    }
+
+    for (const change of changes) {
+      if (change.hash === null) {
+        drop(change.path);
+        continue;
+      }
+      const old = index.get(change.path);
+      if (old?.hash === change.hash) continue;
+      if (old) drop(change.path);
+      const record: FileRecord = { path: change.path, hash: change.hash, size: change.data.byteLength };
+      index.set(change.path, record);
+      files.put(record);
+      const refs = refCounts.get(change.hash) ?? 0;
+      // Content not referenced before this change may not be stored yet
+      if (refs <= 0) newBlobs.set(change.hash, change.data);
+      refCounts.set(change.hash, refs + 1);
+    }
+
+    for (const [hash, refs] of refCounts) {
+      if (refs <= 0) blobs.delete(hash);
+    }
+    for (const [hash, data] of newBlobs) {
+      if ((refCounts.get(hash) ?? 0) > 0) blobs.put({ hash, data } satisfies BlobRecord);
+    }
+
+    meta.fileCount = index.size;
+    tx.objectStore(META_STORE).put(meta, META_KEY);
+  };
+  indexReq.onerror = () => tx.abort();
+
+  await done;
+  return meta;
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const len = binary.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+let migration: Promise<void> | null = null;
+
+// Moves a v1 blob into the v2 stores. The legacy record is deleted only after
+// the import commits; an interrupted migration is skipped next time because v2 data exists.
+function migrateLegacyVfs(): Promise<void> {
+  if (migration) return migration;
+  migration = (async () => {
+    const db = await openDb();
+    const legacy = (await requestResult(
+      db.transaction(LEGACY_STORE, 'readonly').objectStore(LEGACY_STORE).get(LEGACY_KEY)
+    )) as LegacyPersistedVfs | undefined;
+    if (!legacy) return;
+
+    const changes: FileChange[] = [];
+    for (const file of legacy.files ?? []) {
+      try {
+        const data = fromBase64(file.base64);
+        changes.push({ path: normalizePath(file.path), hash: await sha256Hex(data), data });
+      } catch {
+        // skip undecodable entries
+      }
+    }
+
+    // Only import into an empty v2 store; newer v2 data always wins
+    const existing = await readMeta();
+    if (!existing && changes.length > 0) {
+      await commitChanges(changes, { replaceAll: true });
+    }
+    const tx = db.transaction(LEGACY_STORE, 'readwrite');
+    tx.objectStore(LEGACY_STORE).delete(LEGACY_KEY);
+    await transactionDone(tx);
+  })();
+  migration.catch(() => { migration = null; });
+  return migration;
 }
 
 export async function hasPersistedVfs(): Promise<boolean> {
   try {
-    const data = await idbGet<PersistedVfs>(STORE_KEY);
-    return !!(data && data.files && data.files.length > 0);
+    await migrateLegacyVfs();
+    const meta = await readMeta();
+    return !!meta && meta.fileCount > 0;
   } catch {
     return false;
   }
@@ -89,127 +214,295 @@ export async function hasPersistedVfs(): Promise<boolean> {
 
 export async function loadPersistedVfsMeta(): Promise<{ fileCount: number; savedAt: number } | null> {
   try {
-    const data = await idbGet<PersistedVfs>(STORE_KEY);
-    if (!data) return null;
-    return { fileCount: data.files.length, savedAt: data.savedAt };
+    await migrateLegacyVfs();
+    const meta = await readMeta();
+    if (!meta) return null;
+    return { fileCount: meta.fileCount, savedAt: meta.savedAt };
   } catch {
     return null;
   }
 }
 
+/** Path -> hash and size of every saved file (empty when nothing is saved) */
+export async function loadPersistedIndex(): Promise<Map<string, { hash: string; size: number }>> {
+  await migrateLegacyVfs();
+  const records = await readIndex();
+  return new Map(records.map((record) => [record.path, { hash: record.hash, size: record.size }]));
+}
+
+/** Saved contents by hash; hashes no longer referenced are left out */
+export async function readPersistedBlobs(hashes: string[]): Promise<Map<string, Uint8Array>> {
+  const db = await openDb();
+  const tx = db.transaction(BLOBS_STORE, 'readonly');
+  const store = tx.objectStore(BLOBS_STORE);
+  const blobs = await Promise.all(hashes.map((hash) => requestResult(store.get(hash)) as Promise<BlobRecord | undefined>));
+  const out = new Map<string, Uint8Array>();
+  for (const blob of blobs) {
+    if (blob) out.set(blob.hash, blob.data);
+  }
+  return out;
+}
+
+/**
+ * Records changes the caller already made on disk (e.g. files pulled from the
+ * cloud) without waiting for fs.watch to report them, so the index is current
+ * as soon as this resolves. Later events for the same paths find nothing new.
+ */
+export async function recordPersistedChanges(changes: FileChange[]): Promise<void> {
+  if (changes.length === 0) return;
+  await migrateLegacyVfs();
+  await commitChanges(changes);
+}
+
 export async function clearPersistedVfs(): Promise<void> {
   try {
-    await idbDel(STORE_KEY);
+    const db = await openDb();
+    const tx = db.transaction([LEGACY_STORE, FILES_STORE, BLOBS_STORE, META_STORE], 'readwrite');
+    for (const name of [LEGACY_STORE, FILES_STORE, BLOBS_STORE, META_STORE]) tx.objectStore(name).clear();
+    await transactionDone(tx);
   } catch {
     // ignore
   }
 }
 
-function toBase64(buffer: Uint8Array): string {
-  let binary = '';
-  const chunkSize = 0x8000;
-  for (let i = 0; i < buffer.length; i += chunkSize) {
-    const chunk = buffer.subarray(i, i + chunkSize);
-    let chunkStr = '';
-    for (let j = 0; j < chunk.length; j++) {
-      chunkStr += String.fromCharCode(chunk[j]);
-    }
-    binary += chunkStr;
-  }
-  return btoa(binary);
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
 }
 
-function fromBase64(base64: string): Uint8Array {
-  const binary = atob(base64);
-  const len = binary.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) bytes[i] = binary.charCodeAt(i);
-  return bytes;
+function isExcluded(path: string): boolean {
+  return path.split('/').some((segment) => EXCLUDED_DIRS.has(segment));
 }
 
-async function walkFiles(instance: WebContainerAPI, root: string, files: string[], maxDepth: number, depth: number): Promise<void> {
-  if (depth > maxDepth) return;
-  let entries: string[] = [];
+async function walkFiles(instance: WebContainerAPI, root: string, files: string[], depth: number): Promise<void> {
+  if (depth > MAX_DEPTH || files.length >= FILE_LIMIT) return;
+  let entries: Array<{ name: string; isDirectory(): boolean }> = [];
   try {
-    entries = await instance.fs.readdir(root);
+    entries = await instance.fs.readdir(root, { withFileTypes: true });
   } catch {
     return;
   }
-  for (const name of entries) {
-    if (EXCLUDED_DIRS.has(name)) continue;
-    const p = root === '.' ? name : `${root}/${name}`;
-    // Check if directory
-    let isDir = false;
+  for (const entry of entries) {
+    if (EXCLUDED_DIRS.has(entry.name)) continue;
+    const p = root === '.' ? entry.name : `${root}/${entry.name}`;
+    if (entry.isDirectory()) {
+      await walkFiles(instance, p, files, depth + 1);
+    } else if (files.length < FILE_LIMIT) {
+      files.push(p);
+    }
+  }
+}
+
+type PathState = { kind: 'file'; data: Uint8Array } | { kind: 'dir' } | { kind: 'missing' };
+
+async function readPath(instance: WebContainerAPI, path: string): Promise<PathState> {
+  try {
+    return { kind: 'file', data: await instance.fs.readFile(path) };
+  } catch {
     try {
-      await instance.fs.readdir(p);
-      isDir = true;
+      await instance.fs.readdir(path);
+      return { kind: 'dir' };
     } catch {
-      isDir = false;
-    }
-    if (isDir) {
-      await walkFiles(instance, p, files, maxDepth, depth + 1);
-    } else {
-      files.push(p);
+      return { kind: 'missing' };
     }
   }
 }
 
-export async function exportVfs(instance: WebContainerAPI, opts?: { maxDepth?: number; fileLimit?: number }): Promise<PersistedVfs> {
-  const maxDepth = opts?.maxDepth ?? 12;
-  const fileLimit = opts?.fileLimit ?? 2000;
+// Full reconcile: every file on disk is hashed, unchanged ones are skipped at commit time
+async function persistFullTree(instance: WebContainerAPI): Promise<VfsMeta> {
+  await migrateLegacyVfs();
   const paths: string[] = [];
-  await walkFiles(instance, '.', paths, maxDepth, 0);
-  const limited = paths.slice(0, fileLimit);
-  const files: Array<{ path: string; base64: string }> = [];
-  for (const p of limited) {
+  await walkFiles(instance, '.', paths, 0);
+  const changes: FileChange[] = [];
+  for (const path of paths) {
     try {
-      const buf = await instance.fs.readFile(p);
-      files.push({ path: p, base64: toBase64(buf) });
+      const data = await instance.fs.readFile(path);
+      changes.push({ path, hash: await sha256Hex(data), data });
     } catch {
-      // ignore
+      // ignore files that vanished mid-walk
     }
   }
-  return { version: 1, savedAt: Date.now(), files };
+  return commitChanges(changes, { replaceAll: true });
 }
 
-export async function persistNow(instance: WebContainerAPI): Promise<void> {
-  const data = await exportVfs(instance);
-  await idbSet(STORE_KEY, data);
+// Incremental flush of paths reported by fs.watch
+async function persistPaths(instance: WebContainerAPI, dirty: Iterable<string>): Promise<VfsMeta | null> {
+  await migrateLegacyVfs();
+  const changes: FileChange[] = [];
+  // Recorded files under these prefixes that were not seen on disk are gone
+  const reconcilePrefixes: string[] = [];
+  const queue = Array.from(dirty);
+  const seen = new Set<string>();
+
+  while (queue.length > 0) {
+    const path = queue.shift() as string;
+    if (seen.has(path)) continue;
+    seen.add(path);
+    const state = await readPath(instance, path);
+    if (state.kind === 'file') {
+      changes.push({ path, hash: await sha256Hex(state.data), data: state.data });
+    } else if (state.kind === 'dir') {
+      // A directory appeared, moved here or changed; its files may not have their own events
+      const nested: string[] = [];
+      await walkFiles(instance, path, nested, path.split('/').length);
+      queue.push(...nested);
+      reconcilePrefixes.push(`${path}/`);
+    } else {
+      // A removed directory takes every file recorded beneath it
+      changes.push({ path, hash: null });
+      reconcilePrefixes.push(`${path}/`);
+    }
+  }
+
+  if (reconcilePrefixes.length > 0) {
+    for (const record of await readIndex()) {
+      if (reconcilePrefixes.some((prefix) => record.path.startsWith(prefix)) && !seen.has(record.path)) {
+        changes.push({ path: record.path, hash: null });
+      }
+    }
+  }
+  if (changes.length === 0) return null;
+  return commitChanges(changes);
 }
 
-let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+type Tracker = {
+  instance: WebContainerAPI;
+  dirty: Set<string>;
+  // Until the first flush the index may not match the tree (fresh mount, missed events)
+  needsFullScan: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  firstDirtyAt: number | null;
+  inFlight: Promise<void> | null;
+  watcher: { close(): void } | null;
+};
+
 const DEBOUNCE_MS = 1000;
+// Continuous writes (e.g. a long agent edit) still flush at least this often
+const MAX_WAIT_MS = 5000;
 
-export function enqueuePersist(instance: WebContainerAPI) {
-  if (debounceTimer !== null) {
-    clearTimeout(debounceTimer);
+let tracker: Tracker | null = null;
+
+async function flushTracker(t: Tracker): Promise<void> {
+  if (t.timer !== null) {
+    clearTimeout(t.timer);
+    t.timer = null;
   }
-  debounceTimer = setTimeout(async () => {
+  // Serialize flushes so an older read never commits after a newer one;
+  // changes arriving meanwhile stay dirty for the next flush
+  while (t.inFlight) await t.inFlight.catch(() => {});
+  const full = t.needsFullScan;
+  const batch = Array.from(t.dirty);
+  if (!full && batch.length === 0) return;
+  t.dirty.clear();
+  t.needsFullScan = false;
+  t.firstDirtyAt = null;
+
+  t.inFlight = (async () => {
     try {
-      await persistNow(instance);
-    } catch {
-      // ignore
+      if (full) await persistFullTree(t.instance);
+      else await persistPaths(t.instance, batch);
+    } catch (e) {
+      // Retry these paths next time instead of losing them
+      if (full) t.needsFullScan = true;
+      for (const path of batch) t.dirty.add(path);
+      throw e;
     }
-    debounceTimer = null;
-  }, DEBOUNCE_MS);
+  })();
+  try {
+    await t.inFlight;
+  } finally {
+    t.inFlight = null;
+  }
+}
+
+function scheduleFlush(t: Tracker) {
+  const now = Date.now();
+  if (t.firstDirtyAt === null) t.firstDirtyAt = now;
+  if (t.timer !== null) clearTimeout(t.timer);
+  const wait = Math.max(0, Math.min(DEBOUNCE_MS, t.firstDirtyAt + MAX_WAIT_MS - now));
+  t.timer = setTimeout(() => {
+    t.timer = null;
+    flushTracker(t).catch(() => {});
+  }, wait);
+}
+
+/**
+ * Starts watching the workspace and flushing changed files to IndexedDB.
+ * Call after the initial mount/restore. The first flush reconciles the whole
+ * tree; later flushes only touch paths reported by fs.watch. Returns a
+ * disposer that stops watching (pending changes are flushed first).
+ */
+export function startVfsPersistence(instance: WebContainerAPI): () => Promise<void> {
+  if (tracker && tracker.instance !== instance) {
+    tracker.watcher?.close();
+    tracker = null;
+  }
+  if (!tracker) {
+    tracker = { instance, dirty: new Set(), needsFullScan: true, timer: null, firstDirtyAt: null, inFlight: null, watcher: null };
+  }
+  const t = tracker;
+  try {
+    t.watcher = instance.fs.watch('.', { recursive: true }, (_event, filename) => {
+      const raw = typeof filename === 'string' ? filename : new TextDecoder().decode(filename);
+      const path = normalizePath(raw);
+      if (!path || isExcluded(path)) return;
+      t.dirty.add(path);
+      scheduleFlush(t);
+    });
+  } catch {
+    // Without fs.watch every flush falls back to a full reconcile
+    t.watcher = null;
+  }
+
+  return async () => {
+    t.watcher?.close();
+    t.watcher = null;
+    try {
+      await flushTracker(t);
+    } catch {}
+    if (tracker === t) tracker = null;
+  };
+}
+
+/**
+ * Flushes pending changes now. With an active tracker only dirty paths are
+ * written; otherwise (or without fs.watch) the whole tree is reconciled.
+ */
+export async function persistNow(instance: WebContainerAPI): Promise<void> {
+  if (tracker && tracker.instance === instance) {
+    if (!tracker.watcher) tracker.needsFullScan = true;
+    await flushTracker(tracker);
+    return;
+  }
+  await persistFullTree(instance);
+}
+
+export function enqueuePersist(instance: WebContainerAPI) {
+  if (tracker && tracker.instance === instance) {
+    if (!tracker.watcher) tracker.needsFullScan = true;
+    scheduleFlush(tracker);
+    return;
+  }
+  void persistFullTree(instance).catch(() => {});
 }
 
 export async function restoreFromPersistence(instance: WebContainerAPI): Promise<boolean> {
   try {
-    const data = await idbGet<PersistedVfs>(STORE_KEY);
-    if (!data || !data.files || data.files.length === 0) return false;
-    // Recreate directories and files
+    await migrateLegacyVfs();
+    const db = await openDb();
+    const tx = db.transaction([FILES_STORE, BLOBS_STORE], 'readonly');
+    const [records, blobs] = await Promise.all([
+      requestResult(tx.objectStore(FILES_STORE).getAll()) as Promise<FileRecord[]>,
+      requestResult(tx.objectStore(BLOBS_STORE).getAll()) as Promise<BlobRecord[]>,
+    ]);
+    if (records.length === 0) return false;
+    const content = new Map(blobs.map((blob) => [blob.hash, blob.data]));
+
+    // Create directories (shallow to deep)
     const dirs = new Set<string>();
-    for (const file of data.files) {
-      const parts = file.path.split('/');
-      if (parts.length > 1) {
-        for (let i = 1; i < parts.length; i++) {
-          const d = parts.slice(0, i).join('/') || '.';
-          if (d !== '.') dirs.add(d);
-        }
-      }
+    for (const record of records) {
+      const parts = record.path.split('/');
+      for (let i = 1; i < parts.length; i++) dirs.add(parts.slice(0, i).join('/'));
     }
-    // Create directories (shallow to deep)
     const sortedDirs = Array.from(dirs).sort((a, b) => a.length - b.length);
     for (const d of sortedDirs) {
       try {
@@ -219,10 +512,11 @@ export async function restoreFromPersistence(instance: WebContainerAPI): Promise
       }
     }
     // Write files
-    for (const f of data.files) {
+    for (const record of records) {
+      const data = content.get(record.hash);
+      if (!data) continue;
       try {
-        const content = fromBase64(f.base64);
-        await instance.fs.writeFile(f.path, content);
+        await instance.fs.writeFile(record.path, data);
       } catch {
         // ignore
       }
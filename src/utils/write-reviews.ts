@@ -0,0 +1,76 @@
+import type { WriteReview, WriteReviewDecision } from '@/lib/agent/agentReview';
+
+// Writes staged in review mode (see lib/agent/agentReview), waiting for the
+// user to accept or reject each hunk from the tool card, plus the per-device
+// review-mode switch.
+
+const STORAGE_KEY = 'fyos.agent.review.v1';
+
+type PendingReview = {
+  review: WriteReview;
+  resolve: (decision: WriteReviewDecision) => void;
+};
+
+const pending = new Map<string, PendingReview>();
+const listeners = new Set<() => void>();
+// Bumped on every change so React can re-render on subscription
+let version = 0;
+
+function notify() {
+  version += 1;
+  for (const listener of listeners) {
+    try { listener(); } catch {}
+  }
+}
+
+export function loadReviewMode(): boolean {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === 'on';
+  } catch {
+    return false;
+  }
+}
+
+export function saveReviewMode(enabled: boolean) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off');
+  } catch {}
+}
+
+/** Resolves with the accepted flag of every hunk once the user submits the card. */
+export function requestWriteReview(review: WriteReview): Promise<WriteReviewDecision> {
+  return new Promise<WriteReviewDecision>((resolve) => {
+    const previous = pending.get(review.toolCallId);
+    previous?.resolve(previous.review.hunks.map(() => false));
+    pending.set(review.toolCallId, { review, resolve });
+    notify();
+  });
+}
+
+export function resolveWriteReview(toolCallId: string, decision: WriteReviewDecision) {
+  const entry = pending.get(toolCallId);
+  if (!entry) return;
+  pending.delete(toolCallId);
+  entry.resolve(decision);
+  notify();
+}
+
+/** Rejects every staged write, e.g. when the user stops the agent. */
+export function rejectAllWriteReviews() {
+  for (const [toolCallId, entry] of [...pending.entries()]) {
+    resolveWriteReview(toolCallId, entry.review.hunks.map(() => false));
+  }
+}
+
+export function getPendingWriteReview(toolCallId: string): WriteReview | null {
+  return pending.get(toolCallId)?.review ?? null;
+}
+
+export function getWriteReviewsVersion(): number {
+  return version;
+}
+
+export function subscribeWriteReviews(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
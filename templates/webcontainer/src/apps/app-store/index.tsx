@@ -7,8 +7,26 @@ type AppRecord = {
   icon?: string;
   description?: string;
   tags?: string[];
+  version?: string;
 };
 
+type VersionRecord = {
+  version: string;
+  changelog?: string;
+  createdAt: number;
+};
+
+// Origin of the host page embedding this app, when the browser exposes it
+function hostOrigin(): string | null {
+  try {
+    const ancestors = window.location.ancestorOrigins
+    if (ancestors && ancestors.length > 0) return ancestors[0]
+    return document.referrer ? new URL(document.referrer).origin : null
+  } catch {
+    return null
+  }
+}
+
 async function fetchJSON<T>(url: string): Promise<T> {
   const res = await fetch(url, { cache: 'no-store' });
   if (!res.ok) throw new Error(`Failed: ${res.status}`);
@@ -20,6 +38,28 @@ export default function AppStore() {
   const [search, setSearch] = useState('')
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [openVersions, setOpenVersions] = useState<string | null>(null)
+  const [versions, setVersions] = useState<Record<string, VersionRecord[]>>({})
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null)
+
+  // The host replies with the install outcome, including any packages it added
+  useEffect(() => {
+    const expectedOrigin = hostOrigin()
+    const onMessage = (e: MessageEvent) => {
+      // Only the host that handled our install request may report its outcome
+      if (e.source !== window.parent || window.parent === window) return
+      if (expectedOrigin && e.origin !== expectedOrigin) return
+      const d = e.data
+      if (!d || d.type !== 'FYOS_INSTALL_APP_RESULT') return
+      const name = apps.find(a => a._id === d.appId)?.name || d.id || 'App'
+      if (d.error) { setStatus({ ok: false, text: `${name}: ${d.error}` }); return }
+      const verb = d.kind === 'upgraded' ? 'updated' : 'installed'
+      const conflicts = Array.isArray(d.conflicts) && d.conflicts.length ? ` Kept local changes in ${d.conflicts.join(', ')}.` : ''
+      setStatus({ ok: !!d.ok, text: `${name} ${verb}: ${d.dependencies}.${conflicts}` })
+    }
+    window.addEventListener('message', onMessage)
+    return () => window.removeEventListener('message', onMessage)
+  }, [apps])
 
   useEffect(() => {
     let mounted = true
@@ -44,6 +84,25 @@ export default function AppStore() {
     return apps.filter(a => a.name.toLowerCase().includes(s) || (a.description||'').toLowerCase().includes(s) || (a.tags||[]).some(t => t.toLowerCase().includes(s)))
   }, [apps, search])
 
+  const install = (id: string, version?: string) => {
+    setStatus(null)
+    try {
+      window.parent?.postMessage({ type: 'FYOS_INSTALL_APP', appId: id, version }, '*')
+    } catch {}
+  }
+
+  const toggleVersions = async (id: string) => {
+    if (openVersions === id) { setOpenVersions(null); return }
+    setOpenVersions(id)
+    if (versions[id]) return
+    try {
+      const data = await fetchJSON<{ versions: VersionRecord[] }>(`/api/store/apps/${id}/versions`)
+      setVersions(prev => ({ ...prev, [id]: data.versions || [] }))
+    } catch {
+      setVersions(prev => ({ ...prev, [id]: [] }))
+    }
+  }
+
   return (
     <div className="h-full overflow-auto">
       <div className="sticky top-0 bg-white/70 backdrop-blur border-b px-3 py-2">
@@ -54,6 +113,12 @@ export default function AppStore() {
           </div>
         </div>
       </div>
+      {status && (
+        <div className={`mx-3 mt-3 text-xs rounded px-2 py-1 flex items-start gap-2 ${status.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700'}`}>
+          <div className="flex-1">{status.text}</div>
+          <button onClick={() => setStatus(null)} aria-label="Dismiss">×</button>
+        </div>
+      )}
       <div className="p-3 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
         {loading && <div className="text-sm text-gray-500">Loading…</div>}
         {error && <div className="text-sm text-red-600">{error}</div>}
@@ -65,19 +130,35 @@ export default function AppStore() {
             <div className="flex items-center gap-2 mb-1">
               <div className="text-lg">{a.icon || '📦'}</div>
               <div className="font-medium truncate" title={a.name}>{a.name}</div>
+              {a.version && <div className="ml-auto text-xs text-gray-500">v{a.version}</div>}
             </div>
             {a.description && <div className="text-xs text-gray-600 line-clamp-2 mb-2">{a.description}</div>}
             <div className="flex items-center gap-2">
               <button
                 className="text-xs px-2 py-1 rounded bg-black text-white"
-                onClick={() => {
-                  try {
-                    window.parent?.postMessage({ type: 'FYOS_INSTALL_APP', appId: a._id }, '*')
-                  } catch {}
-                }}
+                onClick={() => install(a._id)}
               >Install</button>
               <a href={`/api/store/apps/${a._id}/bundle`} target="_blank" className="text-xs px-2 py-1 rounded border">Download</a>
+              <button className="text-xs px-2 py-1 rounded border" onClick={() => toggleVersions(a._id)}>
+                {openVersions === a._id ? 'Hide versions' : 'Versions'}
+              </button>
             </div>
+            {openVersions === a._id && (
+              <div className="mt-2 border-t pt-2 space-y-2">
+                {!versions[a._id] && <div className="text-xs text-gray-500">Loading…</div>}
+                {versions[a._id]?.length === 0 && <div className="text-xs text-gray-500">No version history.</div>}
+                {versions[a._id]?.map(ver => (
+                  <div key={ver.version} className="text-xs">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{ver.version}</span>
+                      <span className="text-gray-500">{new Date(ver.createdAt).toLocaleDateString()}</span>
+                      <button className="ml-auto px-2 py-0.5 rounded border" onClick={() => install(a._id, ver.version)}>Install</button>
+                    </div>
+                    {ver.changelog && <div className="text-gray-600 whitespace-pre-wrap">{ver.changelog}</div>}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         ))}
       </div>
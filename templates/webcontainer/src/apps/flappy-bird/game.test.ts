@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { BIRD_X, CANVAS_HEIGHT, PIPE_GAP, checkCollision } from './game'
+
+describe('checkCollision', () => {
+  it('allows flight in open sky', () => {
+    expect(checkCollision(200, [])).toBe(false)
+  })
+
+  it('collides with the ground and the ceiling', () => {
+    expect(checkCollision(CANVAS_HEIGHT, [])).toBe(true)
+    expect(checkCollision(0, [])).toBe(true)
+  })
+
+  it('passes through a pipe gap', () => {
+    const pipe = { x: BIRD_X, gapY: 150, passed: false }
+    expect(checkCollision(150 + PIPE_GAP / 2, [pipe])).toBe(false)
+  })
+
+  it('hits the top and bottom of a pipe', () => {
+    const pipe = { x: BIRD_X, gapY: 150, passed: false }
+    expect(checkCollision(100, [pipe])).toBe(true)
+    expect(checkCollision(150 + PIPE_GAP, [pipe])).toBe(true)
+  })
+
+  it('ignores pipes that are not level with the bird', () => {
+    const pipe = { x: BIRD_X + 200, gapY: 150, passed: false }
+    expect(checkCollision(100, [pipe])).toBe(false)
+  })
+})
@@ -0,0 +1,38 @@
+// Pure game rules, kept out of the component so they can be unit tested
+
+export interface Pipe {
+  x: number
+  gapY: number
+  passed: boolean
+}
+
+export const BIRD_SIZE = 24
+export const BIRD_X = 80
+export const PIPE_WIDTH = 50
+export const PIPE_GAP = 140
+export const GRAVITY = 0.5
+export const JUMP_STRENGTH = -8
+export const PIPE_SPEED = 2.5
+export const CANVAS_WIDTH = 400
+export const CANVAS_HEIGHT = 500
+
+export function checkCollision(birdYPos: number, currentPipes: Pipe[]): boolean {
+  // Check ground and ceiling
+  if (birdYPos + BIRD_SIZE >= CANVAS_HEIGHT || birdYPos <= 0) {
+    return true
+  }
+
+  // Check pipes
+  for (const pipe of currentPipes) {
+    if (
+      BIRD_X + BIRD_SIZE > pipe.x &&
+      BIRD_X < pipe.x + PIPE_WIDTH
+    ) {
+      if (birdYPos < pipe.gapY || birdYPos + BIRD_SIZE > pipe.gapY + PIPE_GAP) {
+        return true
+      }
+    }
+  }
+
+  return false
+}
@@ -1,22 +1,19 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react'
+import {
+  BIRD_SIZE,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  GRAVITY,
+  JUMP_STRENGTH,
+  PIPE_GAP,
+  PIPE_SPEED,
+  PIPE_WIDTH,
+  checkCollision,
+  type Pipe,
+} from './game'
 
 type GameState = 'ready' | 'playing' | 'gameover'
 
-interface Pipe {
-  x: number
-  gapY: number
-  passed: boolean
-}
-
-const BIRD_SIZE = 24
-const PIPE_WIDTH = 50
-const PIPE_GAP = 140
-const GRAVITY = 0.5
-const JUMP_STRENGTH = -8
-const PIPE_SPEED = 2.5
-const CANVAS_WIDTH = 400
-const CANVAS_HEIGHT = 500
-
 export default function FlappyBird() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [gameState, setGameState] = useState<GameState>('ready')
@@ -53,28 +50,6 @@ export default function FlappyBird() {
     setGameState('ready')
   }, [])
 
-  const checkCollision = useCallback((birdYPos: number, currentPipes: Pipe[]): boolean => {
-    // Check ground and ceiling
-    if (birdYPos + BIRD_SIZE >= CANVAS_HEIGHT || birdYPos <= 0) {
-      return true
-    }
-
-    // Check pipes
-    const birdX = 80
-    for (const pipe of currentPipes) {
-      if (
-        birdX + BIRD_SIZE > pipe.x &&
-        birdX < pipe.x + PIPE_WIDTH
-      ) {
-        if (birdYPos < pipe.gapY || birdYPos + BIRD_SIZE > pipe.gapY + PIPE_GAP) {
-          return true
-        }
-      }
-    }
-
-    return false
-  }, [])
-
   const updateGame = useCallback(() => {
     if (gameState !== 'playing') return
 
@@ -168,7 +143,7 @@ export default function FlappyBird() {
     ctx.closePath()
     ctx.fill()
 
-  }, [gameState, checkCollision, highScore])
+  }, [gameState, highScore])
 
   useEffect(() => {
     if (gameState === 'playing') {
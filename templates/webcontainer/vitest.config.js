@@ -0,0 +1,17 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+// Unit tests for desktop apps: src/apps/<id>/**/*.test.ts(x)
+// Run all with `pnpm test` or one app with `pnpm exec vitest run src/apps/<id>`
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["src/**/*.{test,spec}.{ts,tsx}"],
+    environment: "node",
+    watch: false,
+  },
+})
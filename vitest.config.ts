@@ -0,0 +1,18 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Unit tests live next to the code they cover: src/**/*.test.ts
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  // Tests don't load CSS; skip the Next.js PostCSS config, which Vite can't read
+  css: { postcss: {} },
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+    watch: false,
+  },
+});